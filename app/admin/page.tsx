@@ -0,0 +1,178 @@
+import Link from 'next/link';
+import { Activity, ArrowLeft, Clock, Database, Gift, Play } from 'lucide-react';
+import { pipelineStatus } from '../../utils/catalog';
+import { formatDuration, STALE_AFTER_HOURS, type PipelineRun, type RunStatus, type StepResult } from '../../utils/pipeline';
+
+const when = (iso: string | null | undefined) =>
+  iso ? new Date(iso).toLocaleString('uk-UA', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+const STATUS: Record<RunStatus, { label: string; cls: string }> = {
+  queued:  { label: 'у черзі',    cls: 'bg-slate-100 text-slate-600'    },
+  running: { label: 'виконується', cls: 'bg-indigo-100 text-indigo-700' },
+  ok:      { label: 'успішно',    cls: 'bg-emerald-100 text-emerald-700' },
+  failed:  { label: 'помилка',    cls: 'bg-red-100 text-red-700'        },
+  skipped: { label: 'пропущено',  cls: 'bg-amber-100 text-amber-700'    },
+};
+
+// ── Pieces ────────────────────────────────────────────────────────────────
+function Badge({ status }: { status: RunStatus }) {
+  const s = STATUS[status];
+  return <span className={`px-1.5 py-0.5 rounded ${s.cls}`}>{s.label}</span>;
+}
+
+function Card({ icon, title, children }: { icon: React.ReactNode; title: string; children: React.ReactNode }) {
+  return (
+    <section className="flex-1 min-w-60 rounded border border-slate-200 bg-white p-3 shadow-sm">
+      <h2 className="flex items-center gap-1.5 mb-1.5 text-[10px] uppercase tracking-widest text-slate-500">{icon} {title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function Step({ step }: { step: StepResult }) {
+  const summary = Object.entries(step.summary ?? {}).map(([k, v]) => `${k} ${v}`).join(' · ');
+  return (
+    <details className="group">
+      <summary className="cursor-pointer list-inside">
+        <Badge status={step.status} /> <b>{step.name}</b>
+        {step.status !== 'skipped' && <span className="text-slate-500"> {formatDuration(step.durationMs)}</span>}
+        {step.reason && <span className="text-slate-500"> · {step.reason}</span>}
+        {summary && <span className="text-slate-400"> · {summary}</span>}
+      </summary>
+      {step.output
+        ? <pre className="mt-1 max-h-60 overflow-auto rounded bg-slate-900 p-2 text-[10px] text-slate-200 whitespace-pre-wrap">{step.output}</pre>
+        : <p className="mt-1 text-slate-400">Без виводу</p>}
+    </details>
+  );
+}
+
+function RunRow({ run }: { run: PipelineRun }) {
+  return (
+    <tr className="border-t border-slate-100 align-top">
+      <td className="px-2 py-1.5 tabular-nums text-slate-500">#{run.id}</td>
+      <td className="px-2 py-1.5 whitespace-nowrap">
+        {when(run.startedAt ?? run.requestedAt)}
+        <span className="block text-[10px] text-slate-400">{run.trigger === 'schedule' ? 'за розкладом' : run.requestedBy}</span>
+      </td>
+      <td className="px-2 py-1.5"><Badge status={run.status} /></td>
+      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">
+        {run.durationMs !== undefined ? formatDuration(run.durationMs) : '—'}
+      </td>
+      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">
+        {run.items ? (
+          <span title={Object.entries(run.items.byShop).map(([shop, n]) => `${shop}: ${n}`).join('\n')}>
+            {run.items.products}
+          </span>
+        ) : '—'}
+      </td>
+      <td className="px-2 py-1.5">
+        <div className="flex flex-col gap-0.5">
+          {run.steps.map(s => <Step key={s.name} step={s} />)}
+        </div>
+        {run.errors.map((e, i) => <p key={i} className="text-red-500">{e}</p>)}
+      </td>
+    </tr>
+  );
+}
+
+// ── Page ──────────────────────────────────────────────────────────────────
+/**
+ * Refresh pipeline status: data freshness, whether the worker is alive and
+ * when it runs next, the run history, and a button that queues a run for
+ * the worker (POST /api/admin/runs). Refreshes itself while a run is going.
+ * Needs ADMIN_PASSWORD; the browser asks for it (proxy.ts).
+ */
+export default async function AdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = await searchParams;
+  const status = pipelineStatus(30);
+  const { freshness: f, worker } = status;
+  const active = status.runs.some(r => r.status === 'queued' || r.status === 'running');
+
+  return (
+    <div className="min-h-screen bg-slate-100 font-mono text-[11px]">
+      {active && <meta httpEquiv="refresh" content="10" />}
+      <header className="flex items-center gap-3 px-4 py-2.5 bg-slate-900 border-b border-slate-700 text-white">
+        <Link href="/" className="text-slate-400 hover:text-white" aria-label="До таблиці">
+          <ArrowLeft size={16} />
+        </Link>
+        <Gift size={16} className="text-indigo-400" />
+        <span className="text-sm font-bold tracking-tight">Оновлення даних</span>
+      </header>
+
+      <main className="p-4 lg:p-6 flex flex-col gap-4">
+        <div className="flex flex-wrap gap-4">
+          <Card icon={<Database size={12} />} title="Свіжість даних">
+            <p className={`text-sm font-bold ${f.stale ? 'text-red-600' : 'text-emerald-700'}`}>
+              {f.ageHours === null ? 'ще не оновлювались' : `${formatDuration(f.ageHours * 3_600_000)} тому`}
+            </p>
+            <p className="text-slate-500">Останній знімок цін: {when(f.updatedAt)} · {status.products} товарів</p>
+            {f.stale && <p className="text-red-500">Старші за {STALE_AFTER_HOURS} год</p>}
+          </Card>
+
+          <Card icon={<Activity size={12} />} title="Воркер">
+            {worker ? (
+              <>
+                <p className="text-sm font-bold text-emerald-700">працює</p>
+                <p className="text-slate-500">{worker.owner} · з {when(worker.acquiredAt)}</p>
+                {worker.schedule && (
+                  <p className="text-slate-500">
+                    <Clock size={10} className="inline" /> «{worker.schedule.cron}» · наступний запуск {when(worker.schedule.nextRunAt)}
+                  </p>
+                )}
+              </>
+            ) : (
+              <>
+                <p className="text-sm font-bold text-red-600">не запущено</p>
+                <p className="text-slate-500">Запуски в черзі чекатимуть на <code>npx tsx scripts/worker.ts</code></p>
+              </>
+            )}
+          </Card>
+
+          <Card icon={<Play size={12} />} title="Ручний запуск">
+            <form method="post" action="/api/admin/runs">
+              <button
+                type="submit" disabled={active}
+                className="inline-flex items-center gap-1 px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Play size={12} /> Оновити зараз
+              </button>
+            </form>
+            {params.run && (
+              <p className="mt-1 text-slate-500">
+                {params.busy ? `Запуск #${params.run} уже в роботі` : `Запуск #${params.run} додано в чергу`}
+              </p>
+            )}
+            {status.pipeline && <p className="mt-1 text-slate-500">Виконується: {status.pipeline.owner}</p>}
+          </Card>
+        </div>
+
+        <section className="rounded border border-slate-200 bg-white shadow-sm">
+          <h2 className="px-3 py-2 border-b border-slate-100 text-slate-700 font-bold">Історія запусків</h2>
+          {status.runs.length ? (
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="text-[9px] uppercase text-slate-400">
+                  <th className="px-2 py-1 text-left font-normal">№</th>
+                  <th className="px-2 py-1 text-left font-normal">Початок</th>
+                  <th className="px-2 py-1 text-left font-normal">Статус</th>
+                  <th className="px-2 py-1 text-right font-normal">Тривалість</th>
+                  <th className="px-2 py-1 text-right font-normal">Товарів</th>
+                  <th className="px-2 py-1 text-left font-normal">Кроки та помилки</th>
+                </tr>
+              </thead>
+              <tbody>
+                {status.runs.map(r => <RunRow key={r.id} run={r} />)}
+              </tbody>
+            </table>
+          ) : (
+            <p className="p-6 text-center text-slate-500">Запусків ще не було</p>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
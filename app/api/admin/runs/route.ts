@@ -0,0 +1,31 @@
+import type { NextRequest } from 'next/server';
+import { adminDenied } from '../../../../utils/admin-auth';
+import { pipelineStatus, requestRun } from '../../../../utils/catalog';
+
+// Both methods need ADMIN_PASSWORD (Basic auth); POST also a same-site Origin.
+// proxy.ts checks this first — repeated here so the route never relies on it.
+
+// GET /api/admin/runs?limit= → { freshness, products, worker, pipeline, runs }
+export function GET(request: NextRequest) {
+  const denied = adminDenied(request);
+  if (denied) return denied;
+  const limit = Number(request.nextUrl.searchParams.get('limit') ?? 20);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+    return Response.json({ error: '"limit" must be an integer 1–200' }, { status: 400 });
+  }
+  return Response.json(pipelineStatus(limit));
+}
+
+// POST /api/admin/runs → queues a manual run for the worker.
+// 202 { run } when queued, 409 { run } when one is already queued or running;
+// a plain form post (the admin page) is redirected back to /admin instead.
+export async function POST(request: NextRequest) {
+  const denied = adminDenied(request);
+  if (denied) return denied;
+  const { run, created } = requestRun('admin page');
+  if ((request.headers.get('content-type') ?? '').includes('form')) {
+    const back = new URL(`/admin?run=${run.id}${created ? '' : '&busy=1'}`, request.nextUrl);
+    return Response.redirect(back, 303);
+  }
+  return Response.json({ run }, { status: created ? 202 : 409 });
+}
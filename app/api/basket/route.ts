@@ -0,0 +1,23 @@
+import type { NextRequest } from 'next/server';
+import { CatalogQueryError, parseBasketQuery, scoredRows } from '../../../utils/catalog';
+import { checkConstraints, optimiseBasket } from '../../../utils/basket';
+
+// GET /api/basket?budget=&quantity=&minCategories=&maxPerCategory=
+//                &minPersonalized=&inStock=&maxCopies=&profile=&prior=&priorMean=
+export function GET(request: NextRequest) {
+  try {
+    const { constraints, profile } = parseBasketQuery(request.nextUrl.searchParams);
+    const problem = checkConstraints(constraints);
+    if (problem) return Response.json({ error: problem }, { status: 400 });
+    return Response.json({
+      profile: profile.id,
+      constraints,
+      ...optimiseBasket(scoredRows(profile), constraints),
+    });
+  } catch (e) {
+    if (e instanceof CatalogQueryError) {
+      return Response.json({ error: e.message }, { status: 400 });
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,12 @@
+import { categoryRegistry, listCategories, listShops } from '../../../utils/catalog';
+
+// GET /api/categories → { categories: [{ name, count }], registry, shops: [id], total }
+export function GET() {
+  const categories = listCategories();
+  return Response.json({
+    categories,
+    registry: categoryRegistry(),
+    shops: listShops(),
+    total: categories.reduce((s, c) => s + c.count, 0),
+  });
+}
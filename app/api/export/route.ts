@@ -0,0 +1,29 @@
+import type { NextRequest } from 'next/server';
+import { CatalogQueryError, parseCatalogQuery, queryAll } from '../../../utils/catalog';
+import { EXPORT_FORMATS, exportFileName, exportRows, type ExportFormat } from '../../../utils/export';
+
+// GET /api/export?format=csv|xlsx|json&<any /api/gifts filter and sort params>
+// Every matching row in table order; cursor/limit are ignored.
+export function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const format = (params.get('format') ?? 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return Response.json({ error: `"format" must be one of ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const page = queryAll(parseCatalogQuery(params));
+    const file = exportRows(page.items, format);
+    return new Response(new Uint8Array(file.body), {
+      headers: {
+        'Content-Type':        file.contentType,
+        'Content-Disposition': `attachment; filename="${exportFileName(format)}"`,
+      },
+    });
+  } catch (e) {
+    if (e instanceof CatalogQueryError) {
+      return Response.json({ error: e.message }, { status: 400 });
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,25 @@
+import type { NextRequest } from 'next/server';
+import { CatalogQueryError, getGift, parseProfileQuery } from '../../../../utils/catalog';
+
+// GET /api/gifts/:id?profile=&prior=&priorMean=
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const numericId = Number(id);
+  if (!Number.isInteger(numericId)) {
+    return Response.json({ error: '"id" must be an integer' }, { status: 400 });
+  }
+
+  try {
+    const gift = getGift(numericId, parseProfileQuery(request.nextUrl.searchParams));
+    if (!gift) return Response.json({ error: `Gift ${numericId} not found` }, { status: 404 });
+    return Response.json(gift);
+  } catch (e) {
+    if (e instanceof CatalogQueryError) {
+      return Response.json({ error: e.message }, { status: 400 });
+    }
+    throw e;
+  }
+}
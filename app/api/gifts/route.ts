@@ -0,0 +1,17 @@
+import type { NextRequest } from 'next/server';
+import { CatalogQueryError, parseCatalogQuery, queryCatalog } from '../../../utils/catalog';
+
+// GET /api/gifts?category=&shop=&q=&sort=&dir=&profile=&prior=&priorMean=&grouped=
+//               &minPrice=&maxPrice=&inStock=&personalization=&minStars=&maxDays=
+//               &minReviews=&minPop=&flagged=derank|hide|show&cursor=&limit=
+export function GET(request: NextRequest) {
+  try {
+    const query = parseCatalogQuery(request.nextUrl.searchParams);
+    return Response.json(queryCatalog(query));
+  } catch (e) {
+    if (e instanceof CatalogQueryError) {
+      return Response.json({ error: e.message }, { status: 400 });
+    }
+    throw e;
+  }
+}
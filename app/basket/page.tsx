@@ -0,0 +1,206 @@
+import Link from 'next/link';
+import { ArrowLeft, Gift, ShoppingBasket, Sparkles, Wand2 } from 'lucide-react';
+import { MAX_PRIOR_STRENGTH, PRIOR_MEANS, PRIOR_MEAN_LABEL, SCORING_PROFILES, getScoringProfile } from '../../utils/engine';
+import { CatalogQueryError, parseBasketQuery, scoredRows, type BasketQuery, type Row } from '../../utils/catalog';
+import { MAX_QUANTITY, optimiseBasket, type Basket } from '../../utils/basket';
+import { getShop } from '../../utils/shops';
+
+const uah = (n: number) => `₴${n.toLocaleString('uk-UA')}`;
+
+// ── Pieces ────────────────────────────────────────────────────────────────
+function Field({
+  label, name, value, min = 0, max, step = 1,
+}: {
+  label: string; name: string; value: number | undefined; min?: number; max?: number; step?: number;
+}) {
+  return (
+    <label className="flex flex-col gap-0.5">
+      <span className="text-[10px] uppercase tracking-widest text-slate-500">{label}</span>
+      <input
+        type="number" name={name} defaultValue={value} min={min} max={max} step={step}
+        className="w-28 px-2 py-1 rounded border border-slate-300 bg-white tabular-nums"
+      />
+    </label>
+  );
+}
+
+function Totals({ basket, budget }: { basket: Basket<Row>; budget: number }) {
+  return (
+    <span className="tabular-nums">
+      {basket.count} шт · {uah(basket.totalCost)} з {uah(budget)} ·
+      Σ бал <b>{basket.totalScore.toFixed(3)}</b> · {basket.categories.length} кат.
+    </span>
+  );
+}
+
+function BasketTable({ basket }: { basket: Basket<Row> }) {
+  return (
+    <table className="w-full border-collapse">
+      <thead>
+        <tr className="text-[9px] uppercase text-slate-400">
+          <th className="px-2 py-1 text-left font-normal">Назва</th>
+          <th className="px-2 py-1 text-left font-normal">Категорія</th>
+          <th className="px-2 py-1 text-left font-normal">Магазин</th>
+          <th className="px-2 py-1 text-right font-normal">Ціна</th>
+          <th className="px-2 py-1 text-right font-normal">К-сть</th>
+          <th className="px-2 py-1 text-right font-normal">Бал</th>
+        </tr>
+      </thead>
+      <tbody>
+        {basket.lines.map(({ item, qty }) => (
+          <tr key={item.id} className="border-t border-slate-100">
+            <td className="px-2 py-1">
+              {item.url
+                ? <a href={item.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-indigo-600">{item.name}</a>
+                : item.name}
+              {item.personalization && <span className="ml-1 text-[9px] text-violet-600" title="Персоналізація">✎</span>}
+            </td>
+            <td className="px-2 py-1 text-slate-600">{item.category}</td>
+            <td className="px-2 py-1 text-slate-600">{getShop(item.shop).name}</td>
+            <td className="px-2 py-1 text-right tabular-nums">{uah(item.price)}</td>
+            <td className="px-2 py-1 text-right tabular-nums">×{qty}</td>
+            <td className="px-2 py-1 text-right tabular-nums">{(item.score * qty).toFixed(3)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/** Gift names in `alt` but not in `best` — what the alternative swaps in. */
+function swappedIn(alt: Basket<Row>, best: Basket<Row>): string[] {
+  const ids = new Set(best.lines.map(l => l.item.id));
+  return alt.lines.filter(l => !ids.has(l.item.id)).map(l => l.item.name);
+}
+
+// ── Page ──────────────────────────────────────────────────────────────────
+/**
+ * Budget optimiser: the highest-scoring set of gifts that fits a total
+ * budget and the basket rules. Constraints live in the URL (plain GET form)
+ * so a basket can be shared like the comparison page.
+ */
+export default async function BasketPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const raw    = await searchParams;
+  const params = new URLSearchParams(
+    Object.entries(raw).flatMap(([k, v]) => v === undefined ? [] : [[k, Array.isArray(v) ? v[v.length - 1] : v]]),
+  );
+
+  let query: BasketQuery | null = null;
+  let error: string | null = null;
+  try {
+    query = parseBasketQuery(params);
+  } catch (e) {
+    if (!(e instanceof CatalogQueryError)) throw e;
+    error = e.message;
+  }
+
+  const result = query ? optimiseBasket(scoredRows(query.profile), query.constraints) : null;
+  const c      = query?.constraints;
+  // Prior fields stay empty unless they override the profile's own
+  const prior  = query?.profile.ratingPrior;
+  const own    = query && getScoringProfile(query.profile.id).ratingPrior;
+
+  return (
+    <div className="min-h-screen bg-slate-100 font-mono text-[11px]">
+      <header className="flex items-center gap-3 px-4 py-2.5 bg-slate-900 border-b border-slate-700 text-white">
+        <Link href="/" className="text-slate-400 hover:text-white" aria-label="До таблиці">
+          <ArrowLeft size={16} />
+        </Link>
+        <Gift size={16} className="text-indigo-400" />
+        <span className="text-sm font-bold tracking-tight">Кошик подарунків під бюджет</span>
+      </header>
+
+      <main className="p-4 lg:p-6 flex flex-col gap-4">
+        {/* Constraints */}
+        <form method="get" className="flex flex-wrap items-end gap-3 rounded border border-slate-200 bg-white p-3 shadow-sm">
+          <Field label="Бюджет ₴"          name="budget"          value={c?.budget}          min={1} step={100} />
+          <Field label="Подарунків"        name="quantity"        value={c?.quantity}        min={1} max={MAX_QUANTITY} />
+          <Field label="Мін. категорій"    name="minCategories"   value={c?.minCategories} />
+          <Field label="Макс. з категорії" name="maxPerCategory"  value={c?.maxPerCategory}  min={1} />
+          <Field label="Мін. персоналіз."  name="minPersonalized" value={c?.minPersonalized} />
+          <Field label="Копій одного"      name="maxCopies"       value={c?.maxCopies}       min={1} />
+          <label className="flex flex-col gap-0.5">
+            <span className="text-[10px] uppercase tracking-widest text-slate-500">Профіль</span>
+            <select name="profile" defaultValue={query?.profile.id} className="px-2 py-1 rounded border border-slate-300 bg-white">
+              {SCORING_PROFILES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </label>
+          <Field label="★ зважено" name="prior" value={prior?.strength !== own?.strength ? prior?.strength : undefined} max={MAX_PRIOR_STRENGTH} />
+          <label className="flex flex-col gap-0.5">
+            <span className="text-[10px] uppercase tracking-widest text-slate-500">Середнє ★</span>
+            <select name="priorMean" defaultValue={prior?.mean !== own?.mean ? prior?.mean : ''} className="px-2 py-1 rounded border border-slate-300 bg-white">
+              <option value="">як у профілі</option>
+              {PRIOR_MEANS.map(m => <option key={m} value={m}>{PRIOR_MEAN_LABEL[m]}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1 pb-1.5">
+            {/* hidden 0 first so unchecking survives the round-trip; the last value wins */}
+            <input type="hidden" name="inStock" value="0" />
+            <input type="checkbox" name="inStock" value="1" defaultChecked={c?.inStockOnly ?? true} />
+            лише в наявності
+          </label>
+          <button type="submit" className="ml-auto inline-flex items-center gap-1 px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-700">
+            <Wand2 size={12} /> Підібрати
+          </button>
+        </form>
+
+        {error && <p className="text-red-500">{error}</p>}
+
+        {result && c && (
+          <>
+            <p className="text-[10px] text-slate-400">
+              Розглянуто {result.considered} товарів · відсіяно {result.excluded} (немає в наявності, без ціни або дорожче за бюджет)
+            </p>
+
+            {result.best ? (
+              <section className="rounded border border-indigo-200 bg-white shadow-sm">
+                <h2 className="flex flex-wrap items-center gap-2 px-3 py-2 bg-indigo-50 border-b border-indigo-100 text-indigo-800">
+                  <ShoppingBasket size={14} />
+                  <span className="font-bold">{result.exact ? 'Найкращий набір' : 'Наближений набір'}</span>
+                  <span className="ml-auto"><Totals basket={result.best} budget={c.budget} /></span>
+                </h2>
+                {result.reason && <p className="px-3 pt-2 text-amber-700">{result.reason}</p>}
+                <BasketTable basket={result.best} />
+              </section>
+            ) : (
+              <div className="rounded border border-slate-200 bg-white p-6 text-center text-slate-500">{result.reason}</div>
+            )}
+
+            {result.best && result.alternatives.length > 0 && (
+              <section className="rounded border border-slate-200 bg-white shadow-sm">
+                <h2 className="flex items-center gap-2 px-3 py-2 border-b border-slate-100 text-slate-700 font-bold">
+                  <Sparkles size={14} className="text-amber-500" /> Альтернативи
+                </h2>
+                <ul>
+                  {result.alternatives.map((alt, i) => (
+                    <li key={i} className="px-3 py-1.5 border-t border-slate-100 first:border-t-0">
+                      <Totals basket={alt} budget={c.budget} />
+                      <span className={`ml-2 ${alt.totalScore < result.best!.totalScore ? 'text-red-500' : 'text-slate-400'}`}>
+                        ({(alt.totalScore - result.best!.totalScore).toFixed(3)})
+                      </span>
+                      <span className="block text-slate-500">замість: {swappedIn(alt, result.best!).join(' · ') || '—'}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {result.greedy && (
+              <section className="rounded border border-slate-200 bg-white p-3 text-slate-600">
+                <p className="font-bold text-slate-700">Жадібний вибір за Вигодою (без правил категорій)</p>
+                <Totals basket={result.greedy} budget={c.budget} />
+                <span className="block text-[10px] text-slate-400">
+                  Категорії: {result.greedy.categories.join(', ')} — для порівняння з оптимальним набором
+                </span>
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import Link from 'next/link';
+import { ArrowLeft, Columns3, Gift, Trophy, X } from 'lucide-react';
+import { SCORING_PROFILES } from '../../utils/engine';
+import { getGift, type GiftDetail } from '../../utils/catalog';
+import { parseViewState, profileParams, viewProfile } from '../../utils/view-state';
+import { getShop } from '../../utils/shops';
+
+// ── Attribute table ───────────────────────────────────────────────────────
+// `better` decides which column gets the winner highlight for the row.
+type Better = 'high' | 'low' | 'true' | null;
+
+interface Attr {
+  label:  string;
+  get:    (g: GiftDetail) => number | boolean | string;
+  fmt?:   (v: number) => string;
+  better: Better;
+  group:  'data' | 'score';
+}
+
+const uah = (n: number) => `₴${n.toLocaleString('uk-UA')}`;
+const f3  = (n: number) => n.toFixed(3);
+
+const ATTRS: Attr[] = [
+  { group: 'data',  label: 'Ціна',              get: g => g.price,           fmt: uah,            better: 'low'  },
+  { group: 'data',  label: 'Зірки',             get: g => g.stars,           fmt: n => `${n}★`,   better: 'high' },
+  { group: 'data',  label: 'Відгуки',           get: g => g.reviews,                              better: 'high' },
+  { group: 'data',  label: 'Днів на сайті',     get: g => g.daysSinceAdded,                       better: 'low'  },
+  { group: 'data',  label: 'Персоналізація',    get: g => g.personalization,                      better: 'true' },
+  { group: 'data',  label: 'Наявність',         get: g => g.stock,                                better: 'true' },
+  { group: 'data',  label: 'Google результати', get: g => g.googleResults,   fmt: n => n.toLocaleString('uk-UA'), better: 'high' },
+  { group: 'data',  label: 'Категорія',         get: g => g.category,                             better: null   },
+  { group: 'data',  label: 'Магазин',           get: g => getShop(g.shop).name,                   better: null   },
+  { group: 'score', label: 'Скоригований рейтинг', get: g => g.evaluation.adjustedStars, fmt: n => `${n.toFixed(2)}★`, better: 'high' },
+  { group: 'score', label: 'Довіра до рейтингу', get: g => g.evaluation.confidence, fmt: n => `${Math.round(n * 100)}%`, better: 'high' },
+  { group: 'score', label: 'R — рейтинг',       get: g => g.evaluation.R,       fmt: f3,          better: 'high' },
+  { group: 'score', label: 'N — новизна',       get: g => g.evaluation.N,       fmt: f3,          better: 'high' },
+  { group: 'score', label: 'Pop — відгуки',     get: g => g.evaluation.Pop,     fmt: f3,          better: 'high' },
+  { group: 'score', label: 'Зважена сума',      get: g => g.evaluation.weighted, fmt: f3,         better: 'high' },
+  { group: 'score', label: 'Дільник ціни',      get: g => g.evaluation.divisor, fmt: f3,          better: 'low'  },
+  { group: 'score', label: 'Бал',               get: g => g.score,              fmt: f3,          better: 'high' },
+  { group: 'score', label: 'Вигода',            get: g => g.value,              fmt: n => n.toFixed(4), better: 'high' },
+];
+
+/** Indexes of the winning columns for one attribute (ties all win). */
+function winners(values: (number | boolean | string)[], better: Better): Set<number> {
+  if (!better || values.length < 2) return new Set();
+  const nums = values.map(v => typeof v === 'boolean' ? Number(v) : v as number);
+  const best = better === 'low' ? Math.min(...nums) : Math.max(...nums);
+  // No winner when everyone is equal
+  if (nums.every(n => n === best)) return new Set();
+  return new Set(nums.flatMap((n, i) => n === best ? [i] : []));
+}
+
+function fmtValue(v: number | boolean | string, fmt?: (n: number) => string): string {
+  if (typeof v === 'boolean') return v ? 'так' : 'ні';
+  if (typeof v === 'string')  return v;
+  return fmt ? fmt(v) : v.toLocaleString('uk-UA');
+}
+
+function parseIds(raw: string | undefined): number[] {
+  return Array.from(new Set(
+    (raw ?? '').split(',').map(Number).filter(n => Number.isInteger(n) && n > 0),
+  )).slice(0, 5);
+}
+
+// ── Page ──────────────────────────────────────────────────────────────────
+/**
+ * Side-by-side comparison of 2–5 gifts. The selection lives entirely in the
+ * URL (`/compare?ids=3,17,42&profile=balanced&prior=20`) so the page can be
+ * shared. Profile and prior are read like the table's, leniently.
+ */
+export default async function ComparePage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params  = await searchParams;
+  const view    = parseViewState(params);
+  const profile = viewProfile(view);
+  const ids     = parseIds(typeof params.ids === 'string' ? params.ids : undefined);
+  const gifts   = ids.map(id => getGift(id, profile)).filter((g): g is GiftDetail => !!g);
+
+  // Switching profile keeps the prior overrides
+  const hrefWith = (nextIds: number[], profileId = profile.id) =>
+    `/compare?${profileParams(viewProfile({ ...view, profile: profileId }), new URLSearchParams({ ids: nextIds.join(',') }))}`;
+
+  return (
+    <div className="min-h-screen bg-slate-100 font-mono text-[11px]">
+      <header className="flex items-center gap-3 px-4 py-2.5 bg-slate-900 border-b border-slate-700 text-white">
+        <Link href="/" className="text-slate-400 hover:text-white" aria-label="До таблиці">
+          <ArrowLeft size={16} />
+        </Link>
+        <Gift size={16} className="text-indigo-400" />
+        <span className="text-sm font-bold tracking-tight">Порівняння подарунків</span>
+        <span className="ml-auto flex items-center gap-1 text-slate-400">
+          Профіль:
+          {SCORING_PROFILES.map(p => (
+            <Link
+              key={p.id}
+              href={hrefWith(ids, p.id)}
+              className={`px-1.5 py-0.5 rounded ${p.id === profile.id ? 'bg-indigo-700 text-white' : 'hover:bg-slate-700'}`}
+            >
+              {p.label}
+            </Link>
+          ))}
+        </span>
+      </header>
+
+      <main className="p-4 lg:p-6">
+        {gifts.length < 2 ? (
+          <div className="rounded border border-slate-200 bg-white p-8 text-center text-slate-500">
+            <Columns3 size={20} className="mx-auto mb-2 text-slate-300" />
+            Оберіть у таблиці від 2 до 5 товарів і натисніть «Порівняти».
+            <Link href="/" className="block mt-2 text-blue-600 underline">До таблиці</Link>
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded border border-slate-200 bg-white shadow-sm">
+            <table className="w-full border-collapse">
+              <thead className="bg-slate-900 text-white">
+                <tr>
+                  <th className="px-2 py-2 text-left text-[10px] uppercase tracking-widest text-slate-400 w-40">Атрибут</th>
+                  {gifts.map(g => (
+                    <th key={g.id} className="px-2 py-2 text-left align-top min-w-[160px]">
+                      <div className="flex items-start gap-1">
+                        <a href={g.url} target="_blank" rel="noopener noreferrer" className="flex-1 text-[11px] underline hover:text-indigo-200">
+                          {g.name}
+                        </a>
+                        <Link href={hrefWith(ids.filter(x => x !== g.id))} className="text-slate-500 hover:text-white" aria-label="Прибрати">
+                          <X size={12} />
+                        </Link>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {ATTRS.map((a, i) => {
+                  const values = gifts.map(a.get);
+                  const win    = winners(values, a.better);
+                  const first  = i === 0 || ATTRS[i - 1].group !== a.group;
+                  return (
+                    <tr key={a.label} className={`border-t ${first ? 'border-t-2 border-slate-300' : 'border-slate-100'}`}>
+                      <td className="px-2 py-1 text-slate-600">{a.label}</td>
+                      {values.map((v, col) => (
+                        <td
+                          key={gifts[col].id}
+                          className={`px-2 py-1 tabular-nums ${win.has(col) ? 'bg-emerald-50 text-emerald-700 font-bold' : 'text-slate-800'}`}
+                        >
+                          {win.has(col) && <Trophy size={10} className="inline mr-1 text-emerald-500" />}
+                          {fmtValue(v, a.fmt)}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="mt-2 text-[10px] text-slate-400">
+          Переможець у кожному рядку підсвічено · бали пораховано за профілем «{profile.label}»
+          {profile.ratingPrior.strength > 0 && ` (рейтинг зважено: ${profile.ratingPrior.strength} уявних відгуків)`} ·
+          посилання на цю сторінку зберігає вибір
+        </p>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Menu, Gift, TrendingDown, ShoppingBasket, Activity } from 'lucide-react';
+import Sidebar from './Sidebar';
+import PriceTable, { type LoadedRows } from './PriceTable';
+import { useViewState } from './useViewState';
+import type { CategorySummary } from '../../utils/catalog';
+import type { CategoryRegistry } from '../../utils/categories';
+
+/** Client shell of the home page: header, sidebar and the table. */
+export default function Dashboard({
+  categories, registry, shops, initial,
+}: {
+  categories: CategorySummary[]; registry: CategoryRegistry; shops: string[]; initial: LoadedRows;
+}) {
+  const [view, updateView]            = useViewState();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const category = view.category;
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-100 font-mono overflow-hidden">
+
+      {/* ── Header ──────────────────────────────────────────────────── */}
+      <header className="shrink-0 flex items-center gap-3 px-4 py-2.5 bg-slate-900 border-b border-slate-700 text-white">
+        {/* Mobile hamburger */}
+        <button
+          onClick={() => setSidebarOpen(true)}
+          className="lg:hidden text-slate-400 hover:text-white transition-colors"
+          aria-label="Open sidebar"
+        >
+          <Menu size={18} />
+        </button>
+
+        {/* Logo */}
+        <div className="flex items-center gap-2">
+          <Gift size={16} className="text-indigo-400" />
+          <span className="text-sm font-bold tracking-tight">Gift Price Analyzer</span>
+        </div>
+
+        {/* Tagline */}
+        <div className="hidden sm:flex items-center gap-1.5 ml-2 text-[11px] text-slate-500">
+          <TrendingDown size={11} />
+          <span>sorted by Value Score · higher = better deal</span>
+        </div>
+
+        {/* Active category pill */}
+        {category !== 'All' && (
+          <span className="ml-auto text-[11px] px-2 py-0.5 rounded-full bg-indigo-800 text-indigo-200">
+            {category}
+          </span>
+        )}
+
+        <Link
+          href="/basket"
+          className={`${category === 'All' ? 'ml-auto' : ''} flex items-center gap-1 text-[11px] text-slate-400 hover:text-white transition-colors`}
+        >
+          <ShoppingBasket size={13} /> Кошик під бюджет
+        </Link>
+        <Link
+          href="/admin"
+          className="flex items-center gap-1 text-[11px] text-slate-400 hover:text-white transition-colors"
+        >
+          <Activity size={13} /> Оновлення
+        </Link>
+      </header>
+
+      {/* ── Body ────────────────────────────────────────────────────── */}
+      <div className="flex flex-1 overflow-hidden">
+
+        {/* Sidebar */}
+        <Sidebar
+          categories={categories}
+          registry={registry}
+          selected={category}
+          onSelect={cat => updateView({ category: cat })}
+          open={sidebarOpen}
+          onClose={() => setSidebarOpen(false)}
+        />
+
+        {/* Main content */}
+        <main className="flex-1 overflow-y-auto p-4 lg:p-6">
+          <PriceTable categories={categories} registry={registry} shops={shops} initial={initial} />
+        </main>
+      </div>
+    </div>
+  );
+}
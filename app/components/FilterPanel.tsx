@@ -0,0 +1,177 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Filter } from 'lucide-react';
+import {
+  clearFilter, describeFilters, NO_FILTERS,
+  type GiftFilters,
+} from '../../utils/filters';
+
+// ── Presets ───────────────────────────────────────────────────────────────
+// Threshold filters use fixed steps; a hand-edited URL value is added to the
+// list so the select can still show it.
+const STAR_STEPS    = [3, 3.5, 4, 4.5, 4.8];
+const DAY_STEPS     = [7, 30, 90, 180, 365];
+const REVIEW_STEPS  = [1, 10, 50, 100, 500];
+const POP_STEPS     = [1, 2, 3, 4];   // 100 / 1k / 10k / 100k Google results
+
+function withCurrent(steps: number[], current: number | undefined): number[] {
+  return current === undefined || steps.includes(current)
+    ? steps
+    : [...steps, current].sort((a, b) => a - b);
+}
+
+const SELECT_CLS =
+  'py-1 px-2 text-[11px] rounded bg-white border border-slate-200 shadow-sm text-slate-700 focus:outline-none focus:ring-1 focus:ring-slate-400';
+
+function StepSelect({
+  label, value, steps, fmt, onChange,
+}: {
+  label: string; value: number | undefined; steps: number[];
+  fmt: (n: number) => string; onChange: (n: number | undefined) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1 text-slate-600">
+      {label}
+      <select
+        value={value ?? ''}
+        onChange={e => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        className={SELECT_CLS}
+      >
+        <option value="">будь-які</option>
+        {withCurrent(steps, value).map(n => <option key={n} value={n}>{fmt(n)}</option>)}
+      </select>
+    </label>
+  );
+}
+
+// ── Price range ───────────────────────────────────────────────────────────
+// Two sliders over the category's price bounds. Dragging only moves a local
+// draft; the URL (and the query) changes once the thumb is released.
+function PriceRange({
+  min, max, bounds, onChange,
+}: {
+  min: number | undefined; max: number | undefined; bounds: { min: number; max: number };
+  onChange: (min: number | undefined, max: number | undefined) => void;
+}) {
+  const [draft, setDraft] = useState<[number, number] | null>(null);
+  const lo = min ?? bounds.min;
+  const hi = max ?? bounds.max;
+  const [a, b] = draft ?? [lo, hi];
+  const step = Math.max(1, Math.round((bounds.max - bounds.min) / 100));
+
+  function commit() {
+    if (!draft) return;
+    onChange(
+      draft[0] > bounds.min ? draft[0] : undefined,
+      draft[1] < bounds.max ? draft[1] : undefined,
+    );
+    setDraft(null);
+  }
+
+  if (bounds.max <= bounds.min) return null;
+  return (
+    <div className="flex items-center gap-2 text-slate-600">
+      <span>Ціна</span>
+      <span className="w-14 text-right tabular-nums">₴{a.toLocaleString('uk-UA')}</span>
+      <span className="flex flex-col w-40">
+        <input
+          type="range" min={bounds.min} max={bounds.max} step={step} value={a}
+          onChange={e => setDraft([Math.min(Number(e.target.value), b), b])}
+          onPointerUp={commit} onKeyUp={commit} onBlur={commit}
+          aria-label="Мінімальна ціна"
+          className="accent-indigo-500"
+        />
+        <input
+          type="range" min={bounds.min} max={bounds.max} step={step} value={b}
+          onChange={e => setDraft([a, Math.max(Number(e.target.value), a)])}
+          onPointerUp={commit} onKeyUp={commit} onBlur={commit}
+          aria-label="Максимальна ціна"
+          className="accent-indigo-500"
+        />
+      </span>
+      <span className="w-14 tabular-nums">₴{b.toLocaleString('uk-UA')}</span>
+    </div>
+  );
+}
+
+// ── Panel ─────────────────────────────────────────────────────────────────
+/**
+ * Filter controls for PriceTable plus the removable chips of the active
+ * filters. Stateless apart from the slider draft — `filters` comes from the
+ * URL and every change goes back through `onChange`.
+ */
+export default function FilterPanel({
+  filters, priceRange, open, onChange,
+}: {
+  filters: GiftFilters; priceRange: { min: number; max: number }; open: boolean;
+  onChange: (next: GiftFilters) => void;
+}) {
+  const chips = describeFilters(filters);
+  const set = (patch: Partial<GiftFilters>) => onChange({ ...filters, ...patch });
+
+  return (
+    <>
+      {open && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 rounded border border-slate-200 bg-white px-3 py-2 shadow-sm">
+          <PriceRange
+            min={filters.minPrice} max={filters.maxPrice} bounds={priceRange}
+            onChange={(minPrice, maxPrice) => set({ minPrice, maxPrice })}
+          />
+          <label className="flex items-center gap-1 text-slate-600">
+            <input
+              type="checkbox" checked={filters.inStock}
+              onChange={e => set({ inStock: e.target.checked })}
+              className="accent-emerald-600"
+            />
+            лише в наявності
+          </label>
+          <label className="flex items-center gap-1 text-slate-600">
+            <input
+              type="checkbox" checked={filters.personalization}
+              onChange={e => set({ personalization: e.target.checked })}
+              className="accent-indigo-600"
+            />
+            лише з персоналізацією
+          </label>
+          <StepSelect
+            label="Зірки ≥" value={filters.minStars} steps={STAR_STEPS}
+            fmt={n => `${n}★`} onChange={minStars => set({ minStars })}
+          />
+          <StepSelect
+            label="На сайті ≤" value={filters.maxDays} steps={DAY_STEPS}
+            fmt={n => `${n} дн.`} onChange={maxDays => set({ maxDays })}
+          />
+          <StepSelect
+            label="Відгуків ≥" value={filters.minReviews} steps={REVIEW_STEPS}
+            fmt={String} onChange={minReviews => set({ minReviews })}
+          />
+          <StepSelect
+            label="Популярність ≥" value={filters.minPop} steps={POP_STEPS}
+            fmt={n => `${n}★`} onChange={minPop => set({ minPop })}
+          />
+        </div>
+      )}
+
+      {chips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Filter size={11} className="text-slate-400" />
+          {chips.map(c => (
+            <button
+              key={c.key}
+              onClick={() => onChange(clearFilter(filters, c.key))}
+              title="Прибрати фільтр"
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 text-[10px] hover:bg-indigo-200"
+            >
+              {c.label}
+              <X size={9} />
+            </button>
+          ))}
+          <button onClick={() => onChange(NO_FILTERS)} className="text-[10px] text-slate-400 underline hover:text-slate-700">
+            скинути всі
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
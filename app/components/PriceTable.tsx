@@ -1,55 +1,36 @@
 'use client';
 
-import { useState, useMemo, useId } from 'react';
+import { useState, useId, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
 import {
   ChevronUp, ChevronDown, ChevronsUpDown,
-  Search, X, Zap, TrendingUp,
+  Search, X, Zap, TrendingUp, TrendingDown, SlidersHorizontal, Layers, Columns3, Filter, Download,
+  TriangleAlert,
 } from 'lucide-react';
-import rawGifts from '../../data/gifts.json';
-import { calculateGiftScore, calculateValue } from '../../utils/engine';
-
-// ── Types ─────────────────────────────────────────────────────────────────
-type SortKey = 'name' | 'category' | 'price' | 'googleResults' | 'score' | 'value';
-type SortDir = 'asc' | 'desc';
-
-interface GiftData {
-  id:              number;
-  name:            string;
-  category:        string;
-  price:           number;
-  stars:           number;        // used by score engine; NOT shown as a column
-  reviews:         number;
-  daysSinceAdded:  number;
-  personalization: boolean;
-  stock:           boolean;
-  googleResults:   number;
-  url?:            string;
-}
-
-interface Row extends GiftData {
-  score:     number;
-  value:     number;
-  popRating: number;  // log10(googleResults) - 1, clamped [0,5]
-}
+import { MAX_PRIOR_STRENGTH, PRIOR_MEANS, PRIOR_MEAN_LABEL, SCORING_PROFILES, getScoringProfile, type ScoringProfile } from '../../utils/engine';
+import { getShop } from '../../utils/shops';
+import {
+  CATEGORY_COLORS, categoryLabel, getCategory, orderedCategories, type CategoryRegistry,
+} from '../../utils/categories';
+import {
+  QUICK_SORTS, activeSort, catalogParams, defaultDir, profileParams, viewProfile,
+  type QuickSort, type SortKey, type SortDir,
+} from '../../utils/view-state';
+import { describeFilters } from '../../utils/filters';
+import { FLAGGED_MODES, type FlaggedMode } from '../../utils/anomalies';
+import ScoreDrawer from './ScoreDrawer';
+import FilterPanel from './FilterPanel';
+import { useViewState } from './useViewState';
+import type { Row, GoogleSource, CatalogPage, CategorySummary } from '../../utils/catalog';
 
 // ── Constants ─────────────────────────────────────────────────────────────
-const GIFTS: GiftData[]  = rawGifts as GiftData[];
-const MAX_REVIEWS        = Math.max(1, ...GIFTS.map(g => g.reviews));
-const ALL_CATEGORIES     = ['All', ...Array.from(new Set(GIFTS.map(g => g.category)))];
-
-const CATEGORY_BADGE: Record<string, string> = {
-  'Мини бары': 'bg-amber-100  text-amber-800',
-  'Брелки':    'bg-violet-100 text-violet-800',
-  'Кубки':     'bg-yellow-100 text-yellow-800',
-  'Игры':      'bg-blue-100   text-blue-800',
-};
+const PAGE_LIMIT = 500;  // utils/catalog MAX_LIMIT — fewest round-trips
+const MAX_COMPARE = 5;   // /compare columns stay readable up to 5
 
 // ── Pure functions (defined outside component — stable references) ─────────
-// Popularity: log10(googleResults) - 1, clamped [0, 5]
-// Scale: 100 → 1★ | 10 000 → 3★ | 1 000 000 → 5★
-function calcPop(n: number): number {
-  if (!n || n <= 0) return 0;
-  return Math.min(5, Math.max(0, Math.log10(n) - 1));
+// Badge classes from the category registry colour
+function categoryBadge(name: string, registry: CategoryRegistry): string {
+  return (CATEGORY_COLORS[getCategory(name, registry).color] ?? CATEGORY_COLORS.slate).badge;
 }
 
 // Compact number: 5670 → "5.7k"  |  412000 → "412k"  |  850 → "850"
@@ -66,6 +47,13 @@ function scoreColor(s: number) {
   if (s >= 0.4) return 'text-orange-500';
   return 'text-red-500';
 }
+// Rating confidence (ScoreComponents.confidence): share of the rating
+// carried by the item's own reviews
+function confidenceColor(c: number) {
+  if (c >= 0.7) return 'bg-emerald-500';
+  if (c >= 0.3) return 'bg-amber-400';
+  return 'bg-red-400';
+}
 function valueColor(v: number) {
   if (v >= 0.5)  return 'text-emerald-600 font-bold';
   if (v >= 0.2)  return 'text-green-600';
@@ -73,6 +61,19 @@ function valueColor(v: number) {
   if (v >= 0.04) return 'text-orange-500';
   return 'text-red-500';
 }
+// Provenance badge for googleResults — only anchor/enriched numbers are real
+const SOURCE_BADGE: Record<GoogleSource, { label: string; cls: string; title: string }> = {
+  anchor:      { label: '✓',   cls: 'bg-emerald-100 text-emerald-700', title: 'Точне значення (перевірено вручну)' },
+  enriched:    { label: 'API', cls: 'bg-sky-100     text-sky-700',     title: 'Отримано з Google Custom Search' },
+  placeholder: { label: '≈',   cls: 'bg-slate-100   text-slate-500',   title: 'Заглушка — не реальне число' },
+};
+
+const FLAGGED_LABEL: Record<FlaggedMode, string> = {
+  derank: 'Підозрілі внизу',
+  hide:   'Приховати підозрілі',
+  show:   'Підозрілі як є',
+};
+
 function popColor(r: number) {
   if (r >= 4.0) return 'text-emerald-600';
   if (r >= 3.0) return 'text-green-600';
@@ -81,48 +82,41 @@ function popColor(r: number) {
   return 'text-red-400';
 }
 
-// Pre-compute rows outside component so useMemo gets stable input
-function buildRows(
-  cat: string, search: string,
-  sortKey: SortKey, sortDir: SortDir,
-): Row[] {
-  const needle = search.trim().toLowerCase();
-
-  let data: Row[] = GIFTS.map(g => {
-    const raw = calculateGiftScore({
-      stars:          g.stars,
-      daysSinceAdded: g.daysSinceAdded,
-      reviews:        g.reviews,
-      maxReviews:     MAX_REVIEWS,
-      price:          g.price,
-    });
-    // Fallback benefit: if score rounds to 0 (price 0 or no data) use 10 % of price
-    const score = raw.score > 0 ? raw.score : (g.price > 0 ? g.price * 0.10 : 0);
-    return {
-      ...g,
-      score,
-      value:     calculateValue(score, g.price),
-      popRating: calcPop(g.googleResults),
-    };
-  });
-
-  if (cat !== 'All') data = data.filter(r => r.category === cat);
-  if (needle)        data = data.filter(r =>
-    r.name.toLowerCase().includes(needle) ||
-    r.category.toLowerCase().includes(needle),
-  );
+// ── Data loading ─────────────────────────────────────────────────────────
+// Rows are scored, filtered and sorted by /api/gifts; the table shows the
+// whole result, so follow cursors until the last page.
+async function fetchAllRows(
+  params: URLSearchParams, signal: AbortSignal,
+): Promise<Omit<LoadedRows, 'query'>> {
+  const rows: Row[] = [];
+  let cursor: string | null = null;
+  let totalForCat = 0;
+  let priceRange  = { min: 0, max: 0 };
+  do {
+    const qs = new URLSearchParams(params);
+    qs.set('limit', String(PAGE_LIMIT));
+    if (cursor) qs.set('cursor', cursor);
+    const res = await fetch(`/api/gifts?${qs}`, { signal });
+    if (!res.ok) throw new Error(`/api/gifts → ${res.status}`);
+    const page: CatalogPage = await res.json();
+    rows.push(...page.items);
+    totalForCat = page.totalForCat;
+    priceRange  = page.priceRange;
+    cursor = page.nextCursor;
+  } while (cursor);
+  return { rows, totalForCat, priceRange };
+}
 
-  data.sort((a, b) => {
-    const av = a[sortKey as keyof Row];
-    const bv = b[sortKey as keyof Row];
-    if (typeof av === 'string' && typeof bv === 'string')
-      return sortDir === 'asc' ? av.localeCompare(bv) : bv.localeCompare(av);
-    return sortDir === 'asc'
-      ? (av as number) - (bv as number)
-      : (bv as number) - (av as number);
-  });
-
-  return data;
+// Legend formula for the active profile, e.g. "(R×0.4 + N×0.35 + Pop×0.25) / log₂(ціна)"
+const PENALTY_LABEL: Record<ScoringProfile['pricePenalty'], string> = {
+  log2:  ' / log₂(ціна)',
+  log10: ' / log₁₀(ціна)',
+  sqrt:  ' / (√ціна − 1)',
+  none:  '',
+};
+function profileFormula(p: ScoringProfile): string {
+  const { R, N, Pop } = p.weights;
+  return `(R×${R} + N×${N} + Pop×${Pop})${PENALTY_LABEL[p.pricePenalty]}`;
 }
 
 // ── StarBar ───────────────────────────────────────────────────────────────
@@ -138,101 +132,180 @@ function StarBar({ rating }: { rating: number }) {
   );
 }
 
+// ── Sparkline ─────────────────────────────────────────────────────────────
+// Tiny price trend across scraper runs; green when the last move is down.
+function Sparkline({ points }: { points: number[] }) {
+  if (points.length < 2) return null;
+  const W = 40, H = 12;
+  const min = Math.min(...points);
+  const span = Math.max(...points) - min || 1;
+  const d = points
+    .map((p, i) => `${(i / (points.length - 1)) * W},${H - ((p - min) / span) * H}`)
+    .join(' ');
+  const down = points[points.length - 1] < points[points.length - 2];
+  return (
+    <svg width={W} height={H} className="inline-block align-middle" aria-hidden>
+      <polyline
+        points={d}
+        fill="none"
+        strokeWidth={1}
+        className={down ? 'stroke-emerald-500' : 'stroke-red-400'}
+      />
+    </svg>
+  );
+}
+
+// ── Sortable <th> ─────────────────────────────────────────────────────────
+interface ThSort {
+  key:    SortKey;
+  dir:    SortDir;
+  onSort: (key: SortKey) => void;
+}
+
+function Th({
+  sort, label, sub, col, right = false, hl = false, cls = '',
+}: {
+  sort: ThSort; label: string; sub?: string; col: SortKey;
+  right?: boolean; hl?: boolean; cls?: string;
+}) {
+  const active = sort.key === col;
+  const Icon = active
+    ? sort.dir === 'asc' ? ChevronUp : ChevronDown
+    : ChevronsUpDown;
+  return (
+    <th
+      onClick={() => sort.onSort(col)}
+      className={[
+        'select-none cursor-pointer px-2 py-2 text-[10px]',
+        'font-sans font-bold tracking-widest uppercase',
+        'border-b-2 border-slate-600 hover:bg-slate-700 transition-colors',
+        right ? 'text-right' : 'text-left',
+        active && hl  ? 'bg-indigo-900 text-indigo-200'  :
+        active        ? 'bg-slate-700  text-white'         :
+        hl            ? 'bg-slate-800  text-indigo-400'    :
+                        'bg-slate-900  text-slate-400',
+        cls,
+      ].join(' ')}
+    >
+      <span className={`inline-flex items-center gap-0.5 ${right ? 'flex-row-reverse' : ''}`}>
+        {label}
+        <Icon size={10} className={active ? 'shrink-0' : 'opacity-30 shrink-0'} />
+      </span>
+      {sub && (
+        <span className={`block text-[8px] font-normal tracking-normal normal-case mt-px opacity-60 ${right ? 'text-right' : ''}`}>
+          {sub}
+        </span>
+      )}
+    </th>
+  );
+}
+
 // ── Component ─────────────────────────────────────────────────────────────
-export default function PriceTable({ category }: { category: string }) {
+/** A loaded result; `query` is the catalogParams() string it answers. */
+export interface LoadedRows {
+  query:       string;
+  rows:        Row[];
+  totalForCat: number;
+  priceRange:  CatalogPage['priceRange'];
+}
+
+/**
+ * Main table. Category, search, sorts and filters come from the URL (see
+ * utils/view-state.ts); `initial` is the server-rendered result for the
+ * URL the page was opened with.
+ */
+export default function PriceTable({
+  categories, registry, shops, initial,
+}: {
+  categories: CategorySummary[]; registry: CategoryRegistry; shops: string[]; initial: LoadedRows;
+}) {
   const searchId = useId();
+  const [view, updateView] = useViewState();
+
+  const [detailId,       setDetailId]       = useState<number | null>(null);
+  const [selected,       setSelected]       = useState<number[]>([]);
+  const [filtersOpen,    setFiltersOpen]    = useState(false);
+
+  // Search box text runs ahead of the URL while typing; back/forward resets it
+  const [search,       setSearch]       = useState(view.search);
+  const [syncedSearch, setSyncedSearch] = useState(view.search);
+  if (view.search !== syncedSearch) {
+    setSyncedSearch(view.search);
+    setSearch(view.search);
+  }
 
-  const [sortKey,        setSortKey]        = useState<SortKey>('value');
-  const [sortDir,        setSortDir]        = useState<SortDir>('desc');
-  const [search,         setSearch]         = useState('');
-  const [bestValue,      setBestValue]      = useState(false);
-  const [sortByPop,      setSortByPop]      = useState(false);
-  const [categoryFilter, setCategoryFilter] = useState('All');
+  const closeDetail = useCallback(() => setDetailId(null), []);
 
-  // Sidebar category wins over dropdown
-  const effectiveCat = category !== 'All' ? category : categoryFilter;
+  const profile      = viewProfile(view);
+  const effectiveCat = view.category;
+  const shopFilter   = view.shop;
+  const grouped      = view.grouped;
+  const bestValue    = view.quick === 'value';
+  const sortByPop    = view.quick === 'pop';
+  const sortByDrop   = view.quick === 'drop';
 
   // Active sort params (quick-sort toggles override column sort)
-  const activeSortKey: SortKey = bestValue ? 'value' : sortByPop ? 'googleResults' : sortKey;
-  const activeSortDir: SortDir = (bestValue || sortByPop) ? 'desc' : sortDir;
-
-  // All heavy work inside useMemo — re-runs only when deps change
-  const rows: Row[] = useMemo(
-    () => buildRows(effectiveCat, search, activeSortKey, activeSortDir),
-    [effectiveCat, search, activeSortKey, activeSortDir],
-  );
-
-  const totalForCat = effectiveCat === 'All'
-    ? GIFTS.length
-    : GIFTS.filter(g => g.category === effectiveCat).length;
+  const { key: activeSortKey, dir: activeSortDir } = activeSort(view);
+
+  // Query string for /api/gifts — also the identity of the loaded result
+  const query = catalogParams(view).toString();
+
+  const [loaded, setLoaded] = useState<LoadedRows | null>(initial);
+  const [error,  setError]  = useState<string | null>(null);
+
+  // The server already rendered the first view — skip fetching it once
+  const prefetched = useRef<string | null>(initial.query);
+
+  useEffect(() => {
+    if (prefetched.current === query) { prefetched.current = null; return; }
+    prefetched.current = null;
+    const ctrl = new AbortController();
+    fetchAllRows(new URLSearchParams(query), ctrl.signal)
+      .then(r => { setLoaded({ query, ...r }); setError(null); })
+      .catch(e => { if (!ctrl.signal.aborted) setError((e as Error).message); });
+    return () => ctrl.abort();
+  }, [query]);
+
+  // Keep showing the previous result (dimmed) while the next one loads
+  const loading     = loaded?.query !== query;
+  const rows: Row[] = loaded?.rows ?? [];
+  const totalForCat = loaded?.totalForCat ?? 0;
+  const priceRange  = loaded?.priceRange ?? initial.priceRange;
+  const filterCount = describeFilters(view.filters).length;
+  const allCategories = ['All', ...orderedCategories(categories.map(c => c.name), registry).map(c => c.category.name)];
+  const allShops      = ['All', ...shops];
 
   // ── Handlers ────────────────────────────────────────────────────────────
-  function handleColSort(key: SortKey) {
-    setBestValue(false);
-    setSortByPop(false);
-    if (sortKey === key) {
-      setSortDir(d => d === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortKey(key);
-      setSortDir(key === 'name' || key === 'category' ? 'asc' : 'desc');
-    }
+  function toggleSelected(id: number) {
+    setSelected(sel =>
+      sel.includes(id) ? sel.filter(x => x !== id)
+        : sel.length < MAX_COMPARE ? [...sel, id]
+        : sel,
+    );
   }
 
-  function handleBestValue() {
-    if (bestValue) { setBestValue(false); return; }
-    setSortByPop(false);
-    setBestValue(true);
-    setSortKey('value');
-    setSortDir('desc');
+  function handleColSort(key: SortKey) {
+    const dir: SortDir = view.sort === key
+      ? (view.dir === 'asc' ? 'desc' : 'asc')
+      : defaultDir(key);
+    updateView({ quick: null, sort: key, dir });
   }
 
-  function handleSortByPop() {
-    if (sortByPop) { setSortByPop(false); return; }
-    setBestValue(false);
-    setSortByPop(true);
-    setSortKey('googleResults');
-    setSortDir('desc');
+  // Quick-sorts also set the column sort, so a header click afterwards flips it
+  function handleQuickSort(mode: QuickSort) {
+    if (view.quick === mode) { updateView({ quick: null }); return; }
+    updateView({ quick: mode, sort: QUICK_SORTS[mode], dir: 'desc' });
   }
 
-  // ── Sortable <th> (defined inside to close over sort state) ─────────────
-  function Th({
-    label, sub, col, right = false, hl = false, cls = '',
-  }: {
-    label: string; sub?: string; col: SortKey;
-    right?: boolean; hl?: boolean; cls?: string;
-  }) {
-    const active = activeSortKey === col;
-    const Icon = active
-      ? activeSortDir === 'asc' ? ChevronUp : ChevronDown
-      : ChevronsUpDown;
-    return (
-      <th
-        onClick={() => handleColSort(col)}
-        className={[
-          'select-none cursor-pointer px-2 py-2 text-[10px]',
-          'font-sans font-bold tracking-widest uppercase',
-          'border-b-2 border-slate-600 hover:bg-slate-700 transition-colors',
-          right ? 'text-right' : 'text-left',
-          active && hl  ? 'bg-indigo-900 text-indigo-200'  :
-          active        ? 'bg-slate-700  text-white'         :
-          hl            ? 'bg-slate-800  text-indigo-400'    :
-                          'bg-slate-900  text-slate-400',
-          cls,
-        ].join(' ')}
-      >
-        <span className={`inline-flex items-center gap-0.5 ${right ? 'flex-row-reverse' : ''}`}>
-          {label}
-          <Icon size={10} className={active ? 'shrink-0' : 'opacity-30 shrink-0'} />
-        </span>
-        {sub && (
-          <span className={`block text-[8px] font-normal tracking-normal normal-case mt-px opacity-60 ${right ? 'text-right' : ''}`}>
-            {sub}
-          </span>
-        )}
-      </th>
-    );
+  // Typing replaces the history entry once a search is under way, so
+  // back skips over single keystrokes
+  function handleSearch(text: string) {
+    setSearch(text);
+    updateView({ search: text }, { replace: view.search !== '' && text !== '' });
   }
 
+  const thSort: ThSort = { key: activeSortKey, dir: activeSortDir, onSort: handleColSort };
+
   // ── Render ───────────────────────────────────────────────────────────────
   return (
     <div className="flex flex-col gap-2.5 text-[11px] font-mono antialiased">
@@ -246,7 +319,7 @@ export default function PriceTable({ category }: { category: string }) {
         <div className="flex flex-wrap gap-2">
 
           <button
-            onClick={handleBestValue}
+            onClick={() => handleQuickSort('value')}
             aria-pressed={bestValue}
             className={[
               'inline-flex items-center gap-1.5 px-3 py-1.5',
@@ -262,7 +335,7 @@ export default function PriceTable({ category }: { category: string }) {
           </button>
 
           <button
-            onClick={handleSortByPop}
+            onClick={() => handleQuickSort('pop')}
             aria-pressed={sortByPop}
             className={[
               'inline-flex items-center gap-1.5 px-3 py-1.5',
@@ -276,6 +349,63 @@ export default function PriceTable({ category }: { category: string }) {
             <TrendingUp size={13} className={sortByPop ? 'text-emerald-200' : 'text-emerald-400'} />
             Сортувати за популярністю
           </button>
+
+          <button
+            onClick={() => handleQuickSort('drop')}
+            aria-pressed={sortByDrop}
+            className={[
+              'inline-flex items-center gap-1.5 px-3 py-1.5',
+              'rounded-full text-[12px] font-bold border-2',
+              'transition-all duration-150 whitespace-nowrap',
+              sortByDrop
+                ? 'bg-rose-600 border-rose-500 text-white scale-105 shadow-md shadow-rose-200'
+                : 'bg-white border-rose-300 text-rose-600 hover:bg-rose-50 hover:border-rose-500',
+            ].join(' ')}
+          >
+            <TrendingDown size={13} className={sortByDrop ? 'text-rose-200' : 'text-rose-400'} />
+            Найбільше падіння ціни
+          </button>
+
+          {/* Scoring profile — recomputes Бал / Вигода live */}
+          <label
+            className="inline-flex items-center gap-1.5 ml-auto text-[11px] text-indigo-700"
+            title={profile.description}
+          >
+            <SlidersHorizontal size={12} className="text-indigo-400" />
+            Профіль
+            <select
+              value={profile.id}
+              onChange={e => updateView({ profile: e.target.value })}
+              className="py-1 px-2 text-[11px] rounded bg-white border border-indigo-300 text-indigo-700 focus:outline-none focus:ring-1 focus:ring-indigo-400"
+            >
+              {SCORING_PROFILES.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {/* Rating prior — any profile can shrink thinly-reviewed ratings */}
+          <label
+            className="inline-flex items-center gap-1.5 text-[11px] text-indigo-700"
+            title="Уявних відгуків на рівні середнього (0 = рейтинг як є); порожньо — як у профілі"
+          >
+            ★ зважено
+            <input
+              type="number" min={0} max={MAX_PRIOR_STRENGTH} step={1}
+              value={view.prior ?? ''}
+              placeholder={String(getScoringProfile(view.profile).ratingPrior.strength)}
+              onChange={e => updateView({ prior: e.target.value === '' ? null : Number(e.target.value) }, { replace: true })}
+              className="w-14 py-1 px-1.5 text-[11px] rounded bg-white border border-indigo-300 text-indigo-700 focus:outline-none focus:ring-1 focus:ring-indigo-400"
+            />
+            <select
+              value={view.priorMean ?? ''}
+              onChange={e => updateView({ priorMean: PRIOR_MEANS.find(m => m === e.target.value) ?? null })}
+              className="py-1 px-2 text-[11px] rounded bg-white border border-indigo-300 text-indigo-700 focus:outline-none focus:ring-1 focus:ring-indigo-400"
+            >
+              <option value="">{PRIOR_MEAN_LABEL[getScoringProfile(view.profile).ratingPrior.mean]} (профіль)</option>
+              {PRIOR_MEANS.map(m => <option key={m} value={m}>{PRIOR_MEAN_LABEL[m]}</option>)}
+            </select>
+          </label>
         </div>
       </div>
 
@@ -288,13 +418,13 @@ export default function PriceTable({ category }: { category: string }) {
             id={searchId}
             type="text"
             value={search}
-            onChange={e => setSearch(e.target.value)}
+            onChange={e => handleSearch(e.target.value)}
             placeholder="Пошук подарунка…"
             className="pl-6 pr-6 py-1 text-[11px] w-52 rounded bg-white border border-slate-200 shadow-sm placeholder:text-slate-400 focus:outline-none focus:ring-1 focus:ring-slate-400"
           />
           {search && (
             <button
-              onClick={() => setSearch('')}
+              onClick={() => handleSearch('')}
               className="absolute right-1.5 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-700"
             >
               <X size={10} />
@@ -302,31 +432,131 @@ export default function PriceTable({ category }: { category: string }) {
           )}
         </div>
 
-        {/* Category dropdown — hidden when sidebar already filters */}
-        {category === 'All' && (
+        {/* Category dropdown — same URL state as the sidebar */}
+        <select
+          value={effectiveCat}
+          onChange={e => updateView({ category: e.target.value })}
+          className="py-1 px-2 text-[11px] rounded bg-white border border-slate-200 shadow-sm text-slate-700 focus:outline-none focus:ring-1 focus:ring-slate-400"
+        >
+          {allCategories.map(c => (
+            <option key={c} value={c}>{c === 'All' ? 'Всі категорії' : categoryLabel(c, registry)}</option>
+          ))}
+        </select>
+
+        <select
+          value={shopFilter}
+          onChange={e => updateView({ shop: e.target.value })}
+          className="py-1 px-2 text-[11px] rounded bg-white border border-slate-200 shadow-sm text-slate-700 focus:outline-none focus:ring-1 focus:ring-slate-400"
+        >
+          {allShops.map(s => (
+            <option key={s} value={s}>{s === 'All' ? 'Всі магазини' : getShop(s).name}</option>
+          ))}
+        </select>
+
+        <button
+          onClick={() => updateView({ grouped: !grouped })}
+          aria-pressed={grouped}
+          title="Обʼєднати однакові товари з різних магазинів і показати найкращу пропозицію"
+          className={[
+            'inline-flex items-center gap-1 py-1 px-2 text-[11px] rounded border shadow-sm',
+            grouped
+              ? 'bg-slate-800 border-slate-700 text-white'
+              : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50',
+          ].join(' ')}
+        >
+          <Layers size={11} />
+          Групувати пропозиції
+        </button>
+
+        {/* Suspicious listings (utils/anomalies.ts) — ₴1 prices, 5★ from no reviews, … */}
+        <label
+          className="inline-flex items-center gap-1 text-slate-700"
+          title="Товари з підозрілою ціною або рейтингом без відгуків"
+        >
+          <TriangleAlert size={11} className="text-amber-500" />
           <select
-            value={categoryFilter}
-            onChange={e => setCategoryFilter(e.target.value)}
+            value={view.flagged}
+            onChange={e => updateView({ flagged: e.target.value as FlaggedMode })}
             className="py-1 px-2 text-[11px] rounded bg-white border border-slate-200 shadow-sm text-slate-700 focus:outline-none focus:ring-1 focus:ring-slate-400"
           >
-            {ALL_CATEGORIES.map(c => (
-              <option key={c} value={c}>{c === 'All' ? 'Всі категорії' : c}</option>
-            ))}
+            {FLAGGED_MODES.map(m => <option key={m} value={m}>{FLAGGED_LABEL[m]}</option>)}
           </select>
-        )}
-
-        <span className="text-slate-400 tabular-nums">
+        </label>
+
+        <button
+          onClick={() => setFiltersOpen(o => !o)}
+          aria-expanded={filtersOpen}
+          className={[
+            'inline-flex items-center gap-1 py-1 px-2 text-[11px] rounded border shadow-sm',
+            filtersOpen || filterCount > 0
+              ? 'bg-indigo-50 border-indigo-300 text-indigo-700'
+              : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50',
+          ].join(' ')}
+        >
+          <Filter size={11} />
+          Фільтри{filterCount > 0 && ` (${filterCount})`}
+        </button>
+
+        <span
+          className="text-slate-400 tabular-nums"
+          title={`Показано ${rows.length} з ${totalForCat}${grouped ? ' (згруповано)' : ''} у вибраній категорії та магазині`}
+        >
           {rows.length}<span className="text-slate-500">/{totalForCat}</span>
         </span>
 
+        {/* Export — same query as the table, so the file matches the view */}
+        <span className="inline-flex items-center gap-1 text-slate-500">
+          <Download size={11} />
+          {(['csv', 'xlsx', 'json'] as const).map(f => (
+            <a
+              key={f}
+              href={`/api/export?${query}&format=${f}`}
+              download
+              className="px-1 rounded uppercase text-[10px] text-blue-600 underline hover:text-blue-800"
+            >
+              {f}
+            </a>
+          ))}
+        </span>
+
         <span className="ml-auto hidden sm:inline text-[10px] text-slate-400">
           Вигода = Score / (ціна/100)
         </span>
       </div>
 
+      {/* Filters + active chips ────────────────────────────────────── */}
+      <FilterPanel
+        filters={view.filters}
+        priceRange={priceRange}
+        open={filtersOpen}
+        onChange={filters => updateView({ filters })}
+      />
+
+      {/* Comparison selection ─────────────────────────────────────── */}
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded border border-amber-200 bg-amber-50 px-3 py-1.5 text-amber-800">
+          <Columns3 size={12} />
+          <span>Обрано для порівняння: {selected.length}/{MAX_COMPARE}</span>
+          {selected.length >= 2 ? (
+            <Link
+              href={`/compare?${profileParams(profile, new URLSearchParams({ ids: selected.join(',') }))}`}
+              className="px-2 py-0.5 rounded bg-amber-600 text-white font-bold hover:bg-amber-700"
+            >
+              Порівняти
+            </Link>
+          ) : (
+            <span className="text-amber-600">оберіть ще хоча б один</span>
+          )}
+          <button onClick={() => setSelected([])} className="ml-auto text-amber-600 hover:text-amber-900">
+            Очистити
+          </button>
+        </div>
+      )}
+
       {/* ③ Table ─────────────────────────────────────────────────── */}
       <div
-        className="overflow-x-auto overflow-y-auto rounded border border-slate-200 shadow-sm"
+        className={`overflow-x-auto overflow-y-auto rounded border border-slate-200 shadow-sm transition-opacity ${loading ? 'opacity-60' : ''}`}
+        aria-busy={loading}
         style={{ maxHeight: '80vh', WebkitOverflowScrolling: 'touch' } as React.CSSProperties}
       >
         <table className="w-full border-collapse">
@@ -334,18 +564,20 @@ export default function PriceTable({ category }: { category: string }) {
           {/* Sticky header — solid inline bg so nothing bleeds through */}
           <thead style={{ position: 'sticky', top: 0, zIndex: 30, background: '#0f172a' }}>
             <tr>
-              <th className="w-8 px-2 py-2 text-center text-[10px] font-sans font-bold tracking-widest uppercase text-slate-500 border-b-2 border-slate-600 select-none">
+              <th className="w-12 px-2 py-2 text-center text-[10px] font-sans font-bold tracking-widest uppercase text-slate-500 border-b-2 border-slate-600 select-none">
                 #
               </th>
-              <Th label="Назва"     col="name"          cls="min-w-[200px]" />
-              <Th label="Категорія" col="category"      cls="min-w-[110px]" />
+              <Th sort={thSort} label="Назва"     col="name"          cls="min-w-[200px]" />
+              <Th sort={thSort} label="Категорія" col="category"      cls="min-w-[110px]" />
+              <Th sort={thSort} label="Магазин"   col="shop"          cls="min-w-[90px]" />
               <th className="px-2 py-2 text-center text-[10px] font-sans font-bold tracking-widest uppercase text-slate-400 border-b-2 border-slate-600 select-none min-w-[55px]">
                 Наявн.
               </th>
-              <Th label="Ціна"  col="price" right cls="min-w-[75px]" />
+              <Th sort={thSort} label="Ціна"  col="price" right cls="min-w-[75px]" />
 
               {/* ← single merged Popularity column; no old stars column */}
               <Th
+                sort={thSort}
                 label="Популярність (Google)"
                 sub="★ = log₁₀(results) − 1"
                 col="googleResults"
@@ -354,37 +586,54 @@ export default function PriceTable({ category }: { category: string }) {
                 cls="min-w-[160px]"
               />
 
-              <Th label="Бал"    sub="якість × новизна"   col="score" right cls="min-w-[80px]" />
-              <Th label="Вигода" sub="бал / (ціна / 100)"  col="value" right hl={bestValue} cls="min-w-[85px]" />
+              <Th sort={thSort} label="Бал"    sub="якість × новизна"   col="score" right cls="min-w-[80px]" />
+              <Th sort={thSort} label="Вигода" sub="бал / (ціна / 100)"  col="value" right hl={bestValue} cls="min-w-[85px]" />
             </tr>
           </thead>
 
           <tbody className="divide-y divide-slate-100">
             {rows.length === 0 ? (
               <tr>
-                <td colSpan={8} className="py-12 text-center text-slate-400">
-                  {search
+                <td colSpan={9} className="py-12 text-center text-slate-400">
+                  {error ? <span className="text-red-500">Помилка завантаження: {error}</span>
+                    : loading ? 'Завантаження…'
+                    : search
                     ? <>Немає результатів для «<span className="font-medium text-slate-600">{search}</span>»</>
+                    : filterCount > 0 ? 'Жоден товар не проходить фільтри.'
                     : 'У цій категорії немає товарів.'}
                 </td>
               </tr>
             ) : rows.map((g, i) => (
               <tr
                 key={g.id}
+                onClick={() => setDetailId(g.id)}
+                title="Клік — розбір балу"
                 className={[
-                  'transition-colors group hover:bg-indigo-50/60',
+                  'transition-colors group hover:bg-indigo-50/60 cursor-pointer',
                   i % 2 === 0 ? 'bg-white' : 'bg-zinc-50/50',
                   !g.stock ? 'opacity-40' : '',
                 ].join(' ')}
               >
-                {/* Rank */}
-                <td className="px-2 py-1 text-center text-[10px] text-slate-400 tabular-nums">{i + 1}</td>
+                {/* Rank + compare checkbox */}
+                <td className="px-2 py-1 text-center text-[10px] text-slate-400 tabular-nums whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(g.id)}
+                    disabled={!selected.includes(g.id) && selected.length >= MAX_COMPARE}
+                    onChange={() => toggleSelected(g.id)}
+                    onClick={e => e.stopPropagation()}
+                    aria-label={`Порівняти «${g.name}»`}
+                    className="mr-1 align-middle accent-amber-600"
+                  />
+                  {i + 1}
+                </td>
 
                 {/* Name */}
                 <td className="px-2 py-1 font-medium text-slate-800 max-w-[220px]">
                   <a
                     href={g.url ?? `https://podaroktut.com.ua/search?q=${encodeURIComponent(g.name)}`}
                     target="_blank" rel="noopener noreferrer"
+                    onClick={e => e.stopPropagation()}
                     className="truncate block text-blue-600 underline hover:text-blue-800"
                     title={g.name}
                   >
@@ -393,15 +642,28 @@ export default function PriceTable({ category }: { category: string }) {
                   {g.personalization && (
                     <span className="text-[9px] text-indigo-400 font-normal">✎ персоналізація</span>
                   )}
+                  {g.flags.length > 0 && (
+                    <span
+                      className="inline-flex items-center gap-0.5 ml-1 text-[9px] text-amber-600 font-normal cursor-help"
+                      title={g.flags.map(f => `⚠ ${f.reason}`).join('\n')}
+                    >
+                      <TriangleAlert size={9} /> підозріло
+                    </span>
+                  )}
                 </td>
 
                 {/* Category */}
                 <td className="px-2 py-1 whitespace-nowrap">
-                  <span className={`inline-block px-1 py-px rounded text-[10px] font-semibold leading-tight ${CATEGORY_BADGE[g.category] ?? 'bg-slate-100 text-slate-700'}`}>
-                    {g.category}
+                  <span className={`inline-block px-1 py-px rounded text-[10px] font-semibold leading-tight ${categoryBadge(g.category, registry)}`}>
+                    {categoryLabel(g.category, registry)}
                   </span>
                 </td>
 
+                {/* Shop */}
+                <td className="px-2 py-1 whitespace-nowrap text-slate-500">
+                  {getShop(g.shop).name}
+                </td>
+
                 {/* Stock */}
                 <td className="px-2 py-1 text-center">
                   <span
@@ -411,18 +673,40 @@ export default function PriceTable({ category }: { category: string }) {
                 </td>
 
                 {/* Price */}
-                <td className="px-2 py-1 text-right tabular-nums text-slate-700 whitespace-nowrap font-medium group-hover:text-slate-900">
-                  ₴{g.price.toLocaleString('uk-UA')}
+                <td className={`px-2 py-1 text-right tabular-nums text-slate-700 whitespace-nowrap font-medium group-hover:text-slate-900 ${sortByDrop ? 'bg-rose-50/60' : ''}`}>
+                  <span className="inline-flex items-center gap-1">
+                    <Sparkline points={g.priceHistory} />
+                    ₴{g.price.toLocaleString('uk-UA')}
+                  </span>
+                  {g.offerCount !== undefined && g.offerCount > 1 && (
+                    <span
+                      className="block text-[9px] leading-none font-normal text-slate-500"
+                      title={`Розкид цін ${g.spreadPct!.toFixed(0)}% між ${g.offerCount} пропозиціями`}
+                    >
+                      {g.offerCount} проп. · ₴{g.priceMin!.toLocaleString('uk-UA')}–{g.priceMax!.toLocaleString('uk-UA')}
+                    </span>
+                  )}
+                  {g.prevPrice !== undefined && (
+                    <span
+                      className={`block text-[9px] leading-none font-normal ${g.prevPrice > g.price ? 'text-emerald-600' : 'text-red-500'}`}
+                      title={`${g.priceDrop > 0 ? '−' : '+'}${Math.abs(g.priceDrop).toFixed(1)}%`}
+                    >
+                      було ₴{g.prevPrice.toLocaleString('uk-UA')}
+                    </span>
+                  )}
                 </td>
 
                 {/* Popularity — stars + compact number; tooltip = full count */}
                 <td className={`px-2 py-1 text-right whitespace-nowrap ${sortByPop ? 'bg-emerald-50/60' : ''}`}>
                   <span
                     className="inline-flex flex-col items-end gap-0 cursor-help"
-                    title={`${g.googleResults.toLocaleString('uk-UA')} результатів у Google`}
+                    title={`${g.googleResults.toLocaleString('uk-UA')} результатів у Google · ${SOURCE_BADGE[g.googleSource ?? 'placeholder'].title}`}
                   >
                     <StarBar rating={g.popRating} />
                     <span className={`tabular-nums text-[9px] leading-none mt-0.5 ${popColor(g.popRating)}`}>
+                      <span className={`inline-block mr-1 px-0.5 rounded font-sans font-semibold ${SOURCE_BADGE[g.googleSource ?? 'placeholder'].cls}`}>
+                        {SOURCE_BADGE[g.googleSource ?? 'placeholder'].label}
+                      </span>
                       {fmtK(g.googleResults)}
                     </span>
                   </span>
@@ -430,6 +714,15 @@ export default function PriceTable({ category }: { category: string }) {
 
                 {/* Score */}
                 <td className="px-2 py-1 text-right whitespace-nowrap">
+                  <span
+                    className={`inline-block w-1.5 h-1.5 mr-1 rounded-full align-middle ${confidenceColor(g.evaluation.confidence)}`}
+                    title={
+                      `Довіра до рейтингу ${Math.round(g.evaluation.confidence * 100)}% · ${g.reviews} відгуків` +
+                      (g.evaluation.adjustedStars !== g.stars
+                        ? ` · ${g.stars}★ → ${g.evaluation.adjustedStars.toFixed(2)}★ з урахуванням середнього`
+                        : '')
+                    }
+                  />
                   <span className={`tabular-nums ${scoreColor(g.score)}`}>{g.score.toFixed(3)}</span>
                 </td>
 
@@ -444,11 +737,12 @@ export default function PriceTable({ category }: { category: string }) {
           {rows.length > 0 && (
             <tfoot>
               <tr className="border-t border-slate-200 bg-slate-50 text-[10px] text-slate-500">
-                <td colSpan={5} className="px-2 py-1 text-slate-400">
+                <td colSpan={6} className="px-2 py-1 text-slate-400">
                   {rows.length === 1 ? '1 товар'
                     : rows.length <= 4 ? `${rows.length} товари`
                     : `${rows.length} товарів`}
                   {effectiveCat !== 'All' && ` · ${effectiveCat}`}
+                  {shopFilter   !== 'All' && ` · ${getShop(shopFilter).name}`}
                   {search && ` · «${search}»`}
                 </td>
                 <td className="px-2 py-1 text-right tabular-nums whitespace-nowrap">
@@ -468,13 +762,21 @@ export default function PriceTable({ category }: { category: string }) {
 
       {/* Legend */}
       <p className="text-[10px] text-slate-400 px-0.5 leading-relaxed">
-        Бал = (R×0.4 + N×0.35 + Pop×0.25) / log₂(ціна) ·
+        Бал = {profileFormula(profile)} · N-згасання {profile.decayDays} дн. ·
         Вигода = Бал / (ціна/100) ·
         Популярність = log₁₀(Google) − 1 ·
         товари без наявності затемнені ·
-        клік на заголовок = сортування ·{' '}
+        ⚠ = підозріла ціна чи рейтинг (наведіть для пояснення) ·
+        ● біля балу = довіра до рейтингу за кількістю відгуків
+        {profile.ratingPrior.strength > 0 && ` (рейтинг зважено: ${profile.ratingPrior.strength} уявних відгуків на рівні середнього)`} ·
+        клік на заголовок = сортування ·
+        клік на рядок = розбір балу ·{' '}
         <span className="text-slate-500">v1.5.0</span>
       </p>
+
+      {detailId !== null && (
+        <ScoreDrawer key={detailId} giftId={detailId} profile={profile} onClose={closeDetail} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,277 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, RotateCcw, FlaskConical, TriangleAlert } from 'lucide-react';
+import { evaluateGift, listingScore, type ScoringProfile } from '../../utils/engine';
+import { getShop } from '../../utils/shops';
+import { profileParams } from '../../utils/view-state';
+import type { GiftDetail } from '../../utils/catalog';
+
+// ── Helpers ───────────────────────────────────────────────────────────────
+const PENALTY_LABEL: Record<ScoringProfile['pricePenalty'], string> = {
+  log2:  'log₂(ціна)',
+  log10: 'log₁₀(ціна)',
+  sqrt:  '√ціна − 1',
+  none:  'без штрафу',
+};
+
+// Signed relative difference: +12.3% / −4.0%
+function fmtDelta(x: number, ref: number): string {
+  if (!Number.isFinite(ref) || ref === 0) return '—';
+  const d = ((x - ref) / Math.abs(ref)) * 100;
+  return `${d >= 0 ? '+' : '−'}${Math.abs(d).toFixed(1)}%`;
+}
+
+function deltaColor(x: number, ref: number, higherIsBetter = true): string {
+  if (x === ref) return 'text-slate-400';
+  return (x > ref) === higherIsBetter ? 'text-emerald-600' : 'text-red-500';
+}
+
+// "(4.62★ / 5) × 10 · 5★ з 2 відгуків, середнє 4.55★ × 10"
+function ratingHint(gift: GiftDetail, profile: ScoringProfile): string {
+  const ev = gift.evaluation;
+  if (ev.adjustedStars === gift.stars) return `(${gift.stars}★ / 5) × 10`;
+  return `(${ev.adjustedStars.toFixed(2)}★ / 5) × 10 · ${gift.stars}★ з ${gift.reviews} відгуків, ` +
+    `середнє ${gift.context.priorStars?.toFixed(2)}★ × ${profile.ratingPrior.strength}`;
+}
+
+// ── Component ─────────────────────────────────────────────────────────────
+/**
+ * Slide-over with the full score breakdown for one gift: components and
+ * their weighted contributions, the price divisor, distance from the
+ * category median, and a what-if mode that re-scores with a different
+ * price or star rating in the browser.
+ *
+ * Mount with `key={giftId}` so the what-if inputs reset per gift.
+ */
+export default function ScoreDrawer({
+  giftId, profile, onClose,
+}: {
+  giftId: number; profile: ScoringProfile; onClose: () => void;
+}) {
+  const query      = profileParams(profile).toString();
+  const requestKey = `${giftId}|${query}`;
+  const [loaded, setLoaded] = useState<{ key: string; gift: GiftDetail } | null>(null);
+  const [error,  setError]  = useState<string | null>(null);
+  const [price,  setPrice]  = useState<number | null>(null);  // what-if overrides
+  const [stars,  setStars]  = useState<number | null>(null);
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    fetch(`/api/gifts/${giftId}?${query}`, { signal: ctrl.signal })
+      .then(r => r.ok ? r.json() : Promise.reject(new Error(`/api/gifts/${giftId} → ${r.status}`)))
+      .then((gift: GiftDetail) => setLoaded({ key: `${giftId}|${query}`, gift }))
+      .catch(e => { if (!ctrl.signal.aborted) setError((e as Error).message); });
+    return () => ctrl.abort();
+  }, [giftId, query]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const gift = loaded?.key === requestKey ? loaded.gift : null;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-black/30" onClick={onClose} />
+      <aside
+        role="dialog"
+        aria-label="Розбір балу"
+        className="fixed top-0 right-0 z-50 h-full w-full max-w-sm overflow-y-auto bg-white shadow-2xl border-l border-slate-200 font-mono text-[11px]"
+      >
+        <div className="sticky top-0 flex items-start gap-2 px-4 py-3 bg-slate-900 text-white">
+          <div className="flex-1 min-w-0">
+            <p className="text-[10px] uppercase tracking-widest text-slate-400">Розбір балу · {profile.label}</p>
+            <p className="font-bold text-sm leading-snug">{gift?.name ?? '…'}</p>
+            {gift && (
+              <p className="text-[10px] text-slate-400">{gift.category} · {getShop(gift.shop).name}</p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" aria-label="Закрити">
+            <X size={16} />
+          </button>
+        </div>
+
+        {error && <p className="p-4 text-red-500">Помилка завантаження: {error}</p>}
+        {!gift && !error && <p className="p-4 text-slate-400">Завантаження…</p>}
+        {gift && (
+          <Breakdown
+            gift={gift} profile={profile}
+            price={price ?? gift.price} stars={stars ?? gift.stars}
+            onPrice={setPrice} onStars={setStars}
+            onReset={() => { setPrice(null); setStars(null); }}
+          />
+        )}
+      </aside>
+    </>
+  );
+}
+
+// ── Breakdown body ────────────────────────────────────────────────────────
+function Breakdown({
+  gift, profile, price, stars, onPrice, onStars, onReset,
+}: {
+  gift: GiftDetail; profile: ScoringProfile;
+  price: number; stars: number;
+  onPrice: (n: number) => void; onStars: (n: number) => void; onReset: () => void;
+}) {
+  const ev     = gift.evaluation;
+  const w      = profile.weights;
+  const median = gift.context.categoryMedian;
+
+  const parts = [
+    { key: 'R',   label: 'R — рейтинг',      raw: ev.R,   weight: w.R,   hint: ratingHint(gift, profile) },
+    { key: 'N',   label: 'N — новизна',      raw: ev.N,   weight: w.N,   hint: `10·e^(−${gift.daysSinceAdded}/${profile.decayDays})` },
+    { key: 'Pop', label: 'Pop — відгуки',    raw: ev.Pop, weight: w.Pop, hint: `${gift.reviews} з ${gift.context.maxReviews} макс.` },
+  ];
+
+  const whatIfActive = price !== gift.price || stars !== gift.stars;
+  // Same score and value the table ranks by, so an unchanged gift shows Δ 0
+  const whatIf = listingScore(evaluateGift({
+    stars,
+    daysSinceAdded: gift.daysSinceAdded,
+    reviews:        gift.reviews,
+    maxReviews:     gift.context.maxReviews,
+    price,
+    priorStars:     gift.context.priorStars,
+  }, profile), price);
+
+  return (
+    <div className="flex flex-col gap-4 p-4">
+
+      {/* Suspicious-listing flags */}
+      {gift.flags.length > 0 && (
+        <section className="rounded border border-amber-300 bg-amber-50 p-2 text-amber-800">
+          <h3 className="mb-1 flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest">
+            <TriangleAlert size={12} /> Підозрілий товар
+          </h3>
+          <ul className="list-disc pl-4">
+            {gift.flags.map(f => <li key={f.kind}>{f.reason}</li>)}
+          </ul>
+        </section>
+      )}
+
+      {/* Components */}
+      <section>
+        <h3 className="mb-1 text-[10px] font-bold uppercase tracking-widest text-slate-500">Компоненти</h3>
+        <table className="w-full tabular-nums">
+          <thead>
+            <tr className="text-[9px] uppercase text-slate-400">
+              <th className="text-left font-normal">Компонент</th>
+              <th className="text-right font-normal">Знач.</th>
+              <th className="text-right font-normal">Вага</th>
+              <th className="text-right font-normal">Внесок</th>
+            </tr>
+          </thead>
+          <tbody>
+            {parts.map(p => {
+              const contrib = p.raw * p.weight;
+              const share   = ev.weighted > 0 ? (contrib / ev.weighted) * 100 : 0;
+              return (
+                <tr key={p.key} className="border-t border-slate-100" title={p.hint}>
+                  <td className="py-1 text-slate-700">{p.label}</td>
+                  <td className="py-1 text-right">{p.raw.toFixed(2)}</td>
+                  <td className="py-1 text-right text-slate-500">×{p.weight}</td>
+                  <td className="py-1 text-right">
+                    {contrib.toFixed(2)}
+                    <span className="block h-1 mt-0.5 rounded bg-indigo-100">
+                      <span className="block h-1 rounded bg-indigo-500" style={{ width: `${share}%` }} />
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+            <tr className="border-t-2 border-slate-300 font-semibold">
+              <td className="py-1" colSpan={3}>Σ зважена сума</td>
+              <td className="py-1 text-right">{ev.weighted.toFixed(3)}</td>
+            </tr>
+            <tr className="text-slate-500">
+              <td className="py-1" colSpan={3}>÷ {PENALTY_LABEL[profile.pricePenalty]} (₴{gift.price.toLocaleString('uk-UA')})</td>
+              <td className="py-1 text-right">{ev.divisor > 0 ? ev.divisor.toFixed(3) : '—'}</td>
+            </tr>
+            <tr className="font-bold text-indigo-700">
+              <td className="py-1" colSpan={3}>= Бал</td>
+              <td className="py-1 text-right">{gift.score.toFixed(3)}</td>
+            </tr>
+            <tr className="font-bold text-indigo-700">
+              <td className="py-1" colSpan={3}>Вигода = Бал / (ціна/100)</td>
+              <td className="py-1 text-right">{gift.value.toFixed(4)}</td>
+            </tr>
+          </tbody>
+        </table>
+        <p className="mt-1 text-[10px] text-slate-500" title={ratingHint(gift, profile)}>
+          Довіра до рейтингу: <b>{Math.round(ev.confidence * 100)}%</b> ({gift.reviews} відгуків)
+          {ev.adjustedStars !== gift.stars && <> · R рахується з {ev.adjustedStars.toFixed(2)}★ замість {gift.stars}★</>}
+        </p>
+      </section>
+
+      {/* Category median */}
+      <section>
+        <h3 className="mb-1 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+          Медіана категорії ({gift.context.categorySize} тов.)
+        </h3>
+        <table className="w-full tabular-nums">
+          <tbody>
+            {([
+              ['Ціна',   gift.price, median.price, false, (n: number) => `₴${Math.round(n).toLocaleString('uk-UA')}`],
+              ['Бал',    gift.score, median.score, true,  (n: number) => n.toFixed(3)],
+              ['Вигода', gift.value, median.value, true,  (n: number) => n.toFixed(4)],
+            ] as const).map(([label, x, m, up, fmt]) => (
+              <tr key={label} className="border-t border-slate-100">
+                <td className="py-1 text-slate-700">{label}</td>
+                <td className="py-1 text-right">{fmt(x)}</td>
+                <td className="py-1 text-right text-slate-400">мед. {fmt(m)}</td>
+                <td className={`py-1 text-right font-semibold ${deltaColor(x, m, up)}`}>{fmtDelta(x, m)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {/* What-if */}
+      <section className="rounded border border-amber-200 bg-amber-50 p-3">
+        <h3 className="mb-2 flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-amber-700">
+          <FlaskConical size={12} /> Що, якщо…
+          {whatIfActive && (
+            <button onClick={onReset} className="ml-auto inline-flex items-center gap-0.5 normal-case tracking-normal font-normal text-amber-700 hover:text-amber-900">
+              <RotateCcw size={10} /> скинути
+            </button>
+          )}
+        </h3>
+        <label className="flex items-center gap-2 mb-1.5">
+          <span className="w-12 text-slate-600">Ціна ₴</span>
+          <input
+            type="number" min={1} step={10} value={price}
+            onChange={e => onPrice(Math.max(0, Number(e.target.value) || 0))}
+            className="w-24 px-1.5 py-0.5 rounded border border-amber-300 bg-white tabular-nums"
+          />
+        </label>
+        <label className="flex items-center gap-2 mb-2">
+          <span className="w-12 text-slate-600">Зірки</span>
+          <input
+            type="range" min={0} max={5} step={0.1} value={stars}
+            onChange={e => onStars(Number(e.target.value))}
+            className="flex-1 accent-amber-500"
+          />
+          <span className="w-8 text-right tabular-nums">{stars.toFixed(1)}★</span>
+        </label>
+        <table className="w-full tabular-nums">
+          <tbody>
+            <tr>
+              <td className="text-slate-700">Бал</td>
+              <td className="text-right font-semibold">{whatIf.score.toFixed(3)}</td>
+              <td className={`text-right ${deltaColor(whatIf.score, gift.score)}`}>{fmtDelta(whatIf.score, gift.score)}</td>
+            </tr>
+            <tr>
+              <td className="text-slate-700">Вигода</td>
+              <td className="text-right font-semibold">{whatIf.value.toFixed(4)}</td>
+              <td className={`text-right ${deltaColor(whatIf.value, gift.value)}`}>{fmtDelta(whatIf.value, gift.value)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+}
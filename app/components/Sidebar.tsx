@@ -6,54 +6,62 @@ import {
   Key,
   Trophy,
   Gamepad2,
+  Gift,
+  Tag,
   X,
   type LucideIcon,
 } from 'lucide-react';
+import { CATEGORY_COLORS, categoryScope, orderedCategories, type CategoryRegistry } from '../../utils/categories';
 
-interface GiftItem {
-  id: number;
-  category: string;
+interface CategoryCount {
+  name: string;
+  count: number;
 }
 
 interface SidebarProps {
-  gifts: GiftItem[];
+  categories: CategoryCount[];  // from /api/categories
+  registry: CategoryRegistry;   // labels, icons, colours, order
   selected: string;
   onSelect: (category: string) => void;
   open: boolean;
   onClose: () => void;
 }
 
-// Must match category names in data/gifts.json
-const CATEGORY_ICONS: Record<string, LucideIcon> = {
-  All:         LayoutGrid,
-  'Мини бары': GlassWater,
-  'Брелки':    Key,
-  'Кубки':     Trophy,
-  'Игры':      Gamepad2,
+// Icon names used in data/categories.json; unknown ones fall back to Tag
+const ICONS: Record<string, LucideIcon> = {
+  'layout-grid': LayoutGrid,
+  'glass-water': GlassWater,
+  'key':         Key,
+  'trophy':      Trophy,
+  'gamepad-2':   Gamepad2,
+  'gift':        Gift,
+  'tag':         Tag,
 };
 
-const CATEGORY_ICON_COLOR: Record<string, string> = {
-  'Мини бары': 'text-amber-400',
-  'Брелки':    'text-violet-400',
-  'Кубки':     'text-yellow-400',
-  'Игры':      'text-blue-400',
-};
-
-const CATEGORY_ORDER = ['All', 'Мини бары', 'Брелки', 'Кубки', 'Игры'];
+interface NavItem {
+  key:    string;   // category name, or 'All'
+  label:  string;
+  Icon:   LucideIcon;
+  color:  string;
+  depth:  number;
+}
 
-const CATEGORY_LABELS: Record<string, string> = {
-  'All':       'Усі товари',
-  'Мини бары': 'Мини бары',
-  'Брелки':    'Брелки',
-  'Кубки':     'Кубки',
-  'Игры':      'Игры',
-};
+export default function Sidebar({ categories, registry, selected, onSelect, open, onClose }: SidebarProps) {
+  const counts = Object.fromEntries(categories.map(c => [c.name, c.count]));
+  const total  = categories.reduce((s, c) => s + c.count, 0);
 
-export default function Sidebar({ gifts, selected, onSelect, open, onClose }: SidebarProps) {
-  const counts = gifts.reduce<Record<string, number>>((acc, g) => {
-    acc[g.category] = (acc[g.category] ?? 0) + 1;
-    return acc;
-  }, {});
+  // Registry order, children under their parent; categories the registry
+  // does not know yet are appended so nothing in the data goes missing
+  const items: NavItem[] = [
+    { key: 'All', label: 'Усі товари', Icon: LayoutGrid, color: 'text-slate-500', depth: 0 },
+    ...orderedCategories(categories.map(c => c.name), registry).map(({ category: c, depth }) => ({
+      key:   c.name,
+      label: c.labels.uk,
+      Icon:  ICONS[c.icon] ?? Tag,
+      color: CATEGORY_COLORS[c.color]?.icon ?? CATEGORY_COLORS.slate.icon,
+      depth,
+    })),
+  ];
 
   function handleSelect(cat: string) {
     onSelect(cat);
@@ -95,16 +103,18 @@ export default function Sidebar({ gifts, selected, onSelect, open, onClose }: Si
 
         {/* Nav */}
         <nav className="flex-1 overflow-y-auto py-1">
-          {CATEGORY_ORDER.map(cat => {
-            const Icon    = CATEGORY_ICONS[cat] ?? LayoutGrid;
-            const count   = cat === 'All' ? gifts.length : (counts[cat] ?? 0);
+          {items.map(({ key: cat, label, Icon, color: icolor, depth }) => {
+            // A parent counts its subcategories too — selecting it shows them
+            const count   = cat === 'All'
+              ? total
+              : Array.from(categoryScope(cat, registry)).reduce((n, name) => n + (counts[name] ?? 0), 0);
             const active  = selected === cat;
-            const icolor  = CATEGORY_ICON_COLOR[cat] ?? 'text-slate-500';
 
             return (
               <button
                 key={cat}
                 onClick={() => handleSelect(cat)}
+                style={depth ? { paddingLeft: `${0.75 + depth * 0.75}rem` } : undefined}
                 className={`
                   w-full flex items-center gap-2 px-3 py-1.5 text-left
                   font-mono text-[11px] transition-colors duration-100
@@ -118,7 +128,7 @@ export default function Sidebar({ gifts, selected, onSelect, open, onClose }: Si
                   size={13}
                   className={`shrink-0 ${active ? 'text-white' : icolor}`}
                 />
-                <span className="flex-1 truncate">{CATEGORY_LABELS[cat] ?? cat}</span>
+                <span className="flex-1 truncate">{label}</span>
                 <span className={`
                   shrink-0 min-w-[20px] text-center text-[10px] tabular-nums
                   rounded px-1
@@ -133,7 +143,7 @@ export default function Sidebar({ gifts, selected, onSelect, open, onClose }: Si
 
         {/* Footer */}
         <div className="px-3 py-2 border-t border-slate-800 text-[10px] text-slate-600 font-mono">
-          {gifts.length} товарів · ₴ УАН
+          {total} товарів · ₴ УАН
         </div>
       </aside>
     </>
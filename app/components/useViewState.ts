@@ -0,0 +1,28 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { usePathname, useSearchParams } from 'next/navigation';
+import { parseViewState, viewToParams, type ViewState } from '../../utils/view-state';
+
+export type UpdateView = (patch: Partial<ViewState>, opts?: { replace?: boolean }) => void;
+
+/**
+ * Table view state read from the URL. Updates go through the native
+ * History API, which the App Router picks up (useSearchParams re-renders)
+ * without a server round-trip; each change is a back/forward step unless
+ * `replace` is set.
+ */
+export function useViewState(): [ViewState, UpdateView] {
+  const params   = useSearchParams();
+  const pathname = usePathname();
+  const view     = useMemo(() => parseViewState(params), [params]);
+
+  const update = useCallback<UpdateView>((patch, { replace = false } = {}) => {
+    const qs  = viewToParams({ ...view, ...patch }).toString();
+    const url = qs ? `${pathname}?${qs}` : pathname;
+    if (replace) window.history.replaceState(null, '', url);
+    else         window.history.pushState(null, '', url);
+  }, [view, pathname]);
+
+  return [view, update];
+}
@@ -4,6 +4,10 @@ const nextConfig: NextConfig = {
   // Allow the sandbox network IP to serve the dev server without 403
   allowedDevOrigins: ["21.0.0.188"],
 
+  // Native module used by the catalogue store — load it from node_modules
+  // at runtime instead of bundling it
+  serverExternalPackages: ["better-sqlite3"],
+
   images: {
     remotePatterns: [
       {
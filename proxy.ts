@@ -0,0 +1,11 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { adminDenied } from './utils/admin-auth';
+
+// The admin page and its API need ADMIN_PASSWORD (utils/admin-auth.ts)
+export function proxy(request: NextRequest) {
+  return adminDenied(request) ?? NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/admin/:path*'],
+};
@@ -0,0 +1,102 @@
+/**
+ * db.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Maintenance for the SQLite catalogue store (utils/store).
+ *
+ * Usage:
+ *   npx tsx scripts/db.ts info                  # schema version, row counts
+ *   npx tsx scripts/db.ts migrate               # apply pending migrations
+ *   npx tsx scripts/db.ts import [--dir=data]   # JSON files → database (replaces it)
+ *   npx tsx scripts/db.ts export [--dir=data]   # database → JSON files
+ *
+ * The database is data/catalog.db unless CATALOG_DB says otherwise. A new
+ * database is seeded from data/ on first open, so `import` is only needed
+ * to load a different set of files or to reset from the checked-in ones.
+ * `export` writes gifts.json, price-history.json, categories.json,
+ * watchlist.json, alerts.json and runs.json — the layout CATALOG_STORE=json
+ * reads. Locks are not copied.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  copyRepository, jsonFiles, migrate, openJsonRepository, openSqliteRepository, schemaVersion, MIGRATIONS,
+} from '../utils/store';
+import { DATA_DIR } from './lib/store';
+
+function dbFile(): string {
+  return path.resolve(process.env.CATALOG_DB ?? path.join(DATA_DIR, 'catalog.db'));
+}
+
+function main() {
+  const [cmd]  = process.argv.slice(2);
+  const dirArg = process.argv.find(a => a.startsWith('--dir='))?.slice('--dir='.length);
+  const dir    = dirArg ? path.resolve(dirArg) : DATA_DIR;
+  const file   = dbFile();
+
+  switch (cmd) {
+    case 'info':
+    case 'migrate': {
+      const exists = fs.existsSync(file);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      const db      = new Database(file);
+      const before  = schemaVersion(db);
+      const applied = cmd === 'migrate' ? migrate(db) : [];
+      console.log(`${file}${exists ? '' : ' (new)'}`);
+      for (const m of applied) console.log(`  ✓ applied ${m.version}: ${m.name}`);
+      const version = schemaVersion(db);
+      const latest  = MIGRATIONS[MIGRATIONS.length - 1].version;
+      console.log(`  schema version ${version} of ${latest}${version < latest && before === version ? ' — run `migrate`' : ''}`);
+      if (version > 0) {
+        const tables = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY rowid").all() as { name: string }[];
+        for (const { name: table } of tables) {
+          const { n } = db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number };
+          console.log(`  ${table.padEnd(16)} ${n}`);
+        }
+      }
+      db.close();
+      return;
+    }
+
+    case 'import': {
+      const files = jsonFiles(dir);
+      if (!fs.existsSync(files.gifts)) {
+        console.error(`[error] ${files.gifts} not found.`);
+        process.exit(1);
+      }
+      // Snapshots are append-only, so start from an empty database rather
+      // than copying over the old one
+      for (const f of [file, `${file}-wal`, `${file}-shm`]) fs.rmSync(f, { force: true });
+      const to = openSqliteRepository(file);
+      copyRepository(openJsonRepository(files), to);
+      console.log(`✓ ${files.gifts} (+ history, categories, watchlist) → ${file}`);
+      console.log(`  ${to.listProducts().length} products, ${to.listSnapshots().length} snapshots, ${to.getCategories().categories.length} categories`);
+      to.close();
+      return;
+    }
+
+    case 'export': {
+      if (!fs.existsSync(file)) {
+        console.error(`[error] ${file} not found.`);
+        process.exit(1);
+      }
+      const files = jsonFiles(dir);
+      const from  = openSqliteRepository(file);
+      // The JSON history and logs can only be appended to; start them afresh
+      for (const f of [files.history, files.alerts, files.runs]) fs.rmSync(f, { force: true });
+      copyRepository(from, openJsonRepository(files));
+      const written = [files.gifts, files.history, files.categories, files.watchlist, files.alerts, files.runs];
+      console.log(`✓ ${file} → ${dir}/{${written.map(f => path.basename(f)).join(',')}}`);
+      from.close();
+      return;
+    }
+
+    default:
+      console.error('Usage: npx tsx scripts/db.ts <info|migrate|import|export> [--dir=<data dir>]');
+      process.exit(1);
+  }
+}
+
+main();
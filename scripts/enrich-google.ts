@@ -0,0 +1,129 @@
+/**
+ * enrich-google.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Replaces placeholder googleResults in the catalogue store with real
+ * result counts from a search provider.
+ *
+ * Run after the scraper:
+ *   GOOGLE_CSE_KEY=… GOOGLE_CSE_CX=… npx tsx scripts/enrich-google.ts
+ *
+ * Offline (fixture provider, no network):
+ *   npx tsx scripts/enrich-google.ts --provider=fixture \
+ *     --fixture=scripts/fixtures/google-results.json
+ *
+ * Options
+ *   --provider=cse|fixture   default: cse
+ *   --fixture=<file>         JSON { "<name>": count } for --provider=fixture
+ *   --ttl-days=<n>           cache lifetime, default 30
+ *   --interval-ms=<n>        min gap between live requests, default 1100
+ *   --limit=<n>              stop after n provider lookups (quota guard, n ≥ 1)
+ *   --force                  also refresh items already marked enriched
+ *   --dry-run                print what would change, do not write
+ *
+ * Items marked `anchor` are never touched. Items the provider cannot
+ * answer keep their previous value and source.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as path from 'path';
+import type { Product } from './lib/product';
+import {
+  customSearchProvider, fixtureProvider, cachedProvider, rateLimitedProvider,
+  type SearchProvider,
+} from './lib/google-search';
+import { openStore, storeName } from './lib/store';
+
+// ── Config ────────────────────────────────────────────────────────────────
+const CACHE_FILE = path.resolve(__dirname, '../.cache/google-results.json');
+const DAY_MS     = 86_400_000;
+
+function arg(name: string): string | undefined {
+  const hit = process.argv.find(a => a.startsWith(`--${name}=`));
+  return hit?.slice(name.length + 3);
+}
+const flag = (name: string) => process.argv.includes(`--${name}`);
+
+/** Integer option ≥ `min`; a malformed value is an error, never a silent default. */
+function intArg(name: string, fallback: number, min: number): number {
+  const raw = arg(name);
+  if (raw === undefined) return fallback;
+  const n = Number(raw);
+  if (raw.trim() === '' || !Number.isInteger(n) || n < min) {
+    throw new Error(`--${name} must be an integer ≥ ${min}, got "${raw}"`);
+  }
+  return n;
+}
+
+function makeProvider(): SearchProvider {
+  const kind = arg('provider') ?? 'cse';
+  if (kind === 'fixture') {
+    const file = arg('fixture');
+    if (!file) throw new Error('--provider=fixture requires --fixture=<file>');
+    return fixtureProvider(path.resolve(file));
+  }
+  if (kind === 'cse') {
+    const key = process.env.GOOGLE_CSE_KEY;
+    const cx  = process.env.GOOGLE_CSE_CX;
+    if (!key || !cx) throw new Error('Set GOOGLE_CSE_KEY and GOOGLE_CSE_CX for --provider=cse');
+    return customSearchProvider(key, cx);
+  }
+  throw new Error(`Unknown provider "${kind}" (expected cse or fixture)`);
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────
+async function main() {
+  const ttlDays    = intArg('ttl-days', 30, 0);
+  const intervalMs = intArg('interval-ms', 1_100, 0);
+  const limit      = intArg('limit', Infinity, 1);
+  const force      = flag('force');
+  const dryRun     = flag('dry-run');
+
+  const inner    = makeProvider();
+  const provider = cachedProvider(rateLimitedProvider(inner, intervalMs), CACHE_FILE, ttlDays * DAY_MS);
+  console.log(`=== googleResults enrichment (${provider.name}) ===\n`);
+
+  const store    = openStore();
+  const products = store.listProducts() as Product[];
+  const todo     = products.filter(p =>
+    p.googleSource !== 'anchor' && (force || p.googleSource !== 'enriched'));
+
+  const enriched: Product[] = [];
+  let failed = 0, lookups = 0;
+  for (const p of todo) {
+    if (lookups >= limit) {
+      console.log(`[limit] stopping after ${limit} lookups`);
+      break;
+    }
+    lookups++;
+    try {
+      const count = await provider.resultCount(p.name);
+      console.log(`  ${p.name}: ${p.googleResults} → ${count}`);
+      p.googleResults = count;
+      p.googleSource  = 'enriched';
+      enriched.push(p);
+    } catch (e) {
+      console.error(`  [err] ${p.name}: ${(e as Error).message}`);
+      failed++;
+    }
+  }
+
+  provider.flush();
+
+  const bySource = products.reduce<Record<string, number>>((acc, p) => {
+    acc[p.googleSource] = (acc[p.googleSource] ?? 0) + 1;
+    return acc;
+  }, {});
+  console.log(`\n${enriched.length} enriched (${provider.hits} from cache), ${failed} failed, ${todo.length - lookups} skipped`);
+  console.log(`Sources: ${Object.entries(bySource).map(([k, v]) => `${k}=${v}`).join(', ')}`);
+
+  if (dryRun) {
+    console.log('[dry-run] nothing written');
+    return;
+  }
+  store.transaction(() => {
+    for (const p of enriched) store.setEnrichment(p.id, { googleResults: p.googleResults, googleSource: p.googleSource });
+  });
+  console.log(`✓ Saved ${enriched.length} enriched counts → ${storeName(store)}`);
+}
+
+main().catch(e => { console.error('[fatal]', e.message ?? e); process.exit(1); });
@@ -0,0 +1,68 @@
+/**
+ * export.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Exports the catalogue as CSV, XLSX or JSON — the same rows, columns and
+ * order as the table's export button — for scheduled reports.
+ *
+ * Usage:
+ *   npx tsx scripts/export.ts --format=xlsx --out=reports/gifts.xlsx
+ *   npx tsx scripts/export.ts --format=csv --category=Брелки --inStock=1 > brelky.csv
+ *   npx tsx scripts/export.ts --format=json --quick=value --profile=budget
+ *
+ * Every other --key=value is a table/API view parameter (category, shop, q,
+ * sort, dir, quick, grouped, profile, minPrice, maxPrice, inStock, …), so a
+ * URL copied from the browser can be replayed with --view='<query string>'.
+ * Without --out, CSV and JSON go to stdout; XLSX needs --out.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseCatalogQuery, queryAll, setCatalogRepository } from '../utils/catalog';
+import { EXPORT_FORMATS, exportRows, type ExportFormat } from '../utils/export';
+import { catalogParams, parseViewState } from '../utils/view-state';
+import { openStore } from './lib/store';
+
+function main() {
+  const view = new URLSearchParams();
+  let format: string = 'csv';
+  let out: string | undefined;
+
+  for (const arg of process.argv.slice(2)) {
+    const m = /^--([^=]+)=(.*)$/.exec(arg);
+    if (!m) {
+      console.error(`[error] Unrecognised argument "${arg}" (expected --key=value).`);
+      process.exit(1);
+    }
+    const [, key, value] = m;
+    if (key === 'format')    format = value;
+    else if (key === 'out')  out = value;
+    else if (key === 'view') new URLSearchParams(value.replace(/^.*\?/, '')).forEach((v, k) => view.set(k, v));
+    else                     view.set(key, value);
+  }
+
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    console.error(`[error] --format must be one of ${EXPORT_FORMATS.join(', ')}.`);
+    process.exit(1);
+  }
+  if (format === 'xlsx' && !out) {
+    console.error('[error] XLSX is binary — pass --out=<file>.');
+    process.exit(1);
+  }
+
+  setCatalogRepository(openStore());
+  // Same view → query mapping as the page, so quick-sorts and defaults match;
+  // like the page, malformed values fall back to their defaults
+  const rows = queryAll(parseCatalogQuery(catalogParams(parseViewState(view)))).items;
+
+  const file = exportRows(rows, format as ExportFormat);
+  if (!out) {
+    process.stdout.write(file.body);
+    return;
+  }
+  fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+  fs.writeFileSync(out, file.body);
+  console.log(`[done] ${rows.length} rows → ${out}`);
+}
+
+main();
@@ -0,0 +1,181 @@
+/**
+ * import-price-list.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Imports a supplier price list (CSV or XLSX) into the catalogue store.
+ *
+ * Usage:
+ *   npx tsx scripts/import-price-list.ts <file.csv|file.xlsx> --mapping=<config.json>
+ *
+ * Example (offline fixture, prints everything, writes nothing):
+ *   npx tsx scripts/import-price-list.ts \
+ *     scripts/fixtures/price-lists/example-supplier.csv \
+ *     --mapping=scripts/import-mappings/example-supplier.json --dry-run
+ *
+ * Options
+ *   --mapping=<file>          column-mapping config (see scripts/lib/price-list.ts)
+ *   --dry-run                 validate, merge and score in memory only
+ *   --out=<file>              merge into and write a gifts JSON file instead
+ *   --report=<file>           also write the validation report as JSON
+ *   --allow-new-categories    accept categories not in the category registry
+ *                             (registered there as new `auto` categories)
+ *   --strict                  write nothing when any row has an error
+ *   --stub-alerts             watchlist alerts to the local outbox, not sent
+ *   --no-alerts               skip the watchlist check
+ *
+ * What it does
+ *   1. Reads the sheet and maps columns per the config.
+ *   2. Validates every row: missing/unparseable price, missing name,
+ *      unknown category are errors (row skipped); odd ratings, review
+ *      counts or stock values are warnings (row kept with a fallback).
+ *      Categories go through the mapping's categoryMap, then the registry
+ *      aliases, and are stored under the registry's name.
+ *   3. Merges into the catalogue: a row updates the same shop's product
+ *      with the same URL or name, otherwise it is added with a new id.
+ *   4. Scores the imported items with the engine (default profile) and
+ *      prints where they land in the whole catalogue.
+ *   5. Checks the merged catalogue against the gift schema, then saves it
+ *      with a price snapshot in one transaction, then runs the watchlist,
+ *      like the scraper.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { evaluateGift, calculateValue } from '../utils/engine';
+import { daysSince, formatIssue as formatSchemaIssue, validateGifts } from '../utils/gift-schema';
+import { makeSnapshot } from '../utils/history';
+import { readGiftsJson, writeGiftsJson } from '../utils/store';
+import { categoryResolver } from './lib/category-store';
+import type { Product } from './lib/product';
+import { readSpreadsheet } from './lib/spreadsheet';
+import { loadMapping, mapPriceList, mergePriceList, type ImportIssue } from './lib/price-list';
+import { openStore, storeName } from './lib/store';
+import { checkWatchlist, formatAlertRecord } from './lib/watchlist';
+
+// ── Args ──────────────────────────────────────────────────────────────────
+function parseArgs(argv: string[]) {
+  const opt = (name: string) => argv.find(a => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+  return {
+    file:               argv.find(a => !a.startsWith('--')),
+    mapping:            opt('mapping'),
+    out:                opt('out'),
+    report:             opt('report'),
+    dryRun:             argv.includes('--dry-run'),
+    allowNewCategories: argv.includes('--allow-new-categories'),
+    strict:             argv.includes('--strict'),
+    alerts:             !argv.includes('--no-alerts'),
+    stubAlerts:         argv.includes('--stub-alerts'),
+  };
+}
+
+function formatIssue(i: ImportIssue): string {
+  const tag   = i.severity === 'error' ? '[error]' : '[warn] ';
+  const field = i.field ? ` ${i.field}:` : '';
+  const value = i.value !== undefined ? ` («${i.value}»)` : '';
+  return `  ${tag} row ${i.row}${field} ${i.message}${value}`;
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.file || !args.mapping) {
+    console.error('Usage: npx tsx scripts/import-price-list.ts <file.csv|file.xlsx> --mapping=<config.json> [--dry-run]');
+    process.exit(1);
+  }
+
+  const mapping  = loadMapping(args.mapping);
+  const outFile  = args.out ? path.resolve(args.out) : null;
+  const store    = openStore();
+  const existing = (outFile ? readGiftsJson(outFile) : store.listProducts()) as Product[];
+  const categories = categoryResolver(store.getCategories());
+  const registry   = categories.registry;
+  const known      = new Set([
+    ...existing.map(p => p.category),
+    ...registry.categories.map(c => c.name),
+    ...Object.keys(registry.aliases),
+  ]);
+
+  // 1–2. Map + validate
+  const grid   = readSpreadsheet(args.file, mapping.sheet);
+  const result = mapPriceList(grid, mapping, known, { allowNewCategories: args.allowNewCategories });
+  for (const r of result.rows) r.category = categories.resolve(r.category);
+  const errors   = result.issues.filter(i => i.severity === 'error');
+  const warnings = result.issues.filter(i => i.severity === 'warning');
+
+  console.log(`=== ${path.basename(args.file)} → shop "${mapping.shop}" ===\n`);
+  console.log(`Rows read: ${result.read} · valid: ${result.rows.length} · errors: ${errors.length} · warnings: ${warnings.length}`);
+  if (result.issues.length) {
+    console.log('');
+    for (const i of [...result.issues].sort((a, b) => a.row - b.row)) console.log(formatIssue(i));
+  }
+  if (args.report) {
+    fs.writeFileSync(args.report, JSON.stringify({
+      file: args.file, shop: mapping.shop, read: result.read, valid: result.rows.length, issues: result.issues,
+    }, null, 2) + '\n', 'utf-8');
+    console.log(`\n✓ Report → ${args.report}`);
+  }
+
+  // 3. Merge
+  for (const c of categories.added) console.log(`[category] New: «${c.name}» → id "${c.id}" (auto)`);
+  const merged = mergePriceList(existing, result.rows, mapping.shop);
+  console.log(`\nMerge: +${merged.added.length} new · ${merged.updated.length} updated · ${merged.unchanged} unchanged`);
+  for (const { before, after } of merged.updated) {
+    if (before.price !== after.price) console.log(`  ~ ${after.name}: ₴${before.price} → ₴${after.price}`);
+  }
+
+  // 4. Score with the engine, against the merged catalogue
+  const maxReviews = merged.products.reduce((m, p) => Math.max(m, p.reviews), 1);
+  const scored = merged.products.map(p => {
+    const { score } = evaluateGift({ ...p, daysSinceAdded: daysSince(p.firstSeenAt), maxReviews });
+    return { p, score, value: calculateValue(score, p.price) };
+  }).sort((a, b) => b.value - a.value);
+  const touched = new Set([...merged.added, ...merged.updated.map(u => u.after)].map(p => p.id));
+  if (touched.size) {
+    console.log(`\nImported items by Вигода (rank of ${scored.length}):`);
+    scored.forEach((s, i) => {
+      if (!touched.has(s.p.id)) return;
+      console.log(`  #${String(i + 1).padStart(3)}  ${s.value.toFixed(4)}  бал ${s.score.toFixed(3)}  ₴${s.p.price}  ${s.p.name}`);
+    });
+  }
+
+  // 5. Write
+  if (args.dryRun) {
+    console.log('\n[dry-run] nothing written.');
+    return;
+  }
+  if (args.strict && errors.length) {
+    console.error(`\n[error] ${errors.length} row error(s) and --strict set; nothing written.`);
+    process.exit(1);
+  }
+  const schemaErrors = validateGifts(merged.products);
+  if (schemaErrors.length) {
+    console.error(`\n[error] Merged catalogue fails the gift schema; nothing written:`);
+    for (const e of schemaErrors.slice(0, 20)) console.error(`  ${formatSchemaIssue(e)}`);
+    process.exit(1);
+  }
+  if (outFile) {
+    writeGiftsJson(outFile, merged.products);
+    console.log(`\n✓ Wrote ${merged.products.length} products → ${outFile}`);
+    return;
+  }
+  store.transaction(() => {
+    store.replaceProducts(merged.products);
+    if (categories.added.length) store.saveCategories(categories.registry);
+    store.appendSnapshot(makeSnapshot(merged.products));
+  });
+  console.log(`\n✓ Saved ${merged.products.length} products → ${storeName(store)}`);
+  if (categories.added.length) {
+    console.log(`✓ Registered ${categories.added.length} new categor${categories.added.length === 1 ? 'y' : 'ies'}`);
+  }
+  console.log(`✓ Price snapshot #${store.listSnapshots().length}`);
+
+  if (args.alerts) {
+    const watch = await checkWatchlist(store, { stub: args.stubAlerts });
+    if (watch.checked) {
+      console.log(`\nWatchlist: ${watch.alerts.length} alert(s)`);
+      for (const a of watch.alerts) console.log(formatAlertRecord(a));
+    }
+  }
+}
+
+main().catch(e => { console.error('[fatal]', e.message ?? e); process.exit(1); });
@@ -0,0 +1,40 @@
+/**
+ * helpers.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Parsing helpers shared by site adapters.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import { DEFAULT_STARS } from '../../../utils/gift-schema';
+
+export function parsePrice(raw: string): number {
+  const n = parseInt(raw.replace(/\D/g, ''), 10);
+  return isNaN(n) ? 0 : n;
+}
+
+export function parseStars(raw: string): number {
+  const n = parseFloat(raw.replace(',', '.'));
+  return isNaN(n) ? DEFAULT_STARS : Math.min(5, Math.max(0, n));
+}
+
+export function parseCount(raw: string): number {
+  return parseInt(raw.replace(/\D/g, ''), 10) || 0;
+}
+
+/**
+ * A listing date from markup (`<time datetime>`, schema.org `content`,
+ * "18.10.2026") as an ISO date, or undefined when there is none.
+ */
+export function parseListedAt(raw: string | undefined): string | undefined {
+  const s = raw?.trim();
+  if (!s) return undefined;
+  const dmy = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(s);
+  const iso = dmy ? `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}` : s;
+  const t = Date.parse(iso);
+  return isNaN(t) ? undefined : new Date(t).toISOString();
+}
+
+/** Resolves a possibly relative href against the shop origin. */
+export function absUrl(href: string, baseUrl: string): string {
+  return href.startsWith('http') ? href : `${baseUrl}${href}`;
+}
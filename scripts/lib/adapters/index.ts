@@ -0,0 +1,14 @@
+/**
+ * Adapter registry — add new shops here (and to utils/shops.ts).
+ */
+
+import { podaroktut } from './podaroktut';
+import type { SiteAdapter } from './types';
+
+export type { SiteAdapter, ScrapedCard, CardField, CategoryLink, ProductDetail } from './types';
+
+export const ADAPTERS: readonly SiteAdapter[] = [podaroktut];
+
+export function getAdapter(id: string): SiteAdapter | undefined {
+  return ADAPTERS.find(a => a.shop.id === id);
+}
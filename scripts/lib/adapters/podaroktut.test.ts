@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { podaroktut } from './podaroktut';
+
+const FIXTURES = path.join(__dirname, '..', '..', 'fixtures', 'podaroktut');
+const page = (file: string) => fs.readFileSync(path.join(FIXTURES, file), 'utf-8');
+/** The fields a parser actually found. */
+const found = (o: object) => Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined));
+
+test('discoverCategories reads the nav links once each, absolute', () => {
+  assert.deepEqual(podaroktut.discoverCategories(page('home.html')), [
+    { name: 'Мини бары', url: 'https://podaroktut.com.ua/mini-bary/' },
+    { name: 'Брелки',    url: 'https://podaroktut.com.ua/brelky/' },
+  ]);
+});
+
+test('discoverCategories finds nothing on a page without a nav', () => {
+  assert.deepEqual(podaroktut.discoverCategories(page('brelky-p2.html')), []);
+});
+
+test('fallbackCategories follow the registry slugs', () => {
+  const urls = podaroktut.fallbackCategories.map(c => c.url);
+  assert.ok(urls.includes('https://podaroktut.com.ua/brelky/'));
+  assert.ok(urls.every(u => u.startsWith(`${podaroktut.startUrl}/`) && u.endsWith('/')));
+});
+
+test('parseCards reads every field of a complete card', () => {
+  const [turtle] = podaroktut.parseCards(page('brelky-p1.html'));
+  assert.deepEqual(turtle, {
+    name:            'Брелок Черепаха нікель',
+    price:           185,
+    stars:           4.8,
+    reviews:         12,
+    personalization: true,
+    stock:           true,
+    url:             'https://podaroktut.com.ua/brelky/cherepakha-nikel/',
+    listedAt:        undefined,
+    selector:        '.product-card',
+    defaulted:       [],
+  });
+});
+
+test('parseCards takes the listing date and reports defaulted fields', () => {
+  const [, horseshoe] = podaroktut.parseCards(page('brelky-p1.html'));
+  assert.equal(horseshoe.name, 'Брелок Підкова бронзова');
+  assert.equal(horseshoe.price, 1240);
+  assert.equal(horseshoe.listedAt, '2026-09-01T00:00:00.000Z');
+  assert.deepEqual(horseshoe.defaulted, ['stars']);
+});
+
+test('parseCards marks out-of-stock cards', () => {
+  const cards = podaroktut.parseCards(page('brelky-p2.html'));
+  assert.equal(cards.length, 1);
+  assert.equal(cards[0].name, 'Брелок Кіт срібний');
+  assert.equal(cards[0].stock, false);
+});
+
+test('parseCards falls through to another card selector', () => {
+  const cards = podaroktut.parseCards(page('mini-bary-p1.html'));
+  assert.deepEqual(cards.map(c => c.selector), ['li.product', 'li.product']);
+  const barrel = cards[1];
+  assert.equal(barrel.price, 0);
+  assert.deepEqual(barrel.defaulted, ['price', 'stars', 'reviews']);
+});
+
+test('parseCards finds nothing on a page without cards', () => {
+  assert.deepEqual(podaroktut.parseCards(page('home.html')), []);
+});
+
+test('nextPage follows rel=next and stops on the last page', () => {
+  assert.equal(podaroktut.nextPage(page('brelky-p1.html')), 'https://podaroktut.com.ua/brelky/?page=2');
+  assert.equal(podaroktut.nextPage(page('brelky-p2.html')), null);
+  assert.equal(podaroktut.nextPage(page('mini-bary-p1.html')), null);
+});
+
+// ── Product pages ─────────────────────────────────────────────────────────
+test('parseDetail prefers JSON-LD over the page selectors', () => {
+  const d = podaroktut.parseDetail!(page('product-cherepakha-nikel.html'), 'https://podaroktut.com.ua/brelky/cherepakha-nikel/');
+  // .product-rating says 4,8; the JSON-LD aggregateRating wins
+  assert.equal(d.stars, 4.9);
+  assert.equal(d.reviews, 27);
+  assert.equal(d.sku, 'BR-1021');
+  assert.equal(d.stock, true);
+  assert.equal(d.listedAt, '2026-02-14T00:00:00.000Z');
+  assert.deepEqual(d.images, ['https://podaroktut.com.ua/img/br-1021-1.jpg', 'https://podaroktut.com.ua/img/br-1021-2.jpg']);
+});
+
+test('parseDetail drops placeholder engraving options', () => {
+  const d = podaroktut.parseDetail!(page('product-cherepakha-nikel.html'), 'https://podaroktut.com.ua/brelky/cherepakha-nikel/');
+  assert.deepEqual(d.personalizationOptions, ['Ініціали', "Ім'я до 10 символів", 'Дата']);
+});
+
+test('parseDetail reads microdata and scales ratings to five stars', () => {
+  const d = podaroktut.parseDetail!(page('product-pidkova-bronza.html'), 'https://podaroktut.com.ua/brelky/pidkova-bronza/');
+  assert.deepEqual(found(d), {
+    stars:       4.3,
+    reviews:     9,
+    description: 'Бронзова підкова на щастя, литво.',
+    images:      ['https://podaroktut.com.ua/img/br-1044.jpg'],
+    sku:         'BR-1044',
+    stock:       false,
+  });
+});
+
+test('parseDetail falls back to selectors on a page without structured data', () => {
+  const d = podaroktut.parseDetail!(page('product-flyaga-shkiryana-200ml.html'), 'https://podaroktut.com.ua/mini-bary/flyaga-shkiryana-200ml/');
+  assert.deepEqual(found(d), {
+    stars:       4.7,
+    reviews:     17,
+    description: "Фляга з нержавіючої сталі в шкіряному чохлі. Об'єм 200 мл.",
+    images:      ['https://podaroktut.com.ua/img/fl-200-1.jpg', 'https://podaroktut.com.ua/img/fl-200-2.jpg'],
+    sku:         'FL-200',
+    stock:       true,
+    personalizationOptions: ['Тиснення ініціалів', 'Гравіювання на кришці'],
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * podaroktut.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Adapter for podaroktut.com.ua.
+ *
+ * The card/pagination selectors are deliberately broad lists of common
+ * Ukrainian e-commerce class names; if a run returns 0 cards, open the site
+ * in DevTools, find the card element class and add it to CARD.
+ *
+ * Fixtures: scripts/fixtures/podaroktut/
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as cheerio from 'cheerio';
+import { CATEGORY_REGISTRY } from '../../../utils/categories';
+import { getShop } from '../../../utils/shops';
+import { absUrl, parseCount, parseListedAt, parsePrice, parseStars } from './helpers';
+import { mergeDetail, parseStructuredProduct } from './structured';
+import type { CardField, CategoryLink, ProductDetail, ScrapedCard, SiteAdapter } from './types';
+
+const shop     = getShop('podaroktut');
+const BASE_URL = shop.baseUrl;
+
+const NAV = 'nav a, .menu a, .catalog-menu a, .categories a, .sidebar-menu a';
+
+// Try several common Ukrainian e-commerce card selectors; the run report
+// counts which one matched, so a markup change shows up as a shift here
+const CARD_SELECTORS = [
+  '.product-card', '.catalog-item', '.item-card',
+  'article.product', '.goods-item', 'li.product',
+  '.product_item', '.catalog_item',
+];
+const CARD = CARD_SELECTORS.join(', ');
+
+const NEXT = 'a[rel="next"], .pagination .next a, a.next-page, .pager-next a';
+
+// Product page — used only for what structured data does not provide
+const DETAIL = {
+  rating:      '.product-rating, .rating-value, [class*="rating"]',
+  reviews:     '.reviews-count, a[href*="review"], [class*="review"]',
+  description: '.product-description, #description, .description, [class*="descr"]',
+  images:      '.product-gallery img, .product-images img, .gallery img',
+  sku:         '.product-sku, .sku, .product-code, [class*="article"]',
+  options:     'select[name*="engrav"] option, select[name*="personal"] option, .personalization-options li, .engraving-options li',
+};
+
+export const podaroktut: SiteAdapter = {
+  shop,
+  startUrl: BASE_URL,
+
+  discoverCategories(html) {
+    const $    = cheerio.load(html);
+    const seen = new Set<string>();
+    const cats: CategoryLink[] = [];
+
+    $(NAV).each((_, el) => {
+      const href = $(el).attr('href') ?? '';
+      const name = $(el).text().trim();
+      if (!name || !href || href === '/' || href.startsWith('#') || href.startsWith('?')) return;
+      const full = absUrl(href, BASE_URL);
+      if (!full.includes('podaroktut.com.ua')) return;
+      if (seen.has(full)) return;
+      seen.add(full);
+      cats.push({ name, url: full });
+    });
+
+    return cats;
+  },
+
+  // Registry slugs follow this shop's category URLs
+  fallbackCategories: CATEGORY_REGISTRY.categories
+    .filter(c => !c.auto && !c.parent)
+    .map(c => ({ name: c.name, url: `${BASE_URL}/${c.slug}/` })),
+
+  parseCards(html) {
+    const $ = cheerio.load(html);
+    const cards: ScrapedCard[] = [];
+
+    $(CARD).each((_, el) => {
+      const card = $(el);
+
+      const name =
+        card.find('.product-title, .item-title, h2, h3, .name, .title').first().text().trim() ||
+        card.find('a[title]').first().attr('title')?.trim() ||
+        '';
+      if (!name) return;
+
+      const href       = card.find('a').first().attr('href') ?? '';
+      const starsText  = card.find('[class*="rating"], [class*="star"]').first().text();
+      const reviewText = card.find('[class*="review"], [class*="comment"]').first().text();
+      const price   = parsePrice(card.find('[class*="price"]').first().text());
+      const url     = absUrl(href, BASE_URL);
+      const stars   = parseStars(starsText);
+      const reviews = parseCount(reviewText);
+
+      const defaulted: CardField[] = [];
+      if (!price)                                            defaulted.push('price');
+      if (isNaN(parseFloat(starsText.replace(',', '.'))))    defaulted.push('stars');
+      if (!/\d/.test(reviewText))                            defaulted.push('reviews');
+      if (!href)                                             defaulted.push('url');
+
+      const outOfStock =
+        card.find('[class*="out"], [class*="unavailable"]').length > 0 ||
+        card.text().toLowerCase().includes('немає в наявності');
+
+      const personalization =
+        card.find('[class*="personal"], [class*="engrav"], [class*="graviy"]').length > 0 ||
+        /персоналіз|гравіюванн/i.test(card.text());
+
+      // Listing date, when the card carries one (new-arrival badges often do)
+      const dateEl   = card.find('time[datetime], [itemprop="datePublished"], [itemprop="releaseDate"], [data-date-added]').first();
+      const listedAt = parseListedAt(dateEl.attr('datetime') ?? dateEl.attr('content') ?? dateEl.attr('data-date-added') ?? dateEl.text());
+
+      cards.push({
+        name, price, stars, reviews, personalization, stock: !outOfStock, url, listedAt,
+        selector: CARD_SELECTORS.find(s => card.is(s)),
+        defaulted,
+      });
+    });
+
+    return cards;
+  },
+
+  parseDetail(html) {
+    const $ = cheerio.load(html);
+    const structured = parseStructuredProduct($, BASE_URL);
+
+    const text   = (sel: string) => $(sel).first().text().trim();
+    const rating = text(DETAIL.rating);
+    const count  = text(DETAIL.reviews);
+    const sku    = text(DETAIL.sku).replace(/^(артикул|код товару|код)\s*:?\s*/i, '');
+    const images = $(DETAIL.images).toArray()
+      .map(el => $(el).attr('data-src') ?? $(el).attr('src') ?? '')
+      .filter(Boolean)
+      .map(src => absUrl(src, BASE_URL));
+    const page   = $('body').text().toLowerCase();
+
+    const fallback: ProductDetail = {
+      stars:       rating && !isNaN(parseFloat(rating.replace(',', '.'))) ? parseStars(rating) : undefined,
+      reviews:     /\d/.test(count) ? parseCount(count) : undefined,
+      description: text(DETAIL.description).replace(/\s+/g, ' ') || undefined,
+      images:      images.length ? Array.from(new Set(images)) : undefined,
+      sku:         sku || undefined,
+      stock:       page.includes('немає в наявності') ? false : page.includes('в наявності') ? true : undefined,
+    };
+
+    // Placeholder <option>s ("Оберіть…", "Без гравіювання") are not options
+    const options = $(DETAIL.options).toArray()
+      .map(el => $(el).text().trim())
+      .filter(o => o && !/^(оберіть|виберіть|без\s)/i.test(o));
+
+    return {
+      ...mergeDetail(structured, fallback),
+      personalizationOptions: options.length ? Array.from(new Set(options)) : undefined,
+    };
+  },
+
+  nextPage(html) {
+    const $ = cheerio.load(html);
+    const h = $(NEXT).first().attr('href');
+    return h ? absUrl(h, BASE_URL) : null;
+  },
+};
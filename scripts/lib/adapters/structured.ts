@@ -0,0 +1,128 @@
+/**
+ * structured.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * schema.org Product data from a product page — JSON-LD first, microdata
+ * to fill the gaps. Shops generate these for search engines, so they are
+ * far more stable than CSS classes; adapters fall back to selectors only
+ * for what is still missing.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import type * as cheerio from 'cheerio';
+import { absUrl, parseListedAt } from './helpers';
+import type { ProductDetail } from './types';
+
+type Json = Record<string, unknown>;
+
+const num = (v: unknown): number | undefined => {
+  const n = typeof v === 'number' ? v : typeof v === 'string' ? parseFloat(v.replace(',', '.')) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const str = (v: unknown): string | undefined =>
+  typeof v === 'string' && v.trim() ? v.trim() : typeof v === 'number' ? String(v) : undefined;
+
+const list = <T>(v: T | T[] | undefined | null): T[] => (v == null ? [] : Array.isArray(v) ? v : [v]);
+
+/** schema.org ItemAvailability → in stock? (PreOrder/BackOrder count as no) */
+function availability(v: unknown): boolean | undefined {
+  const s = str(v);
+  if (!s) return undefined;
+  if (/InStock|LimitedAvailability|OnlineOnly|InStoreOnly/i.test(s)) return true;
+  if (/OutOfStock|SoldOut|Discontinued|PreOrder|BackOrder/i.test(s))  return false;
+  return undefined;
+}
+
+/** Rating on a 0–5 scale, whatever bestRating the shop uses. */
+function rating(value: unknown, best: unknown): number | undefined {
+  const v = num(value);
+  if (v === undefined) return undefined;
+  const b = num(best) ?? 5;
+  return Math.min(5, Math.max(0, b > 0 ? (v / b) * 5 : v));
+}
+
+function isProduct(node: Json): boolean {
+  return list(node['@type'] as string | string[]).some(t => /(^|\/)Product$/.test(String(t)));
+}
+
+/** Every object in the JSON-LD blocks, @graph and nesting flattened. */
+function jsonLdNodes($: cheerio.Root): Json[] {
+  const out: Json[] = [];
+  const walk = (v: unknown) => {
+    if (Array.isArray(v)) { v.forEach(walk); return; }
+    if (!v || typeof v !== 'object') return;
+    out.push(v as Json);
+    if ((v as Json)['@graph']) walk((v as Json)['@graph']);
+  };
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      walk(JSON.parse($(el).contents().text()));
+    } catch {
+      // Broken JSON-LD is common (trailing commas, HTML entities) — skip it
+    }
+  });
+  return out;
+}
+
+function fromJsonLd($: cheerio.Root, baseUrl: string): ProductDetail {
+  const p = jsonLdNodes($).find(isProduct);
+  if (!p) return {};
+
+  const agg    = (p.aggregateRating ?? {}) as Json;
+  const offers = list(p.offers as Json | Json[]).flatMap(o => [o, ...list(o.offers as Json | Json[])]);
+  const stock  = offers.map(o => availability(o.availability)).find(s => s !== undefined);
+  const images = list(p.image as unknown)
+    .map(i => (typeof i === 'string' ? i : str((i as Json)?.url) ?? str((i as Json)?.contentUrl)))
+    .filter((i): i is string => !!i)
+    .map(i => absUrl(i, baseUrl));
+
+  return {
+    stars:       rating(agg.ratingValue, agg.bestRating),
+    reviews:     num(agg.reviewCount) ?? num(agg.ratingCount),
+    description: str(p.description),
+    images:      images.length ? images : undefined,
+    sku:         str(p.sku) ?? str(p.mpn) ?? str(p.productID),
+    stock,
+    listedAt:    parseListedAt(str(p.releaseDate) ?? str(p.datePublished)),
+  };
+}
+
+function fromMicrodata($: cheerio.Root, baseUrl: string): ProductDetail {
+  const scope = $('[itemscope][itemtype*="schema.org/Product"]').first();
+  if (!scope.length) return {};
+
+  // itemprop value per the microdata spec: content/href/src/datetime, else text
+  const prop = (name: string, root: cheerio.Cheerio = scope): string | undefined => {
+    const el = root.find(`[itemprop="${name}"]`).first();
+    if (!el.length) return undefined;
+    return str(el.attr('content') ?? el.attr('datetime') ?? el.attr('href') ?? el.attr('src') ?? el.text());
+  };
+
+  const agg    = scope.find('[itemprop="aggregateRating"]').first();
+  const images = scope.find('[itemprop="image"]').toArray()
+    .map(el => str($(el).attr('content') ?? $(el).attr('src') ?? $(el).attr('href')))
+    .filter((i): i is string => !!i)
+    .map(i => absUrl(i, baseUrl));
+
+  return {
+    stars:       agg.length ? rating(prop('ratingValue', agg), prop('bestRating', agg)) : undefined,
+    reviews:     agg.length ? num(prop('reviewCount', agg)) ?? num(prop('ratingCount', agg)) : undefined,
+    description: prop('description'),
+    images:      images.length ? images : undefined,
+    sku:         prop('sku') ?? prop('mpn'),
+    stock:       availability(prop('availability')),
+    listedAt:    parseListedAt(prop('releaseDate') ?? prop('datePublished')),
+  };
+}
+
+/** Fields of `b` fill whatever `a` left undefined. */
+export function mergeDetail(a: ProductDetail, b: ProductDetail): ProductDetail {
+  const out: ProductDetail = { ...b };
+  for (const [k, v] of Object.entries(a)) if (v !== undefined) (out as Record<string, unknown>)[k] = v;
+  return out;
+}
+
+/** JSON-LD Product, with microdata filling any field it lacks. */
+export function parseStructuredProduct($: cheerio.Root, baseUrl: string): ProductDetail {
+  return mergeDetail(fromJsonLd($, baseUrl), fromMicrodata($, baseUrl));
+}
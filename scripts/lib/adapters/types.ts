@@ -0,0 +1,68 @@
+/**
+ * types.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Site-adapter contract. An adapter only turns HTML into data — it never
+ * fetches. The crawler (../crawl.ts) owns networking, pagination limits,
+ * politeness delays and id assignment, so every adapter can be exercised
+ * against saved HTML fixtures without network access.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import type { ShopInfo } from '../../../utils/shops';
+
+export interface CategoryLink {
+  name: string;
+  url:  string;
+}
+
+/** Card fields an adapter falls back to a default for when it cannot read them. */
+export type CardField = 'price' | 'stars' | 'reviews' | 'url';
+
+/** One listing card, before the crawler adds id/category/shop/google data. */
+export interface ScrapedCard {
+  name:            string;
+  price:           number;   // 0 when the card shows no readable price
+  stars:           number;
+  reviews:         number;
+  personalization: boolean;
+  stock:           boolean;
+  url:             string;
+  /** ISO date the shop says the item was listed, when the card shows one. */
+  listedAt?:       string;
+  /** Card selector that matched this element (run report only, not stored). */
+  selector?:       string;
+  /** Fields that got a default instead of a parsed value (run report only). */
+  defaulted?:      CardField[];
+}
+
+/**
+ * What a product page adds to its listing card. Every field is optional —
+ * a missing one keeps the card's value.
+ */
+export interface ProductDetail {
+  stars?:                  number;
+  reviews?:                number;
+  description?:            string;
+  images?:                 string[];   // absolute URLs
+  sku?:                    string;
+  /** Engraving / print choices offered on the page, e.g. "Гравіювання імені". */
+  personalizationOptions?: string[];
+  stock?:                  boolean;
+  listedAt?:               string;     // ISO date
+}
+
+export interface SiteAdapter {
+  shop: ShopInfo;
+  /** Page the category nav is read from (usually the home page). */
+  startUrl: string;
+  /** Category links found in the start page's navigation. */
+  discoverCategories(html: string): CategoryLink[];
+  /** Used when discoverCategories() returns nothing (markup changed). */
+  fallbackCategories: CategoryLink[];
+  /** All product cards on one listing page. */
+  parseCards(html: string): ScrapedCard[];
+  /** Absolute URL of the next listing page, or null on the last one. */
+  nextPage(html: string): string | null;
+  /** Product page → details; adapters without one skip the detail pass. */
+  parseDetail?(html: string, url: string): ProductDetail;
+}
@@ -0,0 +1,38 @@
+/**
+ * category-store.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * The resolver the scraper and importer use to map the names shops print
+ * onto registry categories (utils/categories.ts). The registry itself is
+ * read from and saved to the catalogue store.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import { findCategory, registerCategory, type CategoryInfo, type CategoryRegistry } from '../../utils/categories';
+
+export interface CategoryResolver {
+  /** Canonical category name for a scraped one; unknown names are registered. */
+  resolve(raw: string): string;
+  /** Whether `raw` maps to a registry category without adding one. */
+  known(raw: string): boolean;
+  /** Categories registered by resolve() so far. */
+  readonly added: CategoryInfo[];
+  readonly registry: CategoryRegistry;
+}
+
+export function categoryResolver(initial: CategoryRegistry): CategoryResolver {
+  let registry = initial;
+  const added: CategoryInfo[] = [];
+  return {
+    resolve(raw) {
+      const r = registerCategory(registry, raw);
+      if (r.added) {
+        registry = r.registry;
+        added.push(r.category);
+      }
+      return r.category.name;
+    },
+    known: raw => !!findCategory(raw, registry),
+    added,
+    get registry() { return registry; },
+  };
+}
@@ -0,0 +1,166 @@
+import { after, before, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { getShop } from '../../utils/shops';
+import type { SiteAdapter } from './adapters';
+import { planCrawl } from './crawl';
+import { BlockedError, createPolicy, politeFetcher, type CrawlPolicyConfig } from './crawl-policy';
+import { cachingFetcher } from './http';
+
+// ── Local shop ────────────────────────────────────────────────────────────
+// robots.txt is whatever the test sets; every other path is a small page
+let robots: { status: number; body: string } = { status: 404, body: '' };
+const requests: string[] = [];
+
+const server = http.createServer((req, res) => {
+  requests.push(req.url ?? '');
+  if (req.url === '/robots.txt') {
+    res.writeHead(robots.status, { 'Content-Type': 'text/plain' });
+    res.end(robots.body);
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': 'text/html' });
+  res.end(req.url === '/'
+    ? '<nav><a href="/brelky/">Брелки</a><a href="/kubky/">Кубки</a><a href="/cart">Кошик</a></nav>'
+    : `<h1>${req.url}</h1>`);
+});
+
+let base = '';
+let cacheDir = '';
+before(async () => {
+  await new Promise<void>(r => server.listen(0, '127.0.0.1', r));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'crawl-policy-'));
+});
+after(() => {
+  server.close();
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+beforeEach(() => { requests.length = 0; });
+
+const config = (defaults: Partial<CrawlPolicyConfig['defaults']> = {}): CrawlPolicyConfig => ({
+  userAgent:   'Mozilla/5.0 (compatible; GiftAnalyzerBot/1.1)',
+  robotsAgent: 'GiftAnalyzerBot',
+  defaults:    { delayMs: 0, concurrency: 3, maxPages: 5, obeyRobots: true, allow: [], deny: [], ...defaults },
+  hosts:       {},
+});
+
+/** A fresh live fetcher per test, without retry backoff. */
+const live = () => cachingFetcher(fs.mkdtempSync(path.join(cacheDir, 'run-')), {
+  conditional: false,
+  retry:       { retries: 0, baseDelayMs: 1, maxDelayMs: 1 },
+});
+
+// ── Verdicts ──────────────────────────────────────────────────────────────
+test('robots.txt Allow/Disallow: the longest match decides', async () => {
+  robots = { status: 200, body: 'User-agent: *\nDisallow: /brelky\nAllow: /brelky/kit\n' };
+  const policy = createPolicy(config(), live());
+
+  assert.deepEqual(await policy.check(`${base}/brelky/pidkova`), { allowed: false, reason: 'robots.txt Disallow: /brelky' });
+  assert.deepEqual(await policy.check(`${base}/brelky/kit-sribnyi`), { allowed: true });
+  assert.deepEqual(await policy.check(`${base}/kubky/`), { allowed: true });
+  // robots.txt is read once per origin
+  assert.deepEqual(requests, ['/robots.txt']);
+});
+
+test('deny patterns apply before robots.txt, and allow lists admit only matches', async () => {
+  robots = { status: 200, body: '' };
+  const policy = createPolicy(config({ deny: ['/cart'], allow: ['/brelky/', '/cart'] }), live());
+  assert.deepEqual(await policy.check(`${base}/cart?x=1`), { allowed: false, reason: 'deny /cart' });
+  assert.deepEqual(await policy.check(`${base}/kubky/`), { allowed: false, reason: 'not in allow list' });
+  assert.deepEqual(await policy.check(`${base}/brelky/`), { allowed: true });
+});
+
+test('a 4xx robots.txt allows everything', async () => {
+  robots = { status: 404, body: 'not found' };
+  const policy = createPolicy(config(), live());
+  assert.deepEqual(await policy.check(`${base}/brelky/`), { allowed: true });
+  assert.deepEqual(await policy.limits(`${base}/`), { delayMs: 0, concurrency: 3 });
+});
+
+test('a 5xx robots.txt disallows everything', async () => {
+  robots = { status: 503, body: 'down' };
+  const policy = createPolicy(config(), live());
+  assert.deepEqual(await policy.check(`${base}/`), { allowed: false, reason: 'robots.txt Disallow: /' });
+
+  const fetch = politeFetcher(live(), policy, { pace: true });
+  await assert.rejects(fetch(`${base}/brelky/`), BlockedError);
+  assert.ok(!requests.includes('/brelky/'));
+});
+
+test('obeyRobots: false ignores robots.txt', async () => {
+  robots = { status: 200, body: 'User-agent: *\nDisallow: /\nCrawl-delay: 5\n' };
+  const policy = createPolicy(config({ obeyRobots: false, delayMs: 10 }), live());
+  assert.deepEqual(await policy.check(`${base}/brelky/`), { allowed: true });
+  assert.deepEqual(await policy.limits(`${base}/`), { delayMs: 10, concurrency: 3 });
+});
+
+// ── Pace ──────────────────────────────────────────────────────────────────
+test('Crawl-delay raises delayMs and forces concurrency 1', async () => {
+  robots = { status: 200, body: 'User-agent: GiftAnalyzerBot\nCrawl-delay: 0.15\n\nUser-agent: *\nCrawl-delay: 9\n' };
+  const policy = createPolicy(config({ delayMs: 50 }), live());
+  assert.deepEqual(await policy.limits(`${base}/`), { delayMs: 150, concurrency: 1, crawlDelay: 0.15 });
+
+  // A configured delay longer than Crawl-delay is kept
+  const slow = createPolicy(config({ delayMs: 400 }), live());
+  assert.deepEqual(await slow.limits(`${base}/`), { delayMs: 400, concurrency: 1, crawlDelay: 0.15 });
+
+  // Request starts as the fetcher makes them; arrival times at the server
+  // would add connection jitter
+  const inner  = live();
+  const starts: number[] = [];
+  let inFlight = 0, maxInFlight = 0;
+  const fetch = politeFetcher(async url => {
+    starts.push(Date.now());
+    maxInFlight = Math.max(maxInFlight, ++inFlight);
+    try { return await inner(url); } finally { inFlight--; }
+  }, policy, { pace: true });
+  await Promise.all(['/a', '/b', '/c'].map(p => fetch(`${base}${p}`)));
+
+  assert.equal(starts.length, 3);
+  assert.equal(maxInFlight, 1);
+  // setTimeout may fire a millisecond early; allow that much slack.
+  for (let i = 1; i < starts.length; i++) assert.ok(starts[i] - starts[i - 1] >= 149, `gap ${starts[i] - starts[i - 1]} ms`);
+});
+
+test('without pace the policy is checked but nobody waits', async () => {
+  robots = { status: 200, body: 'User-agent: *\nDisallow: /cart\nCrawl-delay: 10\n' };
+  const policy = createPolicy(config(), live());
+  const fetch  = politeFetcher(live(), policy, { pace: false });
+  const started = Date.now();
+  await fetch(`${base}/a`);
+  await fetch(`${base}/b`);
+  assert.ok(Date.now() - started < 1_000);
+  await assert.rejects(fetch(`${base}/cart`), (e: unknown) => e instanceof BlockedError && e.reason === 'robots.txt Disallow: /cart');
+});
+
+// ── Dry run ───────────────────────────────────────────────────────────────
+test('planCrawl lists the start page, categories and extra URLs with verdicts', async () => {
+  robots = { status: 200, body: 'User-agent: *\nDisallow: /kubky/\n' };
+  const adapter: SiteAdapter = {
+    shop:     getShop('podaroktut'),
+    startUrl: `${base}/`,
+    discoverCategories: html => Array.from(html.matchAll(/<a href="([^"]+)">([^<]+)<\/a>/g))
+      .map(m => ({ name: m[2], url: new URL(m[1], base).href })),
+    fallbackCategories: [],
+    parseCards: () => [],
+    nextPage:   () => null,
+  };
+  const policy = createPolicy(config({ deny: ['/cart'] }), live());
+  const fetch  = politeFetcher(live(), policy, { pace: false });
+
+  const plan = await planCrawl(adapter, fetch, policy, [{ url: `${base}/brelky/kit/`, label: 'Брелок Кіт' }]);
+  assert.deepEqual(plan, [
+    { url: `${base}/`,            label: 'start page', allowed: true },
+    { url: `${base}/brelky/`,     label: 'Брелки',     allowed: true },
+    { url: `${base}/kubky/`,      label: 'Кубки',      allowed: false, reason: 'robots.txt Disallow: /kubky/' },
+    { url: `${base}/cart`,        label: 'Кошик',      allowed: false, reason: 'deny /cart' },
+    { url: `${base}/brelky/kit/`, label: 'Брелок Кіт', allowed: true },
+  ]);
+  // Only robots.txt and the start page are fetched
+  assert.deepEqual([...requests].sort(), ['/', '/robots.txt']);
+});
@@ -0,0 +1,199 @@
+/**
+ * crawl-policy.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * What the scraper may fetch, and how fast. Every request goes through
+ * politeFetcher(), which
+ *
+ *   1. checks the URL against the host's allow/deny patterns and its
+ *      robots.txt (fetched once per origin, for `robotsAgent`);
+ *   2. waits for a free slot: at most `concurrency` requests in flight per
+ *      host, request starts at least `delayMs` apart — raised to the
+ *      robots.txt Crawl-delay when that is longer (which also forces
+ *      concurrency 1).
+ *
+ * Settings live in scripts/crawl-policy.json:
+ *
+ *   {
+ *     "userAgent":   "Mozilla/5.0 (compatible; GiftAnalyzerBot/1.1)",
+ *     "robotsAgent": "GiftAnalyzerBot",
+ *     "defaults": { "delayMs": 900, "concurrency": 1, "maxPages": 15,
+ *                   "obeyRobots": true, "allow": [], "deny": [] },
+ *     "hosts": { "podaroktut.com.ua": { "concurrency": 2, "deny": ["/cart"] } }
+ *   }
+ *
+ * Patterns use robots.txt syntax (`*`, trailing `$`) against path + query.
+ * A non-empty `allow` list admits only matching URLs; `deny` always wins.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { HttpError, type Fetcher } from './http';
+import { ALLOW_ALL, DISALLOW_ALL, groupFor, isAllowed, parseRobots, patternToRegExp, type Robots } from './robots';
+
+export const CRAWL_POLICY_FILE = path.resolve(__dirname, '../crawl-policy.json');
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface HostPolicy {
+  delayMs:     number;
+  concurrency: number;
+  maxPages:    number;
+  obeyRobots:  boolean;
+  allow:       string[];
+  deny:        string[];
+}
+
+export interface CrawlPolicyConfig {
+  /** Sent as User-Agent on every request. */
+  userAgent:   string;
+  /** Product token robots.txt groups are matched against. */
+  robotsAgent: string;
+  defaults:    HostPolicy;
+  /** Keyed by host name without "www.". */
+  hosts:       Record<string, Partial<HostPolicy>>;
+}
+
+/** Limits in force for a host once its robots.txt is known. */
+export interface HostLimits {
+  delayMs:     number;
+  concurrency: number;
+  /** robots.txt Crawl-delay in seconds, when it set one. */
+  crawlDelay?: number;
+}
+
+export interface PolicyVerdict {
+  allowed: boolean;
+  reason?: string;
+}
+
+export class BlockedError extends Error {
+  constructor(readonly url: string, readonly reason: string) {
+    super(`Blocked by crawl policy: ${url} (${reason})`);
+  }
+}
+
+// ── Config ────────────────────────────────────────────────────────────────
+export function loadCrawlPolicy(file: string = CRAWL_POLICY_FILE): CrawlPolicyConfig {
+  const c = JSON.parse(fs.readFileSync(file, 'utf-8')) as CrawlPolicyConfig;
+  if (!c.userAgent || !c.robotsAgent) throw new Error(`${file}: "userAgent" and "robotsAgent" are required`);
+  const check = (where: string, p: Partial<HostPolicy>) => {
+    for (const k of ['delayMs', 'maxPages'] as const) {
+      if (p[k] !== undefined && !(Number.isInteger(p[k]) && p[k]! >= 0)) throw new Error(`${file}: ${where}.${k} must be a non-negative integer`);
+    }
+    if (p.concurrency !== undefined && !(Number.isInteger(p.concurrency) && p.concurrency >= 1)) {
+      throw new Error(`${file}: ${where}.concurrency must be ≥ 1`);
+    }
+  };
+  check('defaults', c.defaults);
+  for (const [host, p] of Object.entries(c.hosts ?? {})) check(`hosts["${host}"]`, p);
+  return { ...c, defaults: { ...c.defaults, allow: c.defaults.allow ?? [], deny: c.defaults.deny ?? [] }, hosts: c.hosts ?? {} };
+}
+
+const hostKey = (url: string) => new URL(url).hostname.replace(/^www\./, '');
+
+export function hostPolicy(config: CrawlPolicyConfig, url: string): HostPolicy {
+  return { ...config.defaults, ...config.hosts[hostKey(url)] };
+}
+
+// ── Policy ────────────────────────────────────────────────────────────────
+export interface CrawlPolicy {
+  readonly config: CrawlPolicyConfig;
+  /** Allow/deny patterns, then robots.txt. */
+  check(url: string): Promise<PolicyVerdict>;
+  limits(url: string): Promise<HostLimits>;
+  robots(url: string): Promise<Robots>;
+}
+
+/**
+ * `fetchRobots` is used for /robots.txt only. Per RFC 9309 a 4xx means
+ * "no rules"; a 5xx or network failure means "crawl nothing" until it can
+ * be read.
+ */
+export function createPolicy(config: CrawlPolicyConfig, fetchRobots: Fetcher): CrawlPolicy {
+  const cache = new Map<string, Promise<Robots>>();
+
+  const robots = (url: string): Promise<Robots> => {
+    const origin = new URL(url).origin;
+    let r = cache.get(origin);
+    if (!r) {
+      r = fetchRobots(`${origin}/robots.txt`).then(parseRobots, (e: unknown) => {
+        if (e instanceof HttpError && e.status >= 400 && e.status < 500) return ALLOW_ALL;
+        console.warn(`[robots] ${origin}/robots.txt unavailable (${(e as Error).message}) — not crawling ${origin}`);
+        return DISALLOW_ALL;
+      });
+      cache.set(origin, r);
+    }
+    return r;
+  };
+
+  return {
+    config,
+    robots,
+
+    async check(url) {
+      const hp   = hostPolicy(config, url);
+      const u    = new URL(url);
+      const path = `${u.pathname}${u.search}`;
+      const deny = hp.deny.find(p => patternToRegExp(p).test(path));
+      if (deny) return { allowed: false, reason: `deny ${deny}` };
+      if (hp.allow.length && !hp.allow.some(p => patternToRegExp(p).test(path))) {
+        return { allowed: false, reason: 'not in allow list' };
+      }
+      if (!hp.obeyRobots) return { allowed: true };
+      const v = isAllowed(await robots(url), config.robotsAgent, url);
+      return v.allowed ? { allowed: true } : { allowed: false, reason: `robots.txt ${v.rule ?? 'unavailable'}` };
+    },
+
+    async limits(url) {
+      const hp = hostPolicy(config, url);
+      const crawlDelay = hp.obeyRobots ? groupFor(await robots(url), config.robotsAgent)?.crawlDelay : undefined;
+      if (crawlDelay === undefined) return { delayMs: hp.delayMs, concurrency: hp.concurrency };
+      return { delayMs: Math.max(hp.delayMs, crawlDelay * 1000), concurrency: 1, crawlDelay };
+    },
+  };
+}
+
+// ── Polite fetcher ────────────────────────────────────────────────────────
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+interface HostGate {
+  inFlight: number;
+  /** Earliest start time of the next request. */
+  next:     number;
+  waiters:  (() => void)[];
+}
+
+/**
+ * Wraps a fetcher with the policy. Disallowed URLs reject with
+ * {@link BlockedError}. With `pace: false` (offline fixtures) the policy is
+ * still checked but nobody waits.
+ */
+export function politeFetcher(inner: Fetcher, policy: CrawlPolicy, opts: { pace: boolean }): Fetcher {
+  const gates = new Map<string, HostGate>();
+
+  return async url => {
+    const verdict = await policy.check(url);
+    if (!verdict.allowed) throw new BlockedError(url, verdict.reason ?? 'blocked');
+    if (!opts.pace) return inner(url);
+
+    const { delayMs, concurrency } = await policy.limits(url);
+    const host = hostKey(url);
+    const gate = gates.get(host) ?? { inFlight: 0, next: 0, waiters: [] };
+    gates.set(host, gate);
+
+    while (gate.inFlight >= concurrency) await new Promise<void>(r => gate.waiters.push(r));
+    gate.inFlight++;
+    // Reserve the start slot before awaiting, so concurrent callers queue up
+    const start = Math.max(Date.now(), gate.next);
+    gate.next = start + delayMs;
+    try {
+      await sleep(start - Date.now());
+      // Timers fire late on a busy loop; space later requests from the real start
+      gate.next = Math.max(gate.next, Date.now() + delayMs);
+      return await inner(url);
+    } finally {
+      gate.inFlight--;
+      gate.waiters.shift()?.();
+    }
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * crawl-state.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Checkpoints of a running scrape (.cache/crawl-state.json, gitignored), so
+ * `scrape.ts --resume` continues a crashed or interrupted run instead of
+ * starting the whole crawl over.
+ *
+ * The crawler records, after every listing page, the cards collected so
+ * far per category and the URL of the next page. A finished category is
+ * marked done and is not fetched again on resume. The file is deleted once
+ * a run has written its results.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Product } from './product';
+
+export const CRAWL_STATE_FILE = path.resolve(__dirname, '../../.cache/crawl-state.json');
+
+export interface CategoryCheckpoint {
+  name:    string;
+  /** Products from the pages read so far (ids are reassigned at the end). */
+  items:   Product[];
+  /** Next listing page to read; null once the category is done. */
+  next:    string | null;
+  page:    number;
+  done:    boolean;
+  /** Last error when the category stopped early. */
+  error?:  string;
+}
+
+export interface ShopCheckpoint {
+  /** Keyed by category URL. */
+  categories:    Record<string, CategoryCheckpoint>;
+  /** Set once listing pages and the detail pass (if any) are complete. */
+  done:          boolean;
+}
+
+export interface CrawlState {
+  /** ISO-8601 start of the run — also firstSeenAt for new items. */
+  startedAt: string;
+  /** Shops and flags the run was started with; resume requires a match. */
+  shops:     string[];
+  details:   boolean;
+  progress:  Record<string, ShopCheckpoint>;
+}
+
+export function newCrawlState(shops: string[], details: boolean): CrawlState {
+  return { startedAt: new Date().toISOString(), shops, details, progress: {} };
+}
+
+export function readCrawlState(file: string = CRAWL_STATE_FILE): CrawlState | null {
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as CrawlState;
+}
+
+/** Temp file + rename, so a crash mid-write never corrupts the checkpoint. */
+export function saveCrawlState(state: CrawlState, file: string = CRAWL_STATE_FILE): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(state), 'utf-8');
+  fs.renameSync(tmp, file);
+}
+
+export function clearCrawlState(file: string = CRAWL_STATE_FILE): void {
+  if (fs.existsSync(file)) fs.unlinkSync(file);
+}
+
+export function shopCheckpoint(state: CrawlState, shop: string): ShopCheckpoint {
+  return (state.progress[shop] ??= { categories: {}, done: false });
+}
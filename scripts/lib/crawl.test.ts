@@ -0,0 +1,158 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { podaroktut } from './adapters/podaroktut';
+import { applyDetail, crawlShop, fetchDetails, fixtureFetcher, type CrawlOptions } from './crawl';
+import { BlockedError } from './crawl-policy';
+import type { ShopCheckpoint } from './crawl-state';
+import { HttpError, type Fetcher } from './http';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'podaroktut');
+const SEEN_AT  = '2026-10-01T00:00:00.000Z';
+
+const options = (fetch: Fetcher, extra: Partial<CrawlOptions> = {}): CrawlOptions => ({
+  fetch, maxPages: 10, startId: 100, seenAt: SEEN_AT, ...extra,
+});
+
+/** Records every URL requested through it. */
+function recording(inner: Fetcher) {
+  const urls: string[] = [];
+  const fetch: Fetcher = url => { urls.push(url); return inner(url); };
+  return { fetch, urls };
+}
+
+test('fixtureFetcher serves mapped pages and 404s the rest', async () => {
+  const fetch = fixtureFetcher(FIXTURES);
+  assert.match(await fetch('https://podaroktut.com.ua'), /catalog-menu/);
+  await assert.rejects(fetch('https://podaroktut.com.ua/nope/'), (e: unknown) => e instanceof HttpError && e.status === 404);
+});
+
+test('crawlShop discovers categories, paginates and numbers products', async () => {
+  const { fetch, urls } = recording(fixtureFetcher(FIXTURES));
+  const result = await crawlShop(podaroktut, options(fetch));
+
+  assert.deepEqual(urls, [
+    'https://podaroktut.com.ua',
+    'https://podaroktut.com.ua/mini-bary/',
+    'https://podaroktut.com.ua/brelky/',
+    'https://podaroktut.com.ua/brelky/?page=2',
+  ]);
+  assert.deepEqual(result.products.map(p => [p.id, p.category, p.name]), [
+    [100, 'Мини бары', 'Фляга шкіряна 200мл'],
+    [101, 'Мини бары', 'Бочка дубова 3л з краником'],
+    [102, 'Брелки',    'Брелок Черепаха нікель'],
+    [103, 'Брелки',    'Брелок Підкова бронзова'],
+    [104, 'Брелки',    'Брелок Кіт срібний'],
+  ]);
+  assert.deepEqual(result.complete, ['Мини бары', 'Брелки']);
+  assert.deepEqual(result.failed, []);
+  assert.equal(result.error, undefined);
+});
+
+test('crawlShop keeps listing dates, else earlier sightings, else this run', async () => {
+  const result = await crawlShop(podaroktut, options(fixtureFetcher(FIXTURES), {
+    firstSeen: c => (c.name === 'Брелок Кіт срібний' ? '2025-12-24T00:00:00.000Z' : undefined),
+  }));
+  const seen = Object.fromEntries(result.products.map(p => [p.name, p.firstSeenAt]));
+  assert.equal(seen['Брелок Підкова бронзова'], '2026-09-01T00:00:00.000Z');
+  assert.equal(seen['Брелок Кіт срібний'], '2025-12-24T00:00:00.000Z');
+  assert.equal(seen['Брелок Черепаха нікель'], SEEN_AT);
+});
+
+test('crawlShop uses anchors and placeholders for googleResults', async () => {
+  const result = await crawlShop(podaroktut, options(fixtureFetcher(FIXTURES)));
+  const turtle = result.products.find(p => p.name === 'Брелок Черепаха нікель')!;
+  const barrel = result.products.find(p => p.name === 'Бочка дубова 3л з краником')!;
+  assert.deepEqual([turtle.googleResults, turtle.googleSource], [5670, 'anchor']);
+  assert.equal(barrel.googleSource, 'placeholder');
+});
+
+test('crawlShop reads at most maxPages listing pages per category', async () => {
+  const { fetch, urls } = recording(fixtureFetcher(FIXTURES));
+  const result = await crawlShop(podaroktut, options(fetch, { maxPages: 1 }));
+  assert.ok(!urls.includes('https://podaroktut.com.ua/brelky/?page=2'));
+  assert.equal(result.products.length, 4);
+});
+
+test('crawlShop records a failing category and carries on', async () => {
+  const inner = fixtureFetcher(FIXTURES);
+  const fetch: Fetcher = url => (url.endsWith('?page=2') ? Promise.reject(new HttpError(503, url)) : inner(url));
+  const checkpoint: ShopCheckpoint = { categories: {}, done: false };
+  const result = await crawlShop(podaroktut, options(fetch, { checkpoint }));
+
+  assert.deepEqual(result.complete, ['Мини бары']);
+  assert.deepEqual(result.failed, [{ name: 'Брелки', error: 'HTTP 503 for https://podaroktut.com.ua/brelky/?page=2' }]);
+  assert.equal(result.products.length, 4);
+
+  // A second pass resumes the failed category at the page it stopped on
+  const { fetch: again, urls } = recording(inner);
+  const resumed = await crawlShop(podaroktut, options(again, { checkpoint }));
+  assert.deepEqual(urls, ['https://podaroktut.com.ua', 'https://podaroktut.com.ua/brelky/?page=2']);
+  assert.equal(resumed.products.length, 5);
+  assert.deepEqual(resumed.failed, []);
+});
+
+test('crawlShop falls back to the registry categories when the start page is blocked', async () => {
+  const inner = fixtureFetcher(FIXTURES);
+  const fetch: Fetcher = url => (url === podaroktut.startUrl ? Promise.reject(new BlockedError(url, 'robots.txt')) : inner(url));
+  const result = await crawlShop(podaroktut, options(fetch));
+
+  assert.equal(result.error, undefined);
+  assert.ok(result.complete.includes('Брелки'));
+  // Fallback categories without a fixture page 404 and are reported per category
+  assert.ok(result.failed.length > 0);
+  assert.ok(result.failed.every(f => f.error.startsWith('HTTP 404')));
+});
+
+test('crawlShop returns a shop-level error when the start page fails', async () => {
+  const { fetch, urls } = recording(async url => { throw new HttpError(500, url); });
+  const result = await crawlShop(podaroktut, options(fetch));
+
+  assert.deepEqual(urls, [podaroktut.startUrl]);
+  assert.equal(result.error, `start page: HTTP 500 for ${podaroktut.startUrl}`);
+  assert.deepEqual(result.products, []);
+  assert.deepEqual(result.failed, []);
+});
+
+// ── Detail pass ───────────────────────────────────────────────────────────
+test('applyDetail overrides card values and keeps what the page lacks', () => {
+  const p = {
+    id: 1, shop: 'podaroktut', name: 'Брелок', category: 'Брелки', price: 185, stars: 4.8, reviews: 12,
+    firstSeenAt: SEEN_AT, personalization: false, stock: true, googleResults: 1, googleSource: 'placeholder' as const, url: 'u',
+  };
+  applyDetail(p, { stars: 4.666, reviews: 26.6, stock: false, personalizationOptions: ['Ініціали'] });
+  assert.equal(p.stars, 4.67);
+  assert.equal(p.reviews, 27);
+  assert.equal(p.stock, false);
+  assert.equal(p.personalization, true);
+  assert.equal(p.firstSeenAt, SEEN_AT);
+  assert.equal(p.price, 185);
+
+  applyDetail(p, { listedAt: '2026-02-14T00:00:00.000Z', description: 'x'.repeat(3000), personalizationOptions: [] });
+  assert.equal(p.firstSeenAt, '2026-02-14T00:00:00.000Z');
+  assert.equal((p as { description?: string }).description?.length, 2000);
+  assert.deepEqual((p as { personalizationOptions?: string[] }).personalizationOptions, ['Ініціали']);
+});
+
+test('fetchDetails reads every product page and counts the ones that fail', async () => {
+  const fetch = fixtureFetcher(FIXTURES);
+  const { products } = await crawlShop(podaroktut, options(fetch));
+  const stats = await fetchDetails(podaroktut, products, { fetch, concurrency: 2 });
+
+  // Кіт срібний and Бочка have no product page in the fixtures
+  assert.deepEqual(stats, { fetched: 3, failed: 2, blocked: 0, skipped: 0 });
+  const turtle = products.find(p => p.name === 'Брелок Черепаха нікель')!;
+  assert.deepEqual([turtle.stars, turtle.reviews, turtle.sku, turtle.firstSeenAt], [4.9, 27, 'BR-1021', '2026-02-14T00:00:00.000Z']);
+  const horseshoe = products.find(p => p.name === 'Брелок Підкова бронзова')!;
+  assert.equal(horseshoe.stock, false);
+});
+
+test('fetchDetails counts blocked product pages separately', async () => {
+  const inner = fixtureFetcher(FIXTURES);
+  const { products } = await crawlShop(podaroktut, options(inner));
+  const fetch: Fetcher = url => (url.includes('/brelky/') && url !== 'https://podaroktut.com.ua/brelky/'
+    ? Promise.reject(new BlockedError(url, 'Disallow: /brelky/*'))
+    : inner(url));
+  const stats = await fetchDetails(podaroktut, products, { fetch, concurrency: 1 });
+  assert.deepEqual(stats, { fetched: 1, failed: 1, blocked: 3, skipped: 0 });
+});
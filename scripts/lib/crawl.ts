@@ -0,0 +1,319 @@
+/**
+ * crawl.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Runs a SiteAdapter: discovers categories, paginates each one and turns
+ * cards into Product records, then optionally reads each product page for
+ * the details cards lack. Fetching is injected (`Fetcher`) so the same
+ * code path runs live or against saved HTML fixtures; pacing and
+ * robots.txt are the fetcher's job (see ./crawl-policy).
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CategoryLink, ProductDetail, ScrapedCard, SiteAdapter } from './adapters';
+import { BlockedError, type CrawlPolicy } from './crawl-policy';
+import type { CategoryCheckpoint, ShopCheckpoint } from './crawl-state';
+import { HttpError, type Fetcher } from './http';
+import type { GoogleSource, Product } from './product';
+
+export type { Fetcher };
+
+// ── Fetchers ──────────────────────────────────────────────────────────────
+// Live fetchers (retries, HTML cache, conditional requests) are in ./http.
+
+/**
+ * Serves pages from `<dir>/urls.json` ({ "<url>": "<file>.html" }).
+ * Unknown URLs reject exactly like a 404 would.
+ */
+export function fixtureFetcher(dir: string): Fetcher {
+  const map = JSON.parse(fs.readFileSync(path.join(dir, 'urls.json'), 'utf-8')) as Record<string, string>;
+  return async url => {
+    const file = map[url];
+    if (!file) throw new HttpError(404, url);
+    return fs.readFileSync(path.join(dir, file), 'utf-8');
+  };
+}
+
+// ── googleResults placeholder ─────────────────────────────────────────────
+// Confirmed anchor values (exact Google result counts)
+const GOOGLE_ANCHORS: Record<string, number> = {
+  'Брелок Черепаха нікель': 5_670,
+  'Фляга шкіряна 200мл':    98_100,
+};
+
+/**
+ * Deterministic-ish "random" for a string seed so repeated runs give the
+ * same placeholder — avoids noisy diffs in git.
+ */
+function seededRandom(seed: string, min: number, max: number): number {
+  let h = 0;
+  for (let i = 0; i < seed.length; i++) {
+    h = (Math.imul(31, h) + seed.charCodeAt(i)) | 0;
+  }
+  const t = Math.abs(h) / 2_147_483_647;
+  return Math.round(min + t * (max - min));
+}
+
+export function googleResultsFor(name: string): { googleResults: number; googleSource: GoogleSource } {
+  if (GOOGLE_ANCHORS[name] !== undefined) {
+    return { googleResults: GOOGLE_ANCHORS[name], googleSource: 'anchor' };
+  }
+  return { googleResults: seededRandom(name, 500, 50_000), googleSource: 'placeholder' };
+}
+
+// ── Crawl ─────────────────────────────────────────────────────────────────
+export interface CrawlOptions {
+  fetch:    Fetcher;
+  maxPages: number;
+  /** First id to assign; ids increase by one per product. */
+  startId:  number;
+  /** ISO timestamp of this run — firstSeenAt of items never seen before. */
+  seenAt:   string;
+  /** Category name stored on products for a scraped one (the registry's). */
+  categoryName?: (scraped: string) => string;
+  /** Earlier firstSeenAt of a card from previous runs, if any. */
+  firstSeen?: (card: ScrapedCard) => string | undefined;
+  /**
+   * Progress of this shop, updated after every page; categories already
+   * done are not fetched again and a partial one continues where it
+   * stopped. `save` is called after each update.
+   */
+  checkpoint?: ShopCheckpoint;
+  save?:       () => void;
+  /** Called with the cards of every listing page read (for the run report). */
+  onPage?:     (page: { category: string; page: number; url: string; cards: ScrapedCard[] }) => void;
+}
+
+export interface CrawlResult {
+  products: Product[];
+  /** Categories read to their last page — absent products there are delisted. */
+  complete: string[];
+  /** Categories that stopped on an error; their products may be missing. */
+  failed:   { name: string; error: string }[];
+  /** Set when the start page could not be read — nothing was crawled. */
+  error?:   string;
+}
+
+export async function crawlShop(adapter: SiteAdapter, opts: CrawlOptions): Promise<CrawlResult> {
+  const { fetch, maxPages } = opts;
+  const shopId = adapter.shop.id;
+  const checkpoint = opts.checkpoint ?? { categories: {}, done: false };
+  const save = opts.save ?? (() => {});
+
+  if (checkpoint.done) {
+    console.log(`[checkpoint] ${shopId} finished in the interrupted run — not fetched again.`);
+    return crawlResult(Object.values(checkpoint.categories), opts.startId);
+  }
+
+  let categories: CategoryLink[];
+  try {
+    categories = await discover(adapter, fetch);
+  } catch (e) {
+    // Transient errors were already retried by the fetcher; the caller
+    // reports the shop and carries on with the others
+    const error = `start page: ${(e as Error).message}`;
+    console.error(`[err] ${error}`);
+    return { products: [], complete: [], failed: [], error };
+  }
+
+  for (const cat of categories) {
+    const cp: CategoryCheckpoint = checkpoint.categories[cat.url] ??= {
+      name: opts.categoryName?.(cat.name) ?? cat.name, items: [], next: cat.url, page: 1, done: false,
+    };
+    if (cp.done) {
+      console.log(`[cat] ${cp.name} — done in checkpoint (${cp.items.length} items)`);
+      continue;
+    }
+    console.log(`[cat] ${cp.name}${cp.name !== cat.name ? ` («${cat.name}»)` : ''}${cp.page > 1 ? ` — resuming at page ${cp.page}` : ''}`);
+    delete cp.error;
+
+    while (cp.next && cp.page <= maxPages) {
+      const pageUrl = cp.next;
+      console.log(`  [p${cp.page}] ${pageUrl}`);
+      let html: string;
+      try {
+        html = await fetch(pageUrl);
+      } catch (e) {
+        // Transient errors were already retried by the fetcher; give up on
+        // this category for now — --resume picks it up at this page
+        cp.error = (e as Error).message;
+        console.error(`  [err] ${cp.error}`);
+        break;
+      }
+
+      const cards = adapter.parseCards(html);
+      opts.onPage?.({ category: cp.name, page: cp.page, url: pageUrl, cards });
+      if (cards.length === 0) {
+        console.log('  → 0 items, stopping pagination.');
+        cp.next = null;
+        break;
+      }
+
+      for (const c of cards) {
+        cp.items.push({
+          id:              0,   // assigned below
+          shop:            shopId,
+          name:            c.name,
+          category:        cp.name,
+          price:           c.price,
+          stars:           c.stars,
+          reviews:         c.reviews,
+          // The shop's own listing date wins; else carry over the first
+          // run that saw it; else it is new as of this run
+          firstSeenAt:     c.listedAt ?? opts.firstSeen?.(c) ?? opts.seenAt,
+          personalization: c.personalization,
+          stock:           c.stock,
+          ...googleResultsFor(c.name),
+          url:             c.url,
+        });
+      }
+      console.log(`  → +${cards.length} (category total ${cp.items.length})`);
+
+      cp.next = adapter.nextPage(html);
+      cp.page++;
+      save();
+    }
+
+    if (!cp.error) {
+      cp.done = true;
+      cp.next = null;
+    }
+    save();
+  }
+
+  return crawlResult(categories.map(c => checkpoint.categories[c.url]), opts.startId);
+}
+
+async function discover(adapter: SiteAdapter, fetch: Fetcher): Promise<CategoryLink[]> {
+  console.log(`[discover] ${adapter.startUrl}`);
+  let categories: CategoryLink[] = [];
+  try {
+    categories = adapter.discoverCategories(await fetch(adapter.startUrl));
+  } catch (e) {
+    if (!(e instanceof BlockedError)) throw e;
+    console.warn(`[warn] ${e.message}`);
+  }
+  if (categories.length === 0) {
+    console.warn('[warn] Nav discovery found nothing — using hardcoded fallbacks.');
+    categories = adapter.fallbackCategories;
+  }
+  console.log(`[info] ${categories.length} categories found.\n`);
+  return categories;
+}
+
+function crawlResult(cps: CategoryCheckpoint[], startId: number): CrawlResult {
+  const products = cps.flatMap(cp => cp.items);
+  products.forEach((p, i) => { p.id = startId + i; });
+  return {
+    products,
+    complete: cps.filter(cp => cp.done).map(cp => cp.name),
+    failed:   cps.filter(cp => cp.error).map(cp => ({ name: cp.name, error: cp.error! })),
+  };
+}
+
+// ── Detail pass ───────────────────────────────────────────────────────────
+export interface DetailOptions {
+  fetch:       Fetcher;
+  /** Product pages in flight at once (the fetcher may allow fewer). */
+  concurrency: number;
+}
+
+export interface DetailStats {
+  fetched: number;
+  failed:  number;
+  blocked: number;   // crawl policy / robots.txt
+  skipped: number;   // no URL
+}
+
+/**
+ * Product page values replace the card's guesses; fields the page lacks
+ * keep the card's value. A listing date on the page becomes firstSeenAt.
+ */
+export function applyDetail(p: Product, d: ProductDetail): void {
+  if (d.stars   !== undefined) p.stars   = Math.round(d.stars * 100) / 100;
+  if (d.reviews !== undefined) p.reviews = Math.round(d.reviews);
+  if (d.stock   !== undefined) p.stock   = d.stock;
+  if (d.listedAt)              p.firstSeenAt = d.listedAt;
+  if (d.sku)                   p.sku         = d.sku;
+  if (d.description)           p.description = d.description.slice(0, 2000);
+  if (d.images?.length)        p.images      = d.images;
+  if (d.personalizationOptions?.length) {
+    p.personalizationOptions = d.personalizationOptions;
+    p.personalization        = true;
+  }
+}
+
+/**
+ * Second pass: visits every product URL and merges what adapter.parseDetail
+ * finds. Runs `concurrency` workers over one queue; the fetcher spaces the
+ * requests. A failed or blocked page is logged and leaves the card data as
+ * it was.
+ */
+export async function fetchDetails(adapter: SiteAdapter, products: Product[], opts: DetailOptions): Promise<DetailStats> {
+  const stats: DetailStats = { fetched: 0, failed: 0, blocked: 0, skipped: 0 };
+  if (!adapter.parseDetail) {
+    console.log(`[details] ${adapter.shop.id} has no detail parser — skipped.`);
+    stats.skipped = products.length;
+    return stats;
+  }
+  const parse = adapter.parseDetail.bind(adapter);
+
+  const queue = products.filter(p => p.url);
+  stats.skipped = products.length - queue.length;
+  console.log(`[details] ${queue.length} product pages, ${opts.concurrency} at a time`);
+
+  let next = 0;
+  const worker = async () => {
+    while (next < queue.length) {
+      const p = queue[next++];
+      try {
+        applyDetail(p, parse(await opts.fetch(p.url), p.url));
+        stats.fetched++;
+      } catch (e) {
+        if (e instanceof BlockedError) {
+          stats.blocked++;
+          console.warn(`  [skip] ${e.message}`);
+          continue;
+        }
+        stats.failed++;
+        console.error(`  [err] ${p.url}: ${(e as Error).message}`);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(opts.concurrency, queue.length)) }, worker));
+
+  console.log(`[details] ✓ ${stats.fetched} read, ${stats.failed} failed, ${stats.blocked} blocked, ${stats.skipped} without URL`);
+  return stats;
+}
+
+// ── Dry run ───────────────────────────────────────────────────────────────
+export interface PlannedUrl {
+  url:     string;
+  label:   string;
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * What a crawl would request first: the start page and every category's
+ * first listing page (later pages are only known once read), plus `extra`
+ * URLs (e.g. product pages for the detail pass), each with the policy's
+ * verdict. Fetches only robots.txt and the start page.
+ */
+export async function planCrawl(
+  adapter: SiteAdapter,
+  fetch: Fetcher,
+  policy: CrawlPolicy,
+  extra: { url: string; label: string }[] = [],
+): Promise<PlannedUrl[]> {
+  const categories = await discover(adapter, fetch);
+  const targets = [
+    { url: adapter.startUrl, label: 'start page' },
+    ...categories.map(c => ({ url: c.url, label: c.name })),
+    ...extra,
+  ];
+  const plan: PlannedUrl[] = [];
+  for (const t of targets) plan.push({ ...t, ...(await policy.check(t.url)) });
+  return plan;
+}
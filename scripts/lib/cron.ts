@@ -0,0 +1,93 @@
+/**
+ * cron.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Five-field cron expressions for the worker's schedule, in local time:
+ *
+ *   minute hour day-of-month month day-of-week
+ *   "0 6 * * *"        every day at 06:00
+ *   "30 *\/4 * * 1-5"   every 4 hours at :30, Monday to Friday
+ *
+ * Fields take *, numbers, ranges (a-b), lists (a,b) and steps (*\/n, a-b/n).
+ * Day-of-week 0 and 7 are Sunday. As in classic cron, when both
+ * day-of-month and day-of-week are restricted, either may match.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+export interface CronSchedule {
+  source:   string;
+  minutes:  Set<number>;
+  hours:    Set<number>;
+  days:     Set<number>;
+  months:   Set<number>;
+  weekdays: Set<number>;
+  /** Whether day-of-month / day-of-week were given (not "*"). */
+  daysRestricted:     boolean;
+  weekdaysRestricted: boolean;
+}
+
+const FIELDS: { name: string; min: number; max: number }[] = [
+  { name: 'minute',       min: 0, max: 59 },
+  { name: 'hour',         min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month',        min: 1, max: 12 },
+  { name: 'day of week',  min: 0, max: 7 },
+];
+
+function parseField(raw: string, f: (typeof FIELDS)[number], expr: string): Set<number> {
+  const out = new Set<number>();
+  for (const part of raw.split(',')) {
+    const m = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!m) throw new Error(`cron "${expr}": bad ${f.name} "${part}"`);
+    const lo   = m[1] === '*' ? f.min : Number(m[2]);
+    const hi   = m[1] === '*' ? f.max : m[3] !== undefined ? Number(m[3]) : m[4] ? f.max : lo;
+    const step = m[4] ? Number(m[4]) : 1;
+    if (lo < f.min || hi > f.max || lo > hi || step < 1) {
+      throw new Error(`cron "${expr}": ${f.name} "${part}" out of range ${f.min}-${f.max}`);
+    }
+    for (let v = lo; v <= hi; v += step) out.add(v);
+  }
+  return out;
+}
+
+export function parseCron(expr: string): CronSchedule {
+  const parts = expr.trim().split(/\s+/);
+  if (parts.length !== 5) throw new Error(`cron "${expr}": expected 5 fields, got ${parts.length}`);
+  const [minutes, hours, days, months, weekdays] = parts.map((p, i) => parseField(p, FIELDS[i], expr));
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    source: expr, minutes, hours, days, months, weekdays,
+    daysRestricted:     parts[2] !== '*',
+    weekdaysRestricted: parts[4] !== '*',
+  };
+}
+
+function dayMatches(s: CronSchedule, d: Date): boolean {
+  const dom = s.days.has(d.getDate());
+  const dow = s.weekdays.has(d.getDay());
+  if (s.daysRestricted && s.weekdaysRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/** First minute strictly after `from` that matches; null if none within ~4 years. */
+export function nextRun(s: CronSchedule, from: Date): Date | null {
+  const d = new Date(from.getTime());
+  d.setSeconds(0, 0);
+  d.setMinutes(d.getMinutes() + 1);
+  const limit = from.getTime() + 4 * 366 * 86_400_000;
+  while (d.getTime() <= limit) {
+    if (!s.months.has(d.getMonth() + 1)) {
+      d.setMonth(d.getMonth() + 1, 1);
+      d.setHours(0, 0, 0, 0);
+    } else if (!dayMatches(s, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0, 0, 0);
+    } else if (!s.hours.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0, 0, 0);
+    } else if (!s.minutes.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1, 0, 0);
+    } else {
+      return d;
+    }
+  }
+  return null;
+}
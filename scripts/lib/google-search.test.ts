@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  cachedProvider,
+  fixtureProvider,
+  rateLimitedProvider,
+  type SearchProvider,
+} from './google-search';
+
+const FIXTURE = path.join(__dirname, '..', 'fixtures', 'google-results.json');
+
+/** Provider that counts its calls and answers `query.length`. */
+function countingProvider(name = 'stub') {
+  const calls: string[] = [];
+  const provider: SearchProvider = {
+    name,
+    async resultCount(query) {
+      calls.push(query);
+      return query.length;
+    },
+  };
+  return { provider, calls };
+}
+
+function tmpFile(t: { after(fn: () => void): void }): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'google-search-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return path.join(dir, 'cache', 'google.json');
+}
+
+test('fixtureProvider answers from the fixture file', async () => {
+  const p = fixtureProvider(FIXTURE);
+  assert.equal(p.name, 'fixture:google-results.json');
+  assert.equal(await p.resultCount('Брелок Черепаха нікель'), 5670);
+  assert.equal(await p.resultCount('Кубок «Легенда офісу»'), 140000);
+});
+
+test('fixtureProvider rejects queries missing from the fixture', async () => {
+  const p = fixtureProvider(FIXTURE);
+  await assert.rejects(p.resultCount('Невідомий подарунок'), /No fixture entry for "Невідомий подарунок"/);
+});
+
+test('cachedProvider serves repeats from the cache and counts hits', async t => {
+  const { provider, calls } = countingProvider();
+  const cached = cachedProvider(provider, tmpFile(t), 60_000);
+
+  assert.equal(await cached.resultCount('abc'), 3);
+  assert.equal(await cached.resultCount('abc'), 3);
+  assert.equal(await cached.resultCount('abcd'), 4);
+  assert.deepEqual(calls, ['abc', 'abcd']);
+  assert.equal(cached.hits, 1);
+});
+
+test('cachedProvider persists entries on flush and reuses them', async t => {
+  const file = tmpFile(t);
+  const first = cachedProvider(fixtureProvider(FIXTURE), file, 60_000);
+  await first.resultCount('Фляга шкіряна 200мл');
+  assert.equal(fs.existsSync(file), false, 'nothing is written before flush');
+  first.flush();
+
+  const stored = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  assert.equal(stored['fixture:google-results.json|Фляга шкіряна 200мл'].count, 98100);
+
+  const { provider, calls } = countingProvider('fixture:google-results.json');
+  const second = cachedProvider(provider, file, 60_000);
+  assert.equal(await second.resultCount('Фляга шкіряна 200мл'), 98100);
+  assert.equal(second.hits, 1);
+  assert.deepEqual(calls, []);
+});
+
+test('cachedProvider refetches entries older than the TTL', async t => {
+  const file = tmpFile(t);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify({
+    'stub|old':   { count: 1, fetchedAt: new Date(Date.now() - 2 * 86_400_000).toISOString() },
+    'stub|fresh': { count: 2, fetchedAt: new Date().toISOString() },
+  }));
+
+  const { provider, calls } = countingProvider();
+  const cached = cachedProvider(provider, file, 86_400_000);
+  assert.equal(await cached.resultCount('old'), 3);
+  assert.equal(await cached.resultCount('fresh'), 2);
+  assert.deepEqual(calls, ['old']);
+  assert.equal(cached.hits, 1);
+});
+
+test('cachedProvider keys entries by provider name', async t => {
+  const file = tmpFile(t);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify({
+    'other|abc': { count: 999, fetchedAt: new Date().toISOString() },
+  }));
+
+  const { provider, calls } = countingProvider('stub');
+  const cached = cachedProvider(provider, file, 60_000);
+  assert.equal(await cached.resultCount('abc'), 3);
+  assert.deepEqual(calls, ['abc']);
+  assert.equal(cached.hits, 0);
+});
+
+test('cachedProvider.flush is a no-op when nothing changed', async t => {
+  const file = tmpFile(t);
+  const { provider } = countingProvider();
+  cachedProvider(provider, file, 60_000).flush();
+  assert.equal(fs.existsSync(file), false);
+});
+
+test('rateLimitedProvider spaces calls at least minIntervalMs apart', async () => {
+  const stamps: number[] = [];
+  const inner: SearchProvider = {
+    name: 'stub',
+    async resultCount() {
+      stamps.push(Date.now());
+      return 0;
+    },
+  };
+  const limited = rateLimitedProvider(inner, 40);
+  assert.equal(limited.name, 'stub');
+  for (const q of ['a', 'b', 'c']) await limited.resultCount(q);
+
+  assert.equal(stamps.length, 3);
+  // setTimeout may fire a millisecond early; allow that much slack.
+  for (let i = 1; i < stamps.length; i++) assert.ok(stamps[i] - stamps[i - 1] >= 39);
+});
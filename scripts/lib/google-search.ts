@@ -0,0 +1,138 @@
+/**
+ * google-search.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Pluggable result-count providers for the googleResults enrichment pass.
+ *
+ *   SearchProvider           — interface: query → total result count
+ *   customSearchProvider()   — Google Custom Search JSON API (needs key + cx)
+ *   fixtureProvider()        — offline lookup in a JSON { query: count } file
+ *   cachedProvider()         — wraps any provider with an on-disk TTL cache
+ *   rateLimitedProvider()    — wraps any provider with a min request interval
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ── Interface ─────────────────────────────────────────────────────────────
+export interface SearchProvider {
+  /** Short id, stored in the cache so different providers never mix. */
+  readonly name: string;
+  /** Total number of results for `query`. Rejects on transport/API errors. */
+  resultCount(query: string): Promise<number>;
+}
+
+// ── Google Custom Search ──────────────────────────────────────────────────
+const CSE_ENDPOINT = 'https://www.googleapis.com/customsearch/v1';
+
+interface CseResponse {
+  searchInformation?: { totalResults?: string };
+}
+
+/**
+ * Google Custom Search JSON API. The query is sent as an exact phrase and
+ * `totalResults` is Google's own estimate — the same number shown as
+ * "About N results" on the results page.
+ */
+export function customSearchProvider(apiKey: string, cx: string): SearchProvider {
+  return {
+    name: 'google-cse',
+    async resultCount(query) {
+      const { data } = await axios.get<CseResponse>(CSE_ENDPOINT, {
+        params:  { key: apiKey, cx, q: `"${query}"`, num: 1, fields: 'searchInformation/totalResults' },
+        timeout: 20_000,
+      });
+      const n = parseInt(data.searchInformation?.totalResults ?? '', 10);
+      if (isNaN(n)) throw new Error(`No totalResults for "${query}"`);
+      return n;
+    },
+  };
+}
+
+// ── Fixture (offline) ─────────────────────────────────────────────────────
+/**
+ * Reads counts from a JSON object keyed by query. Unknown queries reject,
+ * which the enrichment pass reports like any other provider error.
+ */
+export function fixtureProvider(file: string): SearchProvider {
+  const table = JSON.parse(fs.readFileSync(file, 'utf-8')) as Record<string, number>;
+  return {
+    name: `fixture:${path.basename(file)}`,
+    async resultCount(query) {
+      const n = table[query];
+      if (typeof n !== 'number') throw new Error(`No fixture entry for "${query}"`);
+      return n;
+    },
+  };
+}
+
+// ── Cache ─────────────────────────────────────────────────────────────────
+interface CacheEntry {
+  count:     number;
+  fetchedAt: string;   // ISO-8601
+}
+
+type CacheFile = Record<string, CacheEntry>;
+
+export interface CachedProvider extends SearchProvider {
+  /** Number of lookups served from the cache so far. */
+  readonly hits: number;
+  /** Writes pending entries back to disk. */
+  flush(): void;
+}
+
+/**
+ * Serves fresh entries (younger than `ttlMs`) from `file` and stores new
+ * results there. Entries are keyed by `<provider name>|<query>`.
+ */
+export function cachedProvider(inner: SearchProvider, file: string, ttlMs: number): CachedProvider {
+  const cache: CacheFile = fs.existsSync(file)
+    ? JSON.parse(fs.readFileSync(file, 'utf-8'))
+    : {};
+  let hits  = 0;
+  let dirty = false;
+
+  return {
+    name: inner.name,
+    get hits() { return hits; },
+    async resultCount(query) {
+      const key   = `${inner.name}|${query}`;
+      const entry = cache[key];
+      if (entry && Date.now() - Date.parse(entry.fetchedAt) < ttlMs) {
+        hits++;
+        return entry.count;
+      }
+      const count = await inner.resultCount(query);
+      cache[key] = { count, fetchedAt: new Date().toISOString() };
+      dirty = true;
+      return count;
+    },
+    flush() {
+      if (!dirty) return;
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(cache, null, 2), 'utf-8');
+      dirty = false;
+    },
+  };
+}
+
+// ── Rate limit ────────────────────────────────────────────────────────────
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/**
+ * Spaces calls to the inner provider at least `minIntervalMs` apart.
+ * Cache hits never reach this wrapper when it sits inside cachedProvider().
+ */
+export function rateLimitedProvider(inner: SearchProvider, minIntervalMs: number): SearchProvider {
+  let last = 0;
+  return {
+    name: inner.name,
+    async resultCount(query) {
+      const wait = last + minIntervalMs - Date.now();
+      if (wait > 0) await sleep(wait);
+      last = Date.now();
+      return inner.resultCount(query);
+    },
+  };
+}
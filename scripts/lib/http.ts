@@ -0,0 +1,172 @@
+/**
+ * http.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Live page fetching for the crawler:
+ *
+ *   withRetry()        — retries 429 / 5xx / network errors with exponential
+ *                        backoff (honours Retry-After)
+ *   cachingFetcher()   — on-disk HTML cache; with `conditional` it sends
+ *                        If-None-Match / If-Modified-Since and serves the
+ *                        cached page on 304 Not Modified
+ *
+ * Cache layout (.cache/pages/, gitignored):
+ *   index.json         { "<url>": { etag?, lastModified?, file, fetchedAt } }
+ *   <sha1(url)>.html
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import axios from 'axios';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type Fetcher = (url: string) => Promise<string>;
+
+const DEFAULT_UA = 'Mozilla/5.0 (compatible; GiftAnalyzerBot/1.1)';
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// ── Errors ────────────────────────────────────────────────────────────────
+export class HttpError extends Error {
+  constructor(readonly status: number, readonly url: string, readonly retryAfterMs?: number) {
+    super(`HTTP ${status} for ${url}`);
+  }
+}
+
+/** Retry-After is either seconds or an HTTP date. */
+function parseRetryAfter(v: unknown): number | undefined {
+  if (typeof v !== 'string' || !v) return undefined;
+  const secs = Number(v);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const t = Date.parse(v);
+  return isNaN(t) ? undefined : Math.max(0, t - Date.now());
+}
+
+// ── Retry ─────────────────────────────────────────────────────────────────
+export interface RetryOptions {
+  /** Attempts after the first one. */
+  retries:     number;
+  baseDelayMs: number;
+  maxDelayMs:  number;
+}
+
+export const DEFAULT_RETRY: RetryOptions = { retries: 4, baseDelayMs: 1_000, maxDelayMs: 30_000 };
+
+/** 429, 5xx and network failures (no status) are worth another try; 404 is not. */
+function isTransient(e: unknown): boolean {
+  if (e instanceof HttpError) return e.status === 429 || e.status >= 500;
+  return axios.isAxiosError(e) && !e.response;
+}
+
+/**
+ * Runs `fn` until it succeeds or a non-transient error / the retry budget
+ * ends. Waits base·2^attempt (± 20 % jitter, capped), or the server's
+ * Retry-After when it sends one.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, label: string, opts: RetryOptions = DEFAULT_RETRY): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (attempt >= opts.retries || !isTransient(e)) throw e;
+      const backoff = Math.min(opts.maxDelayMs, opts.baseDelayMs * 2 ** attempt) * (0.8 + Math.random() * 0.4);
+      const wait    = Math.min(opts.maxDelayMs, (e instanceof HttpError ? e.retryAfterMs : undefined) ?? backoff);
+      const what    = e instanceof HttpError ? e.message : `${label}: ${(e as Error).message}`;
+      console.warn(`  [retry ${attempt + 1}/${opts.retries}] ${what} — waiting ${(wait / 1000).toFixed(1)}s`);
+      await sleep(wait);
+    }
+  }
+}
+
+// ── Raw GET ───────────────────────────────────────────────────────────────
+interface RawResponse {
+  status:        number;
+  body:          string;
+  etag?:         string;
+  lastModified?: string;
+}
+
+async function get(url: string, userAgent: string, headers: Record<string, string> = {}): Promise<RawResponse> {
+  const res = await axios.get<string>(url, {
+    headers:        { 'User-Agent': userAgent, 'Accept-Language': 'uk,en;q=0.9', ...headers },
+    timeout:        20_000,
+    responseType:   'text',
+    validateStatus: () => true,
+  });
+  if (res.status !== 304 && (res.status < 200 || res.status >= 300)) {
+    throw new HttpError(res.status, url, parseRetryAfter(res.headers['retry-after']));
+  }
+  const h = (k: string) => (typeof res.headers[k] === 'string' ? res.headers[k] as string : undefined);
+  return { status: res.status, body: res.data, etag: h('etag'), lastModified: h('last-modified') };
+}
+
+// ── Cache ─────────────────────────────────────────────────────────────────
+interface CacheEntry {
+  etag?:         string;
+  lastModified?: string;
+  file:          string;   // relative to the cache dir
+  fetchedAt:     string;   // ISO-8601
+}
+
+export interface CacheStats {
+  /** 200 responses (new or changed pages). */
+  fetched:   number;
+  /** 304 responses served from the cache. */
+  unchanged: number;
+}
+
+export interface CachingFetcher extends Fetcher {
+  readonly stats: CacheStats;
+  /** Writes the index back to disk (pages are written as they arrive). */
+  flush(): void;
+}
+
+/**
+ * Fetches with retries and stores every page in `dir`. With `conditional`,
+ * pages already in the cache are revalidated (ETag / Last-Modified) and a
+ * 304 returns the stored HTML without a body transfer.
+ */
+export function cachingFetcher(
+  dir: string,
+  opts: { conditional: boolean; retry?: RetryOptions; userAgent?: string },
+): CachingFetcher {
+  const userAgent = opts.userAgent ?? DEFAULT_UA;
+  const indexFile = path.join(dir, 'index.json');
+  const index: Record<string, CacheEntry> = fs.existsSync(indexFile)
+    ? JSON.parse(fs.readFileSync(indexFile, 'utf-8'))
+    : {};
+  const stats: CacheStats = { fetched: 0, unchanged: 0 };
+  let dirty = false;
+
+  const fetcher = async (url: string): Promise<string> => {
+    const entry   = index[url];
+    const cached  = entry && fs.existsSync(path.join(dir, entry.file)) ? entry : undefined;
+    const headers: Record<string, string> = {};
+    if (opts.conditional && cached?.etag)         headers['If-None-Match']     = cached.etag;
+    if (opts.conditional && cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    const res = await withRetry(() => get(url, userAgent, headers), url, opts.retry);
+    if (res.status === 304 && cached) {
+      stats.unchanged++;
+      return fs.readFileSync(path.join(dir, cached.file), 'utf-8');
+    }
+
+    stats.fetched++;
+    const file = `${crypto.createHash('sha1').update(url).digest('hex')}.html`;
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, file), res.body, 'utf-8');
+    index[url] = { etag: res.etag, lastModified: res.lastModified, file, fetchedAt: new Date().toISOString() };
+    dirty = true;
+    return res.body;
+  };
+
+  return Object.assign(fetcher, {
+    stats,
+    flush() {
+      if (!dirty) return;
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(indexFile, JSON.stringify(index, null, 2), 'utf-8');
+      dirty = false;
+    },
+  });
+}
@@ -0,0 +1,275 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import type { Alert } from '../../utils/watchlist';
+import {
+  createChannels, emailChannel, outboxTransport, telegramChannel, webhookChannel,
+  type NotifyConfig, type WebhookPayload,
+} from './notify';
+import { SmtpError } from './smtp';
+
+const alert = (over: Partial<Alert> = {}): Alert => ({
+  watchId: 1, user: 'olena', rule: 'price-at-most', key: 'podaroktut|брелок', productId: 7,
+  name: 'Брелок Черепаха нікель', category: 'Брелки', price: 185,
+  url: 'https://podaroktut.com.ua/brelky/cherepakha-nikel/',
+  message: 'Брелок Черепаха нікель: ₴185 (target ≤ ₴200)', channels: ['webhook'], at: '2026-10-01T00:00:00.000Z',
+  ...over,
+});
+
+const EMAIL: NotifyConfig['email'] = {
+  host: '127.0.0.1', port: 0, secure: false, timeoutMs: 5_000,
+  from: 'Gift Price Analyzer <alerts@example.com>', subjectPrefix: '[Подарунки]',
+};
+
+let tmp = '';
+before(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'notify-')); });
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+/** Payloads written by outboxTransport to <dir>/<kind>.jsonl. */
+function outbox<P>(dir: string, kind: string): P[] {
+  return fs.readFileSync(path.join(dir, `${kind}.jsonl`), 'utf-8')
+    .trim().split('\n').map(l => JSON.parse(l).payload as P);
+}
+
+/** One-shot local HTTP server that records what it receives. */
+async function httpStub(status = 200) {
+  const received: { method?: string; url?: string; headers: http.IncomingHttpHeaders; body: string }[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', c => { body += c; });
+    req.on('end', () => {
+      received.push({ method: req.method, url: req.url, headers: req.headers, body });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end('{"ok":true}');
+    });
+  });
+  await new Promise<void>(r => server.listen(0, '127.0.0.1', r));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { base, received, close: () => new Promise<void>(r => server.close(() => r())) };
+}
+
+// ── Webhook ───────────────────────────────────────────────────────────────
+test('webhook: signs the exact body with HMAC-SHA256', async () => {
+  const dir = path.join(tmp, 'webhook');
+  const ch  = webhookChannel({ timeoutMs: 1_000 }, 's3cret', outboxTransport(dir, 'webhook'));
+  await ch.send('https://hooks.example/watch', 'olena', [alert()]);
+
+  const [p] = outbox<WebhookPayload>(dir, 'webhook');
+  assert.equal(p.url, 'https://hooks.example/watch');
+  assert.deepEqual(JSON.parse(p.body), { user: 'olena', alerts: [alert()] });
+  const expected = crypto.createHmac('sha256', 's3cret').update(p.body).digest('hex');
+  assert.equal(p.headers['X-Watchlist-Signature'], `sha256=${expected}`);
+  assert.equal(p.headers['Content-Type'], 'application/json');
+});
+
+test('webhook: no signature header without a secret', async () => {
+  const dir = path.join(tmp, 'webhook-unsigned');
+  await webhookChannel({ timeoutMs: 1_000 }, undefined, outboxTransport(dir, 'webhook')).send('https://h.example', 'u', [alert()]);
+  assert.equal(outbox<WebhookPayload>(dir, 'webhook')[0].headers['X-Watchlist-Signature'], undefined);
+});
+
+test('webhook: a recipient URL overrides the configured one', () => {
+  const ch = webhookChannel({ url: 'https://default.example', timeoutMs: 1_000 }, undefined);
+  assert.equal(ch.address({}), 'https://default.example');
+  assert.equal(ch.address({ webhook: 'https://mine.example' }), 'https://mine.example');
+  assert.equal(webhookChannel({ timeoutMs: 1_000 }, undefined).address({}), null);
+});
+
+test('webhook: the live transport POSTs the signed body', async () => {
+  const stub = await httpStub();
+  try {
+    await webhookChannel({ timeoutMs: 2_000 }, 'k').send(`${stub.base}/hook`, 'olena', [alert()]);
+    const [r] = stub.received;
+    assert.equal(r.method, 'POST');
+    assert.equal(r.url, '/hook');
+    assert.equal(r.headers['x-watchlist-signature'], `sha256=${crypto.createHmac('sha256', 'k').update(r.body).digest('hex')}`);
+    assert.equal(JSON.parse(r.body).alerts[0].name, 'Брелок Черепаха нікель');
+  } finally {
+    await stub.close();
+  }
+});
+
+test('webhook: an HTTP error from the endpoint rejects', async () => {
+  const stub = await httpStub(500);
+  try {
+    await assert.rejects(webhookChannel({ timeoutMs: 2_000 }, undefined).send(`${stub.base}/hook`, 'u', [alert()]));
+  } finally {
+    await stub.close();
+  }
+});
+
+// ── Telegram ──────────────────────────────────────────────────────────────
+test('telegram: one message per user, links listed under each alert', async () => {
+  const sent: unknown[] = [];
+  const ch = telegramChannel({ apiBase: 'https://tg.example', timeoutMs: 1_000 }, 'T', async p => { sent.push(p); });
+  await ch.send('42', 'olena', [alert(), alert({ message: 'Фляга: back in stock at ₴640', url: undefined })]);
+  assert.deepEqual(sent, [{
+    method: 'sendMessage',
+    body: {
+      chat_id: '42',
+      text: '• Брелок Черепаха нікель: ₴185 (target ≤ ₴200)\n  https://podaroktut.com.ua/brelky/cherepakha-nikel/\n• Фляга: back in stock at ₴640',
+      disable_web_page_preview: true,
+    },
+  }]);
+});
+
+test('telegram: text past 4096 characters is cut with an ellipsis', async () => {
+  const dir = path.join(tmp, 'telegram');
+  const ch  = telegramChannel({ apiBase: 'https://tg.example', timeoutMs: 1_000 }, 'T', outboxTransport(dir, 'telegram'));
+  const many = Array.from({ length: 80 }, (_, i) => alert({ message: `Подарунок ${i}: ${'ціна знизилась '.repeat(4)}` }));
+  await ch.send('42', 'olena', many);
+  await ch.send('42', 'olena', [alert()]);
+
+  const [long, short] = outbox<{ body: { text: string } }>(dir, 'telegram');
+  assert.equal(long.body.text.length, 4096);
+  assert.ok(long.body.text.endsWith('…'));
+  assert.ok(short.body.text.length < 4096 && !short.body.text.endsWith('…'));
+});
+
+test('telegram: the live transport calls the Bot API method', async () => {
+  const stub = await httpStub();
+  try {
+    await telegramChannel({ apiBase: stub.base, timeoutMs: 2_000 }, '123:abc').send('42', 'olena', [alert()]);
+    const [r] = stub.received;
+    assert.equal(r.url, '/bot123:abc/sendMessage');
+    assert.equal(JSON.parse(r.body).chat_id, '42');
+  } finally {
+    await stub.close();
+  }
+});
+
+// ── Email ─────────────────────────────────────────────────────────────────
+/**
+ * Minimal SMTP relay: answers each command, collects the DATA section and
+ * can reject one command with a given reply.
+ */
+async function smtpStub(opts: { reject?: { command: string; reply: string } } = {}) {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const server = net.createServer(socket => {
+    let buf = '';
+    let data: string | null = null;
+    socket.write('220 stub.local ESMTP\r\n');
+    socket.on('data', chunk => {
+      buf += chunk.toString('utf-8');
+      for (;;) {
+        if (data !== null) {
+          const end = buf.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          data += buf.slice(0, end);
+          buf = buf.slice(end + 5);
+          messages.push(data);
+          data = null;
+          socket.write('250 2.0.0 queued\r\n');
+          continue;
+        }
+        const nl = buf.indexOf('\r\n');
+        if (nl < 0) return;
+        const line = buf.slice(0, nl);
+        buf = buf.slice(nl + 2);
+        commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (opts.reject && verb === opts.reject.command) { socket.write(`${opts.reject.reply}\r\n`); continue; }
+        switch (verb) {
+          case 'EHLO': socket.write('250-stub.local\r\n250-8BITMIME\r\n250 AUTH PLAIN\r\n'); break;
+          case 'AUTH': socket.write('235 2.7.0 ok\r\n'); break;
+          case 'MAIL':
+          case 'RCPT': socket.write('250 ok\r\n'); break;
+          case 'DATA': socket.write('354 go ahead\r\n'); data = ''; break;
+          case 'QUIT': socket.end('221 bye\r\n'); return;
+          default:     socket.write('502 unknown\r\n');
+        }
+      }
+    });
+  });
+  await new Promise<void>(r => server.listen(0, '127.0.0.1', r));
+  const port = (server.address() as AddressInfo).port;
+  return { port, commands, messages, close: () => new Promise<void>(r => server.close(() => r())) };
+}
+
+/** Header value and decoded body of a base64 text/plain message. */
+function parseMessage(raw: string) {
+  const [head, body] = raw.split('\r\n\r\n');
+  const header = (name: string) => new RegExp(`^${name}: (.*)$`, 'm').exec(head)?.[1];
+  return { header, text: Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf-8') };
+}
+
+test('email: subject names the gift for one alert, counts several', async () => {
+  const sent: { subject: string; to: string[] }[] = [];
+  const ch = emailChannel(EMAIL, {}, async m => { sent.push(m); });
+  await ch.send('olena@example.com', 'olena', [alert()]);
+  await ch.send('olena@example.com', 'olena', [alert(), alert()]);
+  assert.deepEqual(sent.map(m => m.subject), ['[Подарунки] Брелок Черепаха нікель', '[Подарунки] 2 alerts']);
+  assert.deepEqual(sent[0].to, ['olena@example.com']);
+});
+
+test('email: the SMTP dialogue delivers an encoded UTF-8 message', async () => {
+  const smtp = await smtpStub();
+  try {
+    const ch = emailChannel({ ...EMAIL, port: smtp.port }, { user: 'bot', pass: 'pw' });
+    await ch.send('Olena <olena@example.com>', 'olena', [alert()]);
+
+    const token = Buffer.from('\0bot\0pw', 'utf-8').toString('base64');
+    assert.deepEqual(smtp.commands, [
+      'EHLO gift-price-analyzer',
+      `AUTH PLAIN ${token}`,
+      'MAIL FROM:<alerts@example.com>',
+      'RCPT TO:<olena@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    const m = parseMessage(smtp.messages[0]);
+    assert.equal(m.header('From'), 'Gift Price Analyzer <alerts@example.com>');
+    assert.equal(m.header('Subject'), `=?UTF-8?B?${Buffer.from('[Подарунки] Брелок Черепаха нікель').toString('base64')}?=`);
+    assert.equal(m.header('Content-Transfer-Encoding'), 'base64');
+    assert.equal(m.text, '• Брелок Черепаха нікель: ₴185 (target ≤ ₴200)\n  https://podaroktut.com.ua/brelky/cherepakha-nikel/\n');
+  } finally {
+    await smtp.close();
+  }
+});
+
+test('email: no AUTH without credentials', async () => {
+  const smtp = await smtpStub();
+  try {
+    await emailChannel({ ...EMAIL, port: smtp.port }, {}).send('olena@example.com', 'olena', [alert()]);
+    assert.ok(!smtp.commands.some(c => c.startsWith('AUTH')));
+    assert.equal(smtp.messages.length, 1);
+  } finally {
+    await smtp.close();
+  }
+});
+
+test('email: a rejected recipient rejects with SmtpError', async () => {
+  const smtp = await smtpStub({ reject: { command: 'RCPT', reply: '550 5.1.1 no such user' } });
+  try {
+    const send = emailChannel({ ...EMAIL, port: smtp.port }, {}).send('nobody@example.com', 'u', [alert()]);
+    await assert.rejects(send, (e: unknown) => e instanceof SmtpError && e.code === 550 && /no such user/.test(e.message));
+    assert.equal(smtp.messages.length, 0);
+  } finally {
+    await smtp.close();
+  }
+});
+
+// ── Stub channels ─────────────────────────────────────────────────────────
+test('createChannels with stub writes every channel to the outbox', async () => {
+  const dir = path.join(tmp, 'stub');
+  const channels = createChannels({
+    outbox:   dir,
+    webhook:  { timeoutMs: 1_000 },
+    email:    EMAIL,
+    telegram: { apiBase: 'https://tg.example', timeoutMs: 1_000 },
+  }, { stub: true });
+
+  for (const ch of Object.values(channels)) {
+    assert.notEqual(typeof ch, 'string');
+    if (typeof ch !== 'string') await ch.send('to', 'olena', [alert()]);
+  }
+  assert.deepEqual(fs.readdirSync(dir).sort(), ['email.jsonl', 'telegram.jsonl', 'webhook.jsonl']);
+  assert.equal(outbox<{ subject: string }>(dir, 'email')[0].subject, '[Подарунки] Брелок Черепаха нікель');
+});
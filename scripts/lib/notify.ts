@@ -0,0 +1,175 @@
+/**
+ * notify.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Pluggable notification channels for watchlist alerts (utils/watchlist.ts).
+ *
+ *   NotificationChannel — interface: one user's alerts → one message
+ *   webhookChannel()    — JSON POST, optionally HMAC-signed
+ *   emailChannel()      — plain-text mail through an SMTP relay (./smtp.ts)
+ *   telegramChannel()   — Bot API sendMessage
+ *   outboxTransport()   — local stub: what a channel would send is appended
+ *                         to <outbox>/<channel>.jsonl instead
+ *
+ * Each channel builds its payload and hands it to a transport, so a stub
+ * run goes through exactly the same formatting as a live one. Settings live
+ * in scripts/notify.json; secrets come from the environment:
+ *
+ *   WATCH_WEBHOOK_URL, WATCH_WEBHOOK_SECRET
+ *   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS
+ *   TELEGRAM_BOT_TOKEN
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import axios from 'axios';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Alert, ChannelKind, Recipient } from '../../utils/watchlist';
+import { sendMail, type MailMessage, type SmtpConfig } from './smtp';
+
+export const NOTIFY_FILE = path.resolve(__dirname, '../notify.json');
+
+// ── Config ────────────────────────────────────────────────────────────────
+export interface NotifyConfig {
+  /** Stub outbox directory, relative to the repo root. */
+  outbox:   string;
+  webhook:  { url?: string; timeoutMs: number };
+  email:    Omit<SmtpConfig, 'user' | 'pass'> & { host?: string; from: string; subjectPrefix: string };
+  telegram: { apiBase: string; timeoutMs: number };
+}
+
+export function loadNotifyConfig(file: string = NOTIFY_FILE): NotifyConfig {
+  const c = JSON.parse(fs.readFileSync(file, 'utf-8')) as NotifyConfig;
+  if (!c.webhook || !c.email || !c.telegram) throw new Error(`${file}: expected "webhook", "email" and "telegram" sections`);
+  const env = process.env;
+  return {
+    ...c,
+    outbox:  path.resolve(__dirname, '../..', c.outbox),
+    webhook: { ...c.webhook, url: env.WATCH_WEBHOOK_URL ?? c.webhook.url },
+    email:   { ...c.email, host: env.SMTP_HOST ?? c.email.host, port: Number(env.SMTP_PORT ?? c.email.port) },
+  };
+}
+
+// ── Interface ─────────────────────────────────────────────────────────────
+export interface NotificationChannel {
+  readonly kind: ChannelKind;
+  /** Where this user's messages go on this channel; null = no address. */
+  address(r: Recipient): string | null;
+  /** Sends `alerts` (all for `user`) as one message. */
+  send(to: string, user: string, alerts: Alert[]): Promise<void>;
+}
+
+/** Delivers a channel's payload; replaced by the outbox in stub runs. */
+export type Transport<P> = (payload: P) => Promise<void>;
+
+/** The shared plain-text rendering: one line per alert, then its link. */
+export function alertText(alerts: Alert[]): string {
+  return alerts.map(a => `• ${a.message}${a.url ? `\n  ${a.url}` : ''}`).join('\n');
+}
+
+// ── Webhook ───────────────────────────────────────────────────────────────
+export interface WebhookPayload {
+  url:     string;
+  headers: Record<string, string>;
+  body:    string;
+}
+
+export function webhookChannel(
+  cfg: NotifyConfig['webhook'],
+  secret: string | undefined,
+  transport: Transport<WebhookPayload> = async p => {
+    await axios.post(p.url, p.body, { headers: p.headers, timeout: cfg.timeoutMs });
+  },
+): NotificationChannel {
+  return {
+    kind: 'webhook',
+    address: r => r.webhook ?? cfg.url ?? null,
+    send(url, user, alerts) {
+      const body = JSON.stringify({ user, alerts });
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (secret) headers['X-Watchlist-Signature'] = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+      return transport({ url, headers, body });
+    },
+  };
+}
+
+// ── Email ─────────────────────────────────────────────────────────────────
+export function emailChannel(
+  cfg: NotifyConfig['email'],
+  auth: { user?: string; pass?: string },
+  transport: Transport<MailMessage> = m => sendMail({ ...cfg, host: cfg.host!, ...auth }, m),
+): NotificationChannel {
+  return {
+    kind: 'email',
+    address: r => r.email ?? null,
+    send(to, _user, alerts) {
+      const subject = alerts.length === 1
+        ? `${cfg.subjectPrefix} ${alerts[0].name}`
+        : `${cfg.subjectPrefix} ${alerts.length} alerts`;
+      return transport({ from: cfg.from, to: [to], subject, text: alertText(alerts) + '\n' });
+    },
+  };
+}
+
+// ── Telegram ──────────────────────────────────────────────────────────────
+const TELEGRAM_MAX = 4096;
+
+export interface TelegramPayload {
+  method: 'sendMessage';
+  body:   { chat_id: string; text: string; disable_web_page_preview: boolean };
+}
+
+export function telegramChannel(
+  cfg: NotifyConfig['telegram'],
+  token: string,
+  transport: Transport<TelegramPayload> = async p => {
+    await axios.post(`${cfg.apiBase}/bot${token}/${p.method}`, p.body, { timeout: cfg.timeoutMs });
+  },
+): NotificationChannel {
+  return {
+    kind: 'telegram',
+    address: r => r.telegram ?? null,
+    send(chatId, _user, alerts) {
+      let text = alertText(alerts);
+      if (text.length > TELEGRAM_MAX) text = text.slice(0, TELEGRAM_MAX - 1) + '…';
+      return transport({ method: 'sendMessage', body: { chat_id: chatId, text, disable_web_page_preview: true } });
+    },
+  };
+}
+
+// ── Stub ──────────────────────────────────────────────────────────────────
+/** Appends each payload as one JSON line to <dir>/<kind>.jsonl. */
+export function outboxTransport<P>(dir: string, kind: ChannelKind): Transport<P> {
+  return async payload => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.appendFileSync(path.join(dir, `${kind}.jsonl`), JSON.stringify({ at: new Date().toISOString(), payload }) + '\n', 'utf-8');
+  };
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────
+/**
+ * Every channel, or why it cannot send. With `stub`, all channels are
+ * available and write to the outbox, whatever is configured.
+ */
+export function createChannels(
+  cfg: NotifyConfig,
+  opts: { stub: boolean },
+): Record<ChannelKind, NotificationChannel | string> {
+  const env = process.env;
+  if (opts.stub) {
+    return {
+      webhook:  webhookChannel(cfg.webhook, env.WATCH_WEBHOOK_SECRET, outboxTransport(cfg.outbox, 'webhook')),
+      email:    emailChannel(cfg.email, {}, outboxTransport(cfg.outbox, 'email')),
+      telegram: telegramChannel(cfg.telegram, 'stub', outboxTransport(cfg.outbox, 'telegram')),
+    };
+  }
+  return {
+    webhook:  webhookChannel(cfg.webhook, env.WATCH_WEBHOOK_SECRET),
+    email:    cfg.email.host
+      ? emailChannel(cfg.email, { user: env.SMTP_USER, pass: env.SMTP_PASS })
+      : 'not configured (set SMTP_HOST)',
+    telegram: env.TELEGRAM_BOT_TOKEN
+      ? telegramChannel(cfg.telegram, env.TELEGRAM_BOT_TOKEN)
+      : 'not configured (set TELEGRAM_BOT_TOKEN)',
+  };
+}
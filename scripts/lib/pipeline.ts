@@ -0,0 +1,253 @@
+/**
+ * pipeline.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Runs the refresh pipeline described in scripts/schedule.json — each step
+ * a script in its own child process (same Node and tsx loader as the
+ * caller), one after the other — and records the run in the store
+ * (utils/pipeline.ts PipelineRun).
+ *
+ *   • The store lock "pipeline" keeps runs from overlapping, whoever starts
+ *     them; it is a lease, renewed while a step runs, so a crashed worker
+ *     frees it after lockMinutes.
+ *   • A failing step fails the run and skips the steps after it, unless the
+ *     step is `optional`. Steps whose `requiresEnv` is not set are skipped.
+ *   • Per step: exit code, duration, the last output lines and a summary
+ *     of counts read from the step's own report / output.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  PIPELINE_LOCK, type PipelineRun, type RunItems, type StepResult,
+} from '../../utils/pipeline';
+import type { CatalogRepository } from '../../utils/store';
+import { parseCron } from './cron';
+import type { RunReport } from './run-report';
+
+export const SCHEDULE_FILE = path.resolve(__dirname, '../schedule.json');
+const SCRIPTS_DIR = path.resolve(__dirname, '..');
+const ROOT_DIR    = path.resolve(__dirname, '../..');
+
+// ── Config ────────────────────────────────────────────────────────────────
+export interface StepConfig {
+  name:           string;
+  /** File in scripts/. */
+  script:         string;
+  args:           string[];
+  timeoutMinutes: number;
+  /** Skip the step unless all of these are set. */
+  requiresEnv?:   string[];
+  /** A failure is recorded but does not fail the run. */
+  optional?:      boolean;
+}
+
+export interface ScheduleConfig {
+  cron:        string;
+  pollSeconds: number;
+  /** Lease length of the pipeline and worker locks. */
+  lockMinutes: number;
+  /** Output lines kept per step. */
+  outputLines: number;
+  steps:       StepConfig[];
+}
+
+export function loadSchedule(file: string = SCHEDULE_FILE): ScheduleConfig {
+  const c = JSON.parse(fs.readFileSync(file, 'utf-8')) as ScheduleConfig;
+  parseCron(c.cron);
+  if (!Array.isArray(c.steps) || !c.steps.length) throw new Error(`${file}: "steps" must be a non-empty array`);
+  for (const s of c.steps) {
+    if (!fs.existsSync(path.join(SCRIPTS_DIR, s.script))) throw new Error(`${file}: step "${s.name}": no scripts/${s.script}`);
+  }
+  if (!(c.pollSeconds > 0) || !(c.lockMinutes > 0)) throw new Error(`${file}: pollSeconds and lockMinutes must be positive`);
+  return c;
+}
+
+/** "<pid>@<host>" — the lock owner and PipelineRun.worker. */
+export function processId(): string {
+  return `${process.pid}@${os.hostname()}`;
+}
+
+// ── Summaries ─────────────────────────────────────────────────────────────
+// Counts each known script reports, keyed by script file
+type Summarizer = (stdout: string, reportFile: string) => Record<string, number> | undefined;
+
+const SUMMARIZERS: Record<string, Summarizer> = {
+  'scrape.ts'(_stdout, reportFile) {
+    if (!fs.existsSync(reportFile)) return undefined;
+    const r = JSON.parse(fs.readFileSync(reportFile, 'utf-8')) as RunReport;
+    return {
+      cards:       r.shops.reduce((s, x) => s + x.cards, 0),
+      shops:       r.shops.length,
+      regressions: r.regressions.length,
+    };
+  },
+  'enrich-google.ts'(stdout) {
+    const m = /(\d+) enriched \((\d+) from cache\), (\d+) failed, (\d+) skipped/.exec(stdout);
+    return m ? { enriched: +m[1], cached: +m[2], failed: +m[3], skipped: +m[4] } : undefined;
+  },
+  'validate.ts'(stdout) {
+    try {
+      const v = JSON.parse(stdout) as { errors: unknown[] };
+      return { schemaErrors: v.errors.length };
+    } catch {
+      return undefined;
+    }
+  },
+};
+
+// ── Steps ─────────────────────────────────────────────────────────────────
+const tail = (text: string, lines: number) => text.split('\n').filter(Boolean).slice(-lines).join('\n');
+
+function runStep(
+  step:      StepConfig,
+  cfg:       ScheduleConfig,
+  heartbeat: () => void,
+  signal?:   AbortSignal,
+): Promise<StepResult> {
+  const missing = (step.requiresEnv ?? []).filter(k => !process.env[k]);
+  if (missing.length) {
+    return Promise.resolve({
+      name: step.name, status: 'skipped', exitCode: null, durationMs: 0,
+      reason: `${missing.join(', ')} not set`, output: '',
+    });
+  }
+
+  const reportFile = path.join(os.tmpdir(), `pipeline-${process.pid}-${step.name}.json`);
+  const args = step.script === 'scrape.ts' ? [...step.args, `--report=${reportFile}`] : step.args;
+  const started = Date.now();
+
+  return new Promise(resolve => {
+    const child = spawn(process.execPath, [...process.execArgv, path.join(SCRIPTS_DIR, step.script), ...args], {
+      cwd: ROOT_DIR, env: process.env, stdio: ['ignore', 'pipe', 'pipe'], signal,
+    });
+    let stdout = '';
+    let output = '';
+    child.stdout.on('data', (c: Buffer) => { stdout += c; output += c; });
+    child.stderr.on('data', (c: Buffer) => { output += c; });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGTERM');
+    }, step.timeoutMinutes * 60_000);
+    const beat = setInterval(heartbeat, cfg.pollSeconds * 1000);
+
+    const done = (exitCode: number | null, reason?: string) => {
+      clearTimeout(timer);
+      clearInterval(beat);
+      let summary: Record<string, number> | undefined;
+      try {
+        summary = SUMMARIZERS[step.script]?.(stdout, reportFile);
+      } catch {
+        summary = undefined;
+      }
+      fs.rmSync(reportFile, { force: true });
+      resolve({
+        name: step.name,
+        status: exitCode === 0 ? 'ok' : 'failed',
+        exitCode,
+        durationMs: Date.now() - started,
+        ...(reason ? { reason } : {}),
+        ...(summary ? { summary } : {}),
+        output: tail(output, cfg.outputLines),
+      });
+    };
+
+    child.on('error', e => done(null, signal?.aborted ? 'aborted' : e.message));
+    child.on('close', (code, sig) => {
+      if (signal?.aborted) return done(null, 'aborted');
+      if (timedOut) return done(null, `timed out after ${step.timeoutMinutes} min`);
+      if (code === null) return done(null, `killed by ${sig}`);
+      done(code, code === 0 ? undefined : `exit code ${code}`);
+    });
+  });
+}
+
+// ── Runs ──────────────────────────────────────────────────────────────────
+function itemCounts(store: CatalogRepository): RunItems {
+  const byShop: Record<string, number> = {};
+  const products = store.listProducts();
+  for (const p of products) byShop[p.shop] = (byShop[p.shop] ?? 0) + 1;
+  return { products: products.length, byShop, snapshots: store.listSnapshots().length };
+}
+
+/**
+ * Runs a saved (queued) run to the end and returns it as stored. Skipped,
+ * not failed, when another process holds the pipeline lock.
+ */
+export async function executeRun(
+  store:  CatalogRepository,
+  queued: PipelineRun,
+  cfg:    ScheduleConfig,
+  opts:   { owner: string; heartbeat?: () => void; signal?: AbortSignal; onStep?: (s: StepResult) => void },
+): Promise<PipelineRun> {
+  const leaseMs = cfg.lockMinutes * 60_000;
+  let run: PipelineRun = { ...queued, worker: opts.owner };
+
+  if (!store.acquireLock(PIPELINE_LOCK, opts.owner, leaseMs)) {
+    const held = store.getLock(PIPELINE_LOCK);
+    return store.saveRun({
+      ...run, status: 'skipped', finishedAt: new Date().toISOString(),
+      errors: [`another run is in progress (${held?.owner ?? 'unknown'} since ${held?.acquiredAt ?? '?'})`],
+    });
+  }
+
+  const started = Date.now();
+  try {
+    run = store.saveRun({ ...run, status: 'running', startedAt: new Date(started).toISOString(), steps: [], errors: [] });
+    const heartbeat = () => {
+      store.acquireLock(PIPELINE_LOCK, opts.owner, leaseMs);
+      opts.heartbeat?.();
+    };
+
+    let failed = false;
+    for (const step of cfg.steps) {
+      const result: StepResult = failed
+        ? { name: step.name, status: 'skipped', exitCode: null, durationMs: 0, reason: 'an earlier step failed', output: '' }
+        : await runStep(step, cfg, heartbeat, opts.signal);
+      if (result.status === 'failed') {
+        run.errors.push(`${step.name}: ${result.reason ?? 'failed'}${step.optional ? ' (optional)' : ''}`);
+        if (!step.optional) failed = true;
+      }
+      run = store.saveRun({ ...run, steps: [...run.steps, result] });
+      opts.onStep?.(result);
+    }
+
+    const finished = Date.now();
+    return store.saveRun({
+      ...run,
+      status:     failed ? 'failed' : 'ok',
+      finishedAt: new Date(finished).toISOString(),
+      durationMs: finished - started,
+      items:      itemCounts(store),
+    });
+  } catch (e) {
+    return store.saveRun({
+      ...run, status: 'failed', finishedAt: new Date().toISOString(), durationMs: Date.now() - started,
+      errors: [...run.errors, (e as Error).message],
+    });
+  } finally {
+    store.releaseLock(PIPELINE_LOCK, opts.owner);
+  }
+}
+
+/**
+ * Marks runs left "running" by a process that died as failed. Safe to call
+ * any time: a run is only touched while nobody holds the pipeline lock.
+ */
+export function recoverInterrupted(store: CatalogRepository, owner: string): PipelineRun[] {
+  if (!store.acquireLock(PIPELINE_LOCK, owner, 60_000)) return [];
+  try {
+    return store.listRuns(50)
+      .filter(r => r.status === 'running')
+      .map(r => store.saveRun({
+        ...r, status: 'failed', finishedAt: new Date().toISOString(),
+        errors: [...r.errors, `interrupted (${r.worker ?? 'worker'} stopped mid-run)`],
+      }));
+  } finally {
+    store.releaseLock(PIPELINE_LOCK, owner);
+  }
+}
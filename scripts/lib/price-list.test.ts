@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { loadMapping, mapPriceList, mergePriceList, type ImportedRow } from './price-list';
+import { parseCsv, readSpreadsheet } from './spreadsheet';
+import type { Product } from './product';
+
+const FIXTURE = path.resolve(__dirname, '../fixtures/price-lists/example-supplier.csv');
+const MAPPING = loadMapping(path.resolve(__dirname, '../import-mappings/example-supplier.json'));
+const KNOWN   = new Set(['Брелки', 'Кубки', 'Игры', 'Мини бары']);
+
+const grid = (rows: string[]) => parseCsv(['Найменування;Група;Ціна, грн;Посилання', ...rows].join('\n'));
+const MAP  = { shop: 'suvenir-opt', columns: { name: 'Найменування', category: 'Група', price: 'Ціна, грн', url: 'Посилання' } };
+
+test('the example price list: distinct SKUs with alike names are both kept', () => {
+  const r = mapPriceList(readSpreadsheet(FIXTURE), MAPPING, KNOWN);
+  assert.equal(r.read, 9);
+  assert.deepEqual(r.rows.map(x => x.url), [
+    'https://suvenir-opt.example/p/so-101',
+    'https://suvenir-opt.example/p/so-102',
+    'https://suvenir-opt.example/p/so-104',
+    'https://suvenir-opt.example/p/so-107',
+    'https://suvenir-opt.example/p/so-108',
+  ]);
+  assert.deepEqual(r.issues.filter(i => i.severity === 'error').map(i => [i.row, i.field]), [
+    [4, 'price'], [6, 'price'], [7, 'category'], [10, 'name'],
+  ]);
+  assert.ok(!r.issues.some(i => /Duplicate/.test(i.message)));
+});
+
+test('rows are duplicates by URL, or by name when one has no URL', () => {
+  const r = mapPriceList(grid([
+    'Брелок Сова;Брелки;145;https://s.example/1',
+    'Брелок  сова;Брелки;150;https://s.example/2',   // another URL: another SKU
+    'Брелок Кіт;Брелки;90;https://s.example/1',      // same URL
+    'брелок сова;Брелки;155;',                        // no URL: matches by name
+    'Брелок Пес;Брелки;80;',
+    'Брелок Пес;Брелки;85;https://s.example/3',       // earlier row has no URL
+  ]), MAP, KNOWN);
+  assert.deepEqual(r.rows.map(x => x.row), [2, 3, 6]);
+  assert.deepEqual(r.issues.map(i => [i.row, i.message]), [
+    [4, 'Duplicate of row 2, skipped'],
+    [5, 'Duplicate of row 2, skipped'],
+    [7, 'Duplicate of row 6, skipped'],
+  ]);
+});
+
+test('a SKU decides before the URL and the name', () => {
+  const r = mapPriceList(
+    parseCsv(['Артикул;Найменування;Група;Ціна, грн;Посилання',
+      'A-1;Брелок Сова;Брелки;145;',
+      'A-2;Брелок Сова;Брелки;150;',                    // another SKU
+      'A-1;Брелок Сова латунний;Брелки;160;https://s.example/x',
+      ';Брелок сова;Брелки;170;',                       // no SKU or URL: by name
+    ].join('\n')),
+    { ...MAP, columns: { ...MAP.columns, sku: 'Артикул' } }, KNOWN,
+  );
+  assert.deepEqual(r.rows.map(x => [x.row, x.sku]), [[2, 'A-1'], [3, 'A-2']]);
+  assert.deepEqual(r.issues.map(i => i.row), [4, 5]);
+});
+
+test('mergePriceList matches the same way', () => {
+  const product = (id: number, name: string, url: string): Product => ({
+    id, shop: 'suvenir-opt', name, category: 'Брелки', price: 100, stars: 4.5, reviews: 0,
+    firstSeenAt: '2026-09-01T00:00:00.000Z', personalization: false, stock: true,
+    googleResults: 0, googleSource: 'placeholder', url,
+  });
+  const row = (name: string, price: number, url?: string): ImportedRow => ({ row: 2, name, category: 'Брелки', price, url });
+
+  const m = mergePriceList(
+    [product(1, 'Брелок Сова', 'https://s.example/1'), product(2, 'Брелок Кіт', ''), { ...product(3, 'Брелок Пес', 'https://s.example/3'), sku: 'P-1' }],
+    [
+      row('Брелок сова', 120, 'https://s.example/2'), row('Брелок Сова', 130), row('Брелок кіт', 95, 'https://s.example/9'),
+      { ...row('Брелок Пес новий', 70, 'https://s.example/moved'), sku: 'P-1' },
+    ],
+    'suvenir-opt', '2026-10-01T00:00:00.000Z',
+  );
+  assert.deepEqual(m.added.map(p => [p.id, p.url]), [[4, 'https://s.example/2']]);
+  assert.deepEqual(m.updated.map(u => [u.after.id, u.after.price, u.after.url]), [
+    [1, 130, 'https://s.example/1'],
+    [2, 95, 'https://s.example/9'],
+    [3, 70, 'https://s.example/moved'],
+  ]);
+});
@@ -0,0 +1,343 @@
+/**
+ * price-list.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Supplier price-list import: maps spreadsheet columns onto Product fields
+ * with a per-supplier mapping config, validates every row, and merges the
+ * good rows into the catalogue without creating duplicates.
+ *
+ * Mapping config (JSON), e.g. scripts/import-mappings/example-supplier.json:
+ *
+ *   {
+ *     "shop":      "suvenir-opt",          // Product.shop for every row
+ *     "sheet":     "Прайс",                // XLSX only; default first sheet
+ *     "headerRow": 1,                      // 1-based
+ *     "columns": {                         // header text or column letter
+ *       "name": "Найменування", "price": "Ціна, грн", "category": "Група",
+ *       "stars": "Рейтинг", "reviews": "Відгуки", "stock": "Наявність",
+ *       "url": "C", "personalization": "Гравіювання", "sku": "Артикул"
+ *     },
+ *     "categoryMap":     { "Брелоки": "Брелки" },
+ *     "defaultCategory": "Брелки",         // when there is no category column
+ *     "baseUrl":         "https://suvenir-opt.example"   // for relative URLs
+ *   }
+ *
+ * Rows are matched to existing products of the same shop — and to earlier
+ * rows — by SKU, then URL, then spelling-insensitive name (utils/matching
+ * nameKey) when the two do not both carry a SKU or a URL: two SKUs or two
+ * URLs are two products, however alike their names.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs';
+import { DEFAULT_STARS } from '../../utils/gift-schema';
+import { nameKey } from '../../utils/matching';
+import { googleResultsFor } from './crawl';
+import type { Grid } from './spreadsheet';
+import type { Product } from './product';
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export const IMPORT_FIELDS = [
+  'name', 'category', 'price', 'stars', 'reviews', 'stock', 'url', 'personalization', 'sku',
+] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+export interface ImportMapping {
+  shop:             string;
+  sheet?:           string;
+  headerRow?:       number;
+  columns:          Partial<Record<ImportField, string>>;
+  categoryMap?:     Record<string, string>;
+  defaultCategory?: string;
+  baseUrl?:         string;
+}
+
+/** A validated row; fields the price list does not carry stay undefined. */
+export interface ImportedRow {
+  row:              number;   // 1-based sheet row
+  name:             string;
+  category:         string;
+  price:            number;
+  stars?:           number;
+  reviews?:         number;
+  stock?:           boolean;
+  url?:             string;
+  personalization?: boolean;
+  sku?:             string;
+}
+
+export interface ImportIssue {
+  row:      number;
+  field?:   ImportField;
+  severity: 'error' | 'warning';
+  message:  string;
+  value?:   string;
+}
+
+export interface ImportResult {
+  rows:   ImportedRow[];
+  issues: ImportIssue[];
+  /** Data rows read (blank rows excluded). */
+  read:   number;
+}
+
+export interface MergeResult {
+  products:  Product[];
+  added:     Product[];
+  updated:   { before: Product; after: Product }[];
+  unchanged: number;
+}
+
+const STOCK_YES = ['так', 'є', 'в наявності', 'в наличии', 'есть', 'да', 'yes', 'true', '1', '+', 'instock', 'in stock'];
+const STOCK_NO  = ['ні', 'немає', 'нема', 'немає в наявності', 'нет', 'нет в наличии', 'no', 'false', '0', '-', 'outofstock', 'out of stock', 'під замовлення', 'под заказ'];
+
+// ── Config ────────────────────────────────────────────────────────────────
+export function loadMapping(file: string): ImportMapping {
+  const m = JSON.parse(fs.readFileSync(file, 'utf-8')) as ImportMapping;
+  if (!m.shop) throw new Error(`${file}: "shop" is required`);
+  if (!m.columns?.name)  throw new Error(`${file}: "columns.name" is required`);
+  if (!m.columns?.price) throw new Error(`${file}: "columns.price" is required`);
+  if (!m.columns.category && !m.defaultCategory) {
+    throw new Error(`${file}: map "columns.category" or set "defaultCategory"`);
+  }
+  const unknown = Object.keys(m.columns).filter(k => !(IMPORT_FIELDS as readonly string[]).includes(k));
+  if (unknown.length) throw new Error(`${file}: unknown column field(s) ${unknown.join(', ')}`);
+  return m;
+}
+
+// ── Cell parsing ──────────────────────────────────────────────────────────
+/**
+ * Strict number parse for price-list cells: "1 250", "1250,50", "1,250.50",
+ * "₴320", "320 грн". Returns null for anything else.
+ */
+export function parseNumber(raw: string): number | null {
+  let s = raw.replace(/\s/g, '').replace(/^(₴|грн\.?|uah)|(₴|грн\.?|uah)$/gi, '');
+  if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(s)) s = s.replace(/,/g, '');   // 1,250.50
+  else s = s.replace(',', '.');                                            // 1250,50
+  if (!/^-?\d+(\.\d+)?$/.test(s)) return null;
+  return Number(s);
+}
+
+function parseBool(raw: string): boolean | null {
+  const s = raw.trim().toLowerCase();
+  if (STOCK_YES.includes(s)) return true;
+  if (STOCK_NO.includes(s))  return false;
+  return null;
+}
+
+/** Column letters ("C", "AA") → index; header text → its index in the header row. */
+function resolveColumn(spec: string, header: string[]): number {
+  if (/^[A-Z]{1,2}$/.test(spec)) {
+    let n = 0;
+    for (const ch of spec) n = n * 26 + (ch.charCodeAt(0) - 64);
+    return n - 1;
+  }
+  const want = spec.trim().toLowerCase();
+  return header.findIndex(h => h.trim().toLowerCase() === want);
+}
+
+// ── Matching ──────────────────────────────────────────────────────────────
+interface Listed {
+  name: string;
+  url?: string;
+  sku?: string;
+}
+
+/** Lookup by SKU, URL, then name key — see the header. */
+function productIndex<T extends Listed>(items: T[] = []) {
+  const bySku  = new Map<string, T>();
+  const byUrl  = new Map<string, T>();
+  const byName = new Map<string, T[]>();
+  const add = (p: T) => {
+    if (p.sku) bySku.set(p.sku, p);
+    if (p.url) byUrl.set(p.url, p);
+    const key = nameKey(p.name);
+    byName.set(key, [...(byName.get(key) ?? []), p]);
+  };
+  items.forEach(add);
+  return {
+    add,
+    find: (r: Listed): T | undefined =>
+      (r.sku && bySku.get(r.sku)) || (r.url && byUrl.get(r.url)) ||
+      byName.get(nameKey(r.name))?.find(p => !(r.sku && p.sku) && !(r.url && p.url)),
+  };
+}
+
+// ── Validation ────────────────────────────────────────────────────────────
+/**
+ * Maps and validates every data row. Rows with an error are left out of
+ * `rows`; warnings keep the row with a fallback value.
+ */
+export function mapPriceList(
+  grid: Grid,
+  mapping: ImportMapping,
+  knownCategories: Set<string>,
+  opts: { allowNewCategories?: boolean } = {},
+): ImportResult {
+  const headerIdx = (mapping.headerRow ?? 1) - 1;
+  const header    = grid[headerIdx] ?? [];
+
+  const cols = {} as Partial<Record<ImportField, number>>;
+  for (const field of IMPORT_FIELDS) {
+    const spec = mapping.columns[field];
+    if (!spec) continue;
+    const idx = resolveColumn(spec, header);
+    if (idx < 0) throw new Error(`Column "${spec}" for ${field} not found in header row ${headerIdx + 1}: ${header.join(' | ')}`);
+    cols[field] = idx;
+  }
+
+  const rows: ImportedRow[] = [];
+  const issues: ImportIssue[] = [];
+  const seen = productIndex<Listed & { row: number }>();
+  let read = 0;
+
+  for (let i = headerIdx + 1; i < grid.length; i++) {
+    const cells = grid[i];
+    if (!cells || cells.every(c => c.trim() === '')) continue;
+    read++;
+    const row  = i + 1;
+    const cell = (f: ImportField) => cols[f] === undefined ? undefined : (cells[cols[f]!] ?? '').trim();
+    let failed = false;
+    const issue = (severity: ImportIssue['severity'], field: ImportField | undefined, message: string, value?: string) => {
+      issues.push({ row, field, severity, message, value });
+      if (severity === 'error') failed = true;
+    };
+
+    const name = cell('name') ?? '';
+    if (!name) issue('error', 'name', 'Missing name');
+
+    let price = 0;
+    const rawPrice = cell('price') ?? '';
+    if (!rawPrice) issue('error', 'price', 'Missing price');
+    else {
+      const n = parseNumber(rawPrice);
+      if (n === null)  issue('error', 'price', 'Unparseable price', rawPrice);
+      else if (n <= 0) issue('error', 'price', 'Price must be positive', rawPrice);
+      else price = n;
+    }
+
+    const rawCat = cell('category');
+    const category = rawCat ? (mapping.categoryMap?.[rawCat] ?? rawCat) : (mapping.defaultCategory ?? '');
+    if (!category) issue('error', 'category', 'Missing category');
+    else if (!knownCategories.has(category) && !opts.allowNewCategories) {
+      issue('error', 'category', 'Unknown category (add it to categoryMap or pass --allow-new-categories)', rawCat);
+    }
+
+    let stars: number | undefined;
+    const rawStars = cell('stars');
+    if (rawStars) {
+      const n = parseNumber(rawStars);
+      if (n === null) issue('warning', 'stars', `Unparseable rating, using ${DEFAULT_STARS}`, rawStars);
+      else if (n < 0 || n > 5) { issue('warning', 'stars', 'Rating outside 0–5, clamped', rawStars); stars = Math.min(5, Math.max(0, n)); }
+      else stars = n;
+    }
+
+    let reviews: number | undefined;
+    const rawReviews = cell('reviews');
+    if (rawReviews) {
+      const n = parseNumber(rawReviews);
+      if (n === null || n < 0 || !Number.isInteger(n)) issue('warning', 'reviews', 'Unparseable review count, using 0', rawReviews);
+      else reviews = n;
+    }
+
+    let stock: boolean | undefined;
+    const rawStock = cell('stock');
+    if (rawStock) {
+      // Words ("так", "нет") or a quantity on hand
+      const qty = parseNumber(rawStock);
+      const b   = parseBool(rawStock) ?? (qty !== null ? qty > 0 : null);
+      if (b === null) issue('warning', 'stock', 'Unrecognised stock value, assuming in stock', rawStock);
+      else stock = b;
+    }
+
+    let personalization: boolean | undefined;
+    const rawPers = cell('personalization');
+    if (rawPers) {
+      const b = parseBool(rawPers);
+      if (b === null) issue('warning', 'personalization', 'Unrecognised personalisation value, assuming no', rawPers);
+      else personalization = b;
+    }
+
+    let url = cell('url') || undefined;
+    if (url && !/^https?:\/\//.test(url)) {
+      if (mapping.baseUrl) url = `${mapping.baseUrl.replace(/\/$/, '')}/${url.replace(/^\//, '')}`;
+      else { issue('warning', 'url', 'Relative URL without baseUrl, dropped', url); url = undefined; }
+    }
+
+    const sku = cell('sku') || undefined;
+
+    if (failed) continue;
+
+    const first = seen.find({ name, url, sku });
+    if (first) {
+      issue('warning', 'name', `Duplicate of row ${first.row}, skipped`, name);
+      continue;
+    }
+    seen.add({ name, url, sku, row });
+
+    rows.push({ row, name, category, price, stars, reviews, stock, url, personalization, sku });
+  }
+
+  return { rows, issues, read };
+}
+
+// ── Merge ─────────────────────────────────────────────────────────────────
+/**
+ * Merges imported rows into `existing`. A row updates the product of the
+ * same shop it matches (see the header); otherwise it is added with the
+ * next free id, first seen at `seenAt`. ids, googleResults and firstSeenAt
+ * of existing products are kept.
+ */
+export function mergePriceList(
+  existing: Product[],
+  rows: ImportedRow[],
+  shop: string,
+  seenAt: string = new Date().toISOString(),
+): MergeResult {
+  const products = existing.map(p => ({ ...p }));
+  const own      = productIndex(products.filter(p => p.shop === shop));
+  let nextId     = products.reduce((m, p) => Math.max(m, p.id), 0) + 1;
+
+  const added: Product[] = [];
+  const updated: MergeResult['updated'] = [];
+  let unchanged = 0;
+
+  for (const r of rows) {
+    const match = own.find(r);
+    if (match) {
+      const before = { ...match };
+      match.category        = r.category;
+      match.price           = r.price;
+      match.stars           = r.stars           ?? match.stars;
+      match.reviews         = r.reviews         ?? match.reviews;
+      match.stock           = r.stock           ?? match.stock;
+      match.personalization = r.personalization ?? match.personalization;
+      match.url             = r.url             ?? match.url;
+      if (r.sku) match.sku  = r.sku;
+      if (JSON.stringify(before) === JSON.stringify(match)) unchanged++;
+      else updated.push({ before, after: { ...match } });
+      continue;
+    }
+
+    const p: Product = {
+      id:              nextId++,
+      shop,
+      name:            r.name,
+      category:        r.category,
+      price:           r.price,
+      stars:           r.stars ?? DEFAULT_STARS,
+      reviews:         r.reviews ?? 0,
+      firstSeenAt:     seenAt,
+      personalization: r.personalization ?? false,
+      stock:           r.stock ?? true,
+      ...googleResultsFor(r.name),
+      url:             r.url ?? '',
+      ...(r.sku && { sku: r.sku }),
+    };
+    products.push(p);
+    added.push(p);
+    // A later row with the same URL/name updates this one instead of duplicating
+    own.add(p);
+  }
+
+  return { products, added, updated, unchanged };
+}
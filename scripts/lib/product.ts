@@ -0,0 +1,20 @@
+/**
+ * product.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Product record as the scraper writes it to the catalogue store and the
+ * enrichment / reporting scripts read it back.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import type { GiftData, GoogleSource } from '../../utils/gift-schema';
+
+export type { GoogleSource };
+
+/**
+ * A record as the scraper writes it — utils/gift-schema GiftData with the
+ * fields older data may lack made required. The runtime schema lives there.
+ */
+export interface Product extends GiftData {
+  googleSource: GoogleSource;
+  url:          string;
+}
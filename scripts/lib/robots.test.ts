@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ALLOW_ALL, DISALLOW_ALL, groupFor, isAllowed, parseRobots, patternToRegExp } from './robots';
+
+const BOT = 'GiftAnalyzerBot';
+const at  = (path: string) => `https://shop.example${path}`;
+
+test('parseRobots groups consecutive user-agents and skips comments', () => {
+  const r = parseRobots([
+    '# shop robots',
+    'User-agent: GiftAnalyzerBot',
+    'User-agent: OtherBot',
+    'Disallow: /cart   # no baskets',
+    'Crawl-delay: 2',
+    '',
+    'Disallow: /orphan',
+    'User-agent: *',
+    'Disallow:',
+    'Sitemap: https://shop.example/sitemap.xml',
+  ].join('\r\n'));
+
+  assert.deepEqual(r.sitemaps, ['https://shop.example/sitemap.xml']);
+  assert.equal(r.groups.length, 2);
+  assert.deepEqual(r.groups[0].agents, ['giftanalyzerbot', 'otherbot']);
+  assert.deepEqual(r.groups[0].rules, [
+    { allow: false, pattern: '/cart' },
+    { allow: false, pattern: '/orphan' },
+  ]);
+  assert.equal(r.groups[0].crawlDelay, 2);
+  // An empty Disallow adds no rule
+  assert.deepEqual(r.groups[1].rules, []);
+});
+
+test('groupFor picks the most specific agent and merges its groups', () => {
+  const r = parseRobots([
+    'User-agent: *', 'Disallow: /', '',
+    'User-agent: Gift', 'Disallow: /a', '',
+    'User-agent: GiftAnalyzer', 'Disallow: /b', 'Crawl-delay: 1', '',
+    'User-agent: GiftAnalyzer', 'Allow: /b/ok', 'Crawl-delay: 3',
+  ].join('\n'));
+  const g = groupFor(r, BOT)!;
+  assert.deepEqual(g.agents, ['giftanalyzer']);
+  assert.deepEqual(g.rules.map(x => x.pattern), ['/b', '/b/ok']);
+  assert.equal(g.crawlDelay, 3);
+  assert.deepEqual(groupFor(r, 'SomeoneElse')!.agents, ['*']);
+  assert.equal(groupFor(parseRobots('User-agent: OtherBot\nDisallow: /'), BOT), null);
+});
+
+test('patternToRegExp supports * and a trailing $', () => {
+  assert.ok(patternToRegExp('/brelky/*/print').test('/brelky/kit/print?x=1'));
+  assert.ok(patternToRegExp('/*.pdf$').test('/files/a.pdf'));
+  assert.ok(!patternToRegExp('/*.pdf$').test('/files/a.pdf?download'));
+  assert.ok(!patternToRegExp('/a.b').test('/axb'));
+});
+
+test('isAllowed: the longest matching pattern wins', () => {
+  const r = parseRobots([
+    'User-agent: *',
+    'Disallow: /catalog',
+    'Allow: /catalog/brelky',
+    'Disallow: /catalog/brelky/*?sort=',
+  ].join('\n'));
+  assert.deepEqual(isAllowed(r, BOT, at('/catalog/kubky/')), { allowed: false, rule: 'Disallow: /catalog' });
+  assert.deepEqual(isAllowed(r, BOT, at('/catalog/brelky/')), { allowed: true, rule: 'Allow: /catalog/brelky' });
+  assert.deepEqual(isAllowed(r, BOT, at('/catalog/brelky/?sort=price')), { allowed: false, rule: 'Disallow: /catalog/brelky/*?sort=' });
+  assert.deepEqual(isAllowed(r, BOT, at('/about')), { allowed: true });
+});
+
+test('isAllowed: Allow wins a tie of equal length', () => {
+  const r = parseRobots('User-agent: *\nDisallow: /page\nAllow: /page\n');
+  assert.deepEqual(isAllowed(r, BOT, at('/page')), { allowed: true, rule: 'Allow: /page' });
+});
+
+test('ALLOW_ALL and DISALLOW_ALL', () => {
+  assert.equal(isAllowed(ALLOW_ALL, BOT, at('/anything')).allowed, true);
+  assert.deepEqual(isAllowed(DISALLOW_ALL, BOT, at('/anything')), { allowed: false, rule: 'Disallow: /' });
+});
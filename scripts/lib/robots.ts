@@ -0,0 +1,134 @@
+/**
+ * robots.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * robots.txt parsing and matching (RFC 9309, plus the common Crawl-delay
+ * extension).
+ *
+ *   • The group for the most specific matching user-agent token applies;
+ *     `*` only when no named group matches. Groups with the same agent are
+ *     merged.
+ *   • Within a group the longest matching Allow/Disallow pattern wins; on a
+ *     tie Allow wins. Patterns support `*` (any run) and a trailing `$`.
+ *   • No rules (or no robots.txt at all) means everything is allowed.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+export interface RobotsRule {
+  allow:   boolean;
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  agents:      string[];
+  rules:       RobotsRule[];
+  /** Seconds, when the group sets one. */
+  crawlDelay?: number;
+}
+
+export interface Robots {
+  groups:   RobotsGroup[];
+  sitemaps: string[];
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  /** The rule that decided, e.g. "Disallow: /cart"; undefined when none matched. */
+  rule?:   string;
+}
+
+export const ALLOW_ALL: Robots = { groups: [], sitemaps: [] };
+export const DISALLOW_ALL: Robots = {
+  groups: [{ agents: ['*'], rules: [{ allow: false, pattern: '/' }] }],
+  sitemaps: [],
+};
+
+// ── Parse ─────────────────────────────────────────────────────────────────
+export function parseRobots(text: string): Robots {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, '').trim();
+    const m = /^([A-Za-z-]+)\s*:\s*(.*)$/.exec(line);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const value = m[2].trim();
+
+    if (key === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) groups.push(current = { agents: [], rules: [] });
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+
+    if (key === 'sitemap') { sitemaps.push(value); continue; }
+    if (!current) continue;   // rules before any user-agent are ignored
+    if (key === 'allow' || key === 'disallow') {
+      // "Disallow:" with no path allows everything — it adds no rule
+      if (value) current.rules.push({ allow: key === 'allow', pattern: value });
+    } else if (key === 'crawl-delay') {
+      const n = Number(value);
+      if (Number.isFinite(n) && n >= 0) current.crawlDelay = n;
+    }
+  }
+  return { groups, sitemaps };
+}
+
+// ── Match ─────────────────────────────────────────────────────────────────
+/**
+ * The merged group for `agent` (a product token like "GiftAnalyzerBot"):
+ * groups whose agent is a prefix of it, the longest such agent winning;
+ * else the `*` groups.
+ */
+export function groupFor(robots: Robots, agent: string): RobotsGroup | null {
+  const token = agent.toLowerCase();
+  let best = '';
+  for (const g of robots.groups) {
+    for (const a of g.agents) if (a !== '*' && token.startsWith(a) && a.length > best.length) best = a;
+  }
+  const pick = best
+    ? robots.groups.filter(g => g.agents.includes(best))
+    : robots.groups.filter(g => g.agents.includes('*'));
+  if (!pick.length) return null;
+  const delays = pick.map(g => g.crawlDelay).filter((d): d is number => d !== undefined);
+  return {
+    agents:     [best || '*'],
+    rules:      pick.flatMap(g => g.rules),
+    crawlDelay: delays.length ? Math.max(...delays) : undefined,
+  };
+}
+
+/** robots.txt pattern → RegExp over path + query. */
+export function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/** Path + query of `url` — what robots.txt patterns are matched against. */
+function target(url: string): string {
+  const u = new URL(url);
+  return `${u.pathname}${u.search}`;
+}
+
+export function isAllowed(robots: Robots, agent: string, url: string): RobotsVerdict {
+  const group = groupFor(robots, agent);
+  if (!group) return { allowed: true };
+  const path = target(url);
+  let best: RobotsRule | null = null;
+  for (const r of group.rules) {
+    if (!patternToRegExp(r.pattern).test(path)) continue;
+    const longer = !best || r.pattern.length > best.pattern.length;
+    const tieAllow = best && r.pattern.length === best.pattern.length && r.allow && !best.allow;
+    if (longer || tieAllow) best = r;
+  }
+  if (!best) return { allowed: true };
+  return { allowed: best.allow, rule: `${best.allow ? 'Allow' : 'Disallow'}: ${best.pattern}` };
+}
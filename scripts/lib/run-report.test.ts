@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { podaroktut } from './adapters/podaroktut';
+import { crawlShop, fixtureFetcher } from './crawl';
+import { HttpError } from './http';
+import { buildRunReport, formatRunReport, loadHealthThresholds, runRecorder, type RunReport } from './run-report';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'podaroktut');
+const th = loadHealthThresholds();
+
+async function fixtureRun(fetch = fixtureFetcher(FIXTURES)) {
+  const recorder = runRecorder();
+  const result = await crawlShop(podaroktut, {
+    fetch, maxPages: 10, startId: 1, seenAt: '2026-10-01T00:00:00.000Z',
+    onPage: p => recorder.page('podaroktut', p),
+  });
+  recorder.shopDone('podaroktut', result);
+  return recorder.stats();
+}
+
+const run = async (fetch?: ReturnType<typeof fixtureFetcher>, history: RunReport[] = []) =>
+  buildRunReport({ startedAt: new Date().toISOString(), source: 'fixtures', shops: await fixtureRun(fetch) }, history, th);
+
+test('a fixture run records cards, selectors and defaulted fields', async () => {
+  const [s] = await fixtureRun();
+  assert.equal(s.cards, 5);
+  assert.deepEqual(s.categories.map(c => [c.name, c.pages, c.cards]), [['Мини бары', 1, 2], ['Брелки', 2, 3]]);
+  assert.deepEqual(s.selectors, { 'li.product': 2, '.product-card': 3 });
+  assert.deepEqual(s.fallbackRatios, { price: 0.2, stars: 0.4, reviews: 0.2, url: 0 });
+});
+
+test('a failed start page is a shop-error, not an item drop', async () => {
+  const previous = await run();
+  const failing = async (url: string): Promise<string> => { throw new HttpError(500, url); };
+  const report = await run(failing, [previous]);
+
+  assert.equal(report.shops[0].error, `start page: HTTP 500 for ${podaroktut.startUrl}`);
+  // Only the shop-error: a shop that was not read has no ratios or drops to check
+  assert.deepEqual(report.regressions.map(r => r.kind), ['shop-error']);
+  assert.deepEqual(report.deltas, []);
+  assert.match(formatRunReport(report), /podaroktut: not crawled — start page: HTTP 500/);
+
+  // The next run compares against the last run that actually crawled the shop
+  const next = await run(undefined, [previous, report]);
+  assert.equal(next.deltas[0].previousAt, previous.startedAt);
+  assert.equal(next.deltas[0].cards, 0);
+  assert.ok(!next.regressions.some(r => r.kind === 'item-drop'));
+});
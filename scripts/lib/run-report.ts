@@ -0,0 +1,320 @@
+/**
+ * run-report.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Selector health of a scraper run. When a shop changes its markup the
+ * adapter rarely fails outright — it finds fewer cards, or cards whose
+ * price / rating / link no longer parse and silently get defaults. The run
+ * report makes that visible:
+ *
+ *   • cards per category and listing page, and which CARD selector matched;
+ *   • per shop, the share of cards whose price, stars, reviews or URL fell
+ *     back to a default;
+ *   • the change against the previous run of the same shop;
+ *   • regressions — ratios or drops past the thresholds in
+ *     scripts/run-health.json — so a scheduled job can alert
+ *     (scrape.ts --fail-on-regression exits with code 2).
+ *
+ * Reports of runs that update data/gifts.json are kept in
+ * data/run-reports.json (last MAX_REPORTS).
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CardField, ScrapedCard } from './adapters';
+import type { CrawlResult, DetailStats } from './crawl';
+
+export const RUN_REPORTS_FILE  = path.resolve(__dirname, '../../data/run-reports.json');
+export const RUN_HEALTH_FILE   = path.resolve(__dirname, '../run-health.json');
+const MAX_REPORTS = 50;
+
+const CARD_FIELDS: CardField[] = ['price', 'stars', 'reviews', 'url'];
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface PageStats {
+  category: string;
+  page:     number;
+  url:      string;
+  cards:    number;
+}
+
+export interface CategoryStats {
+  name:   string;
+  pages:  number;
+  cards:  number;
+  error?: string;
+}
+
+export interface ShopStats {
+  shop:           string;
+  cards:          number;
+  categories:     CategoryStats[];
+  pages:          PageStats[];
+  /** Cards per matching card selector ("(none)" when the adapter did not say). */
+  selectors:      Record<string, number>;
+  /** Share of cards (0–1) whose field got its default. */
+  fallbackRatios: Record<CardField, number>;
+  details?:       DetailStats;
+  /** The shop could not be crawled at all (start page failed). */
+  error?:         string;
+}
+
+/** This run minus the previous run of the same shop. */
+export interface ShopDelta {
+  shop:           string;
+  previousAt:     string;
+  cards:          number;
+  /** Per category present in either run. */
+  categories:     Record<string, number>;
+  fallbackRatios: Record<CardField, number>;
+}
+
+export type RegressionKind =
+  | 'fallback-ratio'      // a ratio above its ceiling
+  | 'fallback-increase'   // a ratio rose too much since the previous run
+  | 'item-drop'           // shop or category lost too many cards
+  | 'selector-change'     // the previous run's main selector matched nothing
+  | 'category-error'      // a category stopped on an error
+  | 'shop-error';         // the shop could not be crawled at all
+
+export interface Regression {
+  shop:    string;
+  kind:    RegressionKind;
+  message: string;
+}
+
+export interface RunReport {
+  startedAt:   string;
+  finishedAt:  string;
+  source:      'live' | 'fixtures';
+  shops:       ShopStats[];
+  deltas:      ShopDelta[];
+  regressions: Regression[];
+}
+
+export interface HealthThresholds {
+  /** Ceiling per field for the share of defaulted cards. */
+  maxFallbackRatio:    Record<CardField, number>;
+  /** Largest tolerated rise of any ratio since the previous run (0–1). */
+  maxFallbackIncrease: number;
+  /** Largest tolerated fall in cards since the previous run (0–1). */
+  maxItemDrop:         number;
+  /** Categories smaller than this in the previous run are not checked for drops. */
+  minCategoryCards:    number;
+}
+
+export function loadHealthThresholds(file: string = RUN_HEALTH_FILE): HealthThresholds {
+  const t = JSON.parse(fs.readFileSync(file, 'utf-8')) as HealthThresholds;
+  const ratios = [t.maxFallbackIncrease, t.maxItemDrop, ...CARD_FIELDS.map(f => t.maxFallbackRatio?.[f])];
+  if (ratios.some(r => typeof r !== 'number' || r < 0 || r > 1)) {
+    throw new Error(`${file}: every ratio must be a number in [0, 1] (fields: ${CARD_FIELDS.join(', ')})`);
+  }
+  return t;
+}
+
+// ── Recording ─────────────────────────────────────────────────────────────
+interface ShopTally {
+  pages:     PageStats[];
+  selectors: Record<string, number>;
+  defaulted: Record<CardField, number>;
+  cards:     number;
+  result?:   CrawlResult;
+  details?:  DetailStats;
+}
+
+export interface RunRecorder {
+  /** crawlShop's onPage hook. */
+  page(shop: string, p: { category: string; page: number; url: string; cards: ScrapedCard[] }): void;
+  shopDone(shop: string, result: CrawlResult, details?: DetailStats): void;
+  stats(): ShopStats[];
+}
+
+const zeroFields = (): Record<CardField, number> => ({ price: 0, stars: 0, reviews: 0, url: 0 });
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+export function runRecorder(): RunRecorder {
+  const shops = new Map<string, ShopTally>();
+  const tally = (shop: string) => {
+    let t = shops.get(shop);
+    if (!t) shops.set(shop, t = { pages: [], selectors: {}, defaulted: zeroFields(), cards: 0 });
+    return t;
+  };
+
+  return {
+    page(shop, p) {
+      const t = tally(shop);
+      t.pages.push({ category: p.category, page: p.page, url: p.url, cards: p.cards.length });
+      for (const c of p.cards) {
+        t.cards++;
+        const sel = c.selector ?? '(none)';
+        t.selectors[sel] = (t.selectors[sel] ?? 0) + 1;
+        for (const f of c.defaulted ?? []) t.defaulted[f]++;
+      }
+    },
+
+    shopDone(shop, result, details) {
+      Object.assign(tally(shop), { result, details });
+    },
+
+    stats() {
+      return [...shops].map(([shop, t]) => {
+        // Categories in crawl order; ones restored from a checkpoint have no pages here
+        const names = Array.from(new Set([
+          ...t.pages.map(p => p.category),
+          ...(t.result?.products.map(p => p.category) ?? []),
+          ...(t.result?.failed.map(f => f.name) ?? []),
+        ]));
+        const categories = names.map(name => {
+          const pages = t.pages.filter(p => p.category === name);
+          const error = t.result?.failed.find(f => f.name === name)?.error;
+          return {
+            name,
+            pages: pages.filter(p => p.cards > 0).length,
+            cards: t.result ? t.result.products.filter(p => p.category === name).length : pages.reduce((s, p) => s + p.cards, 0),
+            ...(error ? { error } : {}),
+          };
+        });
+        const fallbackRatios = zeroFields();
+        for (const f of CARD_FIELDS) fallbackRatios[f] = t.cards ? round(t.defaulted[f] / t.cards) : 0;
+        return {
+          shop,
+          cards: categories.reduce((s, c) => s + c.cards, 0),
+          categories,
+          pages: t.pages,
+          selectors: t.selectors,
+          fallbackRatios,
+          ...(t.details ? { details: t.details } : {}),
+          ...(t.result?.error ? { error: t.result.error } : {}),
+        };
+      });
+    },
+  };
+}
+
+// ── Comparison ────────────────────────────────────────────────────────────
+/** The latest earlier stats of `shop` from a run that crawled it, newest report first. */
+function previousStats(history: RunReport[], shop: string): { at: string; stats: ShopStats } | null {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const s = history[i].shops.find(x => x.shop === shop);
+    if (s && !s.error) return { at: history[i].startedAt, stats: s };
+  }
+  return null;
+}
+
+const pct = (r: number) => `${Math.round(r * 100)}%`;
+
+/**
+ * Builds the report for this run: deltas against the newest earlier stats
+ * of each shop in `history`, and every threshold crossed.
+ */
+export function buildRunReport(
+  run: { startedAt: string; source: RunReport['source']; shops: ShopStats[] },
+  history: RunReport[],
+  th: HealthThresholds,
+): RunReport {
+  const deltas: ShopDelta[] = [];
+  const regressions: Regression[] = [];
+  const flag = (shop: string, kind: RegressionKind, message: string) => regressions.push({ shop, kind, message });
+
+  for (const s of run.shops) {
+    // Nothing was read, so counts and ratios say nothing about the selectors
+    if (s.error) {
+      flag(s.shop, 'shop-error', `not crawled: ${s.error}`);
+      continue;
+    }
+    for (const f of CARD_FIELDS) {
+      if (s.fallbackRatios[f] > th.maxFallbackRatio[f]) {
+        flag(s.shop, 'fallback-ratio', `${f} defaulted on ${pct(s.fallbackRatios[f])} of cards (max ${pct(th.maxFallbackRatio[f])})`);
+      }
+    }
+    for (const c of s.categories) {
+      if (c.error) flag(s.shop, 'category-error', `${c.name} stopped early: ${c.error}`);
+    }
+
+    const prev = previousStats(history, s.shop);
+    if (!prev) continue;
+    const p = prev.stats;
+
+    const categories: Record<string, number> = {};
+    for (const name of new Set([...p.categories.map(c => c.name), ...s.categories.map(c => c.name)])) {
+      const before = p.categories.find(c => c.name === name)?.cards ?? 0;
+      const after  = s.categories.find(c => c.name === name)?.cards ?? 0;
+      categories[name] = after - before;
+      if (before >= th.minCategoryCards && (before - after) / before > th.maxItemDrop) {
+        flag(s.shop, 'item-drop', `${name}: ${before} → ${after} cards`);
+      }
+    }
+    if (p.cards > 0 && (p.cards - s.cards) / p.cards > th.maxItemDrop) {
+      flag(s.shop, 'item-drop', `${p.cards} → ${s.cards} cards (max drop ${pct(th.maxItemDrop)})`);
+    }
+
+    const fallbackRatios = zeroFields();
+    for (const f of CARD_FIELDS) {
+      fallbackRatios[f] = round(s.fallbackRatios[f] - p.fallbackRatios[f]);
+      if (fallbackRatios[f] > th.maxFallbackIncrease) {
+        flag(s.shop, 'fallback-increase', `${f} defaulted ${pct(p.fallbackRatios[f])} → ${pct(s.fallbackRatios[f])}`);
+      }
+    }
+
+    const [mainSelector] = Object.entries(p.selectors).sort((a, b) => b[1] - a[1])[0] ?? [];
+    if (mainSelector && mainSelector !== '(none)' && s.cards > 0 && !s.selectors[mainSelector]) {
+      const now = Object.keys(s.selectors).join(', ');
+      flag(s.shop, 'selector-change', `"${mainSelector}" matched no card (now: ${now})`);
+    }
+
+    deltas.push({ shop: s.shop, previousAt: prev.at, cards: s.cards - p.cards, categories, fallbackRatios });
+  }
+
+  return { ...run, finishedAt: new Date().toISOString(), deltas, regressions };
+}
+
+// ── Output ────────────────────────────────────────────────────────────────
+const signed = (n: number) => (n > 0 ? `+${n}` : String(n));
+
+export function formatRunReport(r: RunReport): string {
+  const lines: string[] = [`Run report (${r.source}, started ${r.startedAt})`];
+  for (const s of r.shops) {
+    const d = r.deltas.find(x => x.shop === s.shop);
+    if (s.error) {
+      lines.push(`  ${s.shop}: not crawled — ${s.error}`);
+      continue;
+    }
+    lines.push(`  ${s.shop}: ${s.cards} cards${d ? ` (${signed(d.cards)} since ${d.previousAt})` : ''}`);
+    for (const c of s.categories) {
+      const dc = d?.categories[c.name];
+      lines.push(
+        `    ${c.name}: ${c.cards} on ${c.pages} page(s)` +
+        (dc ? ` (${signed(dc)})` : '') +
+        (c.error ? ` — stopped: ${c.error}` : ''),
+      );
+    }
+    lines.push(`    defaulted: ${CARD_FIELDS.map(f => `${f} ${pct(s.fallbackRatios[f])}`).join(', ')}`);
+    lines.push(`    selectors: ${Object.entries(s.selectors).map(([k, v]) => `${k} ×${v}`).join(', ') || '—'}`);
+    if (s.details) {
+      lines.push(`    details: ${s.details.fetched} read, ${s.details.failed} failed, ${s.details.blocked} blocked`);
+    }
+  }
+  if (r.regressions.length === 0) {
+    lines.push('  ✓ no regressions');
+  } else {
+    lines.push(`  ⚠ ${r.regressions.length} regression(s):`);
+    for (const g of r.regressions) lines.push(`    [${g.shop}] ${g.kind}: ${g.message}`);
+  }
+  return lines.join('\n');
+}
+
+// ── Storage ───────────────────────────────────────────────────────────────
+export function readRunReports(file: string = RUN_REPORTS_FILE): RunReport[] {
+  if (!fs.existsSync(file)) return [];
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(parsed)) throw new Error(`${file}: expected an array of run reports`);
+  return parsed as RunReport[];
+}
+
+/** Appends `report`, keeping the newest MAX_REPORTS (temp file + rename). */
+export function appendRunReport(report: RunReport, file: string = RUN_REPORTS_FILE): void {
+  const reports = [...readRunReports(file), report].slice(-MAX_REPORTS);
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(reports, null, 2), 'utf-8');
+  fs.renameSync(tmp, file);
+}
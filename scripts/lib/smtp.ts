@@ -0,0 +1,180 @@
+/**
+ * smtp.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Just enough SMTP to hand one plain-text message to a relay: EHLO,
+ * STARTTLS when the server offers it (or implicit TLS with `secure`),
+ * AUTH PLAIN, MAIL / RCPT / DATA. No pooling, no attachments — alert mails
+ * are a few lines of text sent a handful of times per run.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as crypto from 'crypto';
+import * as net from 'net';
+import * as tls from 'tls';
+
+export interface SmtpConfig {
+  host:       string;
+  port:       number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when offered. */
+  secure:     boolean;
+  user?:      string;
+  pass?:      string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  /** "Name <address>" or a bare address. */
+  from:    string;
+  to:      string[];
+  subject: string;
+  text:    string;
+}
+
+export class SmtpError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(`SMTP ${code}: ${message}`);
+  }
+}
+
+// ── Message ───────────────────────────────────────────────────────────────
+/** The bare address out of "Name <address>". */
+export function mailAddress(s: string): string {
+  return /<([^>]+)>/.exec(s)?.[1].trim() ?? s.trim();
+}
+
+// RFC 2047 encoded word, so Cyrillic subjects survive 7-bit relays
+const encodeHeader = (s: string) =>
+  /^[\x20-\x7e]*$/.test(s) ? s : `=?UTF-8?B?${Buffer.from(s, 'utf-8').toString('base64')}?=`;
+
+/** RFC 5322 message with a base64 UTF-8 text body. */
+export function buildMessage(m: MailMessage, date: Date = new Date()): string {
+  const domain = mailAddress(m.from).split('@')[1] ?? 'localhost';
+  const body   = Buffer.from(m.text, 'utf-8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  return [
+    `From: ${m.from}`,
+    `To: ${m.to.join(', ')}`,
+    `Subject: ${encodeHeader(m.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+// ── Session ───────────────────────────────────────────────────────────────
+interface Reply {
+  code:  number;
+  lines: string[];
+}
+
+/** Reads multi-line replies ("250-…" continued, "250 …" last) off a socket. */
+function replyReader() {
+  let buf = '';
+  let lines: string[] = [];
+  const ready: Reply[] = [];
+  const waiting: { resolve: (r: Reply) => void; reject: (e: Error) => void }[] = [];
+  let failed: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buf += chunk.toString('utf-8');
+    let nl: number;
+    while ((nl = buf.indexOf('\n')) >= 0) {
+      const line = buf.slice(0, nl).replace(/\r$/, '');
+      buf = buf.slice(nl + 1);
+      lines.push(line.slice(4));
+      if (line[3] === '-') continue;
+      const reply = { code: Number(line.slice(0, 3)), lines };
+      lines = [];
+      const w = waiting.shift();
+      if (w) w.resolve(reply);
+      else ready.push(reply);
+    }
+  };
+  const onError = (e: Error) => {
+    failed = e;
+    for (const w of waiting.splice(0)) w.reject(e);
+  };
+
+  return {
+    attach(s: net.Socket) {
+      s.on('data', onData);
+      s.on('error', onError);
+      s.on('close', () => onError(new Error('connection closed')));
+    },
+    detach(s: net.Socket) {
+      s.removeListener('data', onData);
+    },
+    next(): Promise<Reply> {
+      const r = ready.shift();
+      if (r) return Promise.resolve(r);
+      if (failed) return Promise.reject(failed);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+  };
+}
+
+function connect(cfg: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const s = cfg.secure
+      ? tls.connect({ host: cfg.host, port: cfg.port, servername: cfg.host }, () => resolve(s))
+      : net.connect({ host: cfg.host, port: cfg.port }, () => resolve(s));
+    s.once('error', reject);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const s = tls.connect({ socket, servername: host }, () => resolve(s));
+    s.once('error', reject);
+  });
+}
+
+/** Sends one message; rejects with SmtpError on any unexpected reply. */
+export async function sendMail(cfg: SmtpConfig, m: MailMessage): Promise<void> {
+  let socket: net.Socket = await connect(cfg);
+  socket.setTimeout(cfg.timeoutMs ?? 30_000, () => socket.destroy(new Error('SMTP timeout')));
+  let reader = replyReader();
+  reader.attach(socket);
+
+  const expect = async (ok: number[]) => {
+    const r = await reader.next();
+    if (!ok.includes(r.code)) throw new SmtpError(r.code, r.lines.join(' '));
+    return r;
+  };
+  const command = (line: string, ok: number[]) => {
+    socket.write(`${line}\r\n`);
+    return expect(ok);
+  };
+
+  try {
+    await expect([220]);
+    const ehlo = await command('EHLO gift-price-analyzer', [250]);
+
+    if (!cfg.secure && ehlo.lines.some(l => /^STARTTLS\b/i.test(l))) {
+      await command('STARTTLS', [220]);
+      reader.detach(socket);
+      socket = await upgrade(socket, cfg.host);
+      reader = replyReader();
+      reader.attach(socket);
+      await command('EHLO gift-price-analyzer', [250]);
+    }
+
+    if (cfg.user) {
+      const token = Buffer.from(`\0${cfg.user}\0${cfg.pass ?? ''}`, 'utf-8').toString('base64');
+      await command(`AUTH PLAIN ${token}`, [235]);
+    }
+
+    await command(`MAIL FROM:<${mailAddress(m.from)}>`, [250]);
+    for (const to of m.to) await command(`RCPT TO:<${mailAddress(to)}>`, [250, 251]);
+    await command('DATA', [354]);
+    // Dot-stuffing: a line starting with "." gets a second one
+    const data = buildMessage(m).replace(/^\./gm, '..');
+    await command(`${data}\r\n.`, [250]);
+    await command('QUIT', [221]).catch(() => {});
+  } finally {
+    socket.end();
+  }
+}
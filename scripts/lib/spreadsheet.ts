@@ -0,0 +1,156 @@
+/**
+ * spreadsheet.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Reads the first (or a named) sheet of a CSV or XLSX file into a grid of
+ * strings. Just enough for supplier price lists: no formulas are evaluated
+ * (cached values are read), merged cells are not expanded.
+ *
+ *   CSV   UTF-8 with or without BOM; delimiter detected from the first line
+ *         (, ; or tab); RFC 4180 quotes
+ *   XLSX  Office Open XML; shared strings, inline strings, numbers, booleans
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as cheerio from 'cheerio';
+
+/** Rows of cells; blank rows are kept so grid[i] is line/row i + 1. */
+export type Grid = string[][];
+
+// ── CSV ───────────────────────────────────────────────────────────────────
+function detectDelimiter(firstLine: string): string {
+  const counts = [',', ';', '\t'].map(d => [d, firstLine.split(d).length] as const);
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+}
+
+export function parseCsv(text: string): Grid {
+  const src   = text.replace(/^\uFEFF/, '');
+  const delim = detectDelimiter(src.slice(0, src.search(/\r?\n|$/)));
+  const rows: Grid = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"')                  quoted = false;
+      else                                  field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delim) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length) { row.push(field); rows.push(row); }
+  return rows;
+}
+
+// ── ZIP ───────────────────────────────────────────────────────────────────
+/** Entries of a ZIP archive by name (stored and deflated entries only). */
+function unzip(buf: Buffer): Map<string, Buffer> {
+  // End of central directory: last 0x06054b50 signature in the file
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 65_557); i--) {
+    if (buf.readUInt32LE(i) === 0x06054B50) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP/XLSX file');
+
+  const entries = new Map<string, Buffer>();
+  const count   = buf.readUInt16LE(eocd + 10);
+  let p = buf.readUInt32LE(eocd + 16);
+  for (let n = 0; n < count; n++) {
+    if (buf.readUInt32LE(p) !== 0x02014B50) throw new Error('Corrupt ZIP central directory');
+    const method   = buf.readUInt16LE(p + 10);
+    const csize    = buf.readUInt32LE(p + 20);
+    const nameLen  = buf.readUInt16LE(p + 28);
+    const extraLen = buf.readUInt16LE(p + 30);
+    const cmtLen   = buf.readUInt16LE(p + 32);
+    const local    = buf.readUInt32LE(p + 42);
+    const name     = buf.toString('utf-8', p + 46, p + 46 + nameLen);
+
+    const dataStart = local + 30 + buf.readUInt16LE(local + 26) + buf.readUInt16LE(local + 28);
+    const raw = buf.subarray(dataStart, dataStart + csize);
+    if (method === 0)      entries.set(name, raw);
+    else if (method === 8) entries.set(name, zlib.inflateRawSync(raw));
+    else throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+
+    p += 46 + nameLen + extraLen + cmtLen;
+  }
+  return entries;
+}
+
+// ── XLSX ──────────────────────────────────────────────────────────────────
+/** "C12" → 2 (zero-based column) */
+function colIndex(ref: string): number {
+  let n = 0;
+  for (const ch of ref.replace(/\d+$/, '')) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+function xml(buf: Buffer | undefined): cheerio.Root | null {
+  return buf ? cheerio.load(buf.toString('utf-8'), { xmlMode: true }) : null;
+}
+
+export function parseXlsx(buf: Buffer, sheetName?: string): Grid {
+  const files = unzip(buf);
+  const wb    = xml(files.get('xl/workbook.xml'));
+  const rels  = xml(files.get('xl/_rels/workbook.xml.rels'));
+  if (!wb || !rels) throw new Error('Not an XLSX workbook (xl/workbook.xml missing)');
+
+  const sheets = wb('sheet').toArray().map(el => ({
+    name: wb(el).attr('name') ?? '',
+    rid:  wb(el).attr('r:id') ?? '',
+  }));
+  const sheet = sheetName ? sheets.find(s => s.name === sheetName) : sheets[0];
+  if (!sheet) throw new Error(`Sheet "${sheetName}" not found (have: ${sheets.map(s => s.name).join(', ')})`);
+
+  const target = rels(`Relationship[Id="${sheet.rid}"]`).attr('Target') ?? '';
+  const sheetPath = target.startsWith('/') ? target.slice(1) : path.posix.join('xl', target);
+  const ws = xml(files.get(sheetPath));
+  if (!ws) throw new Error(`Worksheet part ${sheetPath} missing`);
+
+  // Shared strings: rich-text runs are concatenated
+  const sst = xml(files.get('xl/sharedStrings.xml'));
+  const shared = sst ? sst('si').toArray().map(si => sst(si).find('t').toArray().map(t => sst(t).text()).join('')) : [];
+
+  const grid: Grid = [];
+  ws('sheetData row').each((ri, rowEl) => {
+    const r = Number(ws(rowEl).attr('r') ?? ri + 1) - 1;
+    const row: string[] = grid[r] ?? [];
+    ws(rowEl).children('c').each((ci, cEl) => {
+      const c    = ws(cEl);
+      const ref  = c.attr('r');
+      const col  = ref ? colIndex(ref) : ci;
+      const type = c.attr('t');
+      const v    = c.children('v').text();
+      row[col] =
+        type === 's'         ? shared[Number(v)] ?? '' :
+        type === 'inlineStr' ? c.find('is t').toArray().map(t => ws(t).text()).join('') :
+        type === 'b'         ? (v === '1' ? 'TRUE' : 'FALSE') :
+                               v;
+    });
+    grid[r] = row;
+  });
+
+  // Sparse rows/cells → empty strings, so grid[i] is sheet row i + 1
+  const width = grid.reduce((m, r) => Math.max(m, r?.length ?? 0), 0);
+  return Array.from(grid, r => Array.from({ length: width }, (_, i) => r?.[i] ?? ''));
+}
+
+// ── Entry point ───────────────────────────────────────────────────────────
+export function readSpreadsheet(file: string, sheetName?: string): Grid {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.xlsx') return parseXlsx(fs.readFileSync(file), sheetName);
+  if (ext === '.csv' || ext === '.txt' || ext === '.tsv') return parseCsv(fs.readFileSync(file, 'utf-8'));
+  throw new Error(`Unsupported file type "${ext}" (expected .csv or .xlsx)`);
+}
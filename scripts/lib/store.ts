@@ -0,0 +1,22 @@
+/**
+ * store.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * The catalogue store (utils/store) as scripts open it: on this checkout's
+ * data/ directory whatever the working directory, honouring CATALOG_STORE
+ * and CATALOG_DB like the web app.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as path from 'path';
+import { openRepository, type CatalogRepository } from '../../utils/store';
+
+export const DATA_DIR = path.resolve(__dirname, '../../data');
+
+export function openStore(): CatalogRepository {
+  return openRepository({ dataDir: DATA_DIR });
+}
+
+/** "data/catalog.db (sqlite)", relative to the working directory. */
+export function storeName(repo: CatalogRepository): string {
+  return `${path.relative(process.cwd(), repo.location) || repo.location} (${repo.kind})`;
+}
@@ -0,0 +1,59 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { openRepository } from '../../utils/store';
+import { checkWatchlist } from './watchlist';
+
+const DATA = path.resolve(__dirname, '../../data');
+
+let tmp = '';
+before(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'watchlist-')); });
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+/** A JSON store over a copy of the catalogue, watching every keychain. */
+function store(webhook: string) {
+  const dir = fs.mkdtempSync(path.join(tmp, 'data-'));
+  for (const f of ['gifts.json', 'price-history.json', 'categories.json']) fs.copyFileSync(path.join(DATA, f), path.join(dir, f));
+  const repo = openRepository({ dataDir: dir, kind: 'json' });
+  repo.saveWatchlist({
+    users: { olena: { webhook } },
+    watches: [{
+      id: 1, user: 'olena', category: 'Брелки', label: 'Брелки',
+      rules: [{ type: 'price-at-most', price: 1_000_000 }], channels: ['webhook'], createdAt: '2026-10-01T00:00:00.000Z',
+    }],
+    hits: [],
+  });
+  return repo;
+}
+
+test('a level alert no channel delivered fires again on the next check', async () => {
+  let status = 500;
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => { res.writeHead(status); res.end(); });
+  });
+  await new Promise<void>(r => server.listen(0, '127.0.0.1', r));
+  try {
+    const repo = store(`http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`);
+
+    const failed = await checkWatchlist(repo);
+    assert.ok(failed.alerts.length > 0);
+    assert.ok(failed.alerts.every(a => a.delivery.webhook?.startsWith('error:')));
+    assert.deepEqual(repo.getWatchlist().hits, []);
+
+    status = 200;
+    const sent = await checkWatchlist(repo);
+    assert.deepEqual(sent.alerts.map(a => a.key), failed.alerts.map(a => a.key));
+    assert.ok(sent.alerts.every(a => a.delivery.webhook === 'sent'));
+    assert.equal(repo.getWatchlist().hits.length, sent.alerts.length);
+
+    // Remembered once delivered
+    assert.deepEqual((await checkWatchlist(repo)).alerts, []);
+  } finally {
+    await new Promise<void>(r => server.close(() => r()));
+  }
+});
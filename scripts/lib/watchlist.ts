@@ -0,0 +1,106 @@
+/**
+ * watchlist.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Runs the watchlist (utils/watchlist.ts) against the stored catalogue and
+ * delivers the alerts — called by the scraper and the importer after they
+ * write the store, and by `scripts/watch.ts check`.
+ *
+ * Alerts are grouped per user and channel into one message each. A channel
+ * that fails or is not configured is recorded in the alert log and never
+ * fails the run that triggered it. A level rule whose alert no channel sent
+ * is not remembered as alerted, so the next check tries it again.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import { scoredRows, setCatalogRepository } from '../../utils/catalog';
+import { DEFAULT_PROFILE } from '../../utils/engine';
+import { productKey } from '../../utils/history';
+import type { CatalogRepository } from '../../utils/store';
+import {
+  alertsByUser, evaluateWatches, type Alert, type AlertRecord, type ChannelKind, type Recipient, type WatchedItem,
+} from '../../utils/watchlist';
+import { createChannels, loadNotifyConfig, type NotificationChannel } from './notify';
+
+export interface WatchCheckOptions {
+  /** Send through the local outbox stubs instead of the real channels. */
+  stub?:   boolean;
+  /** Evaluate and print only: nothing sent, nothing saved. */
+  dryRun?: boolean;
+}
+
+export interface WatchCheckResult {
+  alerts:  AlertRecord[];
+  /** False when there was nothing to check (no watches or no data). */
+  checked: boolean;
+}
+
+/** The current catalogue as the evaluator sees it. */
+function watchedItems(store: CatalogRepository): WatchedItem[] {
+  setCatalogRepository(store);
+  return scoredRows(DEFAULT_PROFILE).map(r => ({
+    key: productKey(r), id: r.id, name: r.name, category: r.category,
+    price: r.price, stock: r.stock, value: r.value,
+    ...(r.url ? { url: r.url } : {}),
+  }));
+}
+
+async function deliver(
+  alerts:   Alert[],
+  users:    Record<string, Recipient>,
+  channels: Record<ChannelKind, NotificationChannel | string>,
+  stub:     boolean,
+): Promise<AlertRecord[]> {
+  const records: AlertRecord[] = alerts.map(a => ({ ...a, delivery: {} }));
+  for (const [user, mine] of alertsByUser(records)) {
+    const kinds = new Set(mine.flatMap(a => a.channels));
+    for (const kind of kinds) {
+      const batch   = mine.filter(a => a.channels.includes(kind));
+      const channel = channels[kind];
+      const to      = typeof channel === 'string' ? null : channel.address(users[user] ?? {});
+      let outcome: string;
+      if (typeof channel === 'string') outcome = `skipped: ${channel}`;
+      else if (!to) outcome = `skipped: no ${kind} address for ${user}`;
+      else {
+        try {
+          await channel.send(to, user, batch);
+          outcome = stub ? 'stub' : 'sent';
+        } catch (e) {
+          outcome = `error: ${(e as Error).message}`;
+        }
+      }
+      for (const a of batch) a.delivery[kind] = outcome;
+    }
+  }
+  return records;
+}
+
+/** Whether some channel sent (or stubbed) the alert. */
+const delivered = (a: AlertRecord) => Object.values(a.delivery).some(v => v === 'sent' || v === 'stub');
+
+export async function checkWatchlist(store: CatalogRepository, opts: WatchCheckOptions = {}): Promise<WatchCheckResult> {
+  const list   = store.getWatchlist();
+  const snaps  = store.listSnapshots();
+  const latest = snaps[snaps.length - 1];
+  if (!list.watches.length || !latest) return { alerts: [], checked: false };
+
+  // Event rules look at the run before the latest one, once per snapshot
+  const fresh    = list.checked !== latest.takenAt;
+  const previous = fresh ? snaps[snaps.length - 2] : undefined;
+  const result   = evaluateWatches(list, watchedItems(store), previous, store.getCategories());
+
+  if (opts.dryRun) return { alerts: result.alerts.map(a => ({ ...a, delivery: {} })), checked: true };
+
+  const records = await deliver(result.alerts, list.users, createChannels(loadNotifyConfig(), { stub: !!opts.stub }), !!opts.stub);
+  const undelivered = new Set(records.filter(a => a.hit && !delivered(a)).map(a => a.hit));
+  store.transaction(() => {
+    store.saveWatchlist({ ...list, hits: result.hits.filter(h => !undelivered.has(h)), checked: latest.takenAt });
+    store.appendAlerts(records);
+  });
+  return { alerts: records, checked: true };
+}
+
+/** "  [user] message  → email: sent, telegram: skipped: …" */
+export function formatAlertRecord(a: AlertRecord): string {
+  const delivery = Object.entries(a.delivery).map(([k, v]) => `${k}: ${v}`).join(', ');
+  return `  [${a.user}] ${a.message}${delivery ? `  → ${delivery}` : ''}`;
+}
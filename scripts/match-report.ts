@@ -0,0 +1,52 @@
+/**
+ * match-report.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Lists probable duplicate listings in the catalogue and the canonical
+ * gifts they were grouped into (see utils/matching.ts).
+ *
+ * Usage:
+ *   npx tsx scripts/match-report.ts                  # default threshold 0.8
+ *   npx tsx scripts/match-report.ts --threshold=0.7  # looser matching
+ *   npx tsx scripts/match-report.ts --json           # groups as JSON
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import { findCandidates, groupProducts, MATCH_THRESHOLD } from '../utils/matching';
+import type { Product } from './lib/product';
+import { openStore } from './lib/store';
+
+function main() {
+  const thrArg    = process.argv.find(a => a.startsWith('--threshold='));
+  const threshold = thrArg ? Number(thrArg.slice('--threshold='.length)) : MATCH_THRESHOLD;
+  const asJson    = process.argv.includes('--json');
+
+  const products = openStore().listProducts() as Product[];
+  const byId     = new Map(products.map(p => [p.id, p]));
+  const groups   = groupProducts(products, threshold).filter(g => g.offers.length > 1);
+
+  if (asJson) {
+    console.log(JSON.stringify(groups.map(g => ({
+      key: g.key, name: g.name, minPrice: g.minPrice, maxPrice: g.maxPrice,
+      spreadPct: g.spreadPct, offers: g.offers.map(o => ({ id: o.id, shop: o.shop, name: o.name, price: o.price, url: o.url })),
+    })), null, 2));
+    return;
+  }
+
+  const pairs = findCandidates(products, threshold);
+  console.log(`=== Match report (threshold ${threshold}) ===\n`);
+  console.log(`Candidate pairs: ${pairs.length}`);
+  for (const c of pairs) {
+    const a = byId.get(c.a)!, b = byId.get(c.b)!;
+    console.log(`  ${c.score.toFixed(2)}  [${a.shop}] ${a.name}  ⇄  [${b.shop}] ${b.name}`);
+  }
+
+  console.log(`\nCanonical gifts with several offers: ${groups.length}`);
+  for (const g of groups) {
+    console.log(`  ${g.name} — ₴${g.minPrice}…₴${g.maxPrice} (spread ${g.spreadPct.toFixed(0)}%)`);
+    for (const o of g.offers) {
+      console.log(`      ${o === g.best ? '★' : ' '} [${o.shop}] ₴${o.price}${o.stock ? '' : ' (немає)'}  ${o.url}`);
+    }
+  }
+}
+
+main();
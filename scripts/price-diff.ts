@@ -0,0 +1,45 @@
+/**
+ * price-diff.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Reports price drops, price rises, new listings and delisted items between
+ * two runs recorded in the catalogue store's price history.
+ *
+ * Usage:
+ *   npx tsx scripts/price-diff.ts            # last run vs the one before
+ *   npx tsx scripts/price-diff.ts 0 -1       # first run vs last run
+ *   npx tsx scripts/price-diff.ts --json     # machine-readable output
+ *
+ * Positional arguments are snapshot indexes; negative values count from the
+ * end (-1 = latest).
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import { diffSnapshots, formatDiff } from '../utils/history';
+import { openStore, storeName } from './lib/store';
+
+function main() {
+  const args    = process.argv.slice(2);
+  const asJson  = args.includes('--json');
+  const indexes = args.filter(a => a !== '--json').map(a => parseInt(a, 10));
+
+  const store   = openStore();
+  const history = store.listSnapshots();
+  if (history.length < 2) {
+    console.error(`[error] Need at least 2 snapshots in ${storeName(store)}, found ${history.length}.`);
+    process.exit(1);
+  }
+
+  const at = (i: number) => history[i < 0 ? history.length + i : i];
+  const [fromIdx = -2, toIdx = -1] = indexes;
+  const from = at(fromIdx);
+  const to   = at(toIdx);
+  if (!from || !to || indexes.some(isNaN)) {
+    console.error(`[error] Snapshot index out of range (0…${history.length - 1}).`);
+    process.exit(1);
+  }
+
+  const diff = diffSnapshots(from, to);
+  console.log(asJson ? JSON.stringify(diff, null, 2) : formatDiff(diff));
+}
+
+main();
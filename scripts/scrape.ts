@@ -0,0 +1,453 @@
+/**
+ * scrape.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Multi-shop scraper CLI. Runs one or all site adapters
+ * (scripts/lib/adapters) and merges the results into the catalogue store
+ * (utils/store — data/catalog.db by default).
+ *
+ * Run locally (network access required):
+ *   npx tsx scripts/scrape.ts                    # all shops
+ *   npx tsx scripts/scrape.ts --shop=podaroktut  # one shop (repeatable)
+ *   npx tsx scripts/scrape.ts --details          # + product pages
+ *   npx tsx scripts/scrape.ts --details --concurrency=2
+ *   npx tsx scripts/scrape.ts --incremental      # only changed pages, merged
+ *   npx tsx scripts/scrape.ts --resume           # continue an interrupted run
+ *   npx tsx scripts/scrape.ts --dry-run          # print planned URLs, fetch no listings
+ *   npx tsx scripts/scrape.ts --report=run.json --fail-on-regression
+ *   npx tsx scripts/scrape.ts --stub-alerts      # watchlist alerts to the local outbox
+ *
+ * Offline, against saved HTML in scripts/fixtures/<shop>/:
+ *   npx tsx scripts/scrape.ts --fixtures         # prints, writes nothing
+ *   npx tsx scripts/scrape.ts --fixtures --out=/tmp/gifts.json
+ *   npx tsx scripts/scrape.ts --fixtures --baseline=run.json   # compare with a saved report
+ *
+ * What it does
+ *   1. For each selected adapter: discovers categories, paginates each
+ *      (up to maxPages pages), parses cards. With --details, then visits
+ *      every product page for the real rating, review count, stock, SKU,
+ *      description, images and personalisation options — JSON-LD /
+ *      microdata first, selectors second.
+ *   2. Replaces those shops' products in the store; products of shops
+ *      that were not run are kept as they are. The result is checked
+ *      against utils/gift-schema.ts first — on any schema error nothing is
+ *      written — and a quality report is printed.
+ *   3. Keeps each product's firstSeenAt: the shop's listing date when the
+ *      card shows one, else the earliest earlier sighting (stored product or
+ *      price history), else this run.
+ *   4. Live pages go through an HTML cache in .cache/pages (429 / 5xx /
+ *      network errors are retried with exponential backoff). With
+ *      --incremental, cached pages are revalidated with ETag /
+ *      Last-Modified, so unchanged ones come back as 304 from the cache,
+ *      and the results are merged into the existing data (ids, real
+ *      googleResults and page details kept; products of a category that
+ *      failed this time are kept too) instead of replacing the shop.
+ *      A shop whose start page cannot be read is skipped with its stored
+ *      products kept and a shop-error in the run report; the run goes on
+ *      with the other shops and fails only when none could be crawled.
+ *   5. Progress is checkpointed after every listing page in
+ *      .cache/crawl-state.json; --resume continues from it after a crash
+ *      instead of starting the crawl over. Cleared once results are written.
+ *   6. Every request obeys scripts/crawl-policy.json and the shop's
+ *      robots.txt (see scripts/lib/crawl-policy.ts): allow/deny patterns,
+ *      per-host delay, concurrency and maxPages, raised to the robots.txt
+ *      Crawl-delay when that is longer. Blocked URLs are skipped and
+ *      reported. --concurrency=N overrides the configured concurrency;
+ *      --dry-run prints what would be fetched and the verdict for each URL.
+ *   7. Prints a run report (scripts/lib/run-report.ts): cards per category
+ *      and page, the matched card selector, how often price / stars /
+ *      reviews / URL fell back to defaults, and the change since the
+ *      previous run (data/run-reports.json, or --baseline=<file>).
+ *      Thresholds in scripts/run-health.json turn those into regressions;
+ *      with --fail-on-regression any regression exits with code 2 after the
+ *      data is written. --report=<file> saves the report as JSON.
+ *   8. Maps scraped category names onto the category registry (canonical
+ *      names and aliases); names it does not know are registered there
+ *      as new `auto` categories when the store is written.
+ *   9. Saves a price snapshot with the products, in one transaction, and
+ *      prints the diff against the previous run (drops, rises, new,
+ *      delisted). --out=<file> writes a gifts JSON file instead, without
+ *      history or new categories.
+ *  10. Runs the watchlist (scripts/watch.ts) against the new data and
+ *      sends its alerts; --stub-alerts writes them to the local outbox
+ *      instead, --no-alerts skips the check.
+ *
+ * googleResults field
+ *   Two items have confirmed real values (anchors), all others receive a
+ *   seeded-random placeholder in [500, 50 000]; `googleSource` records
+ *   which. Run `npx tsx scripts/enrich-google.ts` afterwards to replace
+ *   placeholders with real counts.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { makeSnapshot, diffSnapshots, firstSeenDates, formatDiff, type PriceSnapshot } from '../utils/history';
+import { formatIssue, formatQualityReport, qualityReport, validateGifts } from '../utils/gift-schema';
+import { readGiftsJson, writeGiftsJson } from '../utils/store';
+import { categoryResolver } from './lib/category-store';
+import type { Product } from './lib/product';
+import { openStore, storeName } from './lib/store';
+import { checkWatchlist, formatAlertRecord } from './lib/watchlist';
+import { ADAPTERS, getAdapter, type ScrapedCard, type SiteAdapter } from './lib/adapters';
+import { crawlShop, fetchDetails, fixtureFetcher, planCrawl, type CrawlResult, type DetailStats, type Fetcher } from './lib/crawl';
+import { createPolicy, hostPolicy, loadCrawlPolicy, politeFetcher, type CrawlPolicy } from './lib/crawl-policy';
+import {
+  appendRunReport, buildRunReport, formatRunReport, loadHealthThresholds, readRunReports, runRecorder,
+  type RunReport,
+} from './lib/run-report';
+import {
+  clearCrawlState, newCrawlState, readCrawlState, saveCrawlState, shopCheckpoint, CRAWL_STATE_FILE,
+} from './lib/crawl-state';
+import { cachingFetcher } from './lib/http';
+
+// ── Config ────────────────────────────────────────────────────────────────
+// Delays, concurrency and page limits: scripts/crawl-policy.json
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures');
+const PAGE_CACHE_DIR = path.resolve(__dirname, '../.cache/pages');
+
+// ── Args ──────────────────────────────────────────────────────────────────
+function parseArgs(argv: string[]) {
+  const shops = argv
+    .filter(a => a.startsWith('--shop='))
+    .flatMap(a => a.slice('--shop='.length).split(','))
+    .filter(Boolean);
+  const value = (name: string) => argv.find(a => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+  const out = value('out');
+  const concArg = value('concurrency');
+  const concurrency = concArg === undefined ? undefined : Number(concArg);
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    throw new Error('--concurrency must be a positive integer');
+  }
+  return {
+    shops, out, concurrency,
+    report:      value('report'),
+    baseline:    value('baseline'),
+    fixtures:    argv.includes('--fixtures'),
+    details:     argv.includes('--details'),
+    incremental: argv.includes('--incremental'),
+    resume:      argv.includes('--resume'),
+    dryRun:      argv.includes('--dry-run'),
+    failOnRegression: argv.includes('--fail-on-regression'),
+    alerts:      !argv.includes('--no-alerts'),
+    stubAlerts:  argv.includes('--stub-alerts'),
+  };
+}
+
+function selectAdapters(ids: string[]): SiteAdapter[] {
+  if (ids.length === 0 || ids.includes('all')) return [...ADAPTERS];
+  return ids.map(id => {
+    const a = getAdapter(id);
+    if (!a) {
+      const known = ADAPTERS.map(x => x.shop.id).join(', ');
+      throw new Error(`Unknown shop "${id}" (known: ${known})`);
+    }
+    return a;
+  });
+}
+
+/**
+ * firstSeenAt carried over from the previous file (by URL, then by name
+ * within the shop) or, failing that, the first history snapshot with the
+ * URL — whichever is earlier.
+ */
+function firstSeenLookup(previous: Product[], history: PriceSnapshot[]) {
+  const fromHistory = firstSeenDates(history);
+  const byUrl  = new Map(previous.filter(p => p.url).map(p => [p.url, p.firstSeenAt]));
+  const byName = new Map(previous.map(p => [`${p.shop}\n${p.name}`, p.firstSeenAt]));
+  return (shop: string, c: ScrapedCard): string | undefined => {
+    const dates = [
+      (c.url && byUrl.get(c.url)) || byName.get(`${shop}\n${c.name}`),
+      c.url ? fromHistory.get(c.url) : undefined,
+    ].filter((d): d is string => !!d);
+    return dates.length ? dates.reduce((a, b) => (Date.parse(a) <= Date.parse(b) ? a : b)) : undefined;
+  };
+}
+
+/**
+ * --incremental: merges one shop's fresh products into its previous ones.
+ * Matched products (URL, then name) keep their id, real googleResults and
+ * product-page details when this run did not read the page; products of a
+ * category that stopped early are kept; those missing from a fully read
+ * category are delisted.
+ */
+function mergeIncremental(previous: Product[], result: CrawlResult, nextId: () => number): Product[] {
+  const byUrl  = new Map(previous.filter(p => p.url).map(p => [p.url, p]));
+  const byName = new Map(previous.map(p => [p.name, p]));
+  const matched = new Set<Product>();
+  const hasDetails = (p: Product) => !!(p.sku || p.description || p.images?.length);
+
+  const merged = result.products.map(p => {
+    const prev = (p.url && byUrl.get(p.url)) || byName.get(p.name);
+    if (!prev) return { ...p, id: nextId() };
+    matched.add(prev);
+    const next: Product = { ...p, id: prev.id };
+    if (prev.googleSource !== 'placeholder') {
+      next.googleResults = prev.googleResults;
+      next.googleSource  = prev.googleSource;
+    }
+    if (!hasDetails(p) && hasDetails(prev)) {
+      Object.assign(next, {
+        stars: prev.stars, reviews: prev.reviews, sku: prev.sku, description: prev.description,
+        images: prev.images, personalizationOptions: prev.personalizationOptions,
+        personalization: p.personalization || prev.personalization,
+      });
+    }
+    return next;
+  });
+
+  const complete = new Set(result.complete);
+  const survivors = previous.filter(p => !matched.has(p) && !complete.has(p.category));
+  return [...merged, ...survivors];
+}
+
+/**
+ * --dry-run: robots.txt verdict, effective pace and the URLs a run would
+ * start with, per shop. Reads robots.txt and the start page only; writes
+ * no data and no checkpoint.
+ */
+async function dryRun(adapter: SiteAdapter, fetch: Fetcher, policy: CrawlPolicy, products: Product[]) {
+  const { robotsAgent } = policy.config;
+  const hp     = hostPolicy(policy.config, adapter.startUrl);
+  const limits = await policy.limits(adapter.startUrl);
+  const robots = await policy.robots(adapter.startUrl);
+
+  console.log(`=== ${adapter.shop.name} (${adapter.shop.id}) — dry run ===\n`);
+  console.log(`robots.txt   ${hp.obeyRobots ? `${robots.groups.length} group(s), ${robots.sitemaps.length} sitemap(s)` : 'ignored (obeyRobots: false)'}`);
+  console.log(`Crawl-delay  ${limits.crawlDelay !== undefined ? `${limits.crawlDelay}s for ${robotsAgent}` : 'none'}`);
+  console.log(`pace         ${limits.delayMs} ms between requests, ${limits.concurrency} at a time, ≤ ${hp.maxPages} pages per category\n`);
+
+  const extra = products.filter(p => p.url).map(p => ({ url: p.url, label: p.name }));
+  const plan  = await planCrawl(adapter, fetch, policy, extra);
+  for (const u of plan) {
+    console.log(`  ${u.allowed ? 'ALLOW' : 'BLOCK'}  ${u.url}  ${u.label}${u.reason ? ` — ${u.reason}` : ''}`);
+  }
+  const blocked = plan.filter(u => !u.allowed).length;
+  console.log(`\n${plan.length} URLs planned (${extra.length} product pages), ${blocked} blocked.\n`);
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args     = parseArgs(argv);
+  const adapters = selectAdapters(args.shops);
+  // Results go to the catalogue store, or with --out to a gifts JSON file;
+  // a fixture run without --out writes nothing
+  const outFile  = args.out ? path.resolve(args.out) : null;
+  const toStore  = !outFile && !args.fixtures;
+  const store    = openStore();
+  const ran      = new Set(adapters.map(a => a.shop.id));
+  const readExisting = () => (outFile ? readGiftsJson(outFile) : store.listProducts()) as Product[];
+
+  const policyConfig = loadCrawlPolicy();
+  if (args.concurrency !== undefined) {
+    policyConfig.defaults.concurrency = args.concurrency;
+    for (const h of Object.values(policyConfig.hosts)) h.concurrency = args.concurrency;
+  }
+
+  // Live runs go through the page cache; --incremental revalidates instead
+  // of downloading every page again
+  const http = args.fixtures ? null : cachingFetcher(PAGE_CACHE_DIR, {
+    conditional: args.incremental,
+    userAgent:   policyConfig.userAgent,
+  });
+  // One policy (and robots.txt per origin) for all live shops; fixture
+  // shops each serve their own saved robots.txt
+  const livePolicy = http ? createPolicy(policyConfig, http) : null;
+  const fetcherFor = (adapter: SiteAdapter) => {
+    const inner  = http ?? fixtureFetcher(path.join(FIXTURES_DIR, adapter.shop.id));
+    const policy = livePolicy ?? createPolicy(policyConfig, inner);
+    // Fixtures are local files — policy checked, nobody waits
+    return { policy, fetch: politeFetcher(inner, policy, { pace: !args.fixtures }) };
+  };
+
+  if (args.dryRun) {
+    const existing = readExisting();
+    for (const adapter of adapters) {
+      const { policy, fetch } = fetcherFor(adapter);
+      await dryRun(adapter, fetch, policy, args.details ? existing.filter(p => p.shop === adapter.shop.id) : []);
+    }
+    http?.flush();
+    return;
+  }
+
+  // Checkpoints: a fixture run never touches a live run's state
+  const stateFile = args.fixtures ? CRAWL_STATE_FILE.replace(/\.json$/, '.fixtures.json') : CRAWL_STATE_FILE;
+  const shopIds   = adapters.map(a => a.shop.id).sort();
+  let state       = args.resume ? readCrawlState(stateFile) : null;
+  if (state && (state.shops.join() !== shopIds.join() || state.details !== args.details)) {
+    console.error(
+      `[error] The checkpoint is for --shop=${state.shops.join(',')}${state.details ? ' --details' : ''}; ` +
+      're-run with the same options or without --resume.',
+    );
+    process.exit(1);
+  }
+  if (state) {
+    console.log(`[resume] Continuing the run started ${state.startedAt}\n`);
+  } else {
+    if (args.resume) console.log('[resume] No checkpoint found — starting a fresh run.\n');
+    else if (readCrawlState(stateFile)) console.log('[info] Discarding the checkpoint of an interrupted run (pass --resume to continue it).\n');
+    state = newCrawlState(shopIds, args.details);
+  }
+  const crawlState = state;
+  const save = () => { saveCrawlState(crawlState, stateFile); http?.flush(); };
+
+  // Products of shops we are not re-scraping survive untouched (ids too).
+  const existing = readExisting();
+  const kept     = existing.filter(p => !ran.has(p.shop));
+  // Full runs renumber the re-scraped shops; incremental ones keep ids
+  let nextId     = (args.incremental ? existing : kept).reduce((m, p) => Math.max(m, p.id), 0) + 1;
+  const seenAt   = crawlState.startedAt;
+  const firstSeen = firstSeenLookup(existing.filter(p => ran.has(p.shop)), store.listSnapshots());
+
+  const categories = categoryResolver(store.getCategories());
+  const recorder = runRecorder();
+  const scraped: Product[] = [];
+  const unreachable: string[] = [];
+  for (const adapter of adapters) {
+    console.log(`=== ${adapter.shop.name} (${adapter.shop.id}) ===\n`);
+    const { policy, fetch } = fetcherFor(adapter);
+    const checkpoint = shopCheckpoint(crawlState, adapter.shop.id);
+    const resumed = checkpoint.done;
+    const result = await crawlShop(adapter, {
+      fetch,
+      maxPages: hostPolicy(policyConfig, adapter.startUrl).maxPages,
+      startId:  args.incremental ? 0 : nextId,
+      seenAt,
+      categoryName: categories.resolve,
+      firstSeen: c => firstSeen(adapter.shop.id, c),
+      checkpoint,
+      save,
+      onPage: p => recorder.page(adapter.shop.id, p),
+    });
+    if (result.error) {
+      // Keep what the catalogue already has for this shop until a later
+      // run reaches it again
+      recorder.shopDone(adapter.shop.id, result);
+      unreachable.push(adapter.shop.id);
+      const previous = existing.filter(p => p.shop === adapter.shop.id);
+      scraped.push(...(args.incremental ? previous : previous.map(p => ({ ...p, id: nextId++ }))));
+      console.warn(`\n[warn] ${adapter.shop.id} skipped: ${result.error} — ${previous.length} existing products kept\n`);
+      continue;
+    }
+    const items = result.products;
+    if (items.length === 0) {
+      console.error(
+        `\n[error] 0 products scraped from ${adapter.shop.id}.\n` +
+        'Fix: open the shop in DevTools, find the card element class,\n' +
+        `then update the CARD selector in scripts/lib/adapters/${adapter.shop.id}.ts and re-run.\n`,
+      );
+      process.exit(1);
+    }
+    let details: DetailStats | undefined;
+    if (args.details && !resumed) {
+      console.log('');
+      details = await fetchDetails(adapter, items, {
+        fetch,
+        concurrency: (await policy.limits(adapter.startUrl)).concurrency,
+      });
+    }
+    recorder.shopDone(adapter.shop.id, result, details);
+    checkpoint.done = true;
+    save();
+
+    for (const f of result.failed) console.warn(`[warn] ${f.name} stopped early: ${f.error}`);
+    if (args.incremental) {
+      const merged = mergeIncremental(existing.filter(p => p.shop === adapter.shop.id), result, () => nextId++);
+      scraped.push(...merged);
+      console.log(`\n✓ ${adapter.shop.id}: ${items.length} scraped, ${merged.length} after merge\n`);
+    } else {
+      scraped.push(...items);
+      nextId += items.length;
+      console.log(`\n✓ ${adapter.shop.id}: ${items.length} products\n`);
+    }
+  }
+  if (http) {
+    console.log(`[cache] ${http.stats.fetched} pages downloaded, ${http.stats.unchanged} unchanged (304)\n`);
+  }
+
+  // Selector health: compared with the previous live run, or --baseline
+  const baseline: RunReport[] | null = args.baseline
+    ? [JSON.parse(fs.readFileSync(path.resolve(args.baseline), 'utf-8')) as RunReport].flat()
+    : null;
+  const report = buildRunReport(
+    { startedAt: crawlState.startedAt, source: args.fixtures ? 'fixtures' : 'live', shops: recorder.stats() },
+    baseline ?? (args.fixtures ? [] : readRunReports()),
+    loadHealthThresholds(),
+  );
+  console.log(formatRunReport(report) + '\n');
+  if (args.report) {
+    fs.writeFileSync(path.resolve(args.report), JSON.stringify(report, null, 2), 'utf-8');
+    console.log(`✓ Run report → ${path.resolve(args.report)}\n`);
+  }
+  if (unreachable.length === adapters.length) {
+    console.error(`[error] No shop could be crawled (${unreachable.join(', ')}); nothing written.`);
+    process.exit(1);
+  }
+  const finish = () => {
+    if (args.failOnRegression && report.regressions.length) {
+      console.error(`[error] ${report.regressions.length} scraper regression(s) — see the run report above.`);
+      process.exit(2);
+    }
+  };
+
+  const all = [...kept, ...scraped].sort((a, b) => a.id - b.id);
+  for (const c of categories.added) {
+    console.log(`[category] New: «${c.name}» → id "${c.id}" (auto; add labels/icon in data/categories.json)`);
+  }
+
+  // A run that produces malformed records never replaces the current file
+  const errors = validateGifts(all);
+  console.log(formatQualityReport(qualityReport(all), 5) + '\n');
+  if (errors.length) {
+    console.error(`[error] ${errors.length} schema error(s) in this run:`);
+    for (const e of errors.slice(0, 20)) console.error(`  ${formatIssue(e)}`);
+    console.error(`\n${outFile ?? (toStore ? storeName(store) : 'Nothing')} left untouched. Fix the adapter and re-run.`);
+    process.exit(1);
+  }
+
+  if (!outFile && !toStore) {
+    clearCrawlState(stateFile);
+    console.log(`[fixtures] ${all.length} products parsed; nothing written (pass --out=<file>).`);
+    finish();
+    return;
+  }
+
+  if (outFile) {
+    writeGiftsJson(outFile, all);
+    clearCrawlState(stateFile);
+    console.log(`✓ Wrote ${all.length} products → ${outFile}`);
+  } else {
+    // Products, new categories and the price snapshot land together or not at all
+    store.transaction(() => {
+      store.replaceProducts(all);
+      if (categories.added.length) store.saveCategories(categories.registry);
+      store.appendSnapshot(makeSnapshot(all));
+    });
+    clearCrawlState(stateFile);
+    appendRunReport(report);
+    const history = store.listSnapshots();
+    console.log(`✓ Saved ${all.length} products → ${storeName(store)}`);
+    if (categories.added.length) {
+      console.log(`✓ Registered ${categories.added.length} new categor${categories.added.length === 1 ? 'y' : 'ies'}`);
+    }
+    console.log(`✓ Price snapshot #${history.length}`);
+    if (history.length >= 2) {
+      console.log('\n' + formatDiff(diffSnapshots(history[history.length - 2], history[history.length - 1])));
+    }
+    if (args.alerts) {
+      const watch = await checkWatchlist(store, { stub: args.stubAlerts });
+      if (watch.checked) {
+        console.log(`\nWatchlist: ${watch.alerts.length} alert(s)`);
+        for (const a of watch.alerts) console.log(formatAlertRecord(a));
+      }
+    }
+  }
+
+  console.log('\nNotes:');
+  console.log('  • googleResults: two anchors exact; others seeded-random [500–50 000]');
+  console.log('  • Replace placeholders: npx tsx scripts/enrich-google.ts');
+  finish();
+}
+
+if (require.main === module) {
+  main().catch(e => { console.error('[fatal]', e); process.exit(1); });
+}
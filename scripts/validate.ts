@@ -0,0 +1,71 @@
+/**
+ * validate.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Checks the catalogue against the gift schema (utils/gift-schema.ts) and
+ * prints a data-quality report.
+ *
+ * Usage:
+ *   npx tsx scripts/validate.ts                        # the catalogue store
+ *   npx tsx scripts/validate.ts --file=/tmp/gifts.json # a gifts JSON file
+ *   npx tsx scripts/validate.ts --json                 # machine-readable
+ *
+ * Exit code 1 on any structural error (wrong type, missing field, value out
+ * of range, duplicate id) — the data would break the UI. Quality findings
+ * (zero prices, defaulted ratings, duplicates, placeholder googleResults,
+ * price outliers per category) are reported but never fail the run.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  formatIssue, formatQualityReport, qualityReport, validateGifts, type GiftData,
+} from '../utils/gift-schema';
+import { openStore, storeName } from './lib/store';
+
+function main() {
+  const fileArg = process.argv.find(a => a.startsWith('--file='))?.slice('--file='.length);
+  const asJson  = process.argv.includes('--json');
+
+  // A JSON file is checked raw; the store is read back through the
+  // repository, so this checks what the UI will see
+  let raw: unknown;
+  let source: string;
+  try {
+    if (fileArg) {
+      source = path.relative(process.cwd(), path.resolve(fileArg)) || fileArg;
+      raw    = JSON.parse(fs.readFileSync(path.resolve(fileArg), 'utf-8'));
+    } else {
+      const store = openStore();
+      source = storeName(store);
+      raw    = store.listProducts();
+    }
+  } catch (e) {
+    console.error(`[error] ${fileArg ?? 'catalogue store'}: ${(e as Error).message}`);
+    process.exit(1);
+  }
+
+  const errors  = validateGifts(raw);
+  // Quality is only meaningful on records that passed; skip the broken ones
+  const broken  = new Set(errors.map(e => e.index));
+  const records = Array.isArray(raw) ? (raw as GiftData[]).filter((_, i) => !broken.has(i)) : [];
+  const quality = qualityReport(records);
+
+  if (asJson) {
+    console.log(JSON.stringify({ source, valid: errors.length === 0, errors, quality }, null, 2));
+  } else {
+    console.log(`=== ${source} ===\n`);
+    if (errors.length) {
+      console.log(`✗ ${errors.length} schema error(s):`);
+      for (const e of errors) console.log(`  ${formatIssue(e)}`);
+      console.log('');
+    } else {
+      console.log(`✓ Schema OK (${records.length} records)\n`);
+    }
+    console.log(formatQualityReport(quality));
+  }
+
+  if (errors.length) process.exit(1);
+}
+
+main();
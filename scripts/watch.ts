@@ -0,0 +1,170 @@
+/**
+ * watch.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Manages the watchlist (utils/watchlist.ts) and its alerts.
+ *
+ * Usage:
+ *   npx tsx scripts/watch.ts user olena --email=olena@example.com --telegram=123456789
+ *   npx tsx scripts/watch.ts add --user=olena --product=48 --rule='price<=500' --rule=back-in-stock
+ *   npx tsx scripts/watch.ts add --user=olena --category=Брелки --rule=new --rule='top<=3' --channels=telegram
+ *   npx tsx scripts/watch.ts list [--user=olena]
+ *   npx tsx scripts/watch.ts remove <id>
+ *   npx tsx scripts/watch.ts check [--dry-run] [--stub]   # evaluate against the latest run now
+ *   npx tsx scripts/watch.ts alerts [--user=olena] [--limit=20]
+ *
+ * Rules: price<=X (UAH), drop>=P (% since the previous run), top<=N (Вигода
+ * rank in the category), back-in-stock, new (category watches only).
+ * --product takes a product id or URL; --category a name, alias, id or
+ * slug. --channels defaults to every channel the user has an address for.
+ *
+ * The scraper and importer run `check` themselves after writing the store;
+ * --stub (or their --stub-alerts) writes what would be sent to the outbox
+ * in scripts/notify.json instead of sending it.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import { findCategory } from '../utils/categories';
+import { productKey } from '../utils/history';
+import {
+  addWatch, checkWatch, formatRule, parseRule, removeWatch, CHANNEL_KINDS,
+  type ChannelKind, type Recipient, type WatchRule,
+} from '../utils/watchlist';
+import { openStore } from './lib/store';
+import { checkWatchlist, formatAlertRecord } from './lib/watchlist';
+
+// ── Args ──────────────────────────────────────────────────────────────────
+function parseArgs(argv: string[]) {
+  const opt  = (name: string) => argv.find(a => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+  const opts = (name: string) => argv.filter(a => a.startsWith(`--${name}=`)).map(a => a.slice(name.length + 3));
+  return {
+    positional: argv.filter(a => !a.startsWith('--')),
+    user:       opt('user'),
+    product:    opt('product'),
+    category:   opt('category'),
+    rules:      opts('rule'),
+    channels:   opt('channels'),
+    email:      opt('email'),
+    telegram:   opt('telegram'),
+    webhook:    opt('webhook'),
+    limit:      Number(opt('limit') ?? 20),
+    dryRun:     argv.includes('--dry-run'),
+    stub:       argv.includes('--stub'),
+  };
+}
+
+function fail(message: string): never {
+  console.error(`[error] ${message}`);
+  process.exit(1);
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────
+async function main() {
+  const args  = parseArgs(process.argv.slice(2));
+  const [cmd, ...rest] = args.positional;
+  const store = openStore();
+  const list  = store.getWatchlist();
+
+  switch (cmd) {
+    case 'user': {
+      const name = rest[0] ?? fail('Usage: watch.ts user <name> [--email=] [--telegram=] [--webhook=]');
+      const r: Recipient = { ...list.users[name] };
+      if (args.email    !== undefined) r.email    = args.email;
+      if (args.telegram !== undefined) r.telegram = args.telegram;
+      if (args.webhook  !== undefined) r.webhook  = args.webhook;
+      store.saveWatchlist({ ...list, users: { ...list.users, [name]: r } });
+      console.log(`✓ ${name}: ${CHANNEL_KINDS.map(k => `${k}=${r[k] ?? '—'}`).join(', ')}`);
+      return;
+    }
+
+    case 'add': {
+      const user = args.user ?? fail('--user=<name> is required');
+      const recipient = list.users[user] ?? fail(`Unknown user "${user}" — add them first: watch.ts user ${user} --email=…`);
+
+      let product: string | undefined;
+      let category: string | undefined;
+      let label: string;
+      if (args.product) {
+        const id = Number(args.product);
+        const p  = store.listProducts().find(g => (Number.isInteger(id) ? g.id === id : g.url === args.product));
+        if (!p) fail(`No product "${args.product}" in the catalogue`);
+        product = productKey(p);
+        label   = p.name;
+      } else if (args.category) {
+        const registry = store.getCategories();
+        const c = registry.categories.find(x => x.id === args.category || x.slug === args.category)
+          ?? findCategory(args.category, registry);
+        if (!c) fail(`Unknown category "${args.category}"`);
+        category = c.name;
+        label    = c.name;
+      } else {
+        fail('--product=<id|url> or --category=<name> is required');
+      }
+
+      let rules: WatchRule[];
+      try {
+        rules = args.rules.map(parseRule);
+      } catch (e) {
+        fail((e as Error).message);
+      }
+      const channels = (args.channels
+        ? args.channels.split(',').map(s => s.trim())
+        : CHANNEL_KINDS.filter(k => recipient[k])) as ChannelKind[];
+
+      const problems = checkWatch({ product, category, rules, channels });
+      if (problems.length) fail(problems.join('; '));
+      const { watchlist, watch } = addWatch(list, {
+        user, ...(product ? { product } : {}), ...(category ? { category } : {}),
+        label, rules, channels, createdAt: new Date().toISOString(),
+      });
+      store.saveWatchlist(watchlist);
+      console.log(`✓ Watch #${watch.id}: ${user} ← ${label} [${rules.map(formatRule).join(', ')}] via ${channels.join(', ')}`);
+      return;
+    }
+
+    case 'list': {
+      const watches = list.watches.filter(w => !args.user || w.user === args.user);
+      if (!watches.length) {
+        console.log('No watches.');
+        return;
+      }
+      for (const w of watches) {
+        const what = w.category ? `category ${w.category}` : w.label;
+        console.log(`  #${String(w.id).padEnd(3)} ${w.user.padEnd(12)} ${what} [${w.rules.map(formatRule).join(', ')}] via ${w.channels.join(', ')}`);
+      }
+      return;
+    }
+
+    case 'remove': {
+      const id = Number(rest[0]);
+      if (!list.watches.some(w => w.id === id)) fail(`No watch #${rest[0]}`);
+      store.saveWatchlist(removeWatch(list, id));
+      console.log(`✓ Removed watch #${id}`);
+      return;
+    }
+
+    case 'check': {
+      const result = await checkWatchlist(store, { stub: args.stub, dryRun: args.dryRun });
+      if (!result.checked) {
+        console.log('Nothing to check (no watches or no price snapshots).');
+        return;
+      }
+      console.log(`${result.alerts.length} alert(s)${args.dryRun ? ' [dry-run: nothing sent or saved]' : ''}`);
+      for (const a of result.alerts) console.log(formatAlertRecord(a));
+      return;
+    }
+
+    case 'alerts': {
+      const alerts = store.listAlerts(args.user ? Infinity : args.limit)
+        .filter(a => !args.user || a.user === args.user)
+        .slice(0, args.limit);
+      if (!alerts.length) console.log('No alerts yet.');
+      for (const a of alerts) console.log(`${a.at.slice(0, 16).replace('T', ' ')} ${formatAlertRecord(a)}`);
+      return;
+    }
+
+    default:
+      fail('Usage: npx tsx scripts/watch.ts <user|add|list|remove|check|alerts> … (see the file header)');
+  }
+}
+
+main().catch(e => { console.error('[fatal]', e.message ?? e); process.exit(1); });
@@ -0,0 +1,131 @@
+/**
+ * worker.ts
+ * ──────────────────────────────────────────────────────────────────────────
+ * Scheduler / worker for the refresh pipeline (scripts/lib/pipeline.ts):
+ * scrape → enrich → validate on the cron schedule in scripts/schedule.json,
+ * plus any run queued from the admin page (/admin) or with --enqueue.
+ *
+ * Usage:
+ *   npx tsx scripts/worker.ts             # keep running: schedule + queue
+ *   npx tsx scripts/worker.ts --once      # one run now, then exit
+ *   npx tsx scripts/worker.ts --enqueue   # queue a run for the worker
+ *   npx tsx scripts/worker.ts --status    # recent runs and data freshness
+ *
+ * Only one worker runs at a time (store lock "worker", renewed every poll
+ * — its note tells the admin page the schedule and next run), and only one
+ * pipeline run at a time, whoever starts it (lock "pipeline"). Missed
+ * scheduled runs are not caught up: the next one is computed from start.
+ * Ctrl-C / SIGTERM stops the running step, records the run as failed and
+ * releases both locks.
+ * ──────────────────────────────────────────────────────────────────────────
+ */
+
+import {
+  formatDuration, freshness, lockHeld, newRun, WORKER_LOCK,
+  type PipelineRun, type WorkerNote,
+} from '../utils/pipeline';
+import type { CatalogRepository } from '../utils/store';
+import { nextRun, parseCron } from './lib/cron';
+import { executeRun, loadSchedule, processId, recoverInterrupted, type ScheduleConfig } from './lib/pipeline';
+import { openStore, storeName } from './lib/store';
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const wake = () => { clearTimeout(t); resolve(); };
+  const t = setTimeout(() => { signal.removeEventListener('abort', wake); resolve(); }, ms);
+  signal.addEventListener('abort', wake, { once: true });
+});
+
+function formatRun(r: PipelineRun): string {
+  const when  = (r.startedAt ?? r.requestedAt).slice(0, 16).replace('T', ' ');
+  const took  = r.durationMs !== undefined ? ` ${formatDuration(r.durationMs)}` : '';
+  const items = r.items ? ` · ${r.items.products} products` : '';
+  const steps = r.steps.map(s => `${s.name}:${s.status}`).join(' ');
+  return `  #${String(r.id).padEnd(4)} ${when}  ${r.trigger.padEnd(8)} ${r.status.padEnd(7)}${took}${items}  ${steps}` +
+    r.errors.map(e => `\n        ! ${e}`).join('');
+}
+
+async function runOne(store: CatalogRepository, queued: PipelineRun, cfg: ScheduleConfig, owner: string, signal: AbortSignal, heartbeat?: () => void) {
+  console.log(`[run #${queued.id}] ${queued.trigger} run started`);
+  const run = await executeRun(store, queued, cfg, {
+    owner, signal, heartbeat,
+    onStep: s => console.log(`[run #${queued.id}]   ${s.name}: ${s.status}${s.reason ? ` (${s.reason})` : ''} in ${formatDuration(s.durationMs)}`),
+  });
+  console.log(formatRun(run));
+  return run;
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────
+async function main() {
+  const argv  = process.argv.slice(2);
+  const store = openStore();
+  const owner = processId();
+
+  if (argv.includes('--status')) {
+    const f = freshness(store.listSnapshots().at(-1)?.takenAt ?? null);
+    const w = store.getLock(WORKER_LOCK);
+    console.log(`Store: ${storeName(store)}`);
+    console.log(`Data updated: ${f.updatedAt ?? 'never'}${f.ageHours !== null ? ` (${f.ageHours.toFixed(1)} h ago)` : ''}${f.stale ? ' — STALE' : ''}`);
+    console.log(`Worker: ${lockHeld(w) ? `running (${w.owner})` : 'not running'}`);
+    const runs = store.listRuns(10);
+    console.log(runs.length ? `\nRecent runs:\n${runs.map(formatRun).join('\n')}` : '\nNo runs yet.');
+    return;
+  }
+
+  if (argv.includes('--enqueue')) {
+    const run = store.saveRun(newRun('manual', 'cli'));
+    const w   = store.getLock(WORKER_LOCK);
+    console.log(`✓ Queued run #${run.id}${lockHeld(w) ? '' : ' — no worker is running; start one with `npx tsx scripts/worker.ts`'}`);
+    return;
+  }
+
+  const cfg   = loadSchedule();
+  const abort = new AbortController();
+  for (const sig of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(sig, () => {
+      console.log(`\n[worker] ${sig}: stopping…`);
+      abort.abort();
+    });
+  }
+
+  if (argv.includes('--once')) {
+    const run = await runOne(store, store.saveRun(newRun('manual', 'cli')), cfg, owner, abort.signal);
+    process.exit(run.status === 'ok' ? 0 : 1);
+  }
+
+  // ── Loop ──
+  const schedule = parseCron(cfg.cron);
+  const leaseMs  = cfg.lockMinutes * 60_000;
+  let next = nextRun(schedule, new Date());
+  const note = (): string => JSON.stringify({
+    cron: cfg.cron, nextRunAt: next?.toISOString() ?? null, steps: cfg.steps.map(s => s.name),
+  } satisfies WorkerNote);
+  const heartbeat = () => store.acquireLock(WORKER_LOCK, owner, leaseMs, note());
+
+  if (!heartbeat()) {
+    const w = store.getLock(WORKER_LOCK);
+    console.error(`[error] Another worker is running (${w?.owner}, until ${w?.expiresAt}).`);
+    process.exit(1);
+  }
+  for (const r of recoverInterrupted(store, owner)) console.log(`[worker] run #${r.id} was interrupted; marked failed`);
+  console.log(`[worker] ${owner} · ${storeName(store)} · cron "${cfg.cron}" · next run ${next?.toLocaleString('uk-UA') ?? 'never'}`);
+
+  try {
+    while (!abort.signal.aborted) {
+      if (!heartbeat()) throw new Error('Lost the worker lock to another process');
+      const queued = store.listRuns(50).filter(r => r.status === 'queued').at(-1);
+      if (queued) {
+        await runOne(store, queued, cfg, owner, abort.signal, () => { heartbeat(); });
+      } else if (next && Date.now() >= next.getTime()) {
+        next = nextRun(schedule, new Date());
+        await runOne(store, store.saveRun(newRun('schedule', 'schedule')), cfg, owner, abort.signal, () => { heartbeat(); });
+        console.log(`[worker] next run ${next?.toLocaleString('uk-UA') ?? 'never'}`);
+      } else {
+        await sleep(cfg.pollSeconds * 1000, abort.signal);
+      }
+    }
+  } finally {
+    store.releaseLock(WORKER_LOCK, owner);
+  }
+}
+
+main().catch(e => { console.error('[fatal]', e.message ?? e); process.exit(1); });
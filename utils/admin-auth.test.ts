@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { basicPassword, checkAdmin, denialResponse } from './admin-auth';
+
+const basic = (user: string, password: string) => `Basic ${Buffer.from(`${user}:${password}`).toString('base64')}`;
+const req = (over: Partial<Parameters<typeof checkAdmin>[0]> = {}) => ({
+  method: 'GET', host: 'gifts.example', authorization: basic('admin', 's3cret:x'), ...over,
+});
+
+test('basicPassword takes everything after the first colon', () => {
+  assert.equal(basicPassword(basic('admin', 's3cret:x')), 's3cret:x');
+  assert.equal(basicPassword(basic('', '')), '');
+  assert.equal(basicPassword('Bearer abc'), null);
+  assert.equal(basicPassword(`Basic ${Buffer.from('no-colon').toString('base64')}`), null);
+  assert.equal(basicPassword(undefined), null);
+});
+
+test('without ADMIN_PASSWORD admin access is off', () => {
+  assert.equal(checkAdmin(req(), undefined)?.status, 403);
+  assert.equal(checkAdmin(req(), '')?.status, 403);
+});
+
+test('the password must match', () => {
+  assert.equal(checkAdmin(req(), 's3cret:x'), null);
+  assert.equal(checkAdmin(req(), 's3cret')?.status, 401);
+  assert.equal(checkAdmin(req({ authorization: null }), 's3cret:x')?.status, 401);
+  assert.equal(checkAdmin(req({ authorization: basic('admin', 's3cret:xy') }), 's3cret:x')?.status, 401);
+});
+
+test('a POST from another origin is refused even with the password', () => {
+  const post = (origin: string | null) => checkAdmin(req({ method: 'POST', origin }), 's3cret:x');
+  assert.equal(post('https://gifts.example'), null);
+  assert.equal(post(null), null);
+  assert.equal(post('https://evil.example')?.status, 403);
+  assert.equal(post('null')?.status, 403);
+  // Another port is another origin
+  assert.equal(post('https://gifts.example:8080')?.status, 403);
+  // Reads are not state-changing
+  assert.equal(checkAdmin(req({ origin: 'https://evil.example' }), 's3cret:x'), null);
+});
+
+test('a 401 asks the browser for Basic credentials', async () => {
+  const r = denialResponse({ status: 401, error: 'Admin password required' });
+  assert.equal(r.status, 401);
+  assert.match(r.headers.get('www-authenticate') ?? '', /^Basic realm=/);
+  assert.deepEqual(await r.json(), { error: 'Admin password required' });
+  assert.equal(denialResponse({ status: 403, error: 'x' }).headers.get('www-authenticate'), null);
+});
@@ -0,0 +1,83 @@
+// ---------------------------------------------------------------------------
+// Admin access
+//
+// The admin page and /api/admin/* are behind HTTP Basic auth with one
+// shared password from ADMIN_PASSWORD (any user name). Without it they are
+// switched off. Browsers resend Basic credentials on their own, so requests
+// that change state must also come from this site: a cross-site Origin is
+// refused. Clients that send no Origin (curl, scripts) only need
+// the password.
+//
+// Checked in proxy.ts for every admin path and again by the route handlers.
+// ---------------------------------------------------------------------------
+
+import type { NextRequest } from 'next/server';
+
+export const ADMIN_REALM = 'Gift analyzer admin';
+
+export interface AdminRequest {
+  method:         string;
+  /** Host the app was reached on, e.g. "gifts.example:3000". */
+  host:           string;
+  authorization?: string | null;
+  origin?:        string | null;
+}
+
+export interface AdminDenial {
+  status: 401 | 403;
+  error:  string;
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/** Password from a `Basic base64(user:password)` header, or null. */
+export function basicPassword(authorization: string | null | undefined): string | null {
+  const m = /^Basic\s+([A-Za-z0-9+/=]+)\s*$/i.exec(authorization ?? '');
+  if (!m) return null;
+  const decoded = Buffer.from(m[1], 'base64').toString('utf-8');
+  const colon   = decoded.indexOf(':');
+  return colon < 0 ? null : decoded.slice(colon + 1);
+}
+
+/** Compares without returning early, so timing does not leak a prefix. */
+function sameSecret(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+/** Null when the request may go through. */
+export function checkAdmin(req: AdminRequest, password = process.env.ADMIN_PASSWORD): AdminDenial | null {
+  if (!password) return { status: 403, error: 'Admin access is disabled: set ADMIN_PASSWORD' };
+
+  const given = basicPassword(req.authorization);
+  if (given === null || !sameSecret(given, password)) return { status: 401, error: 'Admin password required' };
+
+  if (!SAFE_METHODS.includes(req.method.toUpperCase()) && req.origin) {
+    let host: string | null = null;
+    try { host = new URL(req.origin).host; } catch { /* "null" or garbage */ }
+    if (host !== req.host) return { status: 403, error: `Cross-site request refused (Origin ${req.origin})` };
+  }
+  return null;
+}
+
+/** JSON error response for a denial; 401 asks the browser for the password. */
+export function denialResponse(d: AdminDenial): Response {
+  return Response.json({ error: d.error }, {
+    status:  d.status,
+    headers: d.status === 401 ? { 'WWW-Authenticate': `Basic realm="${ADMIN_REALM}", charset="UTF-8"` } : undefined,
+  });
+}
+
+/** checkAdmin() for a Next.js request; the denial response, or null. */
+export function adminDenied(request: NextRequest): Response | null {
+  const denied = checkAdmin({
+    method:        request.method,
+    host:          request.nextUrl.host,
+    authorization: request.headers.get('authorization'),
+    origin:        request.headers.get('origin'),
+  });
+  return denied && denialResponse(denied);
+}
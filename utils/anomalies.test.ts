@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyFlaggedMode, categoryPriceStats, detectAnomalies, type PriceStats } from './anomalies';
+
+const KEYCHAINS = [180, 200, 210, 220, 250, 190, 230].map(price => ({ category: 'Брелки', price }));
+const stats = categoryPriceStats(KEYCHAINS).get('Брелки')!;
+
+const kinds = (price: number, s: PriceStats | undefined, stars = 4.2, reviews = 10) =>
+  detectAnomalies({ price, stars, reviews }, s).map(f => f.kind);
+
+test('category stats are the median and MAD of log price, ignoring unpriced items', () => {
+  const s = categoryPriceStats([...KEYCHAINS, { category: 'Брелки', price: 0 }, { category: 'Кубки', price: 900 }]);
+  assert.equal(s.get('Брелки')!.count, 7);
+  assert.ok(Math.abs(s.get('Брелки')!.median - 210) < 1e-9);
+  assert.ok(s.get('Брелки')!.logMad > 0);
+  assert.equal(s.get('Кубки')!.logMad, 0);
+});
+
+test('a price ten times the median is an outlier, a normal one is not', () => {
+  assert.deepEqual(kinds(215, stats), []);
+  assert.deepEqual(kinds(2100, stats), ['price-outlier']);
+  assert.deepEqual(kinds(21, stats), ['price-outlier']);
+  assert.match(detectAnomalies({ price: 2100, stars: 4, reviews: 10 }, stats)[0].reason, /10\.0× вища/);
+});
+
+test('with no spread only the plain ratio counts', () => {
+  const flat = categoryPriceStats(Array.from({ length: 5 }, () => ({ category: 'Кубки', price: 100 }))).get('Кубки')!;
+  assert.deepEqual(kinds(500, flat), []);
+  assert.deepEqual(kinds(1200, flat), ['price-outlier']);
+});
+
+test('small categories get no outlier check', () => {
+  const few = categoryPriceStats(KEYCHAINS.slice(0, 4)).get('Брелки')!;
+  assert.deepEqual(kinds(5000, few), []);
+  assert.deepEqual(kinds(5000, undefined), []);
+});
+
+test('a ₴1 price breaks the bounds and says nothing more about price', () => {
+  assert.deepEqual(kinds(1, stats), ['price-bounds']);
+  assert.deepEqual(kinds(0, stats), ['price-bounds']);
+  assert.deepEqual(kinds(250_000, stats), ['price-bounds']);
+  assert.equal(detectAnomalies({ price: 0, stars: 0, reviews: 0 }, stats)[0].reason, 'Ціна не вказана');
+});
+
+test('a top rating needs reviews behind it', () => {
+  assert.deepEqual(kinds(200, stats, 5, 0), ['rating']);
+  assert.deepEqual(kinds(200, stats, 3.5, 0), ['rating']);
+  assert.deepEqual(kinds(200, stats, 4.8, 2), ['rating']);
+  assert.deepEqual(kinds(200, stats, 4.8, 3), []);
+  assert.deepEqual(kinds(200, stats, 4.2, 1), []);
+  assert.deepEqual(kinds(200, stats, 0, 0), []);
+});
+
+test('flagged rows are shown, moved last or hidden', () => {
+  const rows = [{ id: 1, flags: [{ kind: 'rating' as const, reason: '' }] }, { id: 2, flags: [] }, { id: 3, flags: [] }];
+  assert.deepEqual(applyFlaggedMode(rows, 'show').map(r => r.id), [1, 2, 3]);
+  assert.deepEqual(applyFlaggedMode(rows, 'derank').map(r => r.id), [2, 3, 1]);
+  assert.deepEqual(applyFlaggedMode(rows, 'hide').map(r => r.id), [2, 3]);
+});
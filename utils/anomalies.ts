@@ -0,0 +1,165 @@
+// ---------------------------------------------------------------------------
+// Suspicious-listing detection
+//
+// Broken or misleading listings score absurdly well: a ₴1 price gets no
+// price penalty (log₂(1) = 0), 5★ from no reviews maxes out R, and a typo'd
+// price ten times its category's makes a nonsense Вигода. Each catalogue
+// row (utils/catalog.ts) carries the flags raised here, and the table can
+// show, de-rank or hide flagged rows.
+//
+//   price-bounds   price outside [minPrice, maxPrice]
+//   price-outlier  far from the category median — robust z-score of
+//                  log(price) against median/MAD, or a plain ratio
+//   rating         a top rating that too few reviews back up
+//
+// Prices are compared on a log scale: gift prices are skewed, and ×3 above
+// the median is as unusual as ÷3 below it.
+// ---------------------------------------------------------------------------
+
+import { mad, median } from './stats';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AnomalyKind = 'price-bounds' | 'price-outlier' | 'rating';
+
+export interface AnomalyFlag {
+  kind:   AnomalyKind;
+  /** Human-readable explanation (tooltip text). */
+  reason: string;
+}
+
+export interface AnomalyRules {
+  /** Prices below this (₴) are not believable for a gift. */
+  minPrice:          number;
+  maxPrice:          number;
+  /** |robust z| of log(price) above this is an outlier … */
+  outlierZ:          number;
+  /** … provided it is also at least this many times off the median. */
+  outlierMinRatio:   number;
+  /** This many times off the median is an outlier whatever the spread. */
+  outlierRatio:      number;
+  /** Categories smaller than this get no outlier check. */
+  minPeers:          number;
+  /** Ratings at or above this need `minReviews` reviews behind them. */
+  topStars:          number;
+  minReviews:        number;
+}
+
+export const DEFAULT_ANOMALY_RULES: AnomalyRules = {
+  minPrice:        10,
+  maxPrice:        200_000,
+  outlierZ:        3.5,
+  outlierMinRatio: 3,
+  outlierRatio:    10,
+  minPeers:        5,
+  topStars:        4.5,
+  minReviews:      3,
+};
+
+/** Robust price statistics of one category, over prices > 0. */
+export interface PriceStats {
+  count:     number;
+  /** Median price, ₴. */
+  median:    number;
+  /** Median and MAD of ln(price). */
+  logMedian: number;
+  logMad:    number;
+}
+
+/** What the table does with flagged rows. */
+export const FLAGGED_MODES = ['derank', 'hide', 'show'] as const;
+export type FlaggedMode = typeof FLAGGED_MODES[number];
+
+// ---------------------------------------------------------------------------
+// Statistics
+// ---------------------------------------------------------------------------
+
+// MAD × 1.4826 estimates σ for normal data; 0.6745 = 1 / 1.4826
+const MAD_TO_Z = 0.6745;
+
+/** Per-category {@link PriceStats}. */
+export function categoryPriceStats(items: { category: string; price: number }[]): Map<string, PriceStats> {
+  const logs = new Map<string, number[]>();
+  for (const g of items) {
+    if (!(g.price > 0)) continue;
+    const list = logs.get(g.category) ?? [];
+    list.push(Math.log(g.price));
+    logs.set(g.category, list);
+  }
+  const out = new Map<string, PriceStats>();
+  for (const [category, xs] of logs) {
+    const logMedian = median(xs);
+    out.set(category, {
+      count:  xs.length,
+      median: Math.exp(logMedian),
+      logMedian,
+      logMad: mad(xs, logMedian),
+    });
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+const uah = (n: number) => `₴${Math.round(n).toLocaleString('uk-UA')}`;
+
+/**
+ * Flags raised by one listing; `stats` are its category's (undefined skips
+ * the outlier check). An empty array means nothing looks wrong.
+ */
+export function detectAnomalies(
+  item:  { price: number; stars: number; reviews: number },
+  stats: PriceStats | undefined,
+  rules: AnomalyRules = DEFAULT_ANOMALY_RULES,
+): AnomalyFlag[] {
+  const flags: AnomalyFlag[] = [];
+
+  // ── Price sanity bounds ─────────────────────────────────────────────────
+  if (item.price < rules.minPrice) {
+    flags.push({
+      kind: 'price-bounds',
+      reason: item.price > 0
+        ? `Ціна ${uah(item.price)} нижча за правдоподібну (${uah(rules.minPrice)}) — ймовірно, помилка парсингу`
+        : 'Ціна не вказана',
+    });
+  } else if (item.price > rules.maxPrice) {
+    flags.push({ kind: 'price-bounds', reason: `Ціна ${uah(item.price)} вища за правдоподібну (${uah(rules.maxPrice)})` });
+  }
+
+  // ── Category outlier ────────────────────────────────────────────────────
+  // Skipped for prices already out of bounds — one flag says enough
+  if (!flags.length && stats && stats.count >= rules.minPeers) {
+    const ratio = item.price / stats.median;
+    const off   = Math.max(ratio, 1 / ratio);
+    const z     = stats.logMad > 0 ? MAD_TO_Z * (Math.log(item.price) - stats.logMedian) / stats.logMad : 0;
+    if (off >= rules.outlierRatio || (Math.abs(z) > rules.outlierZ && off >= rules.outlierMinRatio)) {
+      flags.push({
+        kind: 'price-outlier',
+        reason: `Ціна ${uah(item.price)} у ${off.toFixed(1)}× ${ratio > 1 ? 'вища' : 'нижча'} за медіану категорії (${uah(stats.median)})`,
+      });
+    }
+  }
+
+  // ── Rating credibility ──────────────────────────────────────────────────
+  if (item.stars > 0 && item.reviews <= 0) {
+    flags.push({ kind: 'rating', reason: `Рейтинг ${item.stars}★ без жодного відгуку` });
+  } else if (item.stars >= rules.topStars && item.reviews < rules.minReviews) {
+    flags.push({ kind: 'rating', reason: `Рейтинг ${item.stars}★ лише з ${item.reviews} відгук(ів)` });
+  }
+
+  return flags;
+}
+
+/**
+ * Applies a {@link FlaggedMode} to sorted rows: "derank" moves flagged rows
+ * after the rest (keeping both groups in order), "hide" drops them.
+ */
+export function applyFlaggedMode<T extends { flags: AnomalyFlag[] }>(rows: T[], mode: FlaggedMode): T[] {
+  if (mode === 'show') return rows;
+  const clean = rows.filter(r => !r.flags.length);
+  return mode === 'hide' ? clean : [...clean, ...rows.filter(r => r.flags.length)];
+}
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkConstraints, optimiseBasket, type Basket, type BasketConstraints, type BasketItem } from './basket';
+
+/** `n` gifts spread over `cats` categories; every third one personalisable. */
+function items(n: number, cats: number): BasketItem[] {
+  return Array.from({ length: n }, (_, i) => ({
+    id:              i + 1,
+    name:            `Gift ${i + 1}`,
+    category:        `cat-${i % cats}`,
+    price:           100 + (i * 37) % 900,
+    score:           1 + (i * 13) % 7,
+    stock:           true,
+    personalization: i % 3 === 0,
+  }));
+}
+
+/** Every constraint, checked against exact prices. */
+function assertValid(b: Basket | null, c: BasketConstraints) {
+  assert.ok(b);
+  assert.equal(b.count, c.quantity);
+  assert.ok(b.totalCost <= c.budget, `₴${b.totalCost} > ₴${c.budget}`);
+  assert.ok(b.categories.length >= c.minCategories);
+  assert.ok(b.lines.reduce((n, l) => n + (l.item.personalization ? l.qty : 0), 0) >= c.minPersonalized);
+  assert.ok(b.lines.every(l => l.qty <= c.maxCopies));
+  const perCat = new Map<string, number>();
+  for (const l of b.lines) perCat.set(l.item.category, (perCat.get(l.item.category) ?? 0) + l.qty);
+  if (c.maxPerCategory !== undefined) assert.ok([...perCat.values()].every(n => n <= c.maxPerCategory!));
+}
+
+const base: BasketConstraints = {
+  budget: 1_000_000, quantity: 5, minCategories: 0, minPersonalized: 0, inStockOnly: false, maxCopies: 1,
+};
+
+test('a large budget with a loose per-category cap still finds a basket', () => {
+  const c = { ...base, quantity: 30, minCategories: 4, minPersonalized: 10, maxPerCategory: 30 };
+  const r = optimiseBasket(items(50, 4), c);
+  assert.ok(r.best, r.reason);
+  assert.equal(r.best.count, 30);
+  assert.ok(r.best.categories.length >= 4);
+  assert.ok(r.best.lines.filter(l => l.item.personalization).length >= 10);
+  assert.ok(r.best.totalCost <= c.budget);
+});
+
+test('minimums the pool cannot reach are infeasible without solving', () => {
+  const r = optimiseBasket(items(50, 4), { ...base, quantity: 50, minCategories: 50, minPersonalized: 50, maxPerCategory: 50 });
+  assert.equal(r.best, null);
+  assert.match(r.reason!, /Жоден набір/);
+});
+
+test('a table past MAX_CELLS is not solved; a constraint-checked greedy pick stands in', () => {
+  const c = { ...base, quantity: 50, minCategories: 20, minPersonalized: 50, maxPerCategory: 49 };
+  const started = Date.now();
+  const r = optimiseBasket(items(300, 60), c);
+  assert.ok(Date.now() - started < 2_000);
+  assert.match(r.reason!, /Завелика задача/);
+  assert.equal(r.exact, false);
+  assertValid(r.best, c);
+  assert.equal(r.greedy?.count, 50);
+});
+
+test('coarse budget buckets never turn a feasible request into "infeasible"', () => {
+  const c = { ...base, budget: 8_000, quantity: 50, minCategories: 5, maxCopies: 3 };
+  const r = optimiseBasket(items(400, 20), c);
+  assertValid(r.best, c);
+  // The plain greedy pick happens to meet the constraints here; never worse than it
+  assert.ok(r.best!.totalScore >= r.greedy!.totalScore);
+  if (!r.exact) assert.match(r.reason!, /наближено/);
+});
+
+test('a budget no set of cheapest gifts fits is proven infeasible', () => {
+  const r = optimiseBasket(items(400, 20), { ...base, budget: 4_999, quantity: 50, maxCopies: 3 });
+  assert.equal(r.best, null);
+  assert.equal(r.exact, true);
+  assert.match(r.reason!, /Жоден набір/);
+});
+
+test('small problems are solved exactly', () => {
+  const c = { ...base, budget: 3_000, quantity: 5, minCategories: 3, minPersonalized: 1 };
+  const r = optimiseBasket(items(30, 4), c);
+  assertValid(r.best, c);
+  assert.equal(r.exact, true);
+  assert.equal(r.reason, undefined);
+});
+
+test('the optimum respects the per-category cap and stays within budget', () => {
+  const c = { ...base, budget: 2_000, quantity: 6, minCategories: 3, minPersonalized: 2, maxPerCategory: 2 };
+  const r = optimiseBasket(items(40, 5), c);
+  assertValid(r.best, c);
+  r.alternatives.forEach(a => assertValid(a, c));
+  assert.ok(r.alternatives.every(a => a.totalScore <= r.best!.totalScore));
+});
+
+test('counts must be whole numbers', () => {
+  for (const bad of [{ minCategories: 2.5 }, { minPersonalized: 1.5 }, { maxPerCategory: 2.5 }, { maxCopies: 1.5 }, { quantity: 4.5 }]) {
+    const c = { ...base, ...bad };
+    assert.ok(checkConstraints(c), JSON.stringify(bad));
+    const r = optimiseBasket(items(20, 4), c);
+    assert.equal(r.best, null);
+    assert.equal(r.reason, checkConstraints(c));
+  }
+  assert.equal(checkConstraints({ ...base, maxPerCategory: 2, minCategories: 3, minPersonalized: 1 }), null);
+});
@@ -0,0 +1,468 @@
+// ---------------------------------------------------------------------------
+// Gift basket optimiser
+//
+// Picks exactly `quantity` gifts that maximise the summed score
+// (evaluateGift().score) subject to:
+//
+//   • total price ≤ budget
+//   • at least `minCategories` distinct categories
+//   • at most `maxPerCategory` gifts from one category     (optional)
+//   • at least `minPersonalized` personalisable gifts
+//   • in-stock only                                          (optional)
+//   • at most `maxCopies` units of the same gift            (default 1)
+//
+// Solver: 0/1 knapsack-style dynamic programme over items grouped by
+// category. State = (gifts picked, budget bucket, categories covered,
+// gifts from the current category, personalised picked). Processing one
+// category at a time lets "distinct categories" be tracked as a counter
+// instead of a bitmask.
+//
+// Budget buckets: only the price above the pool's cheapest gift is
+// budgeted (exactly `quantity` units are bought), and big problems count it
+// in buckets of more than ₴1. The DP first runs with prices rounded DOWN — a
+// relaxation every feasible basket passes, so no answer there proves
+// infeasibility, and an answer within the exact budget is the true optimum.
+// When that answer only fits after rounding, the better of a rounded-UP
+// solve (every answer fits, some are missed) and a greedy pick that honours
+// all the constraints is returned, marked `exact: false` with a reason.
+//
+// Table size: the category and personalised counters only go as high as the
+// pool can reach, and the per-category counter is dropped when the cap can
+// never bind. A problem that does not fit MAX_CELLS even with one bucket is
+// not solved; the constraint-checked greedy pick stands in, with a reason.
+// MAX_CELLS bounds one solve to about 60 MB and a few hundred ms; MAX_WORK
+// bounds all solves of a request, cutting the alternatives short.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BasketItem {
+  id:              number;
+  name:            string;
+  category:        string;
+  price:           number;
+  score:           number;
+  stock:           boolean;
+  personalization: boolean;
+}
+
+export interface BasketConstraints {
+  /** Maximum total price in UAH. */
+  budget:          number;
+  /** Exact number of gifts (units) in the basket. */
+  quantity:        number;
+  minCategories:   number;
+  maxPerCategory?: number;
+  minPersonalized: number;
+  inStockOnly:     boolean;
+  /** Units allowed per distinct gift; 1 = all different. */
+  maxCopies:       number;
+}
+
+export interface BasketLine<T extends BasketItem = BasketItem> {
+  item: T;
+  qty:  number;
+}
+
+export interface Basket<T extends BasketItem = BasketItem> {
+  lines:      BasketLine<T>[];
+  totalCost:  number;
+  totalScore: number;
+  categories: string[];
+  count:      number;
+}
+
+export interface BasketResult<T extends BasketItem = BasketItem> {
+  /** Optimal basket, or null when no basket satisfies the constraints. */
+  best:         Basket<T> | null;
+  /**
+   * False when `best` is within all constraints but not proven optimal:
+   * price rounding got in the way (see the header). Alternatives likewise.
+   */
+  exact:        boolean;
+  /** Runner-up baskets: the optimum with one of its gifts excluded. */
+  alternatives: Basket<T>[];
+  /** Best-Вигода-first greedy pick ignoring category rules, for contrast. */
+  greedy:       Basket<T> | null;
+  /** Gifts the solver chose from after filters and pruning. */
+  considered:   number;
+  /** Gifts dropped by filters (stock, price 0, over budget). */
+  excluded:     number;
+  /** Why `best` is null, or why it is only a greedy pick. */
+  reason?:      string;
+}
+
+export const MAX_QUANTITY = 50;
+
+/** Upper bound on budget buckets — keeps the DP table small. */
+const MAX_BUCKETS = 200;
+
+/** Upper bound on states × layers (≈ 5 bytes each for reconstruction). */
+const MAX_CELLS = 12_000_000;
+
+/** Cells all solves of one request may visit; alternatives stop there. */
+const MAX_WORK = 3 * MAX_CELLS;
+
+const INFEASIBLE   = 'Жоден набір не задовольняє обмеження — збільште бюджет або послабте вимоги';
+const TOO_LARGE    = 'Завелика задача для точного підбору — зменште кількість подарунків або мінімуми категорій і персоналізованих';
+const ROUNDED_NONE = 'Не вдалося підібрати набір: ціни довелося округлити — зменште кількість подарунків або послабте вимоги';
+const ROUNDED      = 'Набір підібрано наближено: ціни округлено, тож можливий трохи кращий варіант';
+
+/** Gifts of the optimum tried for exclusion when looking for alternatives. */
+const ALT_TRIES = 5;
+
+/** Per category, candidates kept by score and by score-per-₴. */
+const KEEP_BY_SCORE = 20;
+const KEEP_BY_VALUE = 10;
+/** …and the cheapest, so tight budgets still have something to fit. */
+const KEEP_CHEAPEST = 5;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Best Вигода first. */
+const byValue = (a: BasketItem, b: BasketItem) => b.score / b.price - a.score / a.price;
+
+function makeBasket<T extends BasketItem>(lines: BasketLine<T>[]): Basket<T> {
+  return {
+    lines,
+    totalCost:  lines.reduce((s, l) => s + l.item.price * l.qty, 0),
+    totalScore: lines.reduce((s, l) => s + l.item.score * l.qty, 0),
+    categories: Array.from(new Set(lines.map(l => l.item.category))),
+    count:      lines.reduce((s, l) => s + l.qty, 0),
+  };
+}
+
+/** Candidate pool: stock/price/budget filters, then per-category pruning. */
+function candidates<T extends BasketItem>(items: T[], c: BasketConstraints): T[] {
+  const ok = items.filter(it =>
+    it.price > 0 && it.price <= c.budget && it.score > 0 && (!c.inStockOnly || it.stock));
+
+  const byCat = new Map<string, T[]>();
+  for (const it of ok) {
+    const list = byCat.get(it.category) ?? [];
+    list.push(it);
+    byCat.set(it.category, list);
+  }
+
+  const out: T[] = [];
+  for (const list of byCat.values()) {
+    const keep = new Set<T>([
+      ...[...list].sort((a, b) => b.score - a.score).slice(0, KEEP_BY_SCORE),
+      ...[...list].sort(byValue).slice(0, KEEP_BY_VALUE),
+      ...[...list].sort((a, b) => a.price - b.price).slice(0, KEEP_CHEAPEST),
+    ]);
+    // Personalisable gifts are scarce; never prune them away.
+    for (const it of list) if (it.personalization) keep.add(it);
+    out.push(...keep);
+  }
+  // Grouped by category — the DP relies on it.
+  return out.sort((a, b) => a.category.localeCompare(b.category));
+}
+
+// ---------------------------------------------------------------------------
+// DP solver
+// ---------------------------------------------------------------------------
+
+interface Layout {
+  K: number;        // gifts
+  C: number;        // categories counted, ≤ distinct categories in the pool
+  U: number;        // per-category counter cap
+  P: number;        // personalised counted, ≤ personalised units in the pool
+  trackU: boolean;
+  base: number;     // ₴ every unit costs at least: the pool's cheapest price
+  step: number;     // ₴ per budget bucket, of the price above `base`
+  B: number;        // budget buckets; −1 when K units at `base` already overspend
+  /** States × layers of one solve. */
+  cells: number;
+  /** False when even a one-bucket table would exceed MAX_CELLS. */
+  fits: boolean;
+}
+
+/**
+ * Table dimensions for `pool`. Minimums the pool cannot reach show as C or
+ * P below the constraint; solve() rejects those without building a table.
+ */
+function layout(pool: BasketItem[], c: BasketConstraints): Layout {
+  const K      = c.quantity;
+  const nCats  = new Set(pool.map(it => it.category)).size;
+  const C      = Math.min(c.minCategories, nCats);
+  const P      = Math.min(c.minPersonalized, pool.filter(it => it.personalization).length * c.maxCopies);
+  const trackU = c.maxPerCategory !== undefined && c.maxPerCategory < K;
+  const U      = trackU ? c.maxPerCategory! : 1;
+
+  // Exactly K units are bought, so only the price above the cheapest one
+  // has to be budgeted: Σ price ≤ budget ⇔ Σ (price − base) ≤ budget − K·base.
+  // Coarser buckets for big problems so the reconstruction tables fit.
+  const base    = pool.reduce((m, it) => Math.min(m, it.price), Infinity);
+  const span    = c.budget - K * base;
+  const other   = (K + 1) * (C + 1) * (U + 1) * (P + 1);
+  const buckets = Math.min(MAX_BUCKETS, Math.floor(MAX_CELLS / ((pool.length + nCats) * other)) - 1);
+  const step    = Math.max(1, Math.ceil(span / Math.max(1, buckets)));
+  const B       = span < 0 ? -1 : Math.floor(span / step);
+  return { K, C, U, P, trackU, base, step, B, cells: (B + 1) * other * (pool.length + nCats), fits: buckets >= 1 };
+}
+
+/** `round` turns a price in buckets into a whole bucket count. */
+function solve<T extends BasketItem>(
+  pool: T[], c: BasketConstraints, dims: Layout, round: (buckets: number) => number,
+): Basket<T> | null {
+  const { K, C, U, P, trackU, base, step, B } = dims;
+  // The pool cannot reach the minimums or the budget, so no state qualifies.
+  if (C < c.minCategories || P < c.minPersonalized || B < 0) return null;
+
+  // State layout: (((k·(B+1) + b)·(C+1) + cc)·(U+1) + u)·(P+1) + p
+  const S    = (K + 1) * (B + 1) * (C + 1) * (U + 1) * (P + 1);
+  const idx  = (k: number, b: number, cc: number, u: number, p: number) =>
+    ((((k * (B + 1)) + b) * (C + 1) + cc) * (U + 1) + u) * (P + 1) + p;
+
+  let dp = new Float64Array(S).fill(-Infinity);
+  dp[idx(0, 0, 0, 0, 0)] = 0;
+
+  // One layer per item plus one per category boundary; parent = previous
+  // state index, take = units of this layer's item (0 for boundaries/skips).
+  const layers: { item: T | null; parent: Int32Array; take: Uint8Array }[] = [];
+
+  const closeCategory = () => {
+    const next   = new Float64Array(S).fill(-Infinity);
+    const parent = new Int32Array(S).fill(-1);
+    for (let k = 0; k <= K; k++) for (let b = 0; b <= B; b++)
+      for (let cc = 0; cc <= C; cc++) for (let u = 0; u <= U; u++) for (let p = 0; p <= P; p++) {
+        const from = idx(k, b, cc, u, p);
+        if (dp[from] === -Infinity) continue;
+        const to = idx(k, b, Math.min(C, cc + (u > 0 ? 1 : 0)), 0, p);
+        if (dp[from] > next[to]) { next[to] = dp[from]; parent[to] = from; }
+      }
+    layers.push({ item: null, parent, take: new Uint8Array(S) });
+    dp = next;
+  };
+
+  for (let i = 0; i < pool.length; i++) {
+    const it     = pool[i];
+    const cost   = round((it.price - base) / step);
+    const pers   = it.personalization ? 1 : 0;
+    const next   = Float64Array.from(dp);
+    const parent = new Int32Array(S);
+    for (let s = 0; s < S; s++) parent[s] = s;
+    const take   = new Uint8Array(S);
+
+    for (let k = 0; k < K; k++) for (let b = 0; b + cost <= B; b++)
+      for (let cc = 0; cc <= C; cc++) for (let u = 0; u <= U; u++) for (let p = 0; p <= P; p++) {
+        const from = idx(k, b, cc, u, p);
+        const base = dp[from];
+        if (base === -Infinity) continue;
+        for (let t = 1; t <= c.maxCopies; t++) {
+          const nk = k + t, nb = b + t * cost;
+          const nu = trackU ? u + t : 1;
+          if (nk > K || nb > B || (trackU && nu > U)) break;
+          const to  = idx(nk, nb, cc, nu, Math.min(P, p + t * pers));
+          const val = base + t * it.score;
+          if (val > next[to]) { next[to] = val; parent[to] = from; take[to] = t; }
+        }
+      }
+
+    layers.push({ item: it, parent, take });
+    dp = next;
+    if (i === pool.length - 1 || pool[i + 1].category !== it.category) closeCategory();
+  }
+
+  // Best terminal state: exactly K gifts, enough categories and personalised.
+  let bestState = -1, bestVal = -Infinity;
+  for (let b = 0; b <= B; b++) {
+    const s = idx(K, b, C, 0, P);
+    if (dp[s] > bestVal) { bestVal = dp[s]; bestState = s; }
+  }
+  if (bestState < 0) return null;
+
+  const qty = new Map<T, number>();
+  let s = bestState;
+  for (let l = layers.length - 1; l >= 0; l--) {
+    const { item, parent, take } = layers[l];
+    if (item && take[s] > 0) qty.set(item, (qty.get(item) ?? 0) + take[s]);
+    s = parent[s];
+  }
+
+  return makeBasket(Array.from(qty, ([item, q]) => ({ item, qty: q }))
+    .sort((a, b) => b.item.score - a.item.score));
+}
+
+/**
+ * The relaxed solve, checked against exact prices, then the fallbacks
+ * described in the header. `exact` is true when `basket` is the optimum or
+ * null is proven.
+ */
+function solveBest<T extends BasketItem>(
+  pool: T[], c: BasketConstraints, dims: Layout,
+): { basket: Basket<T> | null; exact: boolean } {
+  const relaxed = solve(pool, c, dims, Math.floor);
+  if (!relaxed || relaxed.totalCost <= c.budget) return { basket: relaxed, exact: true };
+  const picks = [solve(pool, c, dims, Math.ceil), ...feasibleGreedy(pool, c)].filter(b => b !== null);
+  return { basket: picks.sort((a, b) => b.totalScore - a.totalScore)[0] ?? null, exact: false };
+}
+
+interface Picking<T extends BasketItem> {
+  qty:    Map<T, number>;
+  perCat: Map<string, number>;
+  count:  number;
+  cost:   number;
+}
+
+/** Whether one more unit of `it` fits: copies, per-category cap, count, budget. */
+function room<T extends BasketItem>(it: T, b: Picking<T>, c: BasketConstraints): boolean {
+  return (b.qty.get(it) ?? 0) < c.maxCopies &&
+    (c.maxPerCategory === undefined || (b.perCat.get(it.category) ?? 0) < c.maxPerCategory) &&
+    b.count < c.quantity && b.cost + it.price <= c.budget;
+}
+
+/**
+ * Greedy pick that honours every constraint: personalised gifts up to the
+ * minimum, then gifts of new categories up to theirs — taken in `order` —
+ * then best Вигода first, each only while the cheapest gift still fits
+ * every open slot. Null when that finds nothing, which proves nothing.
+ */
+function pickGreedy<T extends BasketItem>(
+  pool: T[], c: BasketConstraints, order: (a: T, b: T) => number,
+): Basket<T> | null {
+  const b: Picking<T> = { qty: new Map(), perCat: new Map(), count: 0, cost: 0 };
+  const cheapest = pool.reduce((m, it) => Math.min(m, it.price), Infinity);
+  const add = (it: T) => {
+    b.qty.set(it, (b.qty.get(it) ?? 0) + 1);
+    b.perCat.set(it.category, (b.perCat.get(it.category) ?? 0) + 1);
+    b.count++;
+    b.cost += it.price;
+  };
+  // Leaves enough budget for the slots still open at the cheapest price
+  const fits = (it: T) => room(it, b, c) && b.cost + it.price + (c.quantity - b.count - 1) * cheapest <= c.budget;
+  const ordered = [...pool].sort(order);
+
+  let personal = 0;
+  for (const it of ordered) {
+    if (!it.personalization) continue;
+    while (personal < c.minPersonalized && fits(it)) { add(it); personal++; }
+  }
+  for (const it of ordered) {
+    if (b.perCat.size >= c.minCategories) break;
+    if (!b.perCat.has(it.category) && fits(it)) add(it);
+  }
+  for (const it of [...pool].sort(byValue)) {
+    while (fits(it)) add(it);
+  }
+
+  personal = Array.from(b.qty).reduce((n, [it, q]) => n + (it.personalization ? q : 0), 0);
+  if (b.count < c.quantity || b.perCat.size < c.minCategories || personal < c.minPersonalized) return null;
+  return makeBasket(Array.from(b.qty, ([item, qty]) => ({ item, qty })).sort((x, y) => y.item.score - x.item.score));
+}
+
+/** pickGreedy() by Вигода and by price — the latter for tight budgets. */
+function feasibleGreedy<T extends BasketItem>(pool: T[], c: BasketConstraints): Basket<T>[] {
+  return [pickGreedy(pool, c, byValue), pickGreedy(pool, c, (a, b) => a.price - b.price)]
+    .filter(b => b !== null);
+}
+
+function greedy<T extends BasketItem>(pool: T[], c: BasketConstraints): Basket<T> | null {
+  const lines: BasketLine<T>[] = [];
+  let count = 0, cost = 0;
+  for (const it of [...pool].sort(byValue)) {
+    let q = 0;
+    while (q < c.maxCopies && count < c.quantity && cost + it.price <= c.budget) {
+      q++; count++; cost += it.price;
+    }
+    if (q > 0) lines.push({ item: it, qty: q });
+    if (count === c.quantity) break;
+  }
+  return count === c.quantity ? makeBasket(lines) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates constraints; returns a message for the first problem found.
+ */
+export function checkConstraints(c: BasketConstraints): string | null {
+  if (!(c.budget > 0))                        return 'Бюджет має бути більшим за 0';
+  if (!Number.isInteger(c.quantity) || c.quantity < 1 || c.quantity > MAX_QUANTITY)
+    return `Кількість має бути цілою в межах 1…${MAX_QUANTITY}`;
+  if (!Number.isInteger(c.minCategories) || c.minCategories < 0)
+    return 'Мінімум категорій має бути цілим ≥ 0';
+  if (c.minCategories > c.quantity)
+    return 'Мінімум категорій не може перевищувати кількість подарунків';
+  if (!Number.isInteger(c.minPersonalized) || c.minPersonalized < 0)
+    return 'Мінімум персоналізованих має бути цілим ≥ 0';
+  if (c.minPersonalized > c.quantity)
+    return 'Мінімум персоналізованих не може перевищувати кількість подарунків';
+  if (c.maxPerCategory !== undefined && (!Number.isInteger(c.maxPerCategory) || c.maxPerCategory < 1))
+    return 'Ліміт на категорію має бути цілим ≥ 1';
+  if (!Number.isInteger(c.maxCopies) || c.maxCopies < 1)
+    return 'Кількість копій має бути цілою ≥ 1';
+  return null;
+}
+
+/**
+ * Finds the highest-scoring basket for `items` under `constraints`, plus up
+ * to three alternatives and a greedy baseline.
+ */
+export function optimiseBasket<T extends BasketItem>(
+  items: T[],
+  constraints: BasketConstraints,
+): BasketResult<T> {
+  const problem = checkConstraints(constraints);
+  const pool    = problem ? [] : candidates(items, constraints);
+  const excluded = items.length - items.filter(it =>
+    it.price > 0 && it.price <= constraints.budget && it.score > 0 &&
+    (!constraints.inStockOnly || it.stock)).length;
+
+  if (problem) {
+    return { best: null, exact: true, alternatives: [], greedy: null, considered: 0, excluded, reason: problem };
+  }
+
+  // Minimums the pool cannot reach need no table; a table too big for
+  // MAX_CELLS leaves the greedy picks as the only answer.
+  const dims = layout(pool, constraints);
+  const unreachable = dims.C < constraints.minCategories || dims.P < constraints.minPersonalized;
+  if (unreachable || !dims.fits) {
+    const picks = unreachable ? [] : feasibleGreedy(pool, constraints).sort((a, b) => b.totalScore - a.totalScore);
+    return {
+      best: picks[0] ?? null, exact: unreachable, alternatives: [], greedy: greedy(pool, constraints),
+      considered: pool.length, excluded,
+      reason: unreachable ? INFEASIBLE : TOO_LARGE,
+    };
+  }
+
+  const { basket: best, exact } = solveBest(pool, constraints, dims);
+  const alternatives: Basket<T>[] = [];
+  if (best) {
+    const seen = new Set([best.lines.map(l => `${l.item.id}×${l.qty}`).sort().join(',')]);
+    // One solve each, rounded like the optimum was found: exact alternatives
+    // must fit unrounded, the others are safe by construction
+    let work = exact ? dims.cells : 2 * dims.cells;
+    for (const line of best.lines.slice(0, ALT_TRIES)) {
+      // A smaller pool never needs a bigger table than the full one
+      const rest     = pool.filter(it => it !== line.item);
+      const restDims = layout(rest, constraints);
+      if (work + restDims.cells > MAX_WORK) break;
+      work += restDims.cells;
+      const alt = solve(rest, constraints, restDims, exact ? Math.floor : Math.ceil);
+      if (!alt || alt.totalCost > constraints.budget) continue;
+      const sig = alt.lines.map(l => `${l.item.id}×${l.qty}`).sort().join(',');
+      if (seen.has(sig)) continue;
+      seen.add(sig);
+      alternatives.push(alt);
+    }
+    alternatives.sort((a, b) => b.totalScore - a.totalScore).splice(3);
+  }
+
+  return {
+    best,
+    exact,
+    alternatives,
+    greedy:     greedy(pool, constraints),
+    considered: pool.length,
+    excluded,
+    reason:     best ? (exact ? undefined : ROUNDED) : (exact ? INFEASIBLE : ROUNDED_NONE),
+  };
+}
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getScoringProfile } from './engine';
+import {
+  CatalogQueryError, parseBasketQuery, parseCatalogQuery, parseProfileQuery, queryCatalog, setCatalogRepository,
+} from './catalog';
+import { openRepository } from './store';
+import { catalogParams, parseViewState, profileParams, viewProfile } from './view-state';
+
+const qs = (s: string) => new URLSearchParams(s);
+
+test('prior and priorMean override any profile\'s rating prior', () => {
+  assert.deepEqual(parseProfileQuery(qs('profile=balanced')).ratingPrior, { strength: 0, mean: 'global' });
+  assert.deepEqual(parseProfileQuery(qs('profile=balanced&prior=25')).ratingPrior, { strength: 25, mean: 'global' });
+  assert.deepEqual(parseProfileQuery(qs('profile=credible&priorMean=global')).ratingPrior, { strength: 10, mean: 'global' });
+  assert.deepEqual(parseProfileQuery(qs('profile=credible&prior=0')).ratingPrior, { strength: 0, mean: 'category' });
+  // The built-in profile is left alone
+  assert.equal(parseProfileQuery(qs('profile=budget&prior=5')).id, 'budget');
+  assert.deepEqual(getScoringProfile('budget').ratingPrior, { strength: 0, mean: 'global' });
+});
+
+test('invalid prior params are client errors on both parsers', () => {
+  for (const bad of ['prior=-1', 'prior=abc', 'prior=1001', 'priorMean=median', 'profile=nope']) {
+    assert.throws(() => parseCatalogQuery(qs(bad)), CatalogQueryError, bad);
+    assert.throws(() => parseBasketQuery(qs(bad)), CatalogQueryError, bad);
+  }
+  assert.equal(parseBasketQuery(qs('prior=7.5')).profile.ratingPrior.strength, 7.5);
+  assert.equal(parseCatalogQuery(qs('prior=')).profile.ratingPrior.strength, 0);
+});
+
+test('the table view carries the prior to the API and back', () => {
+  const view = parseViewState(qs('profile=popular&prior=30&priorMean=category'));
+  assert.deepEqual(viewProfile(view).ratingPrior, { strength: 30, mean: 'category' });
+  assert.deepEqual(parseCatalogQuery(catalogParams(view)).profile, viewProfile(view));
+
+  // Malformed values fall back to the profile's own, as URLs get hand-edited
+  const lenient = parseViewState(qs('prior=-3&priorMean=x'));
+  assert.equal(lenient.prior, null);
+  assert.equal(lenient.priorMean, null);
+
+  // Only overrides are written out
+  assert.equal(profileParams(getScoringProfile('credible')).toString(), 'profile=credible');
+  assert.equal(profileParams(viewProfile(view)).toString(), 'profile=popular&prior=30&priorMean=category');
+});
+
+test('a catalogue too large to spread into Math.max still loads', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-'));
+  try {
+    fs.copyFileSync(path.resolve(__dirname, '../data/categories.json'), path.join(dir, 'categories.json'));
+    const repo = openRepository({ dataDir: dir, kind: 'json' });
+    repo.replaceProducts(Array.from({ length: 150_000 }, (_, i) => ({
+      id: i + 1, shop: 'podaroktut', name: `Брелок ${i}`, category: 'Брелки', price: 10 + (i % 1000), stars: 4.5,
+      reviews: i % 50, firstSeenAt: '2026-09-01T00:00:00.000Z', personalization: false, stock: true, googleResults: 0,
+    })));
+    setCatalogRepository(repo);
+    const page = queryCatalog(parseCatalogQuery(qs('limit=5')));
+    assert.equal(page.total, 150_000);
+    assert.deepEqual(page.priceRange, { min: 10, max: 1009 });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
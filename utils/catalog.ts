@@ -0,0 +1,520 @@
+// ---------------------------------------------------------------------------
+// Catalogue queries
+//
+// Server-side view over the catalogue store (utils/store) used by the page
+// and the /api route handlers: scoring (evaluateGift), price history,
+// filtering, sorting, grouping and cursor pagination all happen here so the
+// browser only receives the page it asked for.
+//
+// Client components must only `import type` from this module — a value
+// import would pull the database driver into the bundle.
+// ---------------------------------------------------------------------------
+
+import {
+  evaluateGift, listingScore, getScoringProfile, withRatingPrior,
+  MAX_PRIOR_STRENGTH, PRIOR_MEANS, SCORING_PROFILES,
+  type GiftEvaluation, type ScoringProfile,
+} from './engine';
+import { priceSeries, previousPrice, productKey, type PricePoint } from './history';
+import { categoryScope, type CategoryRegistry } from './categories';
+import { groupProducts } from './matching';
+import {
+  applyFlaggedMode, categoryPriceStats, detectAnomalies, FLAGGED_MODES,
+  type AnomalyFlag, type FlaggedMode, type PriceStats,
+} from './anomalies';
+import type { BasketConstraints } from './basket';
+import { median } from './stats';
+import { matchesFilters, parseFilters, popRating, type GiftFilters } from './filters';
+import { daysSince, type GiftData, type GoogleSource } from './gift-schema';
+import {
+  freshness, lockHeld, newRun, PIPELINE_LOCK, WORKER_LOCK,
+  type Freshness, type LockInfo, type PipelineRun, type WorkerNote,
+} from './pipeline';
+import { openRepository, type CatalogRepository } from './store';
+import { SORT_KEYS, defaultDir, type SortKey, type SortDir } from './view-state';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface Row extends GiftData {
+  daysSinceAdded: number;  // from firstSeenAt, as of the query
+  score:     number;
+  value:     number;
+  popRating: number;  // log10(googleResults) - 1, clamped [0,5]
+  /** Full evaluateGift() breakdown (R, N, Pop, weighted, divisor, …) */
+  evaluation: GiftEvaluation;
+  prevPrice?: number; // last different price seen in history
+  priceDrop: number;  // (prevPrice − price) / prevPrice × 100; 0 without history
+  priceHistory: number[];
+  /** Suspicious-listing flags (utils/anomalies.ts); empty when clean. */
+  flags: AnomalyFlag[];
+  // Grouped mode only — this row is the best offer of a canonical gift
+  offerCount?: number;
+  priceMin?:   number;
+  priceMax?:   number;
+  spreadPct?:  number;
+}
+
+export { SORT_KEYS, type SortKey, type SortDir };
+export type { GiftData, GoogleSource };
+
+export interface CatalogQuery {
+  category:        string;          // 'All' = no filter
+  shop:            string;          // 'All' = no filter
+  search:          string;
+  sort:            SortKey;
+  dir:             SortDir;
+  profile:         ScoringProfile;
+  grouped:         boolean;
+  filters:         GiftFilters;
+  flagged:         FlaggedMode;
+  cursor:          number;          // decoded offset
+  limit:           number;
+}
+
+export interface CatalogPage {
+  items:      Row[];
+  /** Opaque cursor for the next page; null on the last page. */
+  nextCursor: string | null;
+  /** Rows matching the filters (all pages). */
+  total:      number;
+  /**
+   * Catalogue size for the selected category/shop before search and
+   * filters — counted in canonical gifts when grouped, like `total`.
+   */
+  totalForCat: number;
+  /** Price bounds of the category/shop scope, for the price slider. */
+  priceRange: { min: number; max: number };
+  profile:    string;
+}
+
+export interface CategoryMedian {
+  price: number;
+  score: number;
+  value: number;
+}
+
+/** `/api/gifts/:id` payload: the row plus what the drill-down needs. */
+export interface GiftDetail extends Row {
+  context: {
+    /** Catalogue-wide maximum used to normalise Pop — needed for what-if. */
+    maxReviews:     number;
+    /** Mean rating the profile shrinks this gift's stars towards, if any. */
+    priorStars?:    number;
+    categorySize:   number;
+    categoryMedian: CategoryMedian;
+  };
+}
+
+export interface PipelineStatus {
+  freshness: Freshness;
+  products:  number;
+  /** The worker's lock while it is alive, with its published schedule. */
+  worker:    (LockInfo & { schedule?: WorkerNote }) | null;
+  /** Held while a run is in progress. */
+  pipeline:  LockInfo | null;
+  runs:      PipelineRun[];
+}
+
+export interface CategorySummary {
+  name:  string;
+  count: number;
+}
+
+// ---------------------------------------------------------------------------
+// Data
+// ---------------------------------------------------------------------------
+
+interface CatalogData {
+  gifts:      GiftData[];
+  maxReviews: number;
+  series:     Map<string, PricePoint[]>;
+  categories: CategoryRegistry;
+  priceStats: Map<string, PriceStats>;
+  starMeans:  StarMeans;
+}
+
+// Mean stars of rated gifts (reviews > 0) — the Bayesian rating prior
+interface StarMeans {
+  global?:    number;
+  byCategory: Map<string, number>;
+}
+
+function starMeans(gifts: GiftData[]): StarMeans {
+  const rated = gifts.filter(g => g.reviews > 0);
+  const mean  = (xs: GiftData[]) => xs.reduce((s, g) => s + g.stars, 0) / xs.length;
+  const byCategory = new Map<string, number>();
+  for (const name of new Set(rated.map(g => g.category))) {
+    byCategory.set(name, mean(rated.filter(g => g.category === name)));
+  }
+  return { global: rated.length ? mean(rated) : undefined, byCategory };
+}
+
+function priorStars(g: GiftData, profile: ScoringProfile, data: CatalogData): number | undefined {
+  const { global, byCategory } = data.starMeans;
+  return profile.ratingPrior.mean === 'category' ? byCategory.get(g.category) ?? global : global;
+}
+
+let repository: CatalogRepository | null = null;
+let loaded: { revision: string; data: CatalogData } | null = null;
+
+/** The store this module reads; opened from the environment on first use. */
+export function catalogRepository(): CatalogRepository {
+  return (repository ??= openRepository());
+}
+
+/** Reads from `repo` instead (scripts that open the store themselves). */
+export function setCatalogRepository(repo: CatalogRepository): void {
+  repository = repo;
+  loaded = null;
+}
+
+// Loaded once per store revision — a scraper run writing the database is
+// picked up on the next request without a restart
+function catalog(): CatalogData {
+  const repo = catalogRepository();
+  const revision = repo.revision();
+  if (loaded?.revision !== revision) {
+    const gifts = repo.listProducts();
+    loaded = {
+      revision,
+      data: {
+        gifts,
+        maxReviews: gifts.reduce((m, g) => Math.max(m, g.reviews), 1),
+        series:     priceSeries(repo.listSnapshots()),
+        categories: repo.getCategories(),
+        priceStats: categoryPriceStats(gifts),
+        starMeans:  starMeans(gifts),
+      },
+    };
+  }
+  return loaded.data;
+}
+
+export const DEFAULT_LIMIT = 50;
+export const MAX_LIMIT     = 500;
+
+function toRow(g: GiftData, profile: ScoringProfile, data: CatalogData = catalog()): Row {
+  // Derived per query rather than stored, so newness keeps decaying between
+  // scraper runs
+  const daysSinceAdded = daysSince(g.firstSeenAt);
+  const evaluation = evaluateGift({
+    stars:          g.stars,
+    daysSinceAdded,
+    reviews:        g.reviews,
+    maxReviews:     data.maxReviews,
+    price:          g.price,
+    priorStars:     priorStars(g, profile, data),
+  }, profile);
+  const { score, value } = listingScore(evaluation, g.price);
+  const points    = data.series.get(productKey(g)) ?? [];
+  const prevPrice = previousPrice(points, g.price);
+  return {
+    ...g,
+    daysSinceAdded,
+    score,
+    value,
+    popRating: popRating(g.googleResults),
+    evaluation,
+    prevPrice,
+    priceDrop: prevPrice && g.price > 0 ? ((prevPrice - g.price) / prevPrice) * 100 : 0,
+    priceHistory: points.map(p => p.price),
+    flags:        detectAnomalies(g, data.priceStats.get(g.category)),
+  };
+}
+
+// Grouped mode: one row per canonical gift (utils/matching.ts), carrying the
+// best offer's data plus the price range across all matching offers.
+function collapseOffers(rows: Row[]): Row[] {
+  return groupProducts(rows).map(g => ({
+    ...g.best,
+    offerCount: g.offers.length,
+    priceMin:   g.minPrice,
+    priceMax:   g.maxPrice,
+    spreadPct:  g.spreadPct,
+  }));
+}
+
+function compareRows(sortKey: SortKey, sortDir: SortDir) {
+  return (a: Row, b: Row) => {
+    const av = a[sortKey];
+    const bv = b[sortKey];
+    // Text columns group rows (e.g. by shop); best value first inside a group
+    if (typeof av === 'string' && typeof bv === 'string')
+      return (sortDir === 'asc' ? av.localeCompare(bv) : bv.localeCompare(av)) || b.value - a.value;
+    return sortDir === 'asc'
+      ? (av as number) - (bv as number)
+      : (bv as number) - (av as number);
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Cursors
+// ---------------------------------------------------------------------------
+
+/** Cursors are base64url JSON so clients treat them as opaque tokens. */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset })).toString('base64url');
+}
+
+/** Returns the decoded offset, or null for a malformed cursor. */
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const { o } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return Number.isInteger(o) && o >= 0 ? o : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Query parsing
+// ---------------------------------------------------------------------------
+
+export class CatalogQueryError extends Error {}
+
+function num(params: URLSearchParams, key: string): number | undefined {
+  const raw = params.get(key);
+  if (raw === null || raw === '') return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) throw new CatalogQueryError(`"${key}" must be a number`);
+  return n;
+}
+
+function bool(params: URLSearchParams, key: string): boolean {
+  const raw = params.get(key);
+  return raw === '1' || raw === 'true';
+}
+
+/**
+ * Scoring profile from `profile`, with its rating prior overridden by
+ * `prior` (strength, 0…MAX_PRIOR_STRENGTH pseudo-reviews) and `priorMean`
+ * (category | global) when given — so any profile can shrink thin ratings.
+ */
+export function parseProfileQuery(params: URLSearchParams): ScoringProfile {
+  const profileId = params.get('profile');
+  if (profileId && !SCORING_PROFILES.some(p => p.id === profileId)) {
+    throw new CatalogQueryError(`Unknown profile "${profileId}"`);
+  }
+  const strength = num(params, 'prior');
+  if (strength !== undefined && (strength < 0 || strength > MAX_PRIOR_STRENGTH)) {
+    throw new CatalogQueryError(`"prior" must be a number in 0…${MAX_PRIOR_STRENGTH}`);
+  }
+  const rawMean = params.get('priorMean');
+  const mean    = PRIOR_MEANS.find(m => m === rawMean);
+  if (rawMean && !mean) throw new CatalogQueryError(`"priorMean" must be one of ${PRIOR_MEANS.join(', ')}`);
+  return withRatingPrior(getScoringProfile(profileId), { strength, mean });
+}
+
+/**
+ * Parses `/api/gifts` search params. Throws {@link CatalogQueryError} with a
+ * client-facing message on invalid input.
+ *
+ *   category, shop, q, sort, dir, profile, prior, priorMean, grouped,
+ *   flagged, cursor, limit
+ *   + the utils/filters.ts keys (minPrice, maxPrice, inStock, …)
+ */
+export function parseCatalogQuery(params: URLSearchParams): CatalogQuery {
+  const sort = (params.get('sort') ?? 'value') as SortKey;
+  if (!SORT_KEYS.includes(sort)) {
+    throw new CatalogQueryError(`"sort" must be one of ${SORT_KEYS.join(', ')}`);
+  }
+  const dir = params.get('dir') ?? defaultDir(sort);
+  if (dir !== 'asc' && dir !== 'desc') throw new CatalogQueryError('"dir" must be asc or desc');
+
+  const profile = parseProfileQuery(params);
+
+  const rawCursor = params.get('cursor');
+  const cursor    = rawCursor ? decodeCursor(rawCursor) : 0;
+  if (cursor === null) throw new CatalogQueryError('Malformed "cursor"');
+
+  const limit = num(params, 'limit') ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new CatalogQueryError(`"limit" must be an integer in 1…${MAX_LIMIT}`);
+  }
+
+  const flagged = (params.get('flagged') ?? 'derank') as FlaggedMode;
+  if (!FLAGGED_MODES.includes(flagged)) {
+    throw new CatalogQueryError(`"flagged" must be one of ${FLAGGED_MODES.join(', ')}`);
+  }
+
+  const { filters, invalid } = parseFilters(key => params.get(key));
+  if (invalid.length) throw new CatalogQueryError(`"${invalid[0]}" must be a number`);
+
+  return {
+    category:        params.get('category') || 'All',
+    shop:            params.get('shop') || 'All',
+    search:          params.get('q') ?? '',
+    sort,
+    dir,
+    profile,
+    grouped:         bool(params, 'grouped'),
+    filters,
+    flagged,
+    cursor,
+    limit,
+  };
+}
+
+export interface BasketQuery {
+  constraints: BasketConstraints;
+  profile:     ScoringProfile;
+}
+
+/**
+ * Parses `/api/basket` (and `/basket` page) search params; missing values
+ * fall back to a 10-gift, ₴5 000 basket across at least 3 categories.
+ *
+ *   budget, quantity, minCategories, maxPerCategory, minPersonalized,
+ *   inStock, maxCopies, profile, prior, priorMean
+ */
+export function parseBasketQuery(params: URLSearchParams): BasketQuery {
+  const profile = parseProfileQuery(params);
+  return {
+    constraints: {
+      budget:          num(params, 'budget')          ?? 5000,
+      quantity:        num(params, 'quantity')        ?? 10,
+      minCategories:   num(params, 'minCategories')   ?? 3,
+      maxPerCategory:  num(params, 'maxPerCategory'),
+      minPersonalized: num(params, 'minPersonalized') ?? 0,
+      inStockOnly:     params.has('inStock') ? bool(params, 'inStock') : true,
+      maxCopies:       num(params, 'maxCopies')       ?? 1,
+    },
+    profile,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/** Filters, scores, sorts and paginates the catalogue. */
+export function queryCatalog(q: CatalogQuery): CatalogPage {
+  const needle = q.search.trim().toLowerCase();
+  const data   = catalog();
+
+  // A parent category includes its subcategories (utils/categories)
+  const cats = q.category === 'All' ? null : categoryScope(q.category, data.categories);
+  const inScope = data.gifts.filter(g =>
+    (!cats || cats.has(g.category)) &&
+    (q.shop     === 'All' || g.shop     === q.shop),
+  );
+
+  let rows = inScope
+    .map(g => toRow(g, q.profile, data))
+    .filter(r =>
+      matchesFilters(r, q.filters) &&
+      (!needle ||
+        r.name.toLowerCase().includes(needle) ||
+        r.category.toLowerCase().includes(needle)),
+    );
+
+  // Hidden before grouping, so a group's best offer is a clean one
+  if (q.flagged === 'hide') rows = applyFlaggedMode(rows, 'hide');
+  if (q.grouped) rows = collapseOffers(rows);
+  rows.sort(compareRows(q.sort, q.dir));
+  if (q.flagged === 'derank') rows = applyFlaggedMode(rows, 'derank');
+
+  const prices = inScope.map(g => g.price).filter(p => p > 0);
+  const end    = q.cursor + q.limit;
+  return {
+    items:       rows.slice(q.cursor, end),
+    nextCursor:  end < rows.length ? encodeCursor(end) : null,
+    total:       rows.length,
+    totalForCat: q.grouped ? groupProducts(inScope).length : inScope.length,
+    // reduce, not Math.min(...prices): spreading a large catalogue overflows the stack
+    priceRange:  prices.length
+      ? { min: prices.reduce((a, b) => Math.min(a, b)), max: prices.reduce((a, b) => Math.max(a, b)) }
+      : { min: 0, max: 0 },
+    profile:     q.profile.id,
+  };
+}
+
+/** Every matching row on one page — server render and exports. */
+export function queryAll(q: CatalogQuery): CatalogPage {
+  return queryCatalog({ ...q, cursor: 0, limit: Number.MAX_SAFE_INTEGER });
+}
+
+/**
+ * One gift with its full breakdown and category medians (under the same
+ * profile), or undefined for an unknown id.
+ */
+export function getGift(id: number, profile: ScoringProfile): GiftDetail | undefined {
+  const data = catalog();
+  const g = data.gifts.find(x => x.id === id);
+  if (!g) return undefined;
+
+  const peers = data.gifts.filter(x => x.category === g.category).map(x => toRow(x, profile, data));
+  return {
+    ...toRow(g, profile, data),
+    context: {
+      maxReviews:   data.maxReviews,
+      priorStars:   priorStars(g, profile, data),
+      categorySize: peers.length,
+      categoryMedian: {
+        price: median(peers.map(r => r.price)),
+        score: median(peers.map(r => r.score)),
+        value: median(peers.map(r => r.value)),
+      },
+    },
+  };
+}
+
+/** Every gift scored under `profile`, in catalogue order. */
+export function scoredRows(profile: ScoringProfile): Row[] {
+  const data = catalog();
+  return data.gifts.map(g => toRow(g, profile, data));
+}
+
+/** Categories in catalogue order with item counts. */
+export function listCategories(): CategorySummary[] {
+  const counts = new Map<string, number>();
+  for (const g of catalog().gifts) counts.set(g.category, (counts.get(g.category) ?? 0) + 1);
+  return Array.from(counts, ([name, count]) => ({ name, count }));
+}
+
+/** Shop ids present in the catalogue, in catalogue order. */
+export function listShops(): string[] {
+  return Array.from(new Set(catalog().gifts.map(g => g.shop)));
+}
+
+/** The category registry, as stored. */
+export function categoryRegistry(): CategoryRegistry {
+  return catalog().categories;
+}
+
+// ---------------------------------------------------------------------------
+// Pipeline runs
+// ---------------------------------------------------------------------------
+
+/** Data freshness, worker liveness and the latest `limit` runs. */
+export function pipelineStatus(limit = 20): PipelineStatus {
+  const repo     = catalogRepository();
+  const worker   = repo.getLock(WORKER_LOCK);
+  const pipeline = repo.getLock(PIPELINE_LOCK);
+  let schedule: WorkerNote | undefined;
+  try {
+    schedule = worker?.note ? JSON.parse(worker.note) as WorkerNote : undefined;
+  } catch {
+    schedule = undefined;
+  }
+  return {
+    freshness: freshness(repo.listSnapshots().at(-1)?.takenAt ?? null),
+    products:  catalog().gifts.length,
+    worker:    lockHeld(worker) ? { ...worker, ...(schedule ? { schedule } : {}) } : null,
+    pipeline:  lockHeld(pipeline) ? pipeline : null,
+    runs:      repo.listRuns(limit),
+  };
+}
+
+/**
+ * Queues a run for the worker. A run already queued or in progress is
+ * returned instead of a second one (`created: false`).
+ */
+export function requestRun(requestedBy: string): { run: PipelineRun; created: boolean } {
+  const repo    = catalogRepository();
+  const pending = repo.listRuns(50).find(r => r.status === 'queued' || r.status === 'running');
+  if (pending) return { run: pending, created: false };
+  return { run: repo.saveRun(newRun('manual', requestedBy)), created: true };
+}
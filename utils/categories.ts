@@ -0,0 +1,198 @@
+// ---------------------------------------------------------------------------
+// Category registry
+//
+// data/categories.json is the one list of catalogue categories: id, URL
+// slug, the name stored on products as `category`, display labels, icon,
+// colour and parent. The sidebar, the table badges and the category filter
+// all render from it, and `aliases` maps the names shops and price lists
+// use ("Брелоки", "Міні-бари") onto registry ids.
+//
+//   { "categories": [{ "id": "keychains", "slug": "brelky", "name": "Брелки",
+//                      "labels": { "uk": "Брелоки" }, "icon": "key",
+//                      "color": "violet", "parent": null }],
+//     "aliases":    { "Брелоки": "keychains" } }
+//
+// Categories the scraper meets for the first time are appended by
+// registerCategory() with a generated id, a neutral icon and the next free
+// colour, and marked `auto` so someone can give them proper labels later.
+// Pure — the registry is stored with the catalogue (utils/store);
+// CATEGORY_REGISTRY below is the checked-in default.
+// ---------------------------------------------------------------------------
+
+import rawRegistry from '../data/categories.json';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CategoryColor =
+  | 'amber' | 'violet' | 'yellow' | 'blue' | 'emerald'
+  | 'rose' | 'teal' | 'indigo' | 'orange' | 'slate';
+
+export interface CategoryInfo {
+  /** Stable id; aliases and `parent` refer to it. */
+  id:      string;
+  /** Latin URL segment. */
+  slug:    string;
+  /** Value of `category` on products. */
+  name:    string;
+  /** Display labels by language; `uk` is what the UI shows. */
+  labels:  { uk: string } & Record<string, string>;
+  /** lucide icon name, e.g. "glass-water". */
+  icon:    string;
+  color:   CategoryColor;
+  /** Parent category id; null for a top-level category. */
+  parent:  string | null;
+  /** Added automatically for a newly scraped name — labels need review. */
+  auto?:   boolean;
+}
+
+export interface CategoryRegistry {
+  /** In display order; children follow their parent in the sidebar. */
+  categories: CategoryInfo[];
+  /** Scraped / imported name → category id. */
+  aliases:    Record<string, string>;
+}
+
+// ---------------------------------------------------------------------------
+// Colours
+// ---------------------------------------------------------------------------
+
+/** Tailwind classes per colour, spelled out so the compiler sees them. */
+export const CATEGORY_COLORS: Record<CategoryColor, { icon: string; badge: string }> = {
+  amber:   { icon: 'text-amber-400',   badge: 'bg-amber-100   text-amber-800'   },
+  violet:  { icon: 'text-violet-400',  badge: 'bg-violet-100  text-violet-800'  },
+  yellow:  { icon: 'text-yellow-400',  badge: 'bg-yellow-100  text-yellow-800'  },
+  blue:    { icon: 'text-blue-400',    badge: 'bg-blue-100    text-blue-800'    },
+  emerald: { icon: 'text-emerald-400', badge: 'bg-emerald-100 text-emerald-800' },
+  rose:    { icon: 'text-rose-400',    badge: 'bg-rose-100    text-rose-800'    },
+  teal:    { icon: 'text-teal-400',    badge: 'bg-teal-100    text-teal-800'    },
+  indigo:  { icon: 'text-indigo-400',  badge: 'bg-indigo-100  text-indigo-800'  },
+  orange:  { icon: 'text-orange-400',  badge: 'bg-orange-100  text-orange-800'  },
+  slate:   { icon: 'text-slate-500',   badge: 'bg-slate-100   text-slate-700'   },
+};
+
+const PALETTE = Object.keys(CATEGORY_COLORS).filter(c => c !== 'slate') as CategoryColor[];
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+export const CATEGORY_REGISTRY = rawRegistry as CategoryRegistry;
+
+/**
+ * The registry entry for a product's `category`; names not in the registry
+ * (data older than the registry, hand-edited files) get a neutral stub so
+ * they still render.
+ */
+export function getCategory(name: string, registry: CategoryRegistry = CATEGORY_REGISTRY): CategoryInfo {
+  return registry.categories.find(c => c.name === name) ?? {
+    id: slugify(name), slug: slugify(name), name, labels: { uk: name }, icon: 'tag', color: 'slate', parent: null,
+  };
+}
+
+/** Registry entry for a scraped or imported name: canonical name, then alias. */
+export function findCategory(raw: string, registry: CategoryRegistry = CATEGORY_REGISTRY): CategoryInfo | undefined {
+  const name = raw.trim();
+  const byName = registry.categories.find(c => c.name === name);
+  if (byName) return byName;
+  const id = registry.aliases[name];
+  return id ? registry.categories.find(c => c.id === id) : undefined;
+}
+
+export function categoryLabel(name: string, registry: CategoryRegistry = CATEGORY_REGISTRY): string {
+  return getCategory(name, registry).labels.uk;
+}
+
+/** `name` and the names of all its descendants — what selecting it shows. */
+export function categoryScope(name: string, registry: CategoryRegistry = CATEGORY_REGISTRY): Set<string> {
+  const root = registry.categories.find(c => c.name === name);
+  const scope = new Set([name]);
+  if (!root) return scope;
+  const ids = new Set([root.id]);
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const c of registry.categories) {
+      if (c.parent && ids.has(c.parent) && !ids.has(c.id)) {
+        ids.add(c.id);
+        scope.add(c.name);
+        grew = true;
+      }
+    }
+  }
+  return scope;
+}
+
+/**
+ * Display order: registry order with children right after their parent
+ * (depth for indenting), then names present in `extra` (e.g. catalogue
+ * counts) that the registry does not know, alphabetically.
+ */
+export function orderedCategories(
+  extra: string[] = [],
+  registry: CategoryRegistry = CATEGORY_REGISTRY,
+): { category: CategoryInfo; depth: number }[] {
+  const out: { category: CategoryInfo; depth: number }[] = [];
+  const known = new Set(registry.categories.map(c => c.id));
+  const visit = (parent: string | null, depth: number) => {
+    for (const c of registry.categories) {
+      // Orphans (parent id not in the registry) are shown at the top level
+      const p = c.parent && known.has(c.parent) ? c.parent : null;
+      if (p !== parent) continue;
+      out.push({ category: c, depth });
+      visit(c.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  const names = new Set(registry.categories.map(c => c.name));
+  const unknown = Array.from(new Set(extra.filter(n => !names.has(n)))).sort((a, b) => a.localeCompare(b, 'uk'));
+  for (const n of unknown) out.push({ category: getCategory(n, registry), depth: 0 });
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Registration
+// ---------------------------------------------------------------------------
+
+const TRANSLIT: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'h', ґ: 'g', д: 'd', е: 'e', є: 'ie', ж: 'zh', з: 'z', и: 'y', і: 'i',
+  ї: 'i', й: 'i', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u',
+  ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ь: '', ю: 'iu', я: 'ia', ы: 'y', э: 'e',
+  ё: 'io', ъ: '', "'": '', 'ʼ': '', '’': '',
+};
+
+/** "Міні-бари" → "mini-bary" (Ukrainian national transliteration, simplified). */
+export function slugify(name: string): string {
+  const latin = Array.from(name.toLowerCase()).map(ch => TRANSLIT[ch] ?? ch).join('');
+  return latin.replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'category';
+}
+
+/**
+ * Resolves a scraped name to its registry entry, appending a new `auto`
+ * category named after it when none matches. Returns a new registry only
+ * when something was added.
+ */
+export function registerCategory(
+  registry: CategoryRegistry,
+  raw: string,
+): { category: CategoryInfo; registry: CategoryRegistry; added: boolean } {
+  const found = findCategory(raw, registry);
+  if (found) return { category: found, registry, added: false };
+
+  const name = raw.trim();
+  const ids  = new Set(registry.categories.map(c => c.id));
+  const base = slugify(name);
+  let id = base;
+  for (let n = 2; ids.has(id); n++) id = `${base}-${n}`;
+
+  const used  = new Set(registry.categories.map(c => c.color));
+  const color = PALETTE.find(c => !used.has(c)) ?? PALETTE[registry.categories.length % PALETTE.length];
+  const category: CategoryInfo = {
+    id, slug: id, name, labels: { uk: name }, icon: 'tag', color, parent: null, auto: true,
+  };
+  return {
+    category,
+    registry: { categories: [...registry.categories, category], aliases: registry.aliases },
+    added: true,
+  };
+}
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calculateGiftScore, getScoringProfile, withRatingPrior, DEFAULT_PROFILE, DEFAULT_PRIOR_STRENGTH,
+  type GiftScoreInput,
+} from './engine';
+
+const item = (over: Partial<GiftScoreInput> = {}): GiftScoreInput => ({
+  stars: 5, daysSinceAdded: 30, reviews: 2, maxReviews: 800, price: 400, priorStars: 4.2, ...over,
+});
+
+const credible = getScoringProfile('credible');
+const close = (a: number, b: number) => assert.ok(Math.abs(a - b) < 1e-9, `${a} ≠ ${b}`);
+
+test('the prior shrinks thin ratings towards the mean', () => {
+  // (2 × 5 + 10 × 4.2) / (2 + 10)
+  const thin = calculateGiftScore(item(), credible);
+  close(thin.adjustedStars, 52 / 12);
+  close(thin.R, (52 / 12) / 5 * 10);
+  close(thin.confidence, 2 / 12);
+
+  // Many reviews: the item's own stars win
+  const solid = calculateGiftScore(item({ stars: 4.7, reviews: 800 }), credible);
+  close(solid.adjustedStars, (800 * 4.7 + 10 * 4.2) / 810);
+
+  // So 5.0★ from 2 reviews no longer beats 4.7★ from 800 on rating
+  assert.ok(thin.R < solid.R);
+});
+
+test('without a prior, or without a mean, the stars are used as they are', () => {
+  const raw = calculateGiftScore(item(), DEFAULT_PROFILE);
+  assert.equal(raw.adjustedStars, 5);
+  assert.equal(raw.R, 10);
+  // Confidence is still reported, against the default strength
+  close(raw.confidence, 2 / (2 + DEFAULT_PRIOR_STRENGTH));
+
+  assert.equal(calculateGiftScore(item({ priorStars: undefined }), credible).adjustedStars, 5);
+});
+
+test('a stronger prior pulls harder; the mean is clamped to the star scale', () => {
+  const m50 = calculateGiftScore(item(), withRatingPrior(credible, { strength: 50 }));
+  close(m50.adjustedStars, (2 * 5 + 50 * 4.2) / 52);
+  close(m50.confidence, 2 / 52);
+  close(calculateGiftScore(item({ reviews: 0, priorStars: 7 }), credible).adjustedStars, 5);
+});
+
+test('withRatingPrior overrides only what is given', () => {
+  assert.equal(withRatingPrior(credible, {}), credible);
+  const p = withRatingPrior(DEFAULT_PROFILE, { strength: 20 });
+  assert.equal(p.id, DEFAULT_PROFILE.id);
+  assert.deepEqual(p.ratingPrior, { strength: 20, mean: DEFAULT_PROFILE.ratingPrior.mean });
+  assert.deepEqual(withRatingPrior(credible, { mean: 'global' }).ratingPrior, { strength: credible.ratingPrior.strength, mean: 'global' });
+});
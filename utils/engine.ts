@@ -9,13 +9,28 @@
 //
 //   Score = (R×0.4 + N×0.35 + Pop×0.25) / log₂(price)
 //
+// The weights, the 180-day decay constant, the log₂ price divisor and the
+// log-scale popularity normalisation above are those of the default
+// "balanced" scoring profile. Every call accepts an optional
+// {@link ScoringProfile} that swaps any of them out.
+//
+// Credibility-weighted rating: a profile with a rating prior of strength
+// m > 0 replaces stars in R with the Bayesian average
+//
+//   stars̃ = (reviews × stars + m × prior) / (reviews + m)
+//
+// where prior is the category or catalogue mean rating (passed in as
+// `priorStars`), so 5.0★ from 2 reviews no longer beats 4.7★ from 800.
+// The rating's confidence, reviews / (reviews + m), is reported either way
+// (against DEFAULT_PRIOR_STRENGTH for profiles that keep the raw stars).
+//
 // Edge-case rules applied before any calculation:
 //   • stars          → clamped to [0, 5]
 //   • daysSinceAdded → clamped to ≥ 0   (future dates become 0)
 //   • reviews        → clamped to ≥ 0
 //   • maxReviews ≤ 0 → Pop = 0          (no reference scale yet)
 //   • price < 1      → treated as 1     (log₂ of fractions goes negative)
-//   • log₂(price)= 0 → raw score returned as-is (no divisor applied)
+//   • divisor ≤ 0    → raw score returned as-is (log₂(1) = 0 → no divisor)
 // ---------------------------------------------------------------------------
 
 // ---------------------------------------------------------------------------
@@ -37,21 +52,182 @@ export interface GiftScoreInput {
   maxReviews: number;
   /** Item price in UAH. Values below 1 are treated as 1. */
   price: number;
+  /**
+   * Mean rating the stars shrink towards (category or catalogue mean, see
+   * {@link RatingPrior}). Without it the rating is not adjusted.
+   */
+  priorStars?: number;
 }
 
 export interface ScoreComponents {
-  /** Rating component:    (stars / 5) × 10 */
+  /** Rating component:    (adjustedStars / 5) × 10 */
   R: number;
-  /** Newness component:   10 × exp(−days / 180) */
+  /** Stars R is computed from: the Bayesian average, or the clamped stars */
+  adjustedStars: number;
+  /** Credibility of the rating, reviews / (reviews + m), in [0, 1) */
+  confidence: number;
+  /** Newness component:   10 × exp(−days / decayDays) */
   N: number;
-  /** Popularity component: normalised log-review score × 10 */
+  /** Popularity component: normalised review score × 10 */
   Pop: number;
-  /** Weighted sum before price normalisation: R×0.4 + N×0.35 + Pop×0.25 */
+  /** Weighted sum before price normalisation: R×wR + N×wN + Pop×wPop */
   weighted: number;
-  /** Final composite score after dividing by log₂(price) */
+  /** Price divisor applied to `weighted` (0 when no division happened) */
+  divisor: number;
+  /** Final composite score after dividing by the price penalty */
   score: number;
 }
 
+// ---------------------------------------------------------------------------
+// Scoring profiles
+// ---------------------------------------------------------------------------
+
+/** How the price turns into a divisor. All return 0 at ₴1. */
+export type PricePenaltyKind = 'log2' | 'log10' | 'sqrt' | 'none';
+
+/** How review counts are scaled against the catalogue maximum. */
+export type PopularityNormKind = 'log' | 'sqrt' | 'linear';
+
+/** Bayesian shrinkage of the star rating towards a prior mean. */
+export interface RatingPrior {
+  /**
+   * Prior strength m, in pseudo-reviews at the mean: an item needs m real
+   * reviews before its own stars count for half. 0 = stars used as-is.
+   */
+  strength: number;
+  /** Shrink towards the item's category mean or the catalogue mean. */
+  mean: 'category' | 'global';
+}
+
+/** Strength the confidence is measured against when a profile uses raw stars. */
+export const DEFAULT_PRIOR_STRENGTH = 10;
+
+export const PRIOR_MEANS: RatingPrior['mean'][] = ['category', 'global'];
+export const PRIOR_MEAN_LABEL: Record<RatingPrior['mean'], string> = {
+  category: 'до середнього категорії',
+  global:   'до середнього каталогу',
+};
+/** Upper bound for a user-chosen prior strength (`?prior=`). */
+export const MAX_PRIOR_STRENGTH = 1000;
+
+export interface ScoringWeights {
+  R:   number;
+  N:   number;
+  Pop: number;
+}
+
+export interface ScoringProfile {
+  /** Stable identifier, safe for URLs and storage. */
+  id: string;
+  /** Human-readable name shown in the UI. */
+  label: string;
+  /** One-line explanation of what the profile favours. */
+  description: string;
+  /** Component weights; expected to sum to 1 but not enforced. */
+  weights: ScoringWeights;
+  /** e-folding constant of the newness decay, in days. Clamped to ≥ 1. */
+  decayDays: number;
+  /** Price divisor applied to the weighted sum. */
+  pricePenalty: PricePenaltyKind;
+  /** Popularity normalisation against `maxReviews`. */
+  popularityNorm: PopularityNormKind;
+  /** Credibility-weighted rating; strength 0 keeps the raw stars. */
+  ratingPrior: RatingPrior;
+}
+
+/**
+ * Price divisors keyed by {@link PricePenaltyKind}. Input is already ≥ 1.
+ * `sqrt` is shifted down by 1 so that every kind returns 0 at ₴1.
+ */
+export const PRICE_PENALTIES: Record<PricePenaltyKind, (price: number) => number> = {
+  log2:  p => Math.log2(p),
+  log10: p => Math.log10(p),
+  sqrt:  p => Math.sqrt(p) - 1,
+  none:  () => 0,
+};
+
+/** Popularity scalers keyed by {@link PopularityNormKind}; result in [0, 1]. */
+export const POPULARITY_NORMS: Record<PopularityNormKind, (reviews: number, max: number) => number> = {
+  log:    (r, m) => Math.log10(r + 1) / Math.log10(m + 1),
+  sqrt:   (r, m) => Math.sqrt(r) / Math.sqrt(m),
+  linear: (r, m) => r / m,
+};
+
+export const SCORING_PROFILES: readonly ScoringProfile[] = [
+  {
+    id:             'balanced',
+    label:          'Збалансований',
+    description:    'Рейтинг, новизна та відгуки — стандартна формула',
+    weights:        { R: 0.4, N: 0.35, Pop: 0.25 },
+    decayDays:      180,
+    pricePenalty:   'log2',
+    popularityNorm: 'log',
+    ratingPrior:    { strength: 0, mean: 'global' },
+  },
+  {
+    id:             'popular',
+    label:          'Популярність',
+    description:    'Перевірені хіти для корпоративних замовлень',
+    weights:        { R: 0.3, N: 0.1, Pop: 0.6 },
+    decayDays:      365,
+    pricePenalty:   'log2',
+    popularityNorm: 'sqrt',
+    ratingPrior:    { strength: 0, mean: 'global' },
+  },
+  {
+    id:             'trending',
+    label:          'Новинки',
+    description:    'Свіжі надходження, швидке згасання новизни',
+    weights:        { R: 0.25, N: 0.6, Pop: 0.15 },
+    decayDays:      60,
+    pricePenalty:   'log2',
+    popularityNorm: 'log',
+    ratingPrior:    { strength: 0, mean: 'global' },
+  },
+  {
+    id:             'budget',
+    label:          'Економ',
+    description:    'Сильніший штраф за ціну',
+    weights:        { R: 0.4, N: 0.35, Pop: 0.25 },
+    decayDays:      180,
+    pricePenalty:   'sqrt',
+    popularityNorm: 'log',
+    ratingPrior:    { strength: 0, mean: 'global' },
+  },
+  {
+    id:             'credible',
+    label:          'Надійні оцінки',
+    description:    'Рейтинг зважено на кількість відгуків (байєсове середнє категорії)',
+    weights:        { R: 0.4, N: 0.35, Pop: 0.25 },
+    decayDays:      180,
+    pricePenalty:   'log2',
+    popularityNorm: 'log',
+    ratingPrior:    { strength: DEFAULT_PRIOR_STRENGTH, mean: 'category' },
+  },
+];
+
+export const DEFAULT_PROFILE: ScoringProfile = SCORING_PROFILES[0];
+
+/** Looks up a built-in profile by id, falling back to {@link DEFAULT_PROFILE}. */
+export function getScoringProfile(id: string | null | undefined): ScoringProfile {
+  return SCORING_PROFILES.find(p => p.id === id) ?? DEFAULT_PROFILE;
+}
+
+/**
+ * `profile` with its rating prior overridden (`?prior=&priorMean=`); fields
+ * left undefined keep the profile's own. The id stays the same.
+ */
+export function withRatingPrior(profile: ScoringProfile, prior: Partial<RatingPrior>): ScoringProfile {
+  if (prior.strength === undefined && prior.mean === undefined) return profile;
+  return {
+    ...profile,
+    ratingPrior: {
+      strength: prior.strength ?? profile.ratingPrior.strength,
+      mean:     prior.mean     ?? profile.ratingPrior.mean,
+    },
+  };
+}
+
 // ---------------------------------------------------------------------------
 // calculateGiftScore
 // ---------------------------------------------------------------------------
@@ -62,6 +238,9 @@ export interface ScoreComponents {
  * Returns all intermediate components alongside the final score so callers
  * can display breakdowns or debug the formula.
  *
+ * @param profile - Weights, decay and normalisation to use; defaults to the
+ *                  "balanced" profile that reproduces the original formula.
+ *
  * @example
  * const result = calculateGiftScore({
  *   stars: 4.5, daysSinceAdded: 30, reviews: 120,
@@ -69,7 +248,10 @@ export interface ScoreComponents {
  * });
  * // result.score ≈ 1.08
  */
-export function calculateGiftScore(item: GiftScoreInput): ScoreComponents {
+export function calculateGiftScore(
+  item: GiftScoreInput,
+  profile: ScoringProfile = DEFAULT_PROFILE,
+): ScoreComponents {
   // ── Sanitise inputs ──────────────────────────────────────────────────────
 
   // Stars must stay within the defined scale.
@@ -87,33 +269,46 @@ export function calculateGiftScore(item: GiftScoreInput): ScoreComponents {
   const safePrice = Math.max(item.price, 1);
 
   // ── Component R — Rating ─────────────────────────────────────────────────
-  const R = (stars / 5) * 10;
+  // Bayesian average: `m` pseudo-reviews at the prior mean pull thinly
+  // reviewed items towards it; with many reviews the item's own stars win.
+  const m = Math.max(profile.ratingPrior.strength, 0);
+  const adjustedStars =
+    m > 0 && item.priorStars !== undefined
+      ? (reviews * stars + m * Math.min(Math.max(item.priorStars, 0), 5)) / (reviews + m)
+      : stars;
+  const confidence = reviews / (reviews + (m > 0 ? m : DEFAULT_PRIOR_STRENGTH));
+  const R = (adjustedStars / 5) * 10;
 
   // ── Component N — Newness (exponential decay) ─────────────────────────────
-  // Approaches 10 when brand new, decays toward 0 over ~18 months.
-  const N = 10 * Math.exp(-days / 180);
+  // Approaches 10 when brand new; with the default 180 days it decays toward
+  // 0 over ~18 months.
+  const decayDays = Math.max(profile.decayDays, 1);
+  const N = 10 * Math.exp(-days / decayDays);
 
   // ── Component Pop — Popularity ────────────────────────────────────────────
-  // Log-scale prevents a single mega-popular item from dominating linearly.
+  // Log-scale (default) prevents a single mega-popular item from dominating
+  // linearly. The ratio is capped at 1 in case maxReviews is stale.
   // Guard: if maxReviews = 0 there is no reference yet, so popularity = 0.
   const Pop =
     maxReviews <= 0
       ? 0
-      : (Math.log10(reviews + 1) / Math.log10(maxReviews + 1)) * 10;
+      : Math.min(POPULARITY_NORMS[profile.popularityNorm](reviews, maxReviews), 1) * 10;
 
   // ── Weighted sum ──────────────────────────────────────────────────────────
-  const weighted = R * 0.4 + N * 0.35 + Pop * 0.25;
+  const { weights } = profile;
+  const weighted = R * weights.R + N * weights.N + Pop * weights.Pop;
 
   // ── Price normalisation ───────────────────────────────────────────────────
   // log₂(price) makes the penalty grow slowly so a ₴1000 item isn't
   // penalised 10× as hard as a ₴100 item.
   //
-  // Special case: log₂(1) = 0 → skip the division and return the raw
-  // weighted score, treating ₴1 items as having no price penalty.
-  const logPrice = Math.log2(safePrice);
-  const score    = logPrice === 0 ? weighted : weighted / logPrice;
+  // Special case: a divisor ≤ 0 (log₂(1) = 0, or the "none" penalty) →
+  // skip the division and return the raw weighted score.
+  const rawDivisor = PRICE_PENALTIES[profile.pricePenalty](safePrice);
+  const divisor    = rawDivisor > 0 ? rawDivisor : 0;
+  const score      = divisor === 0 ? weighted : weighted / divisor;
 
-  return { R, N, Pop, weighted, score };
+  return { R, adjustedStars, confidence, N, Pop, weighted, divisor, score };
 }
 
 // ---------------------------------------------------------------------------
@@ -156,9 +351,28 @@ export interface GiftEvaluation extends ScoreComponents {
  * Runs both {@link calculateGiftScore} and {@link calculateValue} and merges
  * the results into a single object.
  */
-export function evaluateGift(item: GiftScoreInput): GiftEvaluation {
-  const components = calculateGiftScore(item);
+export function evaluateGift(
+  item: GiftScoreInput,
+  profile: ScoringProfile = DEFAULT_PROFILE,
+): GiftEvaluation {
+  const components = calculateGiftScore(item, profile);
   const effectivePrice = Math.max(item.price, 1);
   const value = calculateValue(components.score, effectivePrice);
   return { ...components, value, effectivePrice };
 }
+
+// ---------------------------------------------------------------------------
+// Listing score: what the catalogue ranks by
+// ---------------------------------------------------------------------------
+
+/**
+ * Score and value a listing is ranked and shown with. Fallback benefit: if
+ * the score rounds to 0 (price 0 or no data) use 10 % of the price.
+ *
+ * @param evaluation - Output of {@link evaluateGift}
+ * @param price      - Listed price in UAH (value is 0 when price ≤ 0)
+ */
+export function listingScore(evaluation: GiftEvaluation, price: number): { score: number; value: number } {
+  const score = evaluation.score > 0 ? evaluation.score : (price > 0 ? price * 0.10 : 0);
+  return { score, value: calculateValue(score, price) };
+}
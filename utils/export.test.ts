@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { parseCsv, parseXlsx } from '../scripts/lib/spreadsheet';
+import { scoredRows, setCatalogRepository, type Row } from './catalog';
+import { DEFAULT_PROFILE } from './engine';
+import { exportFileName, exportRows, toCsv, toJson } from './export';
+import { openRepository } from './store';
+import { writeXlsx } from './xlsx';
+
+setCatalogRepository(openRepository({ dataDir: path.resolve(__dirname, '../data'), kind: 'json' }));
+const rows: Row[] = scoredRows(DEFAULT_PROFILE).slice(0, 3);
+
+test('CSV opens in Excel: BOM, CRLF, one line per row', () => {
+  const csv = toCsv(rows);
+  assert.ok(csv.startsWith('\uFEFF#,ID,Назва,'));
+  assert.ok(csv.endsWith('\r\n'));
+  const grid = parseCsv(csv);
+  assert.equal(grid.filter(r => r.some(Boolean)).length, 1 + rows.length);
+  assert.deepEqual(grid[1].slice(0, 3), ['1', String(rows[0].id), rows[0].name]);
+});
+
+test('CSV quotes delimiters and defuses formulas', () => {
+  const csv = toCsv([{ ...rows[0], name: '=HYPERLINK("x"), 1' }]);
+  assert.ok(csv.includes(`,"'=HYPERLINK(""x""), 1",`));
+  assert.equal(parseCsv(csv)[1][2], `'=HYPERLINK("x"), 1`);
+});
+
+test('JSON ranks the rows and leaves out empty fields', () => {
+  const items = JSON.parse(toJson([{ ...rows[0], prevPrice: undefined, flags: [] }]));
+  assert.equal(items[0].rank, 1);
+  assert.equal(items[0].score, rows[0].score);
+  assert.ok(!('prevPrice' in items[0]));
+  assert.ok(!('flags' in items[0]));
+});
+
+test('the XLSX reads back with the same cells', () => {
+  const file = exportRows(rows, 'xlsx');
+  assert.equal(file.extension, 'xlsx');
+  const grid = parseXlsx(file.body);
+  assert.equal(grid.length, 1 + rows.length);
+  assert.deepEqual(grid[0].slice(0, 3), ['#', 'ID', 'Назва']);
+  assert.deepEqual(grid.map(r => r[2]).slice(1), rows.map(r => r.name));
+});
+
+test('writeXlsx types its cells and skips empty ones', () => {
+  const grid = parseXlsx(writeXlsx('Лист [1]', [{ header: 'a' }, { header: 'b', numFmt: '0.00' }, { header: 'c' }], [
+    ['<&>', 1.5, true],
+    [null, undefined, 'x'],
+  ]));
+  assert.deepEqual(grid, [['a', 'b', 'c'], ['<&>', '1.5', 'TRUE'], ['', '', 'x']]);
+});
+
+test('export files are named by date', () => {
+  assert.equal(exportFileName('csv', new Date('2026-10-18T12:00:00Z')), 'gifts-2026-10-18.csv');
+});
@@ -0,0 +1,127 @@
+// ---------------------------------------------------------------------------
+// Table export — CSV / XLSX / JSON
+//
+// Serialises catalogue rows (queryCatalog() output, so already filtered and
+// sorted like the table) with the computed score, value, popRating and the
+// R / N / Pop components. Used by /api/export and scripts/export.ts.
+// ---------------------------------------------------------------------------
+
+import type { Row } from './catalog';
+import { getShop } from './shops';
+import { writeXlsx, XLSX_MIME, type XlsxCell } from './xlsx';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ExportFile {
+  body:        Buffer;
+  contentType: string;
+  extension:   ExportFormat;
+}
+
+interface ExportColumn {
+  key:     string;          // JSON field name
+  header:  string;          // CSV / XLSX heading
+  get:     (r: Row) => string | number | boolean | undefined;
+  numFmt?: string;
+  width?:  number;
+}
+
+// ---------------------------------------------------------------------------
+// Columns
+// ---------------------------------------------------------------------------
+
+const UAH  = '#,##0 "₴"';
+const F3   = '0.000';
+const F4   = '0.0000';
+
+const COLUMNS: ExportColumn[] = [
+  { key: 'rank',            header: '#',                 get: () => undefined, width: 5 },
+  { key: 'id',              header: 'ID',                get: r => r.id, width: 6 },
+  { key: 'name',            header: 'Назва',             get: r => r.name, width: 40 },
+  { key: 'category',        header: 'Категорія',         get: r => r.category, width: 14 },
+  { key: 'shop',            header: 'Магазин',           get: r => getShop(r.shop).name, width: 14 },
+  { key: 'price',           header: 'Ціна',              get: r => r.price, numFmt: UAH },
+  { key: 'prevPrice',       header: 'Попередня ціна',    get: r => r.prevPrice, numFmt: UAH },
+  { key: 'priceDrop',       header: 'Падіння ціни, %',   get: r => r.priceDrop, numFmt: '0.0' },
+  { key: 'stock',           header: 'В наявності',       get: r => r.stock },
+  { key: 'personalization', header: 'Персоналізація',    get: r => r.personalization },
+  { key: 'stars',           header: 'Зірки',             get: r => r.stars, numFmt: '0.0' },
+  { key: 'reviews',         header: 'Відгуки',           get: r => r.reviews },
+  { key: 'daysSinceAdded',  header: 'Днів на сайті',     get: r => r.daysSinceAdded },
+  { key: 'firstSeenAt',     header: 'Вперше помічено',   get: r => r.firstSeenAt.slice(0, 10), width: 12 },
+  { key: 'googleResults',   header: 'Google результати', get: r => r.googleResults, numFmt: '#,##0', width: 14 },
+  { key: 'googleSource',    header: 'Джерело Google',    get: r => r.googleSource ?? 'placeholder' },
+  { key: 'popRating',       header: 'Популярність ★',    get: r => r.popRating, numFmt: '0.00' },
+  { key: 'adjustedStars',   header: 'Зірки (скориг.)',   get: r => r.evaluation.adjustedStars, numFmt: '0.00' },
+  { key: 'confidence',      header: 'Довіра до рейтингу', get: r => r.evaluation.confidence, numFmt: '0%' },
+  { key: 'R',               header: 'R',                 get: r => r.evaluation.R, numFmt: F3 },
+  { key: 'N',               header: 'N',                 get: r => r.evaluation.N, numFmt: F3 },
+  { key: 'Pop',             header: 'Pop',               get: r => r.evaluation.Pop, numFmt: F3 },
+  { key: 'score',           header: 'Бал',               get: r => r.score, numFmt: F3 },
+  { key: 'value',           header: 'Вигода',            get: r => r.value, numFmt: F4 },
+  { key: 'offerCount',      header: 'Пропозицій',        get: r => r.offerCount },
+  { key: 'flags',           header: 'Підозріло',         get: r => r.flags.map(f => f.reason).join('; ') || undefined, width: 40 },
+  { key: 'url',             header: 'URL',               get: r => r.url, width: 50 },
+];
+
+/** Column values for one row; `rank` is the 1-based position in the export. */
+function values(r: Row, rank: number): (string | number | boolean | undefined)[] {
+  return COLUMNS.map(c => c.key === 'rank' ? rank : c.get(r));
+}
+
+// ---------------------------------------------------------------------------
+// Writers
+// ---------------------------------------------------------------------------
+
+// RFC 4180 quoting; a leading =, +, - or @ is prefixed with ' so
+// spreadsheet apps do not evaluate scraped names as formulas.
+function csvField(v: string | number | boolean | undefined): string {
+  if (v === undefined) return '';
+  if (typeof v === 'boolean') return v ? 'так' : 'ні';
+  if (typeof v === 'number')  return Number.isInteger(v) ? String(v) : String(Number(v.toFixed(6)));
+  const s = /^[=+\-@]/.test(v) ? `'${v}` : v;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** CSV with a UTF-8 BOM and CRLF line ends — Excel then reads Cyrillic correctly. */
+export function toCsv(rows: Row[]): string {
+  const lines = [
+    COLUMNS.map(c => csvField(c.header)).join(','),
+    ...rows.map((r, i) => values(r, i + 1).map(csvField).join(',')),
+  ];
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+export function toJson(rows: Row[]): string {
+  const items = rows.map((r, i) => {
+    const vals = values(r, i + 1);
+    return Object.fromEntries(COLUMNS.flatMap((c, ci) => vals[ci] === undefined ? [] : [[c.key, vals[ci]]]));
+  });
+  return JSON.stringify(items, null, 2) + '\n';
+}
+
+export function toXlsx(rows: Row[]): Buffer {
+  return writeXlsx(
+    'Подарунки',
+    COLUMNS.map(c => ({ header: c.header, numFmt: c.numFmt, width: c.width })),
+    rows.map((r, i) => values(r, i + 1) as XlsxCell[]),
+  );
+}
+
+export function exportRows(rows: Row[], format: ExportFormat): ExportFile {
+  switch (format) {
+    case 'csv':  return { body: Buffer.from(toCsv(rows), 'utf-8'), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+    case 'json': return { body: Buffer.from(toJson(rows), 'utf-8'), contentType: 'application/json; charset=utf-8', extension: 'json' };
+    case 'xlsx': return { body: toXlsx(rows), contentType: XLSX_MIME, extension: 'xlsx' };
+  }
+}
+
+/** `gifts-2026-10-18.csv` */
+export function exportFileName(format: ExportFormat, date = new Date()): string {
+  return `gifts-${date.toISOString().slice(0, 10)}.${format}`;
+}
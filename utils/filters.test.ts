@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  clearFilter, describeFilters, filtersToParams, matchesFilters, parseFilters, popRating, NO_FILTERS,
+  type FilterableGift,
+} from './filters';
+
+const gift = (over: Partial<FilterableGift> = {}): FilterableGift => ({
+  price: 500, stock: true, personalization: false, stars: 4.5, daysSinceAdded: 10, reviews: 12, googleResults: 10_000, ...over,
+});
+
+test('no filters match every gift', () => {
+  assert.ok(matchesFilters(gift({ stock: false, stars: 0, reviews: 0, googleResults: 0 }), NO_FILTERS));
+});
+
+test('each filter narrows on its own field, bounds inclusive', () => {
+  const f = (over: object) => ({ ...NO_FILTERS, ...over });
+  assert.ok(matchesFilters(gift(), f({ minPrice: 500, maxPrice: 500 })));
+  assert.ok(!matchesFilters(gift(), f({ minPrice: 501 })));
+  assert.ok(!matchesFilters(gift(), f({ maxPrice: 499 })));
+  assert.ok(!matchesFilters(gift({ stock: false }), f({ inStock: true })));
+  assert.ok(!matchesFilters(gift(), f({ personalization: true })));
+  assert.ok(matchesFilters(gift({ personalization: true }), f({ personalization: true })));
+  assert.ok(!matchesFilters(gift(), f({ minStars: 4.6 })));
+  assert.ok(!matchesFilters(gift(), f({ maxDays: 9 })));
+  assert.ok(!matchesFilters(gift(), f({ minReviews: 13 })));
+  assert.ok(matchesFilters(gift(), f({ minPop: 3 })));
+  assert.ok(!matchesFilters(gift(), f({ minPop: 3.1 })));
+});
+
+test('popRating is log10(results) − 1, clamped to 0–5', () => {
+  assert.equal(popRating(0), 0);
+  assert.equal(popRating(5), 0);
+  assert.equal(popRating(100), 1);
+  assert.equal(popRating(10_000), 3);
+  assert.equal(popRating(1e9), 5);
+});
+
+test('parseFilters lists malformed numbers instead of guessing', () => {
+  const qs = new URLSearchParams('minPrice=100&maxPrice=abc&minStars=&inStock=1&personalization=0');
+  const { filters, invalid } = parseFilters(k => qs.get(k));
+  assert.deepEqual(filters, { inStock: true, personalization: false, minPrice: 100 });
+  assert.deepEqual(invalid, ['maxPrice']);
+});
+
+test('filters survive a round trip through the query string', () => {
+  const f = { ...NO_FILTERS, minPrice: 100, maxDays: 30, personalization: true };
+  const qs = filtersToParams(f, new URLSearchParams());
+  assert.equal(qs.toString(), 'minPrice=100&maxDays=30&personalization=1');
+  assert.deepEqual(parseFilters(k => qs.get(k)).filters, f);
+});
+
+test('chips describe the active filters and clear one at a time', () => {
+  const f = { ...NO_FILTERS, maxPrice: 1500, inStock: true };
+  assert.deepEqual(describeFilters(f).map(c => c.key), ['maxPrice', 'inStock']);
+  assert.deepEqual(clearFilter(f, 'maxPrice'), { ...NO_FILTERS, inStock: true });
+  assert.deepEqual(clearFilter(f, 'inStock'), { ...NO_FILTERS, maxPrice: 1500 });
+  assert.deepEqual(describeFilters(NO_FILTERS), []);
+});
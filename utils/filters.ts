@@ -0,0 +1,139 @@
+// ---------------------------------------------------------------------------
+// Gift filters
+//
+// One predicate for every place that narrows the catalogue: /api/gifts
+// (utils/catalog.ts), the table view in the URL (utils/view-state.ts) and
+// the filter panel. Query-string keys are the same everywhere:
+//
+//   minPrice, maxPrice   price range, ₴ (inclusive)
+//   inStock=1            in-stock only
+//   personalization=1    personalisable only
+//   minStars             rating ≥ (0–5)
+//   maxDays              daysSinceAdded ≤
+//   minReviews           reviews ≥
+//   minPop               Google popularity rating ≥ (0–5, see popRating)
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface GiftFilters {
+  minPrice?:       number;
+  maxPrice?:       number;
+  inStock:         boolean;
+  personalization: boolean;
+  minStars?:       number;
+  maxDays?:        number;
+  minReviews?:     number;
+  minPop?:         number;
+}
+
+export type FilterKey = keyof GiftFilters;
+
+/** Fields the predicate reads — a catalogue Row fits. */
+export interface FilterableGift {
+  price:           number;
+  stock:           boolean;
+  personalization: boolean;
+  stars:           number;
+  daysSinceAdded:  number;
+  reviews:         number;
+  googleResults:   number;
+}
+
+export const NO_FILTERS: GiftFilters = { inStock: false, personalization: false };
+
+const NUMERIC_KEYS = ['minPrice', 'maxPrice', 'minStars', 'maxDays', 'minReviews', 'minPop'] as const;
+const BOOLEAN_KEYS = ['inStock', 'personalization'] as const;
+
+// ---------------------------------------------------------------------------
+// Predicate
+// ---------------------------------------------------------------------------
+
+// Popularity: log10(googleResults) - 1, clamped [0, 5]
+// Scale: 100 → 1★ | 10 000 → 3★ | 1 000 000 → 5★
+export function popRating(googleResults: number): number {
+  if (!googleResults || googleResults <= 0) return 0;
+  return Math.min(5, Math.max(0, Math.log10(googleResults) - 1));
+}
+
+export function matchesFilters(g: FilterableGift, f: GiftFilters): boolean {
+  return (f.minPrice   === undefined || g.price >= f.minPrice) &&
+         (f.maxPrice   === undefined || g.price <= f.maxPrice) &&
+         (!f.inStock         || g.stock) &&
+         (!f.personalization || g.personalization) &&
+         (f.minStars   === undefined || g.stars >= f.minStars) &&
+         (f.maxDays    === undefined || g.daysSinceAdded <= f.maxDays) &&
+         (f.minReviews === undefined || g.reviews >= f.minReviews) &&
+         (f.minPop     === undefined || popRating(g.googleResults) >= f.minPop);
+}
+
+// ---------------------------------------------------------------------------
+// Query string
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads filters through `get`. Malformed numbers are left out of `filters`
+ * and their keys listed in `invalid`, so the API can reject them while the
+ * page just ignores them.
+ */
+export function parseFilters(get: (key: string) => string | null | undefined): {
+  filters: GiftFilters;
+  invalid: FilterKey[];
+} {
+  const filters: GiftFilters = { ...NO_FILTERS };
+  const invalid: FilterKey[] = [];
+  for (const key of NUMERIC_KEYS) {
+    const raw = get(key);
+    if (raw === null || raw === undefined || raw === '') continue;
+    const n = Number(raw);
+    if (Number.isFinite(n)) filters[key] = n;
+    else invalid.push(key);
+  }
+  for (const key of BOOLEAN_KEYS) {
+    const raw = get(key);
+    filters[key] = raw === '1' || raw === 'true';
+  }
+  return { filters, invalid };
+}
+
+/** Writes the active filters into `qs` (inactive ones are left out). */
+export function filtersToParams(f: GiftFilters, qs: URLSearchParams): URLSearchParams {
+  for (const key of NUMERIC_KEYS) if (f[key] !== undefined) qs.set(key, String(f[key]));
+  for (const key of BOOLEAN_KEYS) if (f[key]) qs.set(key, '1');
+  return qs;
+}
+
+// ---------------------------------------------------------------------------
+// Chips
+// ---------------------------------------------------------------------------
+
+export interface FilterChip {
+  key:   FilterKey;
+  label: string;
+}
+
+const uah = (n: number) => `₴${n.toLocaleString('uk-UA')}`;
+
+/** Human-readable list of active filters, in panel order. */
+export function describeFilters(f: GiftFilters): FilterChip[] {
+  const chips: FilterChip[] = [];
+  if (f.minPrice   !== undefined) chips.push({ key: 'minPrice',   label: `від ${uah(f.minPrice)}` });
+  if (f.maxPrice   !== undefined) chips.push({ key: 'maxPrice',   label: `до ${uah(f.maxPrice)}` });
+  if (f.inStock)                  chips.push({ key: 'inStock',    label: 'в наявності' });
+  if (f.personalization)          chips.push({ key: 'personalization', label: 'персоналізація' });
+  if (f.minStars   !== undefined) chips.push({ key: 'minStars',   label: `★ ≥ ${f.minStars}` });
+  if (f.maxDays    !== undefined) chips.push({ key: 'maxDays',    label: `новіші за ${f.maxDays} дн.` });
+  if (f.minReviews !== undefined) chips.push({ key: 'minReviews', label: `відгуків ≥ ${f.minReviews}` });
+  if (f.minPop     !== undefined) chips.push({ key: 'minPop',     label: `популярність ≥ ${f.minPop}★` });
+  return chips;
+}
+
+/** `f` with one filter switched off. */
+export function clearFilter(f: GiftFilters, key: FilterKey): GiftFilters {
+  const next = { ...f };
+  if (key === 'inStock' || key === 'personalization') next[key] = false;
+  else delete next[key];
+  return next;
+}
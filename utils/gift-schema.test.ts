@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  daysSince, formatIssue, parseGifts, qualityReport, validateGifts, GiftSchemaError, DEFAULT_STARS,
+  type GiftData,
+} from './gift-schema';
+
+const gift = (id: number, over: Partial<GiftData> = {}): GiftData => ({
+  id, shop: 'podaroktut', name: `Брелок ${id}`, category: 'Брелки', price: 200, stars: 4.8, reviews: 3,
+  firstSeenAt: '2026-09-01T00:00:00.000Z', personalization: false, stock: true,
+  googleResults: 1200, googleSource: 'enriched', url: `https://s.example/${id}`, ...over,
+});
+
+test('the shipped gifts.json is valid', () => {
+  const raw = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../data/gifts.json'), 'utf-8'));
+  assert.deepEqual(validateGifts(raw), []);
+});
+
+test('each field is checked against its rule', () => {
+  const issues = validateGifts([
+    gift(1),
+    { ...gift(2), price: -1, stars: 5.5, reviews: 1.5, firstSeenAt: '18.10.2026', stock: 'yes', googleSource: 'guess', extra: 1 },
+    { ...gift(3), name: '  ', category: undefined },
+    gift(1),
+    'not a gift',
+  ]);
+  assert.deepEqual(issues.map(i => [i.index, i.field]), [
+    [1, 'price'], [1, 'stars'], [1, 'reviews'], [1, 'firstSeenAt'], [1, 'stock'], [1, 'googleSource'], [1, 'extra'],
+    [2, 'name'], [2, 'category'],
+    [3, 'id'],
+    [4, undefined],
+  ]);
+  assert.equal(formatIssue(issues[0]), '#1 (id 2) price: must be ≥ 0, got -1');
+  assert.equal(formatIssue(issues[9]), '#3 (id 1) id: duplicate id (also at #0)');
+  assert.deepEqual(validateGifts({}), [{ index: -1, message: 'expected an array of gift records' }]);
+});
+
+test('parseGifts throws a GiftSchemaError listing the issues', () => {
+  assert.deepEqual(parseGifts([gift(1)]), [gift(1)]);
+  assert.throws(() => parseGifts([{ ...gift(1), price: 'free' }], 'x.json'), (e: unknown) =>
+    e instanceof GiftSchemaError && e.issues.length === 1 && /^x\.json: 1 schema error/.test(e.message));
+});
+
+test('daysSince counts whole days and never goes negative', () => {
+  const now = Date.parse('2026-10-18T12:00:00Z');
+  assert.equal(daysSince('2026-10-16T13:00:00Z', now), 1);
+  assert.equal(daysSince('2026-10-11', now), 7);
+  assert.equal(daysSince('2026-11-01', now), 0);
+});
+
+test('the quality report finds suspicious but valid records', () => {
+  const q = qualityReport([
+    gift(1, { price: 0 }),
+    gift(2, { stars: DEFAULT_STARS, googleSource: undefined }),
+    gift(3, { name: 'Брелок Сова' }),
+    gift(4, { name: 'брелок  сова', url: 'https://s.example/3' }),
+    gift(5, { name: 'Брелок Сова', shop: 'suvenir-opt' }),
+    gift(6, { price: 250 }), gift(7, { price: 180 }), gift(8, { price: 220 }),
+    gift(9, { price: 12_000 }),
+  ]);
+  assert.deepEqual(q.zeroPrice.map(g => g.id), [1]);
+  assert.deepEqual(q.defaultedStars.map(g => g.id), [2]);
+  assert.deepEqual(q.placeholderGoogle.map(g => g.id), [2]);
+  assert.deepEqual(q.duplicateNames.map(d => d.ids), [[3, 4]]);
+  assert.deepEqual(q.duplicateUrls.map(d => d.ids), [[3, 4]]);
+  assert.deepEqual(q.outliers.map(o => [o.id, o.median]), [[9, 200]]);
+});
@@ -0,0 +1,303 @@
+// ---------------------------------------------------------------------------
+// Gift record schema
+//
+// The single definition of a data/gifts.json record, checked at runtime by
+// everything that reads or writes the file: the catalogue (UI / API), the
+// scraper, the price-list importer and `scripts/validate.ts`.
+//
+//   validateGifts()  structural errors — wrong types, missing fields, ranges,
+//                    duplicate ids. Any error means the file is unusable.
+//   qualityReport()  data that is well-formed but suspicious — zero prices,
+//                    defaulted ratings, duplicates, placeholder popularity,
+//                    price outliers within a category.
+//
+// Pure (no fs) so it runs in the scraper and in the server bundle alike.
+// ---------------------------------------------------------------------------
+
+import { nameKey } from './matching';
+import { median } from './stats';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Where a product's googleResults number came from:
+ *   anchor      — hand-verified exact count
+ *   enriched    — fetched from a search provider by enrich-google.ts
+ *   placeholder — seeded-random stand-in, not a real number
+ */
+export type GoogleSource = 'anchor' | 'enriched' | 'placeholder';
+
+export const GOOGLE_SOURCES: readonly GoogleSource[] = ['anchor', 'enriched', 'placeholder'];
+
+export interface GiftData {
+  id:              number;
+  shop:            string;        // utils/shops.ts id
+  name:            string;
+  category:        string;
+  price:           number;
+  stars:           number;        // used by score engine; NOT shown as a column
+  reviews:         number;
+  /**
+   * ISO-8601 date the listing went up: the shop's own date when the page
+   * shows one, otherwise the first scrape that saw it. Newness
+   * (daysSinceAdded) is derived from it at scoring time — see daysSince().
+   */
+  firstSeenAt:     string;
+  personalization: boolean;
+  stock:           boolean;
+  googleResults:   number;
+  googleSource?:   GoogleSource;  // missing in older data → placeholder
+  url?:            string;
+  // From the product page (scrape.ts --details); absent for listing-only data
+  sku?:                    string;
+  description?:            string;
+  images?:                 string[];
+  personalizationOptions?: string[];
+}
+
+export interface SchemaIssue {
+  /** Position in the array; -1 for problems with the file as a whole. */
+  index:   number;
+  id?:     number;
+  field?:  string;
+  message: string;
+}
+
+/** Enough of a record to find it again in the file. */
+export interface GiftRef {
+  id:    number;
+  shop:  string;
+  name:  string;
+  price: number;
+}
+
+export interface PriceOutlier extends GiftRef {
+  category: string;
+  /** Category median price (of priced items). */
+  median:   number;
+  /** price / median */
+  ratio:    number;
+}
+
+export interface QualityReport {
+  total:             number;
+  zeroPrice:         GiftRef[];
+  defaultedStars:    GiftRef[];
+  placeholderGoogle: GiftRef[];
+  /** Same shop, same spelling-insensitive name (utils/matching nameKey). */
+  duplicateNames:    { shop: string; name: string; ids: number[] }[];
+  duplicateUrls:     { url: string; ids: number[] }[];
+  outliers:          PriceOutlier[];
+}
+
+export class GiftSchemaError extends Error {
+  constructor(readonly issues: SchemaIssue[], source = 'gifts.json') {
+    super(
+      `${source}: ${issues.length} schema error(s)\n` +
+      issues.slice(0, 10).map(i => `  ${formatIssue(i)}`).join('\n') +
+      (issues.length > 10 ? `\n  … and ${issues.length - 10} more` : ''),
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/** parseStars() fallback when a card shows no readable rating. */
+export const DEFAULT_STARS = 4.5;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+type FieldRule =
+  | { kind: 'int' | 'number'; min?: number; max?: number; optional?: boolean }
+  | { kind: 'string'; nonEmpty?: boolean; optional?: boolean }
+  | { kind: 'boolean' | 'date' | 'strings'; optional?: boolean }
+  | { kind: 'enum'; values: readonly string[]; optional?: boolean };
+
+const FIELDS: Record<keyof GiftData, FieldRule> = {
+  id:              { kind: 'int', min: 1 },
+  shop:            { kind: 'string', nonEmpty: true },
+  name:            { kind: 'string', nonEmpty: true },
+  category:        { kind: 'string', nonEmpty: true },
+  price:           { kind: 'number', min: 0 },
+  stars:           { kind: 'number', min: 0, max: 5 },
+  reviews:         { kind: 'int', min: 0 },
+  firstSeenAt:     { kind: 'date' },
+  personalization: { kind: 'boolean' },
+  stock:           { kind: 'boolean' },
+  googleResults:   { kind: 'int', min: 0 },
+  googleSource:    { kind: 'enum', values: GOOGLE_SOURCES, optional: true },
+  url:             { kind: 'string', optional: true },
+  sku:                    { kind: 'string', optional: true },
+  description:            { kind: 'string', optional: true },
+  images:                 { kind: 'strings', optional: true },
+  personalizationOptions: { kind: 'strings', optional: true },
+};
+
+function checkField(rule: FieldRule, v: unknown): string | null {
+  if (v === undefined) return rule.optional ? null : 'missing';
+  switch (rule.kind) {
+    case 'int':
+    case 'number':
+      if (typeof v !== 'number' || !Number.isFinite(v)) return `expected a number, got ${JSON.stringify(v)}`;
+      if (rule.kind === 'int' && !Number.isInteger(v))  return `expected an integer, got ${v}`;
+      if (rule.min !== undefined && v < rule.min)       return `must be ≥ ${rule.min}, got ${v}`;
+      if (rule.max !== undefined && v > rule.max)       return `must be ≤ ${rule.max}, got ${v}`;
+      return null;
+    case 'string':
+      if (typeof v !== 'string')          return `expected a string, got ${JSON.stringify(v)}`;
+      if (rule.nonEmpty && !v.trim())     return 'must not be empty';
+      return null;
+    case 'boolean':
+      return typeof v === 'boolean' ? null : `expected true/false, got ${JSON.stringify(v)}`;
+    case 'strings':
+      return Array.isArray(v) && v.every(x => typeof x === 'string')
+        ? null : `expected a list of strings, got ${JSON.stringify(v)}`;
+    case 'date':
+      return typeof v === 'string' && ISO_DATE.test(v) && !isNaN(Date.parse(v))
+        ? null : `expected an ISO-8601 date, got ${JSON.stringify(v)}`;
+    case 'enum':
+      return rule.values.includes(v as string) ? null : `expected one of ${rule.values.join(', ')}, got ${JSON.stringify(v)}`;
+  }
+}
+
+/** Structural check of a whole gifts.json payload. */
+export function validateGifts(raw: unknown): SchemaIssue[] {
+  if (!Array.isArray(raw)) return [{ index: -1, message: 'expected an array of gift records' }];
+
+  const issues: SchemaIssue[] = [];
+  const seenIds = new Map<number, number>();   // id → first index
+
+  raw.forEach((rec: unknown, index) => {
+    if (typeof rec !== 'object' || rec === null || Array.isArray(rec)) {
+      issues.push({ index, message: 'expected an object' });
+      return;
+    }
+    const r  = rec as Record<string, unknown>;
+    const id = typeof r.id === 'number' ? r.id : undefined;
+
+    for (const [field, rule] of Object.entries(FIELDS) as [keyof GiftData, FieldRule][]) {
+      const problem = checkField(rule, r[field]);
+      if (problem) issues.push({ index, id, field, message: problem });
+    }
+    for (const field of Object.keys(r)) {
+      if (!(field in FIELDS)) issues.push({ index, id, field, message: 'unknown field' });
+    }
+
+    if (id !== undefined) {
+      const first = seenIds.get(id);
+      if (first !== undefined) issues.push({ index, id, field: 'id', message: `duplicate id (also at #${first})` });
+      else seenIds.set(id, index);
+    }
+  });
+
+  return issues;
+}
+
+/** Validates and returns the records typed; throws {@link GiftSchemaError}. */
+export function parseGifts(raw: unknown, source?: string): GiftData[] {
+  const issues = validateGifts(raw);
+  if (issues.length) throw new GiftSchemaError(issues, source);
+  return raw as GiftData[];
+}
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Whole days from `iso` to `now`, never negative (a date in the future —
+ * clock skew, a shop's pre-announcement — counts as brand new).
+ */
+export function daysSince(iso: string, now: number = Date.now()): number {
+  return Math.max(0, Math.floor((now - Date.parse(iso)) / DAY_MS));
+}
+
+export function formatIssue(i: SchemaIssue): string {
+  const where = i.index < 0 ? 'file' : `#${i.index}${i.id !== undefined ? ` (id ${i.id})` : ''}`;
+  return `${where}${i.field ? ` ${i.field}` : ''}: ${i.message}`;
+}
+
+// ---------------------------------------------------------------------------
+// Quality
+// ---------------------------------------------------------------------------
+
+/** Categories with fewer priced items than this get no outlier check. */
+const OUTLIER_MIN_GROUP = 5;
+/** Modified z-score cut-off (Iglewicz & Hoaglin) on log price. */
+const OUTLIER_Z = 3.5;
+
+const ref = (g: GiftData): GiftRef => ({ id: g.id, shop: g.shop, name: g.name, price: g.price });
+
+function duplicates<K>(gifts: GiftData[], keyOf: (g: GiftData) => K | null): [K, GiftData[]][] {
+  const by = new Map<K, GiftData[]>();
+  for (const g of gifts) {
+    const k = keyOf(g);
+    if (k === null) continue;
+    by.set(k, [...(by.get(k) ?? []), g]);
+  }
+  return [...by].filter(([, gs]) => gs.length > 1);
+}
+
+/**
+ * Price outliers within each category, by modified z-score of log price —
+ * robust to the outliers themselves and to the skew of gift prices, so a
+ * ₴12 000 bar in a ₴300–₴900 category stands out but a ₴900 one does not.
+ */
+function priceOutliers(gifts: GiftData[]): PriceOutlier[] {
+  const out: PriceOutlier[] = [];
+  const byCat = new Map<string, GiftData[]>();
+  for (const g of gifts) if (g.price > 0) byCat.set(g.category, [...(byCat.get(g.category) ?? []), g]);
+
+  for (const [category, items] of byCat) {
+    if (items.length < OUTLIER_MIN_GROUP) continue;
+    const logs = items.map(g => Math.log(g.price));
+    const mid  = median(logs);
+    const mad  = median(logs.map(l => Math.abs(l - mid)));
+    if (mad === 0) continue;
+    const med = median(items.map(g => g.price));
+    items.forEach((g, i) => {
+      if (0.6745 * Math.abs(logs[i] - mid) / mad > OUTLIER_Z) {
+        out.push({ ...ref(g), category, median: med, ratio: g.price / med });
+      }
+    });
+  }
+  return out.sort((a, b) => Math.abs(Math.log(b.ratio)) - Math.abs(Math.log(a.ratio)));
+}
+
+/** Findings on structurally valid records; nothing here blocks a write. */
+export function qualityReport(gifts: GiftData[]): QualityReport {
+  return {
+    total:             gifts.length,
+    zeroPrice:         gifts.filter(g => g.price === 0).map(ref),
+    defaultedStars:    gifts.filter(g => g.stars === DEFAULT_STARS).map(ref),
+    placeholderGoogle: gifts.filter(g => (g.googleSource ?? 'placeholder') === 'placeholder').map(ref),
+    duplicateNames:    duplicates(gifts, g => `${g.shop}\n${nameKey(g.name)}`)
+      .map(([, gs]) => ({ shop: gs[0].shop, name: gs[0].name, ids: gs.map(g => g.id) })),
+    duplicateUrls:     duplicates(gifts, g => g.url || null)
+      .map(([url, gs]) => ({ url, ids: gs.map(g => g.id) })),
+    outliers:          priceOutliers(gifts),
+  };
+}
+
+export function formatQualityReport(q: QualityReport, maxListed = 10): string {
+  const pct   = (n: number) => q.total ? `${(n / q.total * 100).toFixed(0)}%` : '0%';
+  const lines = [`Quality report (${q.total} records)`];
+  const list  = <T>(title: string, items: T[], fmt: (x: T) => string, share = true) => {
+    lines.push(`  ${title}: ${items.length}${share && items.length ? ` (${pct(items.length)})` : ''}`);
+    for (const x of items.slice(0, maxListed)) lines.push(`      ${fmt(x)}`);
+    if (items.length > maxListed) lines.push(`      … and ${items.length - maxListed} more`);
+  };
+  const item = (g: GiftRef) => `#${g.id} [${g.shop}] ${g.name} ₴${g.price}`;
+
+  list('zero price', q.zeroPrice, item);
+  list(`stars = ${DEFAULT_STARS} (parser default, probably no rating shown)`, q.defaultedStars, item);
+  list('placeholder googleResults', q.placeholderGoogle, item);
+  list('duplicate names within a shop', q.duplicateNames, d => `[${d.shop}] ${d.name} — ids ${d.ids.join(', ')}`, false);
+  list('duplicate URLs', q.duplicateUrls, d => `${d.url} — ids ${d.ids.join(', ')}`, false);
+  list('price outliers within category', q.outliers,
+    o => `${item(o)} — ${o.category} median ₴${o.median} (×${o.ratio.toFixed(o.ratio < 1 ? 2 : 1)})`, false);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,209 @@
+// ---------------------------------------------------------------------------
+// Price history
+//
+// The price history (catalogue store; data/price-history.json in the JSON
+// layout) is an append-only list of snapshots, one per scraper run. Each
+// snapshot records the price and stock flag of every product seen in that
+// run, keyed by a stable product key:
+//
+//   key = product URL            (preferred — survives id renumbering)
+//       = "id:<id>"              (fallback when the card had no link)
+//
+// Snapshots are never edited or removed; a new run only appends. Everything
+// in this module is pure so it can run in the scraper and in the browser.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Minimal product shape needed to take a snapshot. */
+export interface PricedItem {
+  id:     number;
+  name:   string;
+  price:  number;
+  stock:  boolean;
+  url?:   string;
+}
+
+export interface SnapshotEntry {
+  name:  string;
+  price: number;
+  stock: boolean;
+}
+
+export interface PriceSnapshot {
+  /** ISO-8601 timestamp of the scraper run. */
+  takenAt: string;
+  /** Entries keyed by {@link productKey}. */
+  items: Record<string, SnapshotEntry>;
+}
+
+export interface PriceChange {
+  key:      string;
+  name:     string;
+  oldPrice: number;
+  newPrice: number;
+  /** newPrice − oldPrice (negative for a drop) */
+  delta:    number;
+  /** delta / oldPrice × 100; 0 when the old price was 0 */
+  deltaPct: number;
+}
+
+export interface ListingRef {
+  key:   string;
+  name:  string;
+  price: number;
+}
+
+export interface SnapshotDiff {
+  from:     string;
+  to:       string;
+  /** Sorted by largest relative drop first */
+  drops:    PriceChange[];
+  /** Sorted by largest relative rise first */
+  rises:    PriceChange[];
+  added:    ListingRef[];
+  delisted: ListingRef[];
+}
+
+export interface PricePoint {
+  takenAt: string;
+  price:   number;
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+/** Stable history key for a product: its URL, or `id:<id>` without one. */
+export function productKey(item: { id: number; url?: string }): string {
+  return item.url ? item.url : `id:${item.id}`;
+}
+
+/**
+ * Builds a snapshot from a scraped product list.
+ * Duplicate keys keep the first occurrence.
+ */
+export function makeSnapshot(items: PricedItem[], takenAt: Date = new Date()): PriceSnapshot {
+  const out: Record<string, SnapshotEntry> = {};
+  for (const it of items) {
+    const key = productKey(it);
+    if (out[key]) continue;
+    out[key] = { name: it.name, price: it.price, stock: it.stock };
+  }
+  return { takenAt: takenAt.toISOString(), items: out };
+}
+
+/** Returns a new history with `snap` appended (input is left untouched). */
+export function appendSnapshot(history: PriceSnapshot[], snap: PriceSnapshot): PriceSnapshot[] {
+  return [...history, snap];
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+/**
+ * Compares two runs.
+ *
+ * Items priced 0 (scraper could not read a price) are treated as having no
+ * price: they never produce a drop or rise, only added/delisted entries.
+ */
+export function diffSnapshots(prev: PriceSnapshot, next: PriceSnapshot): SnapshotDiff {
+  const drops:    PriceChange[] = [];
+  const rises:    PriceChange[] = [];
+  const added:    ListingRef[]  = [];
+  const delisted: ListingRef[]  = [];
+
+  for (const [key, cur] of Object.entries(next.items)) {
+    const old = prev.items[key];
+    if (!old) {
+      added.push({ key, name: cur.name, price: cur.price });
+      continue;
+    }
+    if (old.price <= 0 || cur.price <= 0 || old.price === cur.price) continue;
+
+    const delta = cur.price - old.price;
+    const change: PriceChange = {
+      key,
+      name:     cur.name,
+      oldPrice: old.price,
+      newPrice: cur.price,
+      delta,
+      deltaPct: (delta / old.price) * 100,
+    };
+    (delta < 0 ? drops : rises).push(change);
+  }
+
+  for (const [key, old] of Object.entries(prev.items)) {
+    if (!next.items[key]) delisted.push({ key, name: old.name, price: old.price });
+  }
+
+  drops.sort((a, b) => a.deltaPct - b.deltaPct);
+  rises.sort((a, b) => b.deltaPct - a.deltaPct);
+
+  return { from: prev.takenAt, to: next.takenAt, drops, rises, added, delisted };
+}
+
+/** Human-readable multi-line report for console output. */
+export function formatDiff(diff: SnapshotDiff): string {
+  const fmt = (n: number) => `₴${n.toLocaleString('uk-UA')}`;
+  const pct = (n: number) => `${n > 0 ? '+' : ''}${n.toFixed(1)}%`;
+  const lines = [`Diff ${diff.from} → ${diff.to}`];
+
+  lines.push(`  ↓ price drops: ${diff.drops.length}`);
+  for (const c of diff.drops) lines.push(`      ${c.name}: ${fmt(c.oldPrice)} → ${fmt(c.newPrice)} (${pct(c.deltaPct)})`);
+  lines.push(`  ↑ price rises: ${diff.rises.length}`);
+  for (const c of diff.rises) lines.push(`      ${c.name}: ${fmt(c.oldPrice)} → ${fmt(c.newPrice)} (${pct(c.deltaPct)})`);
+  lines.push(`  + new listings: ${diff.added.length}`);
+  for (const l of diff.added) lines.push(`      ${l.name} ${fmt(l.price)}`);
+  lines.push(`  − delisted: ${diff.delisted.length}`);
+  for (const l of diff.delisted) lines.push(`      ${l.name} ${fmt(l.price)}`);
+
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Series
+// ---------------------------------------------------------------------------
+
+/**
+ * Indexes the history into per-product price series, oldest first.
+ * Zero prices are skipped so a failed read does not show as a crash to ₴0.
+ */
+export function priceSeries(history: PriceSnapshot[]): Map<string, PricePoint[]> {
+  const series = new Map<string, PricePoint[]>();
+  for (const snap of history) {
+    for (const [key, e] of Object.entries(snap.items)) {
+      if (e.price <= 0) continue;
+      const pts = series.get(key) ?? [];
+      pts.push({ takenAt: snap.takenAt, price: e.price });
+      series.set(key, pts);
+    }
+  }
+  return series;
+}
+
+/**
+ * Previous distinct price before the current one, or `undefined` when the
+ * price never changed. Used for the "was ₴X" hint.
+ */
+export function previousPrice(points: PricePoint[], current: number): number | undefined {
+  for (let i = points.length - 1; i >= 0; i--) {
+    if (points[i].price !== current) return points[i].price;
+  }
+  return undefined;
+}
+
+/**
+ * takenAt of the first snapshot that listed each key — the fallback
+ * "first seen" date for products whose pages show no listing date.
+ */
+export function firstSeenDates(history: PriceSnapshot[]): Map<string, string> {
+  const first = new Map<string, string>();
+  for (const snap of [...history].sort((a, b) => a.takenAt.localeCompare(b.takenAt))) {
+    for (const key of Object.keys(snap.items)) if (!first.has(key)) first.set(key, snap.takenAt);
+  }
+  return first;
+}
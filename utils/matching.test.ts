@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { groupProducts, nameKey, normaliseName, similarity, type MatchableItem } from './matching';
+
+const item = (id: number, name: string, over: Partial<MatchableItem> = {}): MatchableItem => ({
+  id, name, category: 'Фляги', price: 300, stock: true, shop: 'podaroktut', ...over,
+});
+
+const sim = (a: string, b: string) => similarity(normaliseName(a), normaliseName(b));
+
+test('measures are read in base units whatever the spelling', () => {
+  assert.deepEqual(normaliseName('Фляга шкіряна 200мл'), { words: ['фляга', 'шкиряна'], measures: { ml: 200 } });
+  assert.deepEqual(normaliseName('Фляга 0,2 л').measures, { ml: 200 });
+  assert.deepEqual(normaliseName('Бочка 3л, 30см, 6 шт.').measures, { ml: 3000, mm: 300, pcs: 6 });
+  assert.equal(nameKey('Фляга шкіряна 200мл'), nameKey('фляга  ШКІРЯНА 0.2 л'));
+});
+
+test('Ukrainian and Russian spellings and Latin look-alikes compare equal', () => {
+  assert.deepEqual(normaliseName('Мини бар').words, normaliseName('Міні бар').words);
+  // A Latin "o" inside a Cyrillic word
+  assert.deepEqual(normaliseName('Кубок').words, normaliseName('Кубoк').words);
+  assert.deepEqual(normaliseName('Like').words, ['like']);
+});
+
+test('similarity ignores word order but not measures or distinguishing words', () => {
+  assert.equal(sim('Фляга шкіряна 200мл', 'Шкіряна фляга 0,2 л'), 1);
+  assert.equal(sim('Фляга шкіряна 200 мл', 'Фляга шкіряна 500 мл'), 0);
+  assert.equal(sim('Кубок «Найкращий тато»', 'Кубок «Найкращий бос»'), 0);
+  assert.ok(sim('Фляга шкіряна', 'Фляга шкіряна з гравіюванням') > 0);
+});
+
+test('groupProducts joins matches and puts the cheapest in-stock offer first', () => {
+  const groups = groupProducts([
+    item(1, 'Фляга шкіряна 200мл', { price: 420, shop: 'a' }),
+    item(2, 'Шкіряна фляга 0,2 л', { price: 350, shop: 'b', stock: false }),
+    item(3, 'фляга ШКІРЯНА 200 мл', { price: 390, shop: 'c' }),
+    item(4, 'Фляга шкіряна 500мл', { price: 500 }),
+    item(5, 'Фляга шкіряна 200мл', { price: 0, shop: 'd' }),
+  ]);
+  assert.equal(groups.length, 2);
+
+  const flask = groups.find(g => g.offers.length > 1)!;
+  assert.deepEqual(flask.offers.map(o => o.id), [2, 3, 1, 5]);
+  assert.equal(flask.best.id, 3);
+  assert.equal(flask.name, 'фляга ШКІРЯНА 200 мл');
+  assert.deepEqual([flask.minPrice, flask.maxPrice, flask.spread], [350, 420, 70]);
+  assert.equal(flask.spreadPct, 20);
+
+  const single = groups.find(g => g.offers.length === 1)!;
+  assert.deepEqual([single.best.id, single.spread, single.spreadPct], [4, 0, 0]);
+});
+
+test('listings of the same page are grouped whatever their names', () => {
+  const groups = groupProducts([
+    item(1, 'Брелок Сова', { url: 'https://s.example/1' }),
+    item(2, 'Брелок Кіт', { url: 'https://s.example/1' }),
+  ]);
+  assert.equal(groups.length, 1);
+});
@@ -0,0 +1,309 @@
+// ---------------------------------------------------------------------------
+// Cross-shop product matching
+//
+// Groups listings of the same gift from different shops (or duplicated
+// within one shop) under one canonical gift.
+//
+// Pipeline:
+//   1. normaliseName   lowercase, unify Ukrainian/Russian letter variants and
+//                      Latin look-alikes, strip quotes and punctuation
+//   2. extractMeasures volumes → ml, lengths → mm, weights → g, piece counts
+//                      ("200мл", "0,2 л", "3л", "80mm", "30см", "6 шт.")
+//   3. similarity      Dice coefficient over character trigrams of the
+//                      remaining words; 0 when measures conflict
+//                      (200 мл vs 500 мл are different products) or when a
+//                      word of the shorter name has no close partner
+//   4. groupProducts   candidates ≥ threshold are joined with union-find
+//
+// Candidate pairs are only scored when they share at least one word, so
+// the pass stays far below O(n²) on real catalogues.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Minimal listing shape the matcher needs. */
+export interface MatchableItem {
+  id:       number;
+  name:     string;
+  category: string;
+  price:    number;
+  stock:    boolean;
+  shop?:    string;
+  url?:     string;
+}
+
+export type MeasureKind = 'ml' | 'mm' | 'g' | 'pcs';
+
+export interface NormalisedName {
+  /** Words left after measures are removed, normalised and sorted. */
+  words: string[];
+  /** Measures found in the name, in base units. */
+  measures: Partial<Record<MeasureKind, number>>;
+}
+
+export interface MatchCandidate {
+  a:     number;  // item id
+  b:     number;  // item id
+  score: number;  // [0, 1]
+}
+
+export interface CanonicalGift<T extends MatchableItem = MatchableItem> {
+  /** Stable group key: normalised words + measures of the best offer. */
+  key:       string;
+  /** Display name — the name of the best offer. */
+  name:      string;
+  category:  string;
+  /** All offers, cheapest first (price 0 = unknown, sorted last). */
+  offers:    T[];
+  /** Cheapest in-stock offer, or cheapest overall when none is in stock. */
+  best:      T;
+  minPrice:  number;
+  maxPrice:  number;
+  /** maxPrice − minPrice */
+  spread:    number;
+  /** spread / minPrice × 100; 0 for single offers */
+  spreadPct: number;
+}
+
+// ---------------------------------------------------------------------------
+// Normalisation
+// ---------------------------------------------------------------------------
+
+// Ukrainian and Russian spellings of the same word should compare equal
+// ("Міні бар" / "Мини бар"), so letter variants collapse to one form.
+const LETTER_FOLD: Record<string, string> = {
+  'і': 'и', 'ї': 'и', 'ы': 'и', 'й': 'и',
+  'є': 'е', 'э': 'е', 'ё': 'е',
+  'ґ': 'г',
+  'ъ': '',  'ь': '',
+};
+
+// Latin letters that look identical to Cyrillic ones; applied only inside
+// words that also contain Cyrillic, so "Like" stays Latin.
+const LATIN_LOOKALIKE: Record<string, string> = {
+  a: 'а', c: 'с', e: 'е', i: 'і', o: 'о', p: 'р', x: 'х', y: 'у', k: 'к', m: 'м', t: 'т', h: 'н', b: 'в',
+};
+
+const UNIT_FACTORS: Record<string, [MeasureKind, number]> = {
+  'мл': ['ml', 1],   'ml': ['ml', 1],
+  'л':  ['ml', 1000], 'l':  ['ml', 1000],
+  'мм': ['mm', 1],   'mm': ['mm', 1],
+  'см': ['mm', 10],  'cm': ['mm', 10],
+  'м':  ['mm', 1000],
+  'г':  ['g', 1],    'гр': ['g', 1], 'g': ['g', 1],
+  'кг': ['g', 1000], 'kg': ['g', 1000],
+  'шт': ['pcs', 1],  'pcs': ['pcs', 1],
+};
+
+// number (with , or . decimals) + optional space + unit, not followed by a letter
+const MEASURE_RE = /(\d+(?:[.,]\d+)?)\s*(мл|ml|кг|kg|мм|mm|см|cm|гр|шт|pcs|л|l|м|г|g)(?![a-zа-яіїєґ])/giu;
+
+const STOP_WORDS = new Set(['для', 'з', 'зи', 'и', 'в', 'на', 'с', 'та', 'а', 'по']);
+
+function foldWord(w: string): string {
+  const hasCyr = /[а-яіїєґё]/.test(w);
+  let out = '';
+  for (const ch of w) {
+    const c = hasCyr && LATIN_LOOKALIKE[ch] ? LATIN_LOOKALIKE[ch] : ch;
+    out += LETTER_FOLD[c] ?? c;
+  }
+  return out;
+}
+
+/**
+ * Splits a listing name into comparable words and measures.
+ *
+ * @example
+ * normaliseName('Фляга шкіряна 200мл')
+ * // → { words: ['фляга', 'шкиряна'], measures: { ml: 200 } }
+ */
+export function normaliseName(name: string): NormalisedName {
+  const measures: NormalisedName['measures'] = {};
+  let text = name.toLowerCase().replace(/[’ʼ`']/g, '');
+
+  text = text.replace(MEASURE_RE, (_, num: string, unit: string) => {
+    const [kind, factor] = UNIT_FACTORS[unit.toLowerCase()];
+    measures[kind] = Math.round(parseFloat(num.replace(',', '.')) * factor);
+    return ' ';
+  });
+
+  const words = text
+    .split(/[^a-zа-яіїєґё0-9]+/u)
+    .filter(Boolean)
+    .map(foldWord)
+    .filter(w => w && !STOP_WORDS.has(w))
+    .sort();
+
+  return { words, measures };
+}
+
+// ---------------------------------------------------------------------------
+// Similarity
+// ---------------------------------------------------------------------------
+
+function trigrams(s: string): Map<string, number> {
+  const padded = `  ${s} `;
+  const grams  = new Map<string, number>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    const g = padded.slice(i, i + 3);
+    grams.set(g, (grams.get(g) ?? 0) + 1);
+  }
+  return grams;
+}
+
+function dice(a: Map<string, number>, b: Map<string, number>): number {
+  let inter = 0, total = 0;
+  for (const [g, n] of a) { total += n; inter += Math.min(n, b.get(g) ?? 0); }
+  for (const n of b.values()) total += n;
+  return total === 0 ? 0 : (2 * inter) / total;
+}
+
+/** True when both names carry the same kind of measure with different values. */
+function measuresConflict(a: NormalisedName['measures'], b: NormalisedName['measures']): boolean {
+  return (Object.keys(a) as MeasureKind[]).some(k => b[k] !== undefined && b[k] !== a[k]);
+}
+
+// Minimum trigram similarity for two single words to count as the same
+// word in different inflections ("шкіряна" / "шкіряний").
+const WORD_PARTNER_MIN = 0.6;
+
+/**
+ * Every word of the shorter name needs a close partner in the longer one.
+ * Stops "Кубок «Найкращий тато»" matching "Кубок «Найкращий бос»" on the
+ * strength of the shared words alone.
+ */
+function wordsCovered(a: string[], b: string[]): boolean {
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  const longGrams = long.map(trigrams);
+  return short.every(w => {
+    const g = trigrams(w);
+    return longGrams.some(lg => dice(g, lg) >= WORD_PARTNER_MIN);
+  });
+}
+
+/**
+ * Similarity of two normalised names in [0, 1]. Word order does not
+ * matter; conflicting measures or an unmatched distinguishing word force 0.
+ */
+export function similarity(a: NormalisedName, b: NormalisedName): number {
+  if (measuresConflict(a.measures, b.measures)) return 0;
+  if (!wordsCovered(a.words, b.words)) return 0;
+  return dice(trigrams(a.words.join(' ')), trigrams(b.words.join(' ')));
+}
+
+// ---------------------------------------------------------------------------
+// Candidates & grouping
+// ---------------------------------------------------------------------------
+
+/** Default similarity above which two listings count as the same gift. */
+export const MATCH_THRESHOLD = 0.8;
+
+/**
+ * All pairs of distinct listings scoring ≥ `threshold`, best first.
+ * Listings with the same URL are the same page and are always paired.
+ */
+export function findCandidates(items: MatchableItem[], threshold = MATCH_THRESHOLD): MatchCandidate[] {
+  const norm  = items.map(it => normaliseName(it.name));
+  const index = new Map<string, number[]>();
+  norm.forEach((n, i) => {
+    for (const w of new Set(n.words)) {
+      const list = index.get(w) ?? [];
+      list.push(i);
+      index.set(w, list);
+    }
+  });
+
+  const seen = new Set<string>();
+  const out: MatchCandidate[] = [];
+  const consider = (i: number, j: number) => {
+    const pair = i < j ? `${i}:${j}` : `${j}:${i}`;
+    if (i === j || seen.has(pair)) return;
+    seen.add(pair);
+    const sameUrl = !!items[i].url && items[i].url === items[j].url;
+    const score   = sameUrl ? 1 : similarity(norm[i], norm[j]);
+    if (score >= threshold) out.push({ a: items[i].id, b: items[j].id, score });
+  };
+
+  for (const list of index.values()) {
+    for (let x = 0; x < list.length; x++) {
+      for (let y = x + 1; y < list.length; y++) consider(list[x], list[y]);
+    }
+  }
+
+  return out.sort((p, q) => q.score - p.score);
+}
+
+function bestOffer<T extends MatchableItem>(offers: T[]): T {
+  return offers.find(o => o.stock && o.price > 0) ?? offers[0];
+}
+
+function byPrice(a: MatchableItem, b: MatchableItem): number {
+  // Unknown prices (0) sort after every real price.
+  if (a.price <= 0 || b.price <= 0) return (a.price <= 0 ? 1 : 0) - (b.price <= 0 ? 1 : 0);
+  return a.price - b.price;
+}
+
+function groupKey(n: NormalisedName): string {
+  const m = (Object.keys(n.measures) as MeasureKind[]).sort().map(k => `${n.measures[k]}${k}`);
+  return [...n.words, ...m].join('-');
+}
+
+/**
+ * Spelling-insensitive identity of a listing name: equal keys are the same
+ * product ("Фляга шкіряна 200мл" / "фляга  ШКІРЯНА 200 мл").
+ */
+export function nameKey(name: string): string {
+  return groupKey(normaliseName(name));
+}
+
+/**
+ * Groups listings into canonical gifts. Every item ends up in exactly one
+ * group; unmatched items form single-offer groups.
+ */
+export function groupProducts<T extends MatchableItem>(
+  items: T[],
+  threshold = MATCH_THRESHOLD,
+): CanonicalGift<T>[] {
+  const parent = new Map<number, number>(items.map(it => [it.id, it.id]));
+  const find = (id: number): number => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const c of findCandidates(items, threshold)) {
+    const ra = find(c.a), rb = find(c.b);
+    if (ra !== rb) parent.set(rb, ra);
+  }
+
+  const buckets = new Map<number, T[]>();
+  for (const it of items) {
+    const root = find(it.id);
+    const list = buckets.get(root) ?? [];
+    list.push(it);
+    buckets.set(root, list);
+  }
+
+  return Array.from(buckets.values(), list => {
+    const offers = [...list].sort(byPrice);
+    const best   = bestOffer(offers);
+    const priced = offers.filter(o => o.price > 0).map(o => o.price);
+    const minPrice = priced.length ? Math.min(...priced) : 0;
+    const maxPrice = priced.length ? Math.max(...priced) : 0;
+    const spread   = maxPrice - minPrice;
+    return {
+      key:       nameKey(best.name),
+      name:      best.name,
+      category:  best.category,
+      offers,
+      best,
+      minPrice,
+      maxPrice,
+      spread,
+      spreadPct: minPrice > 0 ? (spread / minPrice) * 100 : 0,
+    };
+  });
+}
@@ -0,0 +1,118 @@
+// ---------------------------------------------------------------------------
+// Data pipeline runs
+//
+// The refresh pipeline (scrape → enrich → validate) is run by the worker
+// (scripts/worker.ts) on a schedule or on request from the admin page. Each
+// run is stored (utils/store) with per-step timings, exit codes, output
+// tails and item counts; the lock that keeps runs from overlapping lives in
+// the store too, so every process — worker, CLI, web app — sees it.
+//
+//   queued → running → ok | failed
+//   queued → skipped                  (another run held the lock)
+//
+// Pure types and helpers, shared by the worker and the admin page.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RunTrigger = 'schedule' | 'manual';
+export type RunStatus  = 'queued' | 'running' | 'ok' | 'failed' | 'skipped';
+export type StepStatus = 'ok' | 'failed' | 'skipped';
+
+export interface StepResult {
+  name:       string;
+  status:     StepStatus;
+  /** Process exit code; null when the step was not started or was killed. */
+  exitCode:   number | null;
+  durationMs: number;
+  /** Why a step was skipped or failed, in one line. */
+  reason?:    string;
+  /** Step-specific counts (items scraped, enriched, schema errors, …). */
+  summary?:   Record<string, number>;
+  /** Last lines of stdout + stderr. */
+  output:     string;
+}
+
+export interface RunItems {
+  products:  number;
+  byShop:    Record<string, number>;
+  snapshots: number;
+}
+
+export interface PipelineRun {
+  /** 0 until saved. */
+  id:           number;
+  trigger:      RunTrigger;
+  status:       RunStatus;
+  /** Who asked: "schedule", "admin page", "cli". */
+  requestedBy:  string;
+  requestedAt:  string;
+  startedAt?:   string;
+  finishedAt?:  string;
+  durationMs?:  number;
+  /** Worker that ran it, "<pid>@<host>". */
+  worker?:      string;
+  steps:        StepResult[];
+  /** Catalogue counts after the run. */
+  items?:       RunItems;
+  errors:       string[];
+}
+
+export interface LockInfo {
+  name:       string;
+  owner:      string;
+  acquiredAt: string;
+  expiresAt:  string;
+  /** Free-form JSON the holder publishes (the worker: its schedule). */
+  note?:      string;
+}
+
+/** What the worker publishes in its lock note. */
+export interface WorkerNote {
+  cron:      string;
+  nextRunAt: string | null;
+  steps:     string[];
+}
+
+export const PIPELINE_LOCK = 'pipeline';
+export const WORKER_LOCK   = 'worker';
+
+/** Data older than this is flagged stale on the admin page. */
+export const STALE_AFTER_HOURS = 26;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function newRun(trigger: RunTrigger, requestedBy: string, at: string = new Date().toISOString()): PipelineRun {
+  return { id: 0, trigger, status: 'queued', requestedBy, requestedAt: at, steps: [], errors: [] };
+}
+
+/** Whether a lock is still held at `now`. */
+export function lockHeld(lock: LockInfo | undefined, now: number = Date.now()): lock is LockInfo {
+  return !!lock && Date.parse(lock.expiresAt) > now;
+}
+
+export interface Freshness {
+  /** takenAt of the latest price snapshot. */
+  updatedAt: string | null;
+  ageHours:  number | null;
+  stale:     boolean;
+}
+
+export function freshness(updatedAt: string | null, now: number = Date.now()): Freshness {
+  if (!updatedAt) return { updatedAt: null, ageHours: null, stale: true };
+  const ageHours = (now - Date.parse(updatedAt)) / 3_600_000;
+  return { updatedAt, ageHours, stale: ageHours > STALE_AFTER_HOURS };
+}
+
+/** "1 год 05 хв", "42 с". */
+export function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s} с`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m} хв ${String(s % 60).padStart(2, '0')} с`;
+  return `${Math.floor(m / 60)} год ${String(m % 60).padStart(2, '0')} хв`;
+}
@@ -0,0 +1,25 @@
+// ---------------------------------------------------------------------------
+// Shop registry
+//
+// Display metadata for every shop the scraper has an adapter for. Lives in
+// utils/ (not scripts/) so the UI can label and filter rows by `shop` id
+// without pulling in cheerio or axios.
+// ---------------------------------------------------------------------------
+
+export interface ShopInfo {
+  /** Stable id stored on every product as `shop`. */
+  id: string;
+  /** Display name. */
+  name: string;
+  /** Origin without trailing slash, e.g. "https://podaroktut.com.ua". */
+  baseUrl: string;
+}
+
+export const SHOPS: readonly ShopInfo[] = [
+  { id: 'podaroktut', name: 'PodarokTut', baseUrl: 'https://podaroktut.com.ua' },
+];
+
+/** Looks up a shop by id; unknown ids get a stub so old data still renders. */
+export function getShop(id: string | undefined): ShopInfo {
+  return SHOPS.find(s => s.id === id) ?? { id: id ?? 'unknown', name: id ?? '—', baseUrl: '' };
+}
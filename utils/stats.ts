@@ -0,0 +1,19 @@
+// ---------------------------------------------------------------------------
+// Small statistics helpers shared by the catalogue and scoring modules.
+// ---------------------------------------------------------------------------
+
+/** Median of `xs`; NaN for an empty list. Input is not mutated. */
+export function median(xs: number[]): number {
+  if (xs.length === 0) return NaN;
+  const s   = [...xs].sort((a, b) => a - b);
+  const mid = s.length >> 1;
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+/**
+ * Median absolute deviation of `xs` around `center` (their median by
+ * default); NaN for an empty list. × 1.4826 estimates σ for normal data.
+ */
+export function mad(xs: number[], center: number = median(xs)): number {
+  return median(xs.map(x => Math.abs(x - center)));
+}
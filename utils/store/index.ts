@@ -0,0 +1,83 @@
+// ---------------------------------------------------------------------------
+// Catalogue store — picks and opens the repository
+//
+//   CATALOG_STORE=sqlite   (default) data/catalog.db, or CATALOG_DB=<file>
+//   CATALOG_STORE=json     the JSON files in data/
+//
+// A new, empty database is seeded from the JSON files in the same data
+// directory, so a checkout with only data/gifts.json works as before.
+//
+// Without CATALOG_STORE, a data directory that cannot be written (read-only
+// serverless deploys, e.g. Vercel) is served from its JSON files instead:
+// SQLite could neither create the database nor its WAL files there.
+// ---------------------------------------------------------------------------
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { jsonFiles, openJsonRepository } from './json';
+import { openSqliteRepository } from './sqlite';
+import type { CatalogRepository, StoreKind } from './types';
+
+export type { CatalogRepository, Enrichment, StoreKind } from './types';
+export { jsonFiles, openJsonRepository, readGiftsJson, writeGiftsJson, type JsonFiles } from './json';
+export { openSqliteRepository } from './sqlite';
+export { MIGRATIONS, migrate, schemaVersion } from './migrations';
+
+export interface StoreOptions {
+  kind?:    StoreKind;
+  /** Directory of the JSON files (and the default database). */
+  dataDir?: string;
+  dbFile?:  string;
+}
+
+export function defaultDataDir(): string {
+  return process.env.CATALOG_DATA_DIR ?? path.resolve(process.cwd(), 'data');
+}
+
+/** Copies everything from one repository into another, replacing its data. */
+export function copyRepository(from: CatalogRepository, to: CatalogRepository): void {
+  to.transaction(() => {
+    to.saveCategories(from.getCategories());
+    to.replaceProducts(from.listProducts());
+    for (const snap of from.listSnapshots()) to.appendSnapshot(snap);
+    to.saveWatchlist(from.getWatchlist());
+    to.appendAlerts(from.listAlerts(Infinity).reverse());
+    for (const run of from.listRuns(Infinity).reverse()) to.saveRun(run);
+  });
+}
+
+function writable(dir: string): boolean {
+  try {
+    fs.accessSync(dir, fs.constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function openRepository(opts: StoreOptions = {}): CatalogRepository {
+  const dataDir = opts.dataDir ?? defaultDataDir();
+  const kind    = opts.kind ?? (process.env.CATALOG_STORE as StoreKind | undefined) ?? defaultKind(dataDir, opts.dbFile);
+  if (kind !== 'sqlite' && kind !== 'json') throw new Error(`CATALOG_STORE must be "sqlite" or "json", not "${kind}"`);
+
+  const files = jsonFiles(dataDir);
+  if (kind === 'json') return openJsonRepository(files);
+
+  const dbFile = opts.dbFile ?? process.env.CATALOG_DB ?? path.join(dataDir, 'catalog.db');
+  const repo   = openSqliteRepository(dbFile);
+  if (fs.existsSync(files.gifts)) {
+    repo.transaction(() => {
+      if (repo.listProducts().length === 0 && repo.listSnapshots().length === 0) {
+        copyRepository(openJsonRepository(files), repo);
+      }
+    });
+  }
+  return repo;
+}
+
+function defaultKind(dataDir: string, dbFile = process.env.CATALOG_DB): StoreKind {
+  const dir = path.dirname(dbFile ?? path.join(dataDir, 'catalog.db'));
+  if (!fs.existsSync(dir) || writable(dir)) return 'sqlite';
+  console.warn(`[store] ${dir} is read-only — serving the JSON files in ${dataDir} (set CATALOG_STORE to choose)`);
+  return 'json';
+}
@@ -0,0 +1,175 @@
+// ---------------------------------------------------------------------------
+// JSON catalogue repository
+//
+// The pre-database layout, kept so existing files load unchanged and as an
+// exchange format (scripts/db.ts import / export):
+//
+//   gifts.json           GiftData[]             (checked by parseGifts)
+//   price-history.json   PriceSnapshot[]
+//   categories.json      CategoryRegistry
+//   watchlist.json       Watchlist
+//   alerts.json          AlertRecord[], oldest first
+//   runs.json            PipelineRun[], oldest first
+//   <name>.lock          LockInfo, created exclusively
+//
+// Every write rewrites the whole file through a temp file + rename.
+// ---------------------------------------------------------------------------
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CategoryRegistry } from '../categories';
+import { parseGifts, type GiftData } from '../gift-schema';
+import type { PriceSnapshot } from '../history';
+import type { LockInfo, PipelineRun } from '../pipeline';
+import { EMPTY_WATCHLIST, type AlertRecord, type Watchlist } from '../watchlist';
+import type { CatalogRepository } from './types';
+
+export interface JsonFiles {
+  gifts:      string;
+  history:    string;
+  categories: string;
+  watchlist:  string;
+  alerts:     string;
+  runs:       string;
+  /** Directory of the lock files. */
+  locks:      string;
+}
+
+export function jsonFiles(dataDir: string): JsonFiles {
+  return {
+    gifts:      path.join(dataDir, 'gifts.json'),
+    history:    path.join(dataDir, 'price-history.json'),
+    categories: path.join(dataDir, 'categories.json'),
+    watchlist:  path.join(dataDir, 'watchlist.json'),
+    alerts:     path.join(dataDir, 'alerts.json'),
+    runs:       path.join(dataDir, 'runs.json'),
+    locks:      dataDir,
+  };
+}
+
+function readJson<T>(file: string, fallback: T): T {
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) as T : fallback;
+}
+
+function writeJson(file: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+  fs.renameSync(tmp, file);
+}
+
+/** A gifts JSON file on its own (scraper / importer --out); missing = empty. */
+export function readGiftsJson(file: string): GiftData[] {
+  return fs.existsSync(file) ? parseGifts(readJson<unknown>(file, []), file) : [];
+}
+
+export function writeGiftsJson(file: string, products: GiftData[]): void {
+  writeJson(file, products);
+}
+
+export function openJsonRepository(files: JsonFiles): CatalogRepository {
+  const history = (): PriceSnapshot[] => {
+    const parsed = readJson<unknown>(files.history, []);
+    if (!Array.isArray(parsed)) throw new Error(`${files.history}: expected an array of snapshots`);
+    return parsed as PriceSnapshot[];
+  };
+  const products = () => readGiftsJson(files.gifts);
+  const alerts   = () => readJson<AlertRecord[]>(files.alerts, []);
+  const runs     = () => readJson<PipelineRun[]>(files.runs, []);
+  const lockFile = (name: string) => path.join(files.locks, `${name}.lock`);
+  const readLock = (name: string) => readJson<LockInfo | undefined>(lockFile(name), undefined);
+  const mtime = (f: string) => (fs.existsSync(f) ? fs.statSync(f).mtimeMs : 0);
+
+  return {
+    kind:     'json',
+    location: files.gifts,
+
+    listProducts: products,
+    getProduct:   id => products().find(p => p.id === id),
+
+    replaceProducts(list) {
+      writeJson(files.gifts, [...list].sort((a, b) => a.id - b.id));
+    },
+
+    saveProduct(product) {
+      const list = products().filter(p => p.id !== product.id);
+      writeJson(files.gifts, [...list, product].sort((a, b) => a.id - b.id));
+    },
+
+    setEnrichment(id, e) {
+      const list = products();
+      const p = list.find(x => x.id === id);
+      if (!p) throw new Error(`No product with id ${id}`);
+      Object.assign(p, e);
+      writeJson(files.gifts, list);
+    },
+
+    listSnapshots: history,
+    appendSnapshot: snap => writeJson(files.history, [...history(), snap]),
+
+    getCategories() {
+      const r = readJson<CategoryRegistry>(files.categories, { categories: [], aliases: {} });
+      return { categories: r.categories ?? [], aliases: r.aliases ?? {} };
+    },
+    saveCategories: registry => writeJson(files.categories, registry),
+
+    getWatchlist: () => ({ ...EMPTY_WATCHLIST, ...readJson<Partial<Watchlist>>(files.watchlist, {}) }),
+    saveWatchlist: list => writeJson(files.watchlist, list),
+
+    listAlerts: (limit = 100) => alerts().slice(-limit).reverse(),
+    appendAlerts: list => writeJson(files.alerts, [...alerts(), ...list]),
+
+    listRuns: (limit = 50) => runs().slice(-limit).reverse(),
+    getRun:   id => runs().find(r => r.id === id),
+
+    saveRun(run) {
+      const list  = runs();
+      const saved = run.id ? run : { ...run, id: Math.max(0, ...list.map(r => r.id)) + 1 };
+      const at    = list.findIndex(r => r.id === saved.id);
+      if (at >= 0) list[at] = saved;
+      else list.push(saved);
+      writeJson(files.runs, list);
+      return saved;
+    },
+
+    // The first taker creates the file exclusively ('wx'); renewing or
+    // taking over an expired lock rewrites it
+    acquireLock(name, owner, ttlMs, note) {
+      const now  = Date.now();
+      const held = readLock(name);
+      if (held && held.owner !== owner && Date.parse(held.expiresAt) > now) return false;
+      const lock: LockInfo = {
+        name, owner,
+        acquiredAt: held?.owner === owner ? held.acquiredAt : new Date(now).toISOString(),
+        expiresAt:  new Date(now + ttlMs).toISOString(),
+        ...(note !== undefined ? { note } : {}),
+      };
+      if (held) {
+        writeJson(lockFile(name), lock);
+        return true;
+      }
+      try {
+        fs.mkdirSync(files.locks, { recursive: true });
+        fs.writeFileSync(lockFile(name), JSON.stringify(lock, null, 2) + '\n', { encoding: 'utf-8', flag: 'wx' });
+        return true;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'EEXIST') return false;
+        throw e;
+      }
+    },
+
+    releaseLock(name, owner) {
+      if (readLock(name)?.owner === owner) fs.rmSync(lockFile(name), { force: true });
+    },
+
+    getLock: readLock,
+
+    revision: () => [files.gifts, files.history, files.categories, files.watchlist].map(mtime).join('.'),
+
+    // Each write replaces one file atomically; a multi-file write that fails
+    // half way keeps what was already written
+    transaction: fn => fn(),
+
+    close: () => {},
+  };
+}
@@ -0,0 +1,198 @@
+// ---------------------------------------------------------------------------
+// SQLite schema migrations
+//
+// Applied in order by migrate(); the database's PRAGMA user_version records
+// the last one applied. Never edit a migration that has shipped — add the
+// next one instead.
+//
+//   products          one row per shop listing (descriptive fields)
+//   offers            the shop side of a listing: price, stock, URL, SKU —
+//                     what changes from run to run (one per product today)
+//   enrichment        external data per product (Google result counts)
+//   snapshots,
+//   snapshot_items    price history (utils/history.ts PriceSnapshot)
+//   categories,
+//   category_aliases  the category registry (utils/categories.ts)
+//   watch_users,
+//   watches,
+//   watch_hits        the watchlist (utils/watchlist.ts)
+//   alerts            every alert raised, with its delivery results
+//   pipeline_runs     refresh pipeline runs (utils/pipeline.ts)
+//   locks             named leases: the pipeline lock, the worker heartbeat
+//   meta              'revision': bumped by every catalogue write
+// ---------------------------------------------------------------------------
+
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name:    string;
+  sql:     string;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name:    'initial schema',
+    sql: `
+      CREATE TABLE categories (
+        id        TEXT PRIMARY KEY,
+        slug      TEXT NOT NULL UNIQUE,
+        name      TEXT NOT NULL UNIQUE,
+        labels    TEXT NOT NULL,              -- JSON { uk, … }
+        icon      TEXT NOT NULL,
+        color     TEXT NOT NULL,
+        parent_id TEXT REFERENCES categories(id) ON DELETE SET NULL,
+        auto      INTEGER NOT NULL DEFAULT 0,
+        position  INTEGER NOT NULL
+      );
+
+      CREATE TABLE category_aliases (
+        alias       TEXT PRIMARY KEY,
+        category_id TEXT NOT NULL REFERENCES categories(id) ON DELETE CASCADE
+      );
+
+      -- category holds categories.name; not a foreign key, so products of a
+      -- category the registry does not know yet still load
+      CREATE TABLE products (
+        id                      INTEGER PRIMARY KEY,
+        name                    TEXT NOT NULL,
+        category                TEXT NOT NULL,
+        stars                   REAL NOT NULL,
+        reviews                 INTEGER NOT NULL,
+        first_seen_at           TEXT NOT NULL,
+        personalization         INTEGER NOT NULL,
+        description             TEXT,
+        images                  TEXT,          -- JSON array
+        personalization_options TEXT           -- JSON array
+      );
+      CREATE INDEX products_category ON products(category);
+
+      CREATE TABLE offers (
+        product_id INTEGER PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
+        shop       TEXT NOT NULL,
+        url        TEXT,
+        sku        TEXT,
+        price      REAL NOT NULL,
+        stock      INTEGER NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX offers_shop ON offers(shop);
+      CREATE INDEX offers_url  ON offers(url);
+
+      CREATE TABLE enrichment (
+        product_id     INTEGER PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
+        google_results INTEGER NOT NULL,
+        google_source  TEXT,
+        updated_at     TEXT NOT NULL
+      );
+
+      CREATE TABLE snapshots (
+        id       INTEGER PRIMARY KEY AUTOINCREMENT,
+        taken_at TEXT NOT NULL
+      );
+
+      CREATE TABLE snapshot_items (
+        snapshot_id INTEGER NOT NULL REFERENCES snapshots(id) ON DELETE CASCADE,
+        key         TEXT NOT NULL,             -- utils/history.ts productKey()
+        name        TEXT NOT NULL,
+        price       REAL NOT NULL,
+        stock       INTEGER NOT NULL,
+        PRIMARY KEY (snapshot_id, key)
+      );
+      CREATE INDEX snapshot_items_key ON snapshot_items(key);
+    `,
+  },
+  {
+    version: 2,
+    name:    'watchlist and alerts',
+    sql: `
+      CREATE TABLE watch_users (
+        name     TEXT PRIMARY KEY,
+        email    TEXT,
+        telegram TEXT,
+        webhook  TEXT
+      );
+
+      -- product holds a productKey (utils/history.ts), not products.id:
+      -- listings are renumbered by full scrapes
+      CREATE TABLE watches (
+        id         INTEGER PRIMARY KEY,
+        user       TEXT NOT NULL REFERENCES watch_users(name) ON DELETE CASCADE,
+        product    TEXT,
+        category   TEXT,
+        label      TEXT NOT NULL,
+        rules      TEXT NOT NULL,               -- JSON WatchRule[]
+        channels   TEXT NOT NULL,               -- JSON ChannelKind[]
+        created_at TEXT NOT NULL,
+        CHECK ((product IS NULL) <> (category IS NULL))
+      );
+
+      CREATE TABLE watch_hits (
+        hit TEXT PRIMARY KEY                    -- watchlist.ts hitKey()
+      );
+
+      CREATE TABLE watch_state (
+        key   TEXT PRIMARY KEY,                 -- 'checked'
+        value TEXT NOT NULL
+      );
+
+      -- No foreign key to watches: the log outlives removed watches
+      CREATE TABLE alerts (
+        id       INTEGER PRIMARY KEY AUTOINCREMENT,
+        watch_id INTEGER NOT NULL,
+        user     TEXT NOT NULL,
+        rule     TEXT NOT NULL,
+        key      TEXT NOT NULL,
+        at       TEXT NOT NULL,
+        body     TEXT NOT NULL                  -- JSON AlertRecord
+      );
+      CREATE INDEX alerts_user ON alerts(user, at);
+    `,
+  },
+  {
+    version: 3,
+    name:    'pipeline runs and locks',
+    sql: `
+      CREATE TABLE pipeline_runs (
+        id           INTEGER PRIMARY KEY AUTOINCREMENT,
+        status       TEXT NOT NULL,
+        requested_at TEXT NOT NULL,
+        body         TEXT NOT NULL              -- JSON PipelineRun
+      );
+      CREATE INDEX pipeline_runs_status ON pipeline_runs(status, id);
+
+      CREATE TABLE locks (
+        name        TEXT PRIMARY KEY,
+        owner       TEXT NOT NULL,
+        acquired_at TEXT NOT NULL,
+        expires_at  TEXT NOT NULL,
+        note        TEXT
+      );
+
+      CREATE TABLE meta (
+        key   TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+      INSERT INTO meta (key, value) VALUES ('revision', '0');
+    `,
+  },
+];
+
+/** Applies pending migrations in one transaction; returns those applied. */
+export function migrate(db: Database.Database): Migration[] {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  const pending = MIGRATIONS.filter(m => m.version > current);
+  if (!pending.length) return [];
+  db.transaction(() => {
+    for (const m of pending) {
+      db.exec(m.sql);
+      db.pragma(`user_version = ${m.version}`);
+    }
+  })();
+  return pending;
+}
+
+export function schemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
@@ -0,0 +1,346 @@
+// ---------------------------------------------------------------------------
+// SQLite catalogue repository (better-sqlite3)
+//
+// Opens — and creates and migrates when needed — the database file. WAL
+// mode, so the web app keeps reading while a scraper run writes. Server
+// side only: never import this from a client component.
+// ---------------------------------------------------------------------------
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CategoryInfo, CategoryRegistry } from '../categories';
+import type { GiftData, GoogleSource } from '../gift-schema';
+import type { PriceSnapshot } from '../history';
+import type { LockInfo, PipelineRun } from '../pipeline';
+import type { AlertRecord, Recipient, Watch, Watchlist } from '../watchlist';
+import { migrate } from './migrations';
+import type { CatalogRepository, Enrichment } from './types';
+
+interface ProductRow {
+  id:                      number;
+  name:                    string;
+  category:                string;
+  stars:                   number;
+  reviews:                 number;
+  first_seen_at:           string;
+  personalization:         number;
+  description:             string | null;
+  images:                  string | null;
+  personalization_options: string | null;
+  shop:                    string;
+  url:                     string | null;
+  sku:                     string | null;
+  price:                   number;
+  stock:                   number;
+  google_results:          number | null;
+  google_source:           string | null;
+}
+
+const SELECT_PRODUCTS = `
+  SELECT p.*, o.shop, o.url, o.sku, o.price, o.stock, e.google_results, e.google_source
+  FROM products p
+  JOIN offers o          ON o.product_id = p.id
+  LEFT JOIN enrichment e ON e.product_id = p.id`;
+
+/** Row → GiftData, leaving optional fields out rather than null. */
+function toGift(r: ProductRow): GiftData {
+  const g: GiftData = {
+    id:              r.id,
+    shop:            r.shop,
+    name:            r.name,
+    category:        r.category,
+    price:           r.price,
+    stars:           r.stars,
+    reviews:         r.reviews,
+    firstSeenAt:     r.first_seen_at,
+    personalization: !!r.personalization,
+    stock:           !!r.stock,
+    googleResults:   r.google_results ?? 0,
+  };
+  if (r.google_source)           g.googleSource           = r.google_source as GoogleSource;
+  if (r.url !== null)            g.url                    = r.url;
+  if (r.sku !== null)            g.sku                    = r.sku;
+  if (r.description !== null)    g.description            = r.description;
+  if (r.images)                  g.images                 = JSON.parse(r.images);
+  if (r.personalization_options) g.personalizationOptions = JSON.parse(r.personalization_options);
+  return g;
+}
+
+const json = (v: unknown[] | undefined) => (v ? JSON.stringify(v) : null);
+
+export function openSqliteRepository(file: string): CatalogRepository {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+
+  const stmt = {
+    all:        db.prepare(`${SELECT_PRODUCTS} ORDER BY p.id`),
+    one:        db.prepare(`${SELECT_PRODUCTS} WHERE p.id = ?`),
+    product:    db.prepare(`
+      INSERT INTO products (id, name, category, stars, reviews, first_seen_at, personalization,
+                            description, images, personalization_options)
+      VALUES (@id, @name, @category, @stars, @reviews, @firstSeenAt, @personalization,
+              @description, @images, @personalizationOptions)
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name, category = excluded.category, stars = excluded.stars,
+        reviews = excluded.reviews, first_seen_at = excluded.first_seen_at,
+        personalization = excluded.personalization, description = excluded.description,
+        images = excluded.images, personalization_options = excluded.personalization_options`),
+    offer:      db.prepare(`
+      INSERT INTO offers (product_id, shop, url, sku, price, stock, updated_at)
+      VALUES (@id, @shop, @url, @sku, @price, @stock, @now)
+      ON CONFLICT (product_id) DO UPDATE SET
+        shop = excluded.shop, url = excluded.url, sku = excluded.sku, price = excluded.price,
+        stock = excluded.stock, updated_at = excluded.updated_at`),
+    enrichment: db.prepare(`
+      INSERT INTO enrichment (product_id, google_results, google_source, updated_at)
+      VALUES (@id, @googleResults, @googleSource, @now)
+      ON CONFLICT (product_id) DO UPDATE SET
+        google_results = excluded.google_results, google_source = excluded.google_source,
+        updated_at = excluded.updated_at`),
+    snapshots:  db.prepare('SELECT id, taken_at FROM snapshots ORDER BY id'),
+    items:      db.prepare('SELECT snapshot_id, key, name, price, stock FROM snapshot_items'),
+    snapshot:   db.prepare('INSERT INTO snapshots (taken_at) VALUES (?)'),
+    item:       db.prepare('INSERT INTO snapshot_items (snapshot_id, key, name, price, stock) VALUES (?, ?, ?, ?, ?)'),
+    categories: db.prepare('SELECT * FROM categories ORDER BY position'),
+    aliases:    db.prepare('SELECT alias, category_id FROM category_aliases ORDER BY alias'),
+    category:   db.prepare(`
+      INSERT INTO categories (id, slug, name, labels, icon, color, parent_id, auto, position)
+      VALUES (@id, @slug, @name, @labels, @icon, @color, @parent, @auto, @position)`),
+    alias:      db.prepare('INSERT INTO category_aliases (alias, category_id) VALUES (?, ?)'),
+    users:      db.prepare('SELECT * FROM watch_users ORDER BY name'),
+    watches:    db.prepare('SELECT * FROM watches ORDER BY id'),
+    hits:       db.prepare('SELECT hit FROM watch_hits ORDER BY hit'),
+    user:       db.prepare('INSERT INTO watch_users (name, email, telegram, webhook) VALUES (@name, @email, @telegram, @webhook)'),
+    watch:      db.prepare(`
+      INSERT INTO watches (id, user, product, category, label, rules, channels, created_at)
+      VALUES (@id, @user, @product, @category, @label, @rules, @channels, @createdAt)`),
+    hit:        db.prepare('INSERT INTO watch_hits (hit) VALUES (?)'),
+    checked:    db.prepare("SELECT value FROM watch_state WHERE key = 'checked'"),
+    setChecked: db.prepare("INSERT INTO watch_state (key, value) VALUES ('checked', ?)"),
+    alerts:     db.prepare('SELECT body FROM alerts ORDER BY id DESC LIMIT ?'),
+    alert:      db.prepare('INSERT INTO alerts (watch_id, user, rule, key, at, body) VALUES (?, ?, ?, ?, ?, ?)'),
+    runs:       db.prepare('SELECT body FROM pipeline_runs ORDER BY id DESC LIMIT ?'),
+    run:        db.prepare('SELECT body FROM pipeline_runs WHERE id = ?'),
+    insertRun:  db.prepare('INSERT INTO pipeline_runs (id, status, requested_at, body) VALUES (@id, @status, @requestedAt, @body)'),
+    updateRun:  db.prepare('UPDATE pipeline_runs SET status = @status, body = @body WHERE id = @id'),
+    lock:       db.prepare('SELECT name, owner, acquired_at, expires_at, note FROM locks WHERE name = ?'),
+    takeLock:   db.prepare(`
+      INSERT INTO locks (name, owner, acquired_at, expires_at, note) VALUES (@name, @owner, @now, @expires, @note)
+      ON CONFLICT (name) DO UPDATE SET
+        owner = excluded.owner, expires_at = excluded.expires_at, note = excluded.note,
+        acquired_at = CASE WHEN locks.owner = excluded.owner THEN locks.acquired_at ELSE excluded.acquired_at END`),
+    dropLock:   db.prepare('DELETE FROM locks WHERE name = ? AND owner = ?'),
+    revision:   db.prepare("SELECT value FROM meta WHERE key = 'revision'"),
+    bump:       db.prepare("UPDATE meta SET value = value + 1 WHERE key = 'revision'"),
+  };
+
+  const write = <T>(fn: () => T, mode: 'deferred' | 'immediate' = 'deferred'): T => {
+    const tx = db.transaction(fn);
+    return mode === 'immediate' ? tx.immediate() : tx();
+  };
+  // Writes that change what the catalogue shows also move its revision;
+  // watchlist, run and lock writes (the worker heartbeat) do not
+  const change = <T>(fn: () => T): T => write(() => {
+    const out = fn();
+    stmt.bump.run();
+    return out;
+  });
+
+  const upsert = (p: GiftData, now: string) => {
+    stmt.product.run({
+      id: p.id, name: p.name, category: p.category, stars: p.stars, reviews: p.reviews,
+      firstSeenAt: p.firstSeenAt, personalization: p.personalization ? 1 : 0,
+      description: p.description ?? null, images: json(p.images),
+      personalizationOptions: json(p.personalizationOptions),
+    });
+    stmt.offer.run({
+      id: p.id, shop: p.shop, url: p.url ?? null, sku: p.sku ?? null, price: p.price,
+      stock: p.stock ? 1 : 0, now,
+    });
+    stmt.enrichment.run({ id: p.id, googleResults: p.googleResults, googleSource: p.googleSource ?? null, now });
+  };
+
+  return {
+    kind:     'sqlite',
+    location: file,
+
+    listProducts: () => (stmt.all.all() as ProductRow[]).map(toGift),
+
+    getProduct(id) {
+      const r = stmt.one.get(id) as ProductRow | undefined;
+      return r && toGift(r);
+    },
+
+    replaceProducts(products) {
+      const now = new Date().toISOString();
+      change(() => {
+        db.exec('DELETE FROM products');   // offers and enrichment cascade
+        for (const p of products) upsert(p, now);
+      });
+    },
+
+    saveProduct(product) {
+      change(() => upsert(product, new Date().toISOString()));
+    },
+
+    setEnrichment(id, e: Enrichment) {
+      change(() => stmt.enrichment.run({
+        id, googleResults: e.googleResults, googleSource: e.googleSource, now: new Date().toISOString(),
+      }));
+    },
+
+    listSnapshots() {
+      const snaps = stmt.snapshots.all() as { id: number; taken_at: string }[];
+      const byId  = new Map<number, PriceSnapshot>(snaps.map(s => [s.id, { takenAt: s.taken_at, items: {} }]));
+      for (const it of stmt.items.iterate() as Iterable<{ snapshot_id: number; key: string; name: string; price: number; stock: number }>) {
+        const snap = byId.get(it.snapshot_id);
+        if (snap) snap.items[it.key] = { name: it.name, price: it.price, stock: !!it.stock };
+      }
+      return snaps.map(s => byId.get(s.id)!);
+    },
+
+    appendSnapshot(snap) {
+      change(() => {
+        const id = stmt.snapshot.run(snap.takenAt).lastInsertRowid;
+        for (const [key, e] of Object.entries(snap.items)) stmt.item.run(id, key, e.name, e.price, e.stock ? 1 : 0);
+      });
+    },
+
+    getCategories() {
+      const rows = stmt.categories.all() as {
+        id: string; slug: string; name: string; labels: string; icon: string; color: string;
+        parent_id: string | null; auto: number;
+      }[];
+      const categories: CategoryInfo[] = rows.map(r => ({
+        id: r.id, slug: r.slug, name: r.name, labels: JSON.parse(r.labels), icon: r.icon,
+        color: r.color as CategoryInfo['color'], parent: r.parent_id,
+        ...(r.auto ? { auto: true } : {}),
+      }));
+      const aliases = Object.fromEntries(
+        (stmt.aliases.all() as { alias: string; category_id: string }[]).map(a => [a.alias, a.category_id]),
+      );
+      return { categories, aliases };
+    },
+
+    saveCategories(registry: CategoryRegistry) {
+      change(() => {
+        db.exec('DELETE FROM category_aliases; DELETE FROM categories;');
+        // Parents may come after their children in display order — link
+        // them once every row exists
+        db.exec('PRAGMA defer_foreign_keys = ON');
+        registry.categories.forEach((c, position) => stmt.category.run({
+          id: c.id, slug: c.slug, name: c.name, labels: JSON.stringify(c.labels), icon: c.icon,
+          color: c.color, parent: c.parent, auto: c.auto ? 1 : 0, position,
+        }));
+        for (const [alias, id] of Object.entries(registry.aliases)) stmt.alias.run(alias, id);
+      });
+    },
+
+    getWatchlist() {
+      const users: Record<string, Recipient> = {};
+      for (const u of stmt.users.all() as { name: string; email: string | null; telegram: string | null; webhook: string | null }[]) {
+        users[u.name] = {
+          ...(u.email    ? { email:    u.email }    : {}),
+          ...(u.telegram ? { telegram: u.telegram } : {}),
+          ...(u.webhook  ? { webhook:  u.webhook }  : {}),
+        };
+      }
+      const watches = (stmt.watches.all() as {
+        id: number; user: string; product: string | null; category: string | null; label: string;
+        rules: string; channels: string; created_at: string;
+      }[]).map((r): Watch => ({
+        id: r.id, user: r.user,
+        ...(r.product  !== null ? { product:  r.product }  : {}),
+        ...(r.category !== null ? { category: r.category } : {}),
+        label: r.label, rules: JSON.parse(r.rules), channels: JSON.parse(r.channels), createdAt: r.created_at,
+      }));
+      const hits    = (stmt.hits.all() as { hit: string }[]).map(h => h.hit);
+      const checked = (stmt.checked.get() as { value: string } | undefined)?.value;
+      return { users, watches, hits, ...(checked ? { checked } : {}) };
+    },
+
+    saveWatchlist(list: Watchlist) {
+      write(() => {
+        db.exec('DELETE FROM watch_state; DELETE FROM watch_hits; DELETE FROM watches; DELETE FROM watch_users;');
+        for (const [name, r] of Object.entries(list.users)) {
+          stmt.user.run({ name, email: r.email ?? null, telegram: r.telegram ?? null, webhook: r.webhook ?? null });
+        }
+        for (const w of list.watches) stmt.watch.run({
+          id: w.id, user: w.user, product: w.product ?? null, category: w.category ?? null, label: w.label,
+          rules: JSON.stringify(w.rules), channels: JSON.stringify(w.channels), createdAt: w.createdAt,
+        });
+        for (const h of list.hits) stmt.hit.run(h);
+        if (list.checked) stmt.setChecked.run(list.checked);
+      });
+    },
+
+    // LIMIT -1 = no limit
+    listAlerts: (limit = 100) => (stmt.alerts.all(Number.isFinite(limit) ? limit : -1) as { body: string }[]).map(r => JSON.parse(r.body)),
+
+    appendAlerts(alerts: AlertRecord[]) {
+      write(() => {
+        for (const a of alerts) stmt.alert.run(a.watchId, a.user, a.rule, a.key, a.at, JSON.stringify(a));
+      });
+    },
+
+    // LIMIT -1 = no limit
+    listRuns: (limit = 50) => (stmt.runs.all(Number.isFinite(limit) ? limit : -1) as { body: string }[]).map(r => JSON.parse(r.body)),
+
+    getRun(id) {
+      const r = stmt.run.get(id) as { body: string } | undefined;
+      return r && JSON.parse(r.body);
+    },
+
+    saveRun(run: PipelineRun) {
+      return write(() => {
+        if (run.id) {
+          const body = JSON.stringify(run);
+          if (stmt.updateRun.run({ id: run.id, status: run.status, body }).changes === 0) {
+            stmt.insertRun.run({ id: run.id, status: run.status, requestedAt: run.requestedAt, body });
+          }
+          return run;
+        }
+        const id = Number(stmt.insertRun.run({ id: null, status: run.status, requestedAt: run.requestedAt, body: '{}' }).lastInsertRowid);
+        const saved = { ...run, id };
+        stmt.updateRun.run({ id, status: saved.status, body: JSON.stringify(saved) });
+        return saved;
+      });
+    },
+
+    // Check and take in one IMMEDIATE transaction (write lock up front), so
+    // two processes racing for the lock cannot both win
+    acquireLock(name, owner, ttlMs, note) {
+      return write(() => {
+        const now  = new Date();
+        const held = stmt.lock.get(name) as { owner: string; expires_at: string } | undefined;
+        if (held && held.owner !== owner && Date.parse(held.expires_at) > now.getTime()) return false;
+        stmt.takeLock.run({
+          name, owner, now: now.toISOString(), expires: new Date(now.getTime() + ttlMs).toISOString(), note: note ?? null,
+        });
+        return true;
+      }, 'immediate');
+    },
+
+    releaseLock(name, owner) {
+      write(() => stmt.dropLock.run(name, owner));
+    },
+
+    getLock(name): LockInfo | undefined {
+      const r = stmt.lock.get(name) as { name: string; owner: string; acquired_at: string; expires_at: string; note: string | null } | undefined;
+      return r && {
+        name: r.name, owner: r.owner, acquiredAt: r.acquired_at, expiresAt: r.expires_at,
+        ...(r.note !== null ? { note: r.note } : {}),
+      };
+    },
+
+    revision: () => String((stmt.revision.get() as { value: string }).value),
+
+    transaction: write,
+
+    close: () => db.close(),
+  };
+}
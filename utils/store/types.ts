@@ -0,0 +1,84 @@
+// ---------------------------------------------------------------------------
+// Catalogue repository
+//
+// The one interface every reader and writer of catalogue data goes
+// through: the scraper, the importers, enrichment, the reports and the API.
+// Two implementations:
+//
+//   SqliteRepository (./sqlite.ts) — data/catalog.db, the default
+//   JsonRepository   (./json.ts)   — data/gifts.json + price-history.json +
+//                                    categories.json, the pre-database files
+//
+// The interface is synchronous: both backends are local (better-sqlite3 and
+// fs), and callers run whole scrapes or requests against a single process.
+// ---------------------------------------------------------------------------
+
+import type { CategoryRegistry } from '../categories';
+import type { GiftData, GoogleSource } from '../gift-schema';
+import type { PriceSnapshot } from '../history';
+import type { LockInfo, PipelineRun } from '../pipeline';
+import type { AlertRecord, Watchlist } from '../watchlist';
+
+export type StoreKind = 'sqlite' | 'json';
+
+/** External data attached to a product (today: Google result counts). */
+export interface Enrichment {
+  googleResults: number;
+  googleSource:  GoogleSource;
+}
+
+export interface CatalogRepository {
+  readonly kind:     StoreKind;
+  /** Database file or gifts JSON path, for messages. */
+  readonly location: string;
+
+  // Products ---------------------------------------------------------------
+  /** All products, by id. */
+  listProducts(): GiftData[];
+  getProduct(id: number): GiftData | undefined;
+  /** Replaces the whole catalogue (a scrape or import run). */
+  replaceProducts(products: GiftData[]): void;
+  /** Inserts or updates one product, matched by id. */
+  saveProduct(product: GiftData): void;
+  setEnrichment(id: number, enrichment: Enrichment): void;
+
+  // Price history ----------------------------------------------------------
+  /** Snapshots, oldest first. */
+  listSnapshots(): PriceSnapshot[];
+  appendSnapshot(snapshot: PriceSnapshot): void;
+
+  // Categories -------------------------------------------------------------
+  getCategories(): CategoryRegistry;
+  saveCategories(registry: CategoryRegistry): void;
+
+  // Watchlist (utils/watchlist.ts) -----------------------------------------
+  getWatchlist(): Watchlist;
+  /** Replaces users, watches and hits. */
+  saveWatchlist(watchlist: Watchlist): void;
+  /** Alert log, newest first. */
+  listAlerts(limit?: number): AlertRecord[];
+  appendAlerts(alerts: AlertRecord[]): void;
+
+  // Pipeline runs and locks (utils/pipeline.ts) ----------------------------
+  /** Runs, newest first. */
+  listRuns(limit?: number): PipelineRun[];
+  getRun(id: number): PipelineRun | undefined;
+  /** Inserts a run with id 0 under the next id, else updates it; returns it. */
+  saveRun(run: PipelineRun): PipelineRun;
+  /**
+   * Takes `name` for `owner` until now + ttlMs, or renews it when `owner`
+   * already holds it. False while someone else holds an unexpired lock.
+   */
+  acquireLock(name: string, owner: string, ttlMs: number, note?: string): boolean;
+  releaseLock(name: string, owner: string): void;
+  getLock(name: string): LockInfo | undefined;
+
+  /**
+   * Changes whenever catalogue data — products, snapshots, categories —
+   * changes, here or in another process.
+   */
+  revision(): string;
+  /** Runs `fn` so that either all of its writes land or none do. */
+  transaction<T>(fn: () => T): T;
+  close(): void;
+}
@@ -0,0 +1,176 @@
+// ---------------------------------------------------------------------------
+// Table view state ⇄ URL
+//
+// Everything that decides what the main table shows — category, search,
+// sort, quick-sort mode, filters (utils/filters.ts), scoring profile and
+// its rating prior, what happens to flagged listings (utils/anomalies.ts) —
+// lives in the page's query string so a view can be reloaded, shared and
+// walked with back/forward. The same parser runs on the server (deep-link render) and
+// in the browser, so both always agree on the view.
+//
+//   /?category=Брелки&q=кулак&quick=value&shop=podaroktut&grouped=1&profile=budget
+//     &prior=25&priorMean=global&maxPrice=500&inStock=1&minStars=4.5&flagged=hide
+//
+// Defaults are omitted from the URL; unknown or malformed values fall back
+// to their defaults instead of erroring, since URLs get hand-edited.
+// ---------------------------------------------------------------------------
+
+import {
+  DEFAULT_PROFILE, MAX_PRIOR_STRENGTH, PRIOR_MEANS, SCORING_PROFILES, getScoringProfile, withRatingPrior,
+  type RatingPrior, type ScoringProfile,
+} from './engine';
+import { FLAGGED_MODES, type FlaggedMode } from './anomalies';
+import { NO_FILTERS, filtersToParams, parseFilters, type GiftFilters } from './filters';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const SORT_KEYS = [
+  'name', 'category', 'shop', 'price', 'googleResults', 'score', 'value', 'priceDrop',
+] as const;
+export type SortKey = typeof SORT_KEYS[number];
+export type SortDir = 'asc' | 'desc';
+
+/** One-click sorts in the analytics bar; they override the column sort. */
+export const QUICK_SORTS = {
+  value: 'value',
+  pop:   'googleResults',
+  drop:  'priceDrop',
+} as const satisfies Record<string, SortKey>;
+export type QuickSort = keyof typeof QUICK_SORTS;
+
+export interface ViewState {
+  category: string;            // 'All' = no filter
+  shop:     string;            // 'All' = no filter
+  search:   string;
+  sort:     SortKey;
+  dir:      SortDir;
+  quick:    QuickSort | null;
+  grouped:  boolean;
+  profile:  string;            // ScoringProfile id
+  /** Rating prior overrides; null = the profile's own. */
+  prior:     number | null;
+  priorMean: RatingPrior['mean'] | null;
+  filters:  GiftFilters;
+  flagged:  FlaggedMode;
+}
+
+export const DEFAULT_VIEW: ViewState = {
+  category: 'All',
+  shop:     'All',
+  search:   '',
+  sort:     'value',
+  dir:      'desc',
+  quick:    null,
+  grouped:  false,
+  profile:  DEFAULT_PROFILE.id,
+  prior:     null,
+  priorMean: null,
+  filters:  NO_FILTERS,
+  flagged:  'derank',
+};
+
+/** Anything `searchParams` can come as: URLSearchParams or a Next.js record. */
+export type ParamSource = URLSearchParams | Record<string, string | string[] | undefined>;
+
+// ---------------------------------------------------------------------------
+// Parsing / serialising
+// ---------------------------------------------------------------------------
+
+function getter(src: ParamSource): (key: string) => string | undefined {
+  if (src instanceof URLSearchParams) return key => src.get(key) ?? undefined;
+  return key => {
+    const v = src[key];
+    return Array.isArray(v) ? v[0] : v;
+  };
+}
+
+/** Text columns sort A→Я by default, numbers best-first. */
+export function defaultDir(key: SortKey): SortDir {
+  return key === 'name' || key === 'category' || key === 'shop' ? 'asc' : 'desc';
+}
+
+export function parseViewState(src: ParamSource): ViewState {
+  const get  = getter(src);
+  const sort = SORT_KEYS.find(k => k === get('sort')) ?? DEFAULT_VIEW.sort;
+  const dir  = get('dir');
+  const quick   = get('quick');
+  const profile = get('profile');
+  const flagged = get('flagged');
+  const rawPrior = get('prior');
+  const prior    = rawPrior ? Number(rawPrior) : NaN;
+  return {
+    category: get('category') || DEFAULT_VIEW.category,
+    shop:     get('shop')     || DEFAULT_VIEW.shop,
+    search:   get('q')        ?? DEFAULT_VIEW.search,
+    sort,
+    dir:      dir === 'asc' || dir === 'desc' ? dir : defaultDir(sort),
+    quick:    quick && quick in QUICK_SORTS ? quick as QuickSort : null,
+    grouped:  get('grouped') === '1',
+    profile:  SCORING_PROFILES.some(p => p.id === profile) ? profile! : DEFAULT_VIEW.profile,
+    prior:     prior >= 0 && prior <= MAX_PRIOR_STRENGTH ? prior : null,
+    priorMean: PRIOR_MEANS.find(m => m === get('priorMean')) ?? null,
+    filters:  parseFilters(get).filters,
+    flagged:  FLAGGED_MODES.find(m => m === flagged) ?? DEFAULT_VIEW.flagged,
+  };
+}
+
+/** Page query string for a view; default values are left out. */
+export function viewToParams(v: ViewState): URLSearchParams {
+  const qs = new URLSearchParams();
+  if (v.category !== 'All')               qs.set('category', v.category);
+  if (v.search)                           qs.set('q', v.search);
+  if (v.sort !== DEFAULT_VIEW.sort)       qs.set('sort', v.sort);
+  if (v.dir !== defaultDir(v.sort))       qs.set('dir', v.dir);
+  if (v.quick)                            qs.set('quick', v.quick);
+  if (v.shop !== 'All')                   qs.set('shop', v.shop);
+  if (v.grouped)                          qs.set('grouped', '1');
+  if (v.profile !== DEFAULT_VIEW.profile) qs.set('profile', v.profile);
+  if (v.prior !== null)                   qs.set('prior', String(v.prior));
+  if (v.priorMean)                        qs.set('priorMean', v.priorMean);
+  if (v.flagged !== DEFAULT_VIEW.flagged) qs.set('flagged', v.flagged);
+  return filtersToParams(v.filters, qs);
+}
+
+/** Effective sort: a quick-sort wins over the column sort. */
+export function activeSort(v: ViewState): { key: SortKey; dir: SortDir } {
+  return v.quick ? { key: QUICK_SORTS[v.quick], dir: 'desc' } : { key: v.sort, dir: v.dir };
+}
+
+/**
+ * `/api/gifts` query for a view (without cursor/limit). Its string form is
+ * also the identity of a loaded result on the client.
+ */
+export function catalogParams(v: ViewState): URLSearchParams {
+  const { key, dir } = activeSort(v);
+  const qs = profileParams(viewProfile(v));
+  qs.set('sort', key);
+  qs.set('dir', dir);
+  if (v.category !== 'All') qs.set('category', v.category);
+  if (v.shop     !== 'All') qs.set('shop', v.shop);
+  if (v.search.trim())      qs.set('q', v.search.trim());
+  if (v.grouped)            qs.set('grouped', '1');
+  if (v.flagged !== DEFAULT_VIEW.flagged) qs.set('flagged', v.flagged);
+  return filtersToParams(v.filters, qs);
+}
+
+/** The view's scoring profile with its rating prior overrides applied. */
+export function viewProfile(v: ViewState): ScoringProfile {
+  return withRatingPrior(getScoringProfile(v.profile), {
+    strength: v.prior ?? undefined,
+    mean:     v.priorMean ?? undefined,
+  });
+}
+
+/**
+ * `profile`, `prior` and `priorMean` params that select `p` on the API and
+ * the basket/compare pages; the prior is left out when it is the built-in one.
+ */
+export function profileParams(p: ScoringProfile, qs = new URLSearchParams()): URLSearchParams {
+  const own = getScoringProfile(p.id).ratingPrior;
+  qs.set('profile', p.id);
+  if (p.ratingPrior.strength !== own.strength) qs.set('prior', String(p.ratingPrior.strength));
+  if (p.ratingPrior.mean     !== own.mean)     qs.set('priorMean', p.ratingPrior.mean);
+  return qs;
+}
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CATEGORY_REGISTRY } from './categories';
+import type { PriceSnapshot } from './history';
+import {
+  addWatch, evaluateWatches, hitKey, EMPTY_WATCHLIST,
+  type Watch, type WatchedItem, type Watchlist,
+} from './watchlist';
+
+const item = (key: string, over: Partial<WatchedItem> = {}): WatchedItem => ({
+  key, id: key.length, name: key, category: 'Брелки', price: 500, stock: true, value: 1, ...over,
+});
+
+const snapshot = (items: WatchedItem[], takenAt = '2026-09-01T00:00:00.000Z'): PriceSnapshot => ({
+  takenAt,
+  items: Object.fromEntries(items.map(i => [i.key, { name: i.name, price: i.price, stock: i.stock }])),
+});
+
+function watching(w: Partial<Omit<Watch, 'id'>>): { list: Watchlist; watch: Watch } {
+  const { watchlist, watch } = addWatch(EMPTY_WATCHLIST, {
+    user: 'olena', label: 'x', rules: [], channels: ['webhook'], createdAt: '2026-09-01T00:00:00.000Z', ...w,
+  });
+  return { list: watchlist, watch };
+}
+
+/** Evaluates, then carries the hit set over like a saved watchlist would. */
+function run(list: Watchlist, items: WatchedItem[], previous?: PriceSnapshot) {
+  const ev = evaluateWatches(list, items, previous, CATEGORY_REGISTRY);
+  return { ...ev, list: { ...list, hits: ev.hits } };
+}
+
+test('a level rule alerts once when it starts holding, not on every run', () => {
+  const { list, watch } = watching({ product: 'turtle', rules: [{ type: 'price-at-most', price: 200 }] });
+
+  let r = run(list, [item('turtle', { price: 300 })]);
+  assert.deepEqual(r.alerts, []);
+  assert.deepEqual(r.hits, []);
+
+  r = run(r.list, [item('turtle', { price: 185 })]);
+  assert.equal(r.alerts.length, 1);
+  assert.equal(r.alerts[0].message, 'turtle: ₴185 (target ≤ ₴200)');
+  assert.deepEqual(r.hits, [hitKey(watch.id, 0, 'turtle')]);
+
+  // Still holding: remembered, silent
+  r = run(r.list, [item('turtle', { price: 180 })]);
+  assert.deepEqual(r.alerts, []);
+  assert.deepEqual(r.hits, [hitKey(watch.id, 0, 'turtle')]);
+
+  // Stops holding, then holds again: a new alert
+  r = run(r.list, [item('turtle', { price: 250 })]);
+  assert.deepEqual(r.hits, []);
+  r = run(r.list, [item('turtle', { price: 190 })]);
+  assert.equal(r.alerts.length, 1);
+});
+
+test('top-value tracks each gift of a category watch separately', () => {
+  const { list, watch } = watching({ category: 'Брелки', rules: [{ type: 'top-value', n: 2 }] });
+  const items = [item('a', { value: 3 }), item('b', { value: 2 }), item('c', { value: 1 }), item('mug', { category: 'Кубки', value: 9 })];
+
+  let r = run(list, items);
+  assert.deepEqual(r.alerts.map(a => [a.key, a.rank]), [['a', 1], ['b', 2]]);
+
+  // c overtakes b: only c is new in the top 2
+  r = run(r.list, [item('a', { value: 3 }), item('b', { value: 1 }), item('c', { value: 2 })]);
+  assert.deepEqual(r.alerts.map(a => [a.key, a.rank]), [['c', 2]]);
+  assert.deepEqual(r.hits, [hitKey(watch.id, 0, 'a'), hitKey(watch.id, 0, 'c')]);
+});
+
+test('edge rules fire on every run the change shows, with no hit kept', () => {
+  const { list } = watching({ product: 'flask', rules: [{ type: 'price-drop', pct: 10 }, { type: 'back-in-stock' }] });
+  const before = snapshot([item('flask', { price: 800, stock: false })]);
+
+  let r = run(list, [item('flask', { price: 640, stock: true })], before);
+  assert.deepEqual(r.alerts.map(a => a.rule), ['price-drop', 'back-in-stock']);
+  assert.equal(r.alerts[0].prevPrice, 800);
+  assert.equal(r.alerts[0].message, 'flask: ₴800 → ₴640 (−20 %)');
+  assert.deepEqual(r.hits, []);
+
+  // Compared with the same previous snapshot the change shows again
+  r = run(r.list, [item('flask', { price: 640, stock: true })], before);
+  assert.equal(r.alerts.length, 2);
+
+  // Against a snapshot that already has the new price, nothing changed
+  r = run(r.list, [item('flask', { price: 640, stock: true })], snapshot([item('flask', { price: 640 })]));
+  assert.deepEqual(r.alerts, []);
+});
+
+test('edge rules need a previous snapshot', () => {
+  const { list } = watching({ category: 'Брелки', rules: [{ type: 'new-in-category' }, { type: 'price-drop', pct: 1 }] });
+  assert.deepEqual(run(list, [item('a')]).alerts, []);
+
+  const r = run(list, [item('a'), item('b')], snapshot([item('a', { price: 600 })]));
+  assert.deepEqual(r.alerts.map(a => [a.key, a.rule]), [['a', 'price-drop'], ['b', 'new-in-category']]);
+});
+
+test('a price of 0 never satisfies price rules', () => {
+  const { list } = watching({ product: 'x', rules: [{ type: 'price-at-most', price: 100 }, { type: 'price-drop', pct: 5 }] });
+  assert.deepEqual(run(list, [item('x', { price: 0 })], snapshot([item('x', { price: 50 })])).alerts, []);
+});
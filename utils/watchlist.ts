@@ -0,0 +1,314 @@
+// ---------------------------------------------------------------------------
+// Watchlist and price alerts
+//
+// Users watch single gifts (by productKey) or whole categories, each watch
+// with one or more rules:
+//
+//   price-at-most  { price }   price ≤ price                    (level)
+//   top-value      { n }       Вигода rank within the category ≤ n (level)
+//   price-drop     { pct }     fell ≥ pct % since the last run  (event)
+//   back-in-stock              out of stock last run, in stock now (event)
+//   new-in-category            not in the last run's snapshot   (event,
+//                              category watches only)
+//
+// Level rules alert once when they start to hold and again only after they
+// stopped holding in between — the watchlist keeps the set of currently
+// holding (watch, rule, product) `hits`. Event rules compare with the
+// previous price snapshot, so they never fire on the very first run, and
+// run once per snapshot (`checked`).
+//
+// A category watch applies its rules to every gift in the category and its
+// subcategories (utils/categories categoryScope). Pure — evaluated after
+// each scrape by scripts/lib/watchlist.ts, stored by utils/store.
+// ---------------------------------------------------------------------------
+
+import { categoryScope, type CategoryRegistry } from './categories';
+import type { PriceSnapshot } from './history';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ChannelKind = 'webhook' | 'email' | 'telegram';
+
+export const CHANNEL_KINDS: readonly ChannelKind[] = ['webhook', 'email', 'telegram'];
+
+export type WatchRule =
+  | { type: 'price-at-most'; price: number }
+  | { type: 'top-value'; n: number }
+  | { type: 'price-drop'; pct: number }
+  | { type: 'back-in-stock' }
+  | { type: 'new-in-category' };
+
+export type RuleType = WatchRule['type'];
+
+/** Where a user's notifications go; a channel without an address is skipped. */
+export interface Recipient {
+  email?:    string;
+  /** Telegram chat id. */
+  telegram?: string;
+  /** Overrides the configured webhook URL for this user. */
+  webhook?:  string;
+}
+
+export interface Watch {
+  id:        number;
+  user:      string;
+  /** productKey of the watched gift … */
+  product?:  string;
+  /** … or the watched category (canonical name). Exactly one is set. */
+  category?: string;
+  /** Gift or category name when the watch was added, for listings. */
+  label:     string;
+  rules:     WatchRule[];
+  channels:  ChannelKind[];
+  createdAt: string;
+}
+
+export interface Watchlist {
+  users:   Record<string, Recipient>;
+  watches: Watch[];
+  /** Level rules currently holding, as hitKey() strings. */
+  hits:    string[];
+  /** takenAt of the last snapshot event rules ran against. */
+  checked?: string;
+}
+
+/** A gift as the evaluator sees it — one catalogue row. */
+export interface WatchedItem {
+  key:      string;
+  id:       number;
+  name:     string;
+  category: string;
+  price:    number;
+  stock:    boolean;
+  /** Вигода (utils/engine calculateValue) under the default profile. */
+  value:    number;
+  url?:     string;
+}
+
+export interface Alert {
+  watchId:    number;
+  user:       string;
+  rule:       RuleType;
+  key:        string;
+  productId:  number;
+  name:       string;
+  category:   string;
+  price:      number;
+  prevPrice?: number;
+  /** Вигода rank in the watched scope (top-value only). */
+  rank?:      number;
+  url?:       string;
+  /** hitKey() of a level rule; absent for event rules. */
+  hit?:       string;
+  message:    string;
+  channels:   ChannelKind[];
+  at:         string;
+}
+
+/** An alert as logged, with what each channel did with it. */
+export interface AlertRecord extends Alert {
+  /** Per channel: "sent", "stub", "skipped: …" or the error message. */
+  delivery: Partial<Record<ChannelKind, string>>;
+}
+
+export interface WatchEvaluation {
+  alerts: Alert[];
+  /** The new hit set, to be saved with the watchlist. */
+  hits:   string[];
+}
+
+export const EMPTY_WATCHLIST: Watchlist = { users: {}, watches: [], hits: [] };
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+const LEVEL_RULES = new Set<RuleType>(['price-at-most', 'top-value']);
+
+export class WatchRuleError extends Error {}
+
+/**
+ * Parses the CLI / API spelling of a rule:
+ *   "price<=500"  "drop>=10"  "top<=3"  "back-in-stock"  "new"
+ */
+export function parseRule(spec: string): WatchRule {
+  const s = spec.trim().toLowerCase();
+  const m = /^(price|drop|top)\s*(?:<=|≤|>=|≥|:|=)\s*(\d+(?:[.,]\d+)?)\s*%?$/.exec(s);
+  if (m) {
+    const n = Number(m[2].replace(',', '.'));
+    if (m[1] === 'price') return { type: 'price-at-most', price: n };
+    if (m[1] === 'drop') {
+      if (n <= 0 || n >= 100) throw new WatchRuleError(`"${spec}": drop must be between 0 and 100 %`);
+      return { type: 'price-drop', pct: n };
+    }
+    if (!Number.isInteger(n) || n < 1) throw new WatchRuleError(`"${spec}": top needs a whole number ≥ 1`);
+    return { type: 'top-value', n };
+  }
+  if (s === 'back-in-stock' || s === 'stock') return { type: 'back-in-stock' };
+  if (s === 'new' || s === 'new-in-category') return { type: 'new-in-category' };
+  throw new WatchRuleError(`Unknown rule "${spec}" (expected price<=X, drop>=P, top<=N, back-in-stock or new)`);
+}
+
+export function formatRule(r: WatchRule): string {
+  switch (r.type) {
+    case 'price-at-most':   return `price<=${r.price}`;
+    case 'top-value':       return `top<=${r.n}`;
+    case 'price-drop':      return `drop>=${r.pct}%`;
+    case 'back-in-stock':   return 'back-in-stock';
+    case 'new-in-category': return 'new';
+  }
+}
+
+/** Problems with a watch before it is saved; empty when it is fine. */
+export function checkWatch(w: Pick<Watch, 'product' | 'category' | 'rules' | 'channels'>): string[] {
+  const problems: string[] = [];
+  if (!!w.product === !!w.category) problems.push('watch exactly one product or one category');
+  if (!w.rules.length) problems.push('at least one rule is required');
+  if (w.product && w.rules.some(r => r.type === 'new-in-category')) {
+    problems.push('"new" only applies to category watches');
+  }
+  if (!w.channels.length) problems.push('at least one channel is required');
+  for (const c of w.channels) if (!CHANNEL_KINDS.includes(c)) problems.push(`unknown channel "${c}"`);
+  return problems;
+}
+
+/** Adds a watch with the next free id. */
+export function addWatch(list: Watchlist, w: Omit<Watch, 'id'>): { watchlist: Watchlist; watch: Watch } {
+  const watch = { ...w, id: Math.max(0, ...list.watches.map(x => x.id)) + 1 };
+  return { watchlist: { ...list, watches: [...list.watches, watch] }, watch };
+}
+
+/** Removes a watch and its hits. */
+export function removeWatch(list: Watchlist, id: number): Watchlist {
+  return {
+    ...list,
+    watches: list.watches.filter(w => w.id !== id),
+    hits:    list.hits.filter(h => !h.startsWith(`${id}:`)),
+  };
+}
+
+export function hitKey(watchId: number, rule: number, key: string): string {
+  return `${watchId}:${rule}:${key}`;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+const uah = (n: number) => `₴${n.toLocaleString('uk-UA')}`;
+
+function describe(rule: WatchRule, item: WatchedItem, prevPrice?: number, rank?: number): string {
+  switch (rule.type) {
+    case 'price-at-most':
+      return `${item.name}: ${uah(item.price)} (target ≤ ${uah(rule.price)})`;
+    case 'top-value':
+      return `${item.name}: #${rank} by Вигода in ${item.category} (top ${rule.n})`;
+    case 'price-drop': {
+      const pct = ((prevPrice! - item.price) / prevPrice!) * 100;
+      return `${item.name}: ${uah(prevPrice!)} → ${uah(item.price)} (−${pct.toFixed(0)} %)`;
+    }
+    case 'back-in-stock':
+      return `${item.name}: back in stock at ${uah(item.price)}`;
+    case 'new-in-category':
+      return `${item.name}: new in ${item.category} at ${uah(item.price)}`;
+  }
+}
+
+/**
+ * Runs every watch against the current catalogue. `previous` is the price
+ * snapshot of the run before this one (none on the first run);
+ * `registry` resolves category scopes.
+ */
+export function evaluateWatches(
+  list:     Watchlist,
+  items:    WatchedItem[],
+  previous: PriceSnapshot | undefined,
+  registry: CategoryRegistry,
+  at:       string = new Date().toISOString(),
+): WatchEvaluation {
+  const before = new Set(list.hits);
+  const hits   = new Set<string>();
+  const alerts: Alert[] = [];
+
+  // Вигода ranks per category scope, computed once per scope
+  const ranks = new Map<string, Map<string, number>>();
+  const rankIn = (category: string) => {
+    let r = ranks.get(category);
+    if (!r) {
+      const scope = categoryScope(category, registry);
+      r = new Map(items
+        .filter(i => scope.has(i.category))
+        .sort((a, b) => b.value - a.value)
+        .map((i, idx) => [i.key, idx + 1]));
+      ranks.set(category, r);
+    }
+    return r;
+  };
+
+  for (const w of list.watches) {
+    const scope   = w.category ? categoryScope(w.category, registry) : null;
+    const watched = scope ? items.filter(i => scope.has(i.category)) : items.filter(i => i.key === w.product);
+
+    for (const item of watched) {
+      const prev = previous?.items[item.key];
+      w.rules.forEach((rule, idx) => {
+        let rank: number | undefined;
+        let holds: boolean;
+        switch (rule.type) {
+          case 'price-at-most':
+            holds = item.price > 0 && item.price <= rule.price;
+            break;
+          case 'top-value':
+            rank  = rankIn(w.category ?? item.category).get(item.key);
+            holds = rank !== undefined && rank <= rule.n;
+            break;
+          case 'price-drop':
+            holds = !!prev && prev.price > 0 && item.price > 0 &&
+                    (prev.price - item.price) / prev.price * 100 >= rule.pct;
+            break;
+          case 'back-in-stock':
+            holds = !!prev && !prev.stock && item.stock;
+            break;
+          case 'new-in-category':
+            holds = !!previous && !prev;
+            break;
+        }
+        if (!holds) return;
+
+        const hit = LEVEL_RULES.has(rule.type) ? hitKey(w.id, idx, item.key) : undefined;
+        if (hit) {
+          hits.add(hit);
+          if (before.has(hit)) return;
+        }
+        alerts.push({
+          watchId:   w.id,
+          user:      w.user,
+          rule:      rule.type,
+          key:       item.key,
+          productId: item.id,
+          name:      item.name,
+          category:  item.category,
+          price:     item.price,
+          ...(prev ? { prevPrice: prev.price } : {}),
+          ...(rank !== undefined ? { rank } : {}),
+          ...(item.url ? { url: item.url } : {}),
+          ...(hit ? { hit } : {}),
+          message:   describe(rule, item, prev?.price, rank),
+          channels:  w.channels,
+          at,
+        });
+      });
+    }
+  }
+
+  return { alerts, hits: [...hits].sort() };
+}
+
+/** Alerts grouped per user, in first-seen order. */
+export function alertsByUser<T extends Alert>(alerts: T[]): Map<string, T[]> {
+  const out = new Map<string, T[]>();
+  for (const a of alerts) out.set(a.user, [...(out.get(a.user) ?? []), a]);
+  return out;
+}
@@ -0,0 +1,202 @@
+// ---------------------------------------------------------------------------
+// Minimal XLSX writer
+//
+// One worksheet, a bold header row, typed cells and custom number formats —
+// enough for spreadsheet exports without pulling in a spreadsheet library.
+// The workbook is a standard Office Open XML package in an uncompressed
+// (stored) ZIP, which Excel, LibreOffice and Google Sheets all open.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type XlsxCell = string | number | boolean | null | undefined;
+
+export interface XlsxColumn {
+  header: string;
+  /** Excel number format code, e.g. '"₴"#,##0' or '0.000'. */
+  numFmt?: string;
+  /** Column width in characters. */
+  width?:  number;
+}
+
+// ---------------------------------------------------------------------------
+// ZIP (store only)
+// ---------------------------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(buf: Buffer): number {
+  let c = 0xFFFFFFFF;
+  for (const b of buf) c = CRC_TABLE[(c ^ b) & 0xFF] ^ (c >>> 8);
+  return (c ^ 0xFFFFFFFF) >>> 0;
+}
+
+function zip(files: { name: string; data: Buffer }[]): Buffer {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const f of files) {
+    const name = Buffer.from(f.name, 'utf-8');
+    const crc  = crc32(f.data);
+
+    const lh = Buffer.alloc(30);
+    lh.writeUInt32LE(0x04034B50, 0);   // local file header
+    lh.writeUInt16LE(20, 4);           // version needed
+    lh.writeUInt16LE(0x0800, 6);       // UTF-8 names
+    lh.writeUInt16LE(0, 8);            // stored
+    lh.writeUInt16LE(0, 10);           // time
+    lh.writeUInt16LE(0x21, 12);        // date: 1980-01-01
+    lh.writeUInt32LE(crc, 14);
+    lh.writeUInt32LE(f.data.length, 18);
+    lh.writeUInt32LE(f.data.length, 22);
+    lh.writeUInt16LE(name.length, 26);
+    lh.writeUInt16LE(0, 28);
+    local.push(lh, name, f.data);
+
+    const ch = Buffer.alloc(46);
+    ch.writeUInt32LE(0x02014B50, 0);   // central directory header
+    ch.writeUInt16LE(20, 4);           // version made by
+    ch.writeUInt16LE(20, 6);
+    ch.writeUInt16LE(0x0800, 8);
+    ch.writeUInt16LE(0, 10);
+    ch.writeUInt16LE(0, 12);
+    ch.writeUInt16LE(0x21, 14);
+    ch.writeUInt32LE(crc, 16);
+    ch.writeUInt32LE(f.data.length, 20);
+    ch.writeUInt32LE(f.data.length, 24);
+    ch.writeUInt16LE(name.length, 28);
+    ch.writeUInt32LE(offset, 42);      // extra/comment/disk/attrs stay 0
+    central.push(ch, name);
+
+    offset += lh.length + name.length + f.data.length;
+  }
+
+  const cdSize = central.reduce((s, b) => s + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054B50, 0);    // end of central directory
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(cdSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local, ...central, end]);
+}
+
+// ---------------------------------------------------------------------------
+// SpreadsheetML
+// ---------------------------------------------------------------------------
+
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const NS_MAIN  = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const NS_REL   = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_PKG   = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+function esc(s: string): string {
+  return s
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/** 0 → A, 25 → Z, 26 → AA */
+function colName(i: number): string {
+  let s = '';
+  for (let n = i + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+}
+
+// Style index layout in cellXfs: 0 = default, 1 = header, 2… = one per
+// distinct numFmt (custom format ids start at 164).
+function styles(formats: string[]): string {
+  const numFmts = formats.map((f, i) => `<numFmt numFmtId="${164 + i}" formatCode="${esc(f)}"/>`).join('');
+  const xfs = formats.map((_, i) =>
+    `<xf numFmtId="${164 + i}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`).join('');
+  return XML_HEAD +
+    `<styleSheet xmlns="${NS_MAIN}">` +
+    (formats.length ? `<numFmts count="${formats.length}">${numFmts}</numFmts>` : '') +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    `<cellXfs count="${2 + formats.length}">` +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+    xfs +
+    '</cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>';
+}
+
+function cell(ref: string, v: XlsxCell, style: number): string {
+  if (v === null || v === undefined || v === '') return '';
+  const s = style ? ` s="${style}"` : '';
+  if (typeof v === 'number')  return Number.isFinite(v) ? `<c r="${ref}"${s}><v>${v}</v></c>` : '';
+  if (typeof v === 'boolean') return `<c r="${ref}"${s} t="b"><v>${v ? 1 : 0}</v></c>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${esc(v)}</t></is></c>`;
+}
+
+/**
+ * Builds a one-sheet workbook. `rows` are positional, matching `columns`.
+ * The header row is bold and frozen.
+ */
+export function writeXlsx(sheetName: string, columns: XlsxColumn[], rows: XlsxCell[][]): Buffer {
+  const formats = Array.from(new Set(columns.flatMap(c => c.numFmt ? [c.numFmt] : [])));
+  const styleOf = columns.map(c => c.numFmt ? 2 + formats.indexOf(c.numFmt) : 0);
+
+  const cols = columns
+    .map((c, i) => `<col min="${i + 1}" max="${i + 1}" width="${c.width ?? 12}" customWidth="1"/>`)
+    .join('');
+  const header = `<row r="1">${columns.map((c, i) => cell(`${colName(i)}1`, c.header, 1)).join('')}</row>`;
+  const body = rows.map((r, ri) =>
+    `<row r="${ri + 2}">${r.map((v, ci) => cell(`${colName(ci)}${ri + 2}`, v, styleOf[ci])).join('')}</row>`,
+  ).join('');
+
+  const sheet = XML_HEAD +
+    `<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">` +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${cols}</cols><sheetData>${header}${body}</sheetData></worksheet>`;
+
+  // Sheet names: ≤ 31 chars, no []:*?/\
+  const name = esc(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1');
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': XML_HEAD +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>',
+    '_rels/.rels': XML_HEAD +
+      `<Relationships xmlns="${NS_PKG}">` +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+    'xl/workbook.xml': XML_HEAD +
+      `<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">` +
+      `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': XML_HEAD +
+      `<Relationships xmlns="${NS_PKG}">` +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml': sheet,
+    'xl/styles.xml': styles(formats),
+  };
+
+  return zip(Object.entries(files).map(([n, xml]) => ({ name: n, data: Buffer.from(xml, 'utf-8') })));
+}
+
+/** MIME type for .xlsx downloads. */
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';